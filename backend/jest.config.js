@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  transform: {
+    // The collaboration tests load the web client's sync code, which is type-checked with the frontend
+    "^.+\\.ts$": ["ts-jest", { diagnostics: { exclude: ["**/frontend/**"] } }],
+  },
+};
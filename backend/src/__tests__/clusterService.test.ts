@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals";
+import type { Server } from "socket.io";
+import ClusterService from "../services/clusterService";
+import { MemoryStateStore } from "../services/stateStore";
+
+type Listener = (...args: any[]) => void;
+
+interface Instance {
+  name: string;
+  service: ClusterService;
+  listeners: Map<string, Listener>;
+  running: boolean;
+}
+
+/**
+ * Instances sharing one store, with server-side emits delivered to every
+ * other running instance, as the Redis adapter does.
+ */
+function createCluster(names: string[]) {
+  // Shared as far as the instances can tell, like Redis
+  const store = Object.assign(new MemoryStateStore(), { shared: true });
+  const instances: Instance[] = [];
+
+  for (const name of names) {
+    const instance: Instance = {
+      name,
+      service: new ClusterService({ leaseMs: 1000, requestTimeoutMs: 100 }, store),
+      listeners: new Map(),
+      running: true,
+    };
+    const others = () => instances.filter(other => other !== instance && other.running);
+    const io = {
+      on: (event: string, listener: Listener) => instance.listeners.set(event, listener),
+      serverSideEmit: (event: string, payload: unknown) => others().forEach(other => other.listeners.get(event)?.(payload)),
+      serverSideEmitWithAck: (event: string, payload: unknown) =>
+        Promise.all(others().map(other => new Promise(resolve => other.listeners.get(event)?.(payload, resolve)))),
+    } as unknown as Server;
+    instance.service.attach(io);
+    instance.service.handleDocumentCall("whoami", (_io, roomId, fileId, args) => ({ ranOn: name, roomId, fileId, args }));
+    instances.push(instance);
+  }
+  return instances;
+}
+
+describe("clusterService", () => {
+  it("runs a document's calls on the instance that took it on", async () => {
+    const [a, b] = createCluster(["a", "b"]);
+
+    expect(await a.service.callOwner("room", "file", "whoami", { n: 1 })).toEqual({ ranOn: "a", roomId: "room", fileId: "file", args: { n: 1 } });
+    expect(await b.service.callOwner("room", "file", "whoami", { n: 2 })).toEqual({ ranOn: "a", roomId: "room", fileId: "file", args: { n: 2 } });
+    expect(await b.service.callOwner("room", "other", "whoami", {})).toMatchObject({ ranOn: "b" });
+  });
+
+  it("leaves documents nobody runs closed unless asked to open them", async () => {
+    const [a] = createCluster(["a", "b"]);
+
+    expect(await a.service.callOwner("room", "file", "whoami", {}, { open: false })).toBeUndefined();
+  });
+
+  it("takes over a document whose owner stopped answering", async () => {
+    const [a, b] = createCluster(["a", "b"]);
+    await a.service.callOwner("room", "file", "whoami", {});
+
+    a.running = false;
+    expect(await b.service.callOwner("room", "file", "whoami", {})).toMatchObject({ ranOn: "b" });
+  });
+
+  it("hands documents over once their owner closes", async () => {
+    const [a, b] = createCluster(["a", "b"]);
+    await a.service.callOwner("room", "file", "whoami", {});
+
+    await a.service.close();
+    expect(await b.service.callOwner("room", "file", "whoami", {}, { open: false })).toBeUndefined();
+    expect(await b.service.callOwner("room", "file", "whoami", {})).toMatchObject({ ranOn: "b" });
+  });
+
+  it("reports errors from the owner to the caller", async () => {
+    const [a, b] = createCluster(["a", "b"]);
+    a.service.handleDocumentCall("fail", () => {
+      throw new Error("no such document");
+    });
+    await a.service.callOwner("room", "file", "whoami", {});
+
+    await expect(b.service.callOwner("room", "file", "fail", {})).rejects.toThrow("no such document");
+  });
+
+  it("waits for every instance to run calls made everywhere", async () => {
+    const instances = createCluster(["a", "b", "c"]);
+    const ran: string[] = [];
+    for (const { name, service } of instances) {
+      service.handleInstanceCall("flush", async (_io, roomId) => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        ran.push(`${name}:${roomId}`);
+      });
+    }
+
+    await instances[0].service.callEverywhere("flush", "room");
+    expect(ran.sort()).toEqual(["a:room", "b:room", "c:room"]);
+  });
+});
@@ -0,0 +1,345 @@
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { Server, Socket } from "socket.io";
+import { TextOperationPayload } from "../types/socket";
+import { applyOperations, transformOperations } from "../utils/textOperations";
+import { applyServerChange, getCanonicalSnapshot, registerEditorHandlers } from "../socket/handlers/editorHandler";
+import { clusterService } from "../services/clusterService";
+
+// Documents start from this content and live only in memory
+jest.mock("../services/collaborationPersistenceService", () => ({
+  collaborationPersistenceService: {
+    load: async () => ({
+      content: "function greet(name) {\n  return `Hello, ${name}!`;\n}\n",
+      version: 0,
+      operationsLog: [],
+      snapshotVersion: 0,
+    }),
+    record: () => undefined,
+  },
+}));
+jest.mock("../services/crdtDocumentService", () => ({
+  crdtDocumentService: { applyOperations: () => null },
+}));
+
+const FRONTEND_LIB = path.resolve(__dirname, "../../../frontend/src/lib");
+const FILE_ID = "file-1";
+const ALPHABET = "abc xyz\n{}";
+
+type Handler = (data: any) => void;
+type Random = ReturnType<typeof createRandom>;
+
+// Seeded, so a failing run can be replayed from the seed in its name
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const text = (maxLength: number) =>
+    Array.from({ length: int(0, maxLength) }, () => ALPHABET[int(0, ALPHABET.length - 1)]).join("");
+  return { next, int, text, chance: (p: number) => next() < p };
+}
+
+// A random edit spanning `content`, as several retain/delete/insert parts
+function randomOperations(random: Random, content: string): TextOperationPayload[] {
+  const operations: TextOperationPayload[] = [];
+  let index = 0;
+  while (index < content.length || random.chance(0.3)) {
+    const length = random.int(0, content.length - index);
+    const roll = random.next();
+    if (roll < 0.4 && length) {
+      operations.push({ type: "retain", length });
+      index += length;
+    } else if (roll < 0.7 && length) {
+      operations.push({ type: "delete", length });
+      index += length;
+    } else {
+      operations.push({ type: "insert", text: random.text(4) || "q" });
+      if (random.chance(0.5)) break;
+    }
+  }
+  return operations;
+}
+
+interface Link {
+  connected: boolean;
+}
+
+/**
+ * Delivers messages after a random delay, so messages overtake each other,
+ * and drops everything sent or arriving while a link is partitioned. Payloads
+ * are copied as a socket would serialize them.
+ */
+class Network {
+  constructor(private random: Random, private maxDelayMs: number) {}
+
+  send(link: Link, deliver: (payload: any) => void, payload: unknown): void {
+    if (!link.connected) return;
+    const copy = payload === undefined ? undefined : JSON.parse(JSON.stringify(payload));
+    setTimeout(() => {
+      if (link.connected) deliver(copy);
+    }, this.random.int(1, this.maxDelayMs));
+  }
+}
+
+// The server's side of one client's connection, as registerEditorHandlers sees it
+class ServerSocket {
+  handlers = new Map<string, Handler>();
+  data: { roomId: string; userId: string; userName: string };
+
+  constructor(public id: string, private room: Room, public client: VirtualClient) {
+    this.data = { roomId: room.roomId, userId: client.userId, userName: client.userId };
+  }
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, handler);
+  }
+
+  emit(event: string, payload: unknown) {
+    this.room.network.send(this.client.link, data => this.client.receive(event, data), payload);
+  }
+
+  to() {
+    return { emit: (event: string, payload: unknown) => this.room.broadcast(event, payload, this.id) };
+  }
+}
+
+class FakeModel {
+  listeners: Array<() => void> = [];
+
+  constructor(private value: string) {}
+
+  getValue() {
+    return this.value;
+  }
+
+  setValue(value: string) {
+    this.value = value;
+    this.listeners.forEach(listener => listener());
+  }
+
+  edit(offset: number, deleteLength: number, text: string) {
+    this.setValue(this.value.slice(0, offset) + text + this.value.slice(offset + deleteLength));
+  }
+}
+
+/**
+ * A browser tab: its own copy of the web client's CollaborationService and
+ * socket service, bound to an editor model that random typing goes into.
+ */
+class VirtualClient {
+  link: Link = { connected: true };
+  model = new FakeModel("");
+  service: any;
+  serverSocket: ServerSocket;
+  private listeners = new Map<string, Handler>();
+  private reconnectListeners: Array<() => void> = [];
+  private socketService: Record<string, (...args: any[]) => unknown>;
+
+  constructor(public userId: string, private room: Room) {
+    this.serverSocket = new ServerSocket(`socket-${userId}`, room, this);
+    const send = (event: string, payload: unknown) =>
+      room.network.send(this.link, data => this.serverSocket.handlers.get(event)?.(data), payload);
+    const socketService = this.socketService = {
+      onCollaborativeChange: (callback: Handler) => this.listeners.set("collaborative-change", callback),
+      onCollaborativeAck: (callback: Handler) => this.listeners.set("collaborative-change-ack", callback),
+      onFileSync: (callback: Handler) => this.listeners.set("file-sync", callback),
+      onCatchUp: (callback: Handler) => this.listeners.set("collaborative-catch-up", callback),
+      onReconnect: (callback: () => void) => this.reconnectListeners.push(callback),
+      sendCollaborativeChange: (change: object) => send("collaborative-change", { ...change, roomId: room.roomId }),
+      requestCatchUp: (fileId: string, baseVersion: number) => send("request-catch-up", { fileId, baseVersion }),
+      requestFileSync: (fileId: string) => send("request-file-sync", { fileId }),
+      sendCursorUpdate: () => undefined,
+    };
+
+    jest.isolateModules(() => {
+      jest.doMock(path.join(FRONTEND_LIB, "socket"), () => ({ __esModule: true, default: socketService }));
+      jest.doMock("monaco-editor", () => ({}), { virtual: true });
+      this.service = require(path.join(FRONTEND_LIB, "collaboration")).collaborationService;
+    });
+  }
+
+  open(content: string) {
+    this.model = new FakeModel(content);
+    const noop = () => ({ dispose: () => undefined });
+    this.service.setEditor({
+      getModel: () => this.model,
+      onDidChangeModelContent: (listener: () => void) => {
+        this.model.listeners.push(listener);
+        return { dispose: () => undefined };
+      },
+      onDidChangeCursorPosition: noop,
+      onDidChangeCursorSelection: noop,
+      getPosition: () => null,
+      deltaDecorations: () => [],
+    });
+    this.service.setRoomId(this.room.roomId);
+    this.service.setUser({ id: this.userId, name: this.userId });
+    this.service.setCurrentFile(FILE_ID);
+    this.service.initializeFile(FILE_ID, content, 0);
+    this.socketService.requestFileSync(FILE_ID);
+  }
+
+  receive(event: string, data: unknown) {
+    this.listeners.get(event)?.(data);
+  }
+
+  type(random: Random) {
+    const content = this.model.getValue();
+    const offset = random.int(0, content.length);
+    const deleteLength = random.chance(0.4) ? random.int(1, Math.min(5, content.length - offset) || 1) : 0;
+    this.model.edit(offset, Math.min(deleteLength, content.length - offset), random.text(4));
+  }
+
+  partition() {
+    this.link.connected = false;
+  }
+
+  reconnect() {
+    this.link.connected = true;
+    this.reconnectListeners.forEach(listener => listener());
+  }
+}
+
+class Room {
+  clients: VirtualClient[] = [];
+  io: Server;
+
+  constructor(public roomId: string, public network: Network) {
+    // Targets are the room or one socket, as the document's owner addresses them
+    const target = (id: string, except?: string) => ({
+      emit: (event: string, payload: unknown) => {
+        if (id === roomId) this.broadcast(event, payload, except);
+        else this.clients.find(client => client.serverSocket.id === id)?.serverSocket.emit(event, payload);
+      },
+      except: (socketId: string) => target(id, socketId),
+    });
+    this.io = { on: () => undefined, to: (id: string) => target(id) } as unknown as Server;
+    // A single instance, which owns every document
+    clusterService.attach(this.io);
+  }
+
+  join(userId: string): VirtualClient {
+    const client = new VirtualClient(userId, this);
+    this.clients.push(client);
+    registerEditorHandlers(this.io, client.serverSocket as unknown as Socket);
+    return client;
+  }
+
+  broadcast(event: string, payload: unknown, exceptSocketId?: string) {
+    for (const client of this.clients) {
+      if (client.serverSocket.id !== exceptSocketId) client.serverSocket.emit(event, payload);
+    }
+  }
+}
+
+interface Scenario {
+  clients: number;
+  editsPerClient: number;
+  durationMs: number;
+  maxDelayMs: number;
+  partitions: number; // Windows where one client is cut off, each up to a few hundred ms
+  serverEdits: number; // Edits applied on the server, like replace in files
+}
+
+async function simulate(seed: number, scenario: Scenario): Promise<{ clients: VirtualClient[]; canonical: string }> {
+  const random = createRandom(seed);
+  const room = new Room(`room-${seed}`, new Network(random, scenario.maxDelayMs));
+  const clients = Array.from({ length: scenario.clients }, (_, index) => room.join(`user-${index}`));
+
+  // Everyone opens the file from storage, then syncs with the live doc
+  const { collaborationPersistenceService } = jest.requireMock("../services/collaborationPersistenceService") as any;
+  const { content: stored } = await collaborationPersistenceService.load();
+  clients.forEach(client => client.open(stored));
+  await jest.advanceTimersByTimeAsync(scenario.maxDelayMs * 2);
+
+  for (const client of clients) {
+    for (let i = 0; i < scenario.editsPerClient; i++) {
+      // Bursts closer together than the client's debounce are common
+      setTimeout(() => client.type(random), random.int(0, scenario.durationMs));
+    }
+  }
+  for (let i = 0; i < scenario.partitions; i++) {
+    const client = clients[random.int(0, clients.length - 1)];
+    const start = random.int(0, scenario.durationMs);
+    setTimeout(() => client.partition(), start);
+    setTimeout(() => client.reconnect(), start + random.int(1, 400));
+  }
+  for (let i = 0; i < scenario.serverEdits; i++) {
+    setTimeout(async () => {
+      const snapshot = await getCanonicalSnapshot(room.roomId, [FILE_ID]);
+      if (!snapshot) return;
+      const operations = randomOperations(random, snapshot.content);
+      await applyServerChange(room.roomId, [FILE_ID], snapshot, operations, { userId: "user-0" });
+    }, random.int(0, scenario.durationMs));
+  }
+
+  // Run until every edit is delivered, acknowledged and broadcast
+  await jest.runAllTimersAsync();
+  clients.forEach(client => {
+    if (!client.link.connected) client.reconnect();
+  });
+  await jest.runAllTimersAsync();
+
+  return { clients, canonical: (await getCanonicalSnapshot(room.roomId, [FILE_ID]))!.content };
+}
+
+describe("transformOperations", () => {
+  it("brings concurrent edits to the same content in either order", () => {
+    for (let seed = 1; seed <= 500; seed++) {
+      const random = createRandom(seed);
+      const content = random.text(12);
+      const a = randomOperations(random, content);
+      const b = randomOperations(random, content);
+      const aThenB = applyOperations(applyOperations(content, a), transformOperations(b, a, true));
+      const bThenA = applyOperations(applyOperations(content, b), transformOperations(a, b));
+      expect({ seed, result: aThenB }).toEqual({ seed, result: bThenA });
+    }
+  });
+});
+
+describe("collaborative editing convergence", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const expectConverged = ({ clients, canonical }: { clients: VirtualClient[]; canonical: string }) => {
+    for (const client of clients) {
+      expect({ user: client.userId, content: client.model.getValue() }).toEqual({ user: client.userId, content: canonical });
+    }
+  };
+
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])("converges with three clients typing at once (seed %i)", async seed => {
+    expectConverged(await simulate(seed, {
+      clients: 3,
+      editsPerClient: 30,
+      durationMs: 1500,
+      maxDelayMs: 80,
+      partitions: 0,
+      serverEdits: 0,
+    }));
+  });
+
+  it.each([11, 12, 13, 14, 15, 16])("converges through partitions and server edits (seed %i)", async seed => {
+    expectConverged(await simulate(seed, {
+      clients: 4,
+      editsPerClient: 25,
+      durationMs: 2000,
+      maxDelayMs: 120,
+      partitions: 4,
+      serverEdits: 3,
+    }));
+  });
+});
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { execFileSync, spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildCommit, buildTrees, GitObject, hashBlob, hashObject, parseCommit, parseTree } from "../utils/gitObjects";
+import { readBundle, readGitDirectory, writeBundle, writeLooseObject } from "../utils/gitPack";
+
+const MAX_BYTES = 1024 * 1024;
+
+const files: Record<string, string> = {
+  "README.md": "# Demo\n",
+  "src/index.ts": "console.log('hi');\n",
+  "src/lib/util.ts": "export const x = 1;\n",
+  "src-extra.txt": "sorts between src and src/ in git\n",
+};
+
+// A one-commit history built the way the version control service builds it
+function buildHistory(): { objects: GitObject[]; commit: GitObject } {
+  const blobs = Object.values(files).map(content => hashObject("blob", Buffer.from(content)));
+  const trees = buildTrees(
+    Object.entries(files).map(([filePath, content]) => ({
+      path: filePath,
+      blobHash: hashBlob(Buffer.from(content)),
+      size: content.length,
+    }))
+  );
+  const commit = buildCommit({
+    treeHash: trees[trees.length - 1].hash,
+    parents: [],
+    author: { name: "Ada", email: "ada@example.com" },
+    message: "Initial commit",
+    timestamp: new Date("2024-01-02T03:04:05Z"),
+  });
+  return { objects: [...blobs, ...trees, commit], commit };
+}
+
+const hasGit = spawnSync("git", ["--version"]).status === 0;
+const git = (cwd: string, ...args: string[]) => execFileSync("git", args, { cwd, encoding: "utf8" });
+
+describe("gitPack", () => {
+  it("reads back the objects and refs of a bundle it wrote", () => {
+    const { objects, commit } = buildHistory();
+    const bundle = writeBundle([{ name: "refs/heads/main", hash: commit.hash }], "refs/heads/main", objects);
+
+    const data = readBundle(bundle, MAX_BYTES);
+    expect(data.refs).toEqual([{ name: "refs/heads/main", hash: commit.hash }]);
+    expect(data.head).toBe("refs/heads/main");
+    expect([...data.objects.keys()].sort()).toEqual(objects.map(object => object.hash).sort());
+    expect(parseCommit(data.objects.get(commit.hash)!.data)).toMatchObject({
+      author: { name: "Ada", email: "ada@example.com" },
+      message: "Initial commit\n",
+    });
+  });
+
+  it("reads loose objects, refs and HEAD from a git directory", () => {
+    const { objects, commit } = buildHistory();
+    const directory = new Map<string, Buffer>([
+      ["HEAD", Buffer.from("ref: refs/heads/main\n")],
+      ["packed-refs", Buffer.from(`# pack-refs with: peeled\n${commit.hash} refs/heads/main\n`)],
+    ]);
+    objects.forEach(object => directory.set(`objects/${object.hash.slice(0, 2)}/${object.hash.slice(2)}`, writeLooseObject(object)));
+
+    const data = readGitDirectory(directory, MAX_BYTES);
+    expect(data.head).toBe("refs/heads/main");
+    expect(data.refs).toEqual([{ name: "refs/heads/main", hash: commit.hash }]);
+    expect(data.objects.size).toBe(objects.length);
+  });
+
+  it("rejects repositories over the size limit", () => {
+    const { objects, commit } = buildHistory();
+    const bundle = writeBundle([{ name: "refs/heads/main", hash: commit.hash }], null, objects);
+
+    expect(() => readBundle(bundle, 10)).toThrow();
+  });
+
+  (hasGit ? describe : describe.skip)("with git", () => {
+    let workDir: string;
+
+    beforeAll(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), "git-pack-test-"));
+    });
+
+    afterAll(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it("writes bundles git can clone and verify", () => {
+      const { objects, commit } = buildHistory();
+      const bundlePath = path.join(workDir, "export.bundle");
+      fs.writeFileSync(bundlePath, writeBundle([{ name: "refs/heads/main", hash: commit.hash }], "refs/heads/main", objects));
+
+      git(workDir, "clone", "--quiet", bundlePath, "clone");
+      const clone = path.join(workDir, "clone");
+      git(clone, "fsck", "--full", "--strict");
+      expect(git(clone, "rev-parse", "HEAD").trim()).toBe(commit.hash);
+      for (const [filePath, content] of Object.entries(files)) {
+        expect(fs.readFileSync(path.join(clone, filePath), "utf8")).toBe(content);
+      }
+    });
+
+    it("reads bundles made by git", () => {
+      const repo = path.join(workDir, "source");
+      fs.mkdirSync(path.join(repo, "docs"), { recursive: true });
+      fs.writeFileSync(path.join(repo, "docs", "notes.md"), "notes\n");
+      git(repo, "init", "--quiet", "--initial-branch=trunk");
+      git(repo, "add", ".");
+      git(repo, "-c", "user.name=Ada", "-c", "user.email=ada@example.com", "commit", "--quiet", "-m", "Add notes");
+      git(repo, "bundle", "create", "--quiet", "../source.bundle", "--all");
+
+      const data = readBundle(fs.readFileSync(path.join(workDir, "source.bundle")), MAX_BYTES);
+      const head = git(repo, "rev-parse", "HEAD").trim();
+      expect(data.refs).toEqual([{ name: "refs/heads/trunk", hash: head }]);
+
+      const root = parseTree(data.objects.get(parseCommit(data.objects.get(head)!.data).treeHash)!.data);
+      expect(root.map(entry => entry.name)).toEqual(["docs"]);
+      const docs = parseTree(data.objects.get(root[0].hash)!.data);
+      expect(data.objects.get(docs[0].hash)!.data.toString()).toBe("notes\n");
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "@jest/globals";
+import { countLineChanges, diffLines, mergeText, splitLines } from "../utils/lineDiff";
+
+const labels = { ours: "HEAD", theirs: "feature" };
+
+describe("lineDiff", () => {
+  it("diffs lines into alternating equal and changed blocks", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+      { type: "equal", lines: ["a"] },
+      { type: "delete", lines: ["b"] },
+      { type: "insert", lines: ["x"] },
+      { type: "equal", lines: ["c"] },
+      { type: "insert", lines: ["d"] },
+    ]);
+  });
+
+  it("counts added and removed lines, ignoring the final newline", () => {
+    expect(splitLines("a\nb\n")).toEqual(["a", "b"]);
+    expect(countLineChanges("a\nb\nc\n", "a\nc\nd\ne\n")).toEqual({ additions: 2, deletions: 1 });
+  });
+
+  it("merges changes to different regions without conflicts", () => {
+    const base = "one\ntwo\nthree\nfour\nfive\n";
+    const ours = "ONE\ntwo\nthree\nfour\nfive\n";
+    const theirs = "one\ntwo\nthree\nfour\nFIVE\nsix\n";
+
+    expect(mergeText(base, ours, theirs, labels)).toEqual({ text: "ONE\ntwo\nthree\nfour\nFIVE\nsix\n", conflicts: 0 });
+  });
+
+  it("takes a change once when both sides made it", () => {
+    const base = "a\nb\nc\n";
+    const both = "a\nB\nc\n";
+
+    expect(mergeText(base, both, both, labels)).toEqual({ text: both, conflicts: 0 });
+  });
+
+  it("marks overlapping changes that disagree as conflicts", () => {
+    const base = "a\nb\nc\n";
+
+    expect(mergeText(base, "a\nours\nc\n", "a\ntheirs\nc\n", labels)).toEqual({
+      text: "a\n<<<<<<< HEAD\nours\n=======\ntheirs\n>>>>>>> feature\nc\n",
+      conflicts: 1,
+    });
+  });
+
+  it("counts each conflicting region separately", () => {
+    const base = "1\n2\n3\n4\n5\n";
+
+    const { text, conflicts } = mergeText(base, "x\n2\n3\n4\ny\n", "p\n2\n3\n4\nq\n", labels);
+    expect(conflicts).toBe(2);
+    expect(text.match(/^<<<<<<< HEAD$/gm)).toHaveLength(2);
+  });
+
+  it("keeps the trailing newline change from whichever side made it", () => {
+    expect(mergeText("a\nb\n", "a\nb", "a\nb\n", labels).text).toBe("a\nb");
+    expect(mergeText("a\nb", "a\nb", "a\nb\n", labels).text).toBe("a\nb\n");
+  });
+});
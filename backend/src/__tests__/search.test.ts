@@ -0,0 +1,122 @@
+import { describe, expect, it } from "@jest/globals";
+import SearchService, { SearchError } from "../services/searchService";
+import WorkspaceService from "../services/workspaceService";
+import { createPathFilter, globToRegExp, parseGlobList } from "../utils/globPattern";
+import { FileSearchQuery } from "../types/filesystem";
+
+const service = new SearchService({ maxFileBytes: 1024, maxResults: 100, timeoutMs: 100 }, new WorkspaceService(0));
+
+const query = (overrides: Partial<FileSearchQuery>): FileSearchQuery => ({
+  query: "",
+  caseSensitive: false,
+  wholeWord: false,
+  useRegex: false,
+  include: [],
+  exclude: [],
+  ...overrides,
+});
+
+describe("globToRegExp", () => {
+  const matches = (pattern: string, path: string) => globToRegExp(pattern).test(path);
+
+  it("matches names without a slash at any depth", () => {
+    expect(matches("*.ts", "index.ts")).toBe(true);
+    expect(matches("*.ts", "src/lib/index.ts")).toBe(true);
+    expect(matches("*.ts", "src/index.tsx")).toBe(false);
+  });
+
+  it("anchors patterns with a slash at the root", () => {
+    expect(matches("src/*.ts", "src/index.ts")).toBe(true);
+    expect(matches("src/*.ts", "src/lib/index.ts")).toBe(false);
+    expect(matches("src/**/*.ts", "src/lib/index.ts")).toBe(true);
+    expect(matches("/index.ts", "lib/index.ts")).toBe(false);
+  });
+
+  it("matches everything inside a folder it names", () => {
+    expect(matches("node_modules", "node_modules/react/index.js")).toBe(true);
+    expect(matches("docs/", "docs/guide/intro.md")).toBe(true);
+  });
+
+  it("supports ?, braces and character classes", () => {
+    expect(matches("file?.txt", "file1.txt")).toBe(true);
+    expect(matches("*.{ts,tsx}", "app.tsx")).toBe(true);
+    expect(matches("*.{ts,tsx}", "app.js")).toBe(false);
+    expect(matches("v[0-9].md", "v3.md")).toBe(true);
+    expect(matches("v[!0-9].md", "v3.md")).toBe(false);
+    expect(matches("v[!0-9].md", "vx.md")).toBe(true);
+  });
+
+  it("treats regex syntax in a class as plain characters", () => {
+    expect(matches("[]x].txt", "].txt")).toBe(true);
+    expect(matches("[\\]x].txt", "\\x].txt")).toBe(true);
+    expect(matches("a[^b].txt", "a^.txt")).toBe(true);
+  });
+
+  it("matches a class that can't compile literally instead of throwing", () => {
+    expect(() => globToRegExp("[z-a]")).not.toThrow();
+    expect(matches("[z-a].txt", "[z-a].txt")).toBe(true);
+    expect(matches("[z-a].txt", "b.txt")).toBe(false);
+  });
+});
+
+describe("glob filters", () => {
+  it("splits on commas outside braces", () => {
+    expect(parseGlobList("src/**, *.{ts,tsx} ,, docs")).toEqual(["src/**", "*.{ts,tsx}", "docs"]);
+    expect(parseGlobList(["a", 1, " b "])).toEqual(["a", "b"]);
+  });
+
+  it("applies excludes after includes", () => {
+    const included = createPathFilter(["src"], ["*.test.ts"]);
+    expect(included("src/app.ts")).toBe(true);
+    expect(included("src/app.test.ts")).toBe(false);
+    expect(included("docs/readme.md")).toBe(false);
+    expect(createPathFilter()("anything")).toBe(true);
+  });
+});
+
+describe("searchService", () => {
+  it("finds literal matches with their line, column and offset", () => {
+    const pattern = service.compilePattern(query({ query: "a.b" }));
+    const matches = service.findMatches("xa.b\naxb a.b\n", pattern);
+
+    expect(matches.map(({ line, column, index, text }) => ({ line, column, index, text }))).toEqual([
+      { line: 1, column: 2, index: 1, text: "a.b" },
+      { line: 2, column: 5, index: 9, text: "a.b" },
+    ]);
+  });
+
+  it("matches whole words and case as asked", () => {
+    const content = "cat Cat concat cat_";
+
+    expect(service.findMatches(content, service.compilePattern(query({ query: "cat" }))).length).toBe(4);
+    expect(service.findMatches(content, service.compilePattern(query({ query: "cat", caseSensitive: true }))).length).toBe(3);
+    expect(service.findMatches(content, service.compilePattern(query({ query: "cat" })), { wholeWord: true })
+      .map(match => match.column)).toEqual([1, 5]);
+  });
+
+  it("expands regex references in replacements", () => {
+    const pattern = service.compilePattern(query({ query: "(\\w+)@(\\w+)", useRegex: true }));
+    const [match] = service.findMatches("mail bob@example now", pattern, { replacement: "$2 <$1> $$", expandReplacement: true });
+
+    expect(match.replacement).toBe("example <bob> $");
+  });
+
+  it("stops at the limit and skips empty matches", () => {
+    const pattern = service.compilePattern(query({ query: "x*", useRegex: true }));
+
+    expect(service.findMatches("ax\nxx\nx", pattern, { limit: 2 }).map(match => match.text)).toEqual(["x", "xx"]);
+  });
+
+  it("rejects invalid patterns with a SearchError", () => {
+    expect(() => service.compilePattern(query({ query: "(", useRegex: true }))).toThrow(SearchError);
+    expect(() => service.compilePattern(query({ query: "" }))).toThrow(SearchError);
+  });
+
+  it("gives up on a pattern that backtracks past the deadline", () => {
+    const pattern = service.compilePattern(query({ query: "(a+)+$", useRegex: true }));
+    const started = Date.now();
+
+    expect(() => service.findMatches(`${"a".repeat(40)}b`, pattern, { deadline: Date.now() + 50 })).toThrow(SearchError);
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
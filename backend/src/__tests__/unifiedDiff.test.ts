@@ -0,0 +1,146 @@
+import { describe, expect, it } from "@jest/globals";
+import { applyHunks, createHunks, parseUnifiedDiff } from "../utils/unifiedDiff";
+
+describe("parseUnifiedDiff", () => {
+  it("reads file patches out of surrounding prose and code fences", () => {
+    const text = [
+      "Here is the fix:",
+      "```diff",
+      "diff --git a/src/app.ts b/src/app.ts",
+      "index 1234567..89abcde 100644",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -2,3 +2,3 @@ function main() {",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      " return a + b;",
+      "```",
+      "That should do it.",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(text)).toEqual([{
+      oldPath: "src/app.ts",
+      newPath: "src/app.ts",
+      hunks: [{ oldStart: 2, lines: [" const a = 1;", "-const b = 2;", "+const b = 3;", " return a + b;"] }],
+    }]);
+  });
+
+  it("maps /dev/null to created and deleted files", () => {
+    const text = [
+      "--- /dev/null",
+      "+++ b/docs/new.md",
+      "@@ -0,0 +1 @@",
+      "+# New",
+      "--- a/old.txt\t2024-01-01 00:00:00",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-gone",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(text).map(({ oldPath, newPath }) => ({ oldPath, newPath }))).toEqual([
+      { oldPath: null, newPath: "docs/new.md" },
+      { oldPath: "old.txt", newPath: null },
+    ]);
+  });
+
+  it("accepts bare hunk headers, several hunks and CRLF line endings", () => {
+    const text = "--- a/a.txt\r\n+++ b/a.txt\r\n@@ ... @@\r\n-x\r\n+y\r\n@@ -10,2 +10,2 @@\r\n z\r\n-w\r\n";
+
+    expect(parseUnifiedDiff(text)[0].hunks).toEqual([
+      { oldStart: 1, lines: ["-x", "+y"] },
+      { oldStart: 10, lines: [" z", "-w"] },
+    ]);
+  });
+
+  it("treats blank lines inside a hunk as context and skips no-newline markers", () => {
+    const text = [
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,3 +1,3 @@",
+      " first",
+      "",
+      "-last",
+      "\\ No newline at end of file",
+      "+LAST",
+      "",
+      "",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(text)[0].hunks[0].lines).toEqual([" first", " ", "-last", "+LAST"]);
+  });
+
+  it("drops hunks without changes and patches without hunks", () => {
+    const text = [
+      "--- a/same.txt",
+      "+++ b/same.txt",
+      "@@ -1 +1 @@",
+      " unchanged",
+      "--- a/empty.txt",
+      "+++ b/empty.txt",
+    ].join("\n");
+
+    expect(parseUnifiedDiff(text)).toEqual([]);
+    expect(parseUnifiedDiff("no diff here")).toEqual([]);
+  });
+});
+
+describe("applyHunks", () => {
+  it("applies hunks in order, following lines earlier hunks added", () => {
+    const content = "a\nb\nc\nd\ne\nf\n";
+    const hunks = [
+      { oldStart: 1, lines: [" a", "+a2", " b"] },
+      { oldStart: 5, lines: [" e", "-f", "+F"] },
+    ];
+
+    expect(applyHunks(content, hunks)).toEqual({ content: "a\na2\nb\nc\nd\ne\nF\n", failed: [] });
+  });
+
+  it("finds hunks whose line numbers are off or whose indentation differs", () => {
+    const content = "one\n  two\nthree\nfour\n";
+
+    // The located lines are written as the hunk gives them
+    expect(applyHunks(content, [{ oldStart: 40, lines: [" two", "-three", "+THREE"] }]).content)
+      .toBe("one\ntwo\nTHREE\nfour\n");
+  });
+
+  it("reports hunks that can't be placed and applies the rest", () => {
+    const result = applyHunks("a\nb\n", [
+      { oldStart: 1, lines: ["-missing", "+x"] },
+      { oldStart: 2, lines: ["-b", "+B"] },
+    ]);
+
+    expect(result).toEqual({ content: "a\nB\n", failed: [0] });
+  });
+
+  it("creates a file from a hunk with nothing to remove and keeps a missing final newline", () => {
+    expect(applyHunks("", [{ oldStart: 0, lines: ["+hello"] }]).content).toBe("hello\n");
+    expect(applyHunks("a\nb", [{ oldStart: 2, lines: ["-b", "+c"] }]).content).toBe("a\nc");
+  });
+});
+
+describe("createHunks", () => {
+  it("numbers hunks in both texts and keeps distant changes apart", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+    const after = before.replace("line 2\n", "LINE 2\n").replace("line 18\n", "");
+
+    const hunks = createHunks(before, after, 1);
+    expect(hunks.map(({ oldStart, newStart }) => ({ oldStart, newStart }))).toEqual([
+      { oldStart: 1, newStart: 1 },
+      { oldStart: 17, newStart: 17 },
+    ]);
+    expect(hunks[0].lines).toEqual([" line 1", "-line 2", "+LINE 2", " line 3"]);
+    expect(hunks[1].lines).toEqual([" line 17", "-line 18", " line 19"]);
+  });
+
+  it("merges changes closer than twice the context into one hunk", () => {
+    expect(createHunks("a\nb\nc\nd\n", "A\nb\nc\nD\n", 1)).toHaveLength(1);
+  });
+
+  it("produces hunks that turn the old text into the new one", () => {
+    const before = "import a\n\nfunction f() {\n  return 1;\n}\n\nexport default f;\n";
+    const after = "import a\nimport b\n\nfunction f() {\n  return b(2);\n}\n\nexport default f;\n";
+
+    expect(applyHunks(before, createHunks(before, after))).toEqual({ content: after, failed: [] });
+  });
+});
@@ -8,3 +8,95 @@ export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "24h";
 export const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || "7d";
 export const MONGO_URI = process.env.MONGO_URI || "mongodb://localhost:27017/hivecodex";
 export const PORT = Number(process.env.PORT) || 5000;
+
+// Code execution sandbox limits
+export const EXECUTION_TIMEOUT_MS = Number(process.env.EXECUTION_TIMEOUT_MS) || 10000;
+export const EXECUTION_INTERACTIVE_TIMEOUT_MS = Number(process.env.EXECUTION_INTERACTIVE_TIMEOUT_MS) || 5 * 60 * 1000;
+export const EXECUTION_CPU_SECONDS = Number(process.env.EXECUTION_CPU_SECONDS) || 5;
+export const EXECUTION_MEMORY_MB = Number(process.env.EXECUTION_MEMORY_MB) || 256;
+export const EXECUTION_MAX_OUTPUT_BYTES = Number(process.env.EXECUTION_MAX_OUTPUT_BYTES) || 1024 * 1024;
+export const EXECUTION_MAX_WORKSPACE_BYTES = Number(process.env.EXECUTION_MAX_WORKSPACE_BYTES) || 50 * 1024 * 1024;
+export const EXECUTION_MAX_SOURCE_LENGTH = 200 * 1024;
+
+// Source control import limits (upload size, and total size once unpacked)
+export const VCS_IMPORT_MAX_BYTES = Number(process.env.VCS_IMPORT_MAX_BYTES) || 50 * 1024 * 1024;
+export const VCS_IMPORT_MAX_UNPACKED_BYTES = Number(process.env.VCS_IMPORT_MAX_UNPACKED_BYTES) || 200 * 1024 * 1024;
+
+// File version retention: versions beyond the count or older than the age are pruned
+export const FILE_VERSION_MAX_COUNT = Number(process.env.FILE_VERSION_MAX_COUNT) || 50;
+export const FILE_VERSION_MAX_AGE_DAYS = Number(process.env.FILE_VERSION_MAX_AGE_DAYS ?? 30) || 0;
+
+// Collaborative editing: live documents are written back to their files once edits pause
+// for the checkpoint delay, and at least every max delay while they go on. Operations in
+// between are logged, in batches per flush interval, and replayed after a crash
+export const COLLAB_CHECKPOINT_DELAY_MS = Number(process.env.COLLAB_CHECKPOINT_DELAY_MS) || 5000;
+export const COLLAB_CHECKPOINT_MAX_DELAY_MS = Number(process.env.COLLAB_CHECKPOINT_MAX_DELAY_MS) || 30000;
+export const COLLAB_LOG_FLUSH_MS = Number(process.env.COLLAB_LOG_FLUSH_MS) || 250;
+// Changes kept in memory per live document for transforming late edits and catching
+// clients up; past this the older half is compacted away
+export const COLLAB_LOG_MAX_ENTRIES = Number(process.env.COLLAB_LOG_MAX_ENTRIES) || 1000;
+// Rooms in CRDT mode: a document's Yjs state is saved once its updates pause this long
+export const CRDT_STATE_FLUSH_MS = Number(process.env.CRDT_STATE_FLUSH_MS) || 2000;
+// Running several instances: with REDIS_URL they share state and Socket.IO rooms through
+// Redis, otherwise everything stays in this process. Each live document is run by one
+// instance, which holds a lease on it that lapses this long after the instance stops
+// renewing it; calls to another instance give up after the request timeout
+export const REDIS_URL = process.env.REDIS_URL || "";
+export const DOCUMENT_LEASE_MS = Number(process.env.DOCUMENT_LEASE_MS) || 15000;
+export const CLUSTER_REQUEST_TIMEOUT_MS = Number(process.env.CLUSTER_REQUEST_TIMEOUT_MS) || 5000;
+
+// Room-wide search: files larger than this are skipped, and results stop at the match cap.
+// Matching gives up after the time limit, so a pathological regex can't stall the server
+export const SEARCH_MAX_FILE_BYTES = Number(process.env.SEARCH_MAX_FILE_BYTES) || 1024 * 1024;
+export const SEARCH_MAX_RESULTS = Number(process.env.SEARCH_MAX_RESULTS) || 2000;
+export const SEARCH_TIMEOUT_MS = Number(process.env.SEARCH_TIMEOUT_MS) || 2000;
+
+// AI providers: a provider is configured by its settings below; AI_PROVIDER and
+// AI_MODEL pick the default used when a request does not name one. The mock
+// provider is only enabled on request, so a server without settings reports AI
+// as not configured rather than serving canned replies
+const listFromEnv = (value: string | undefined): string[] =>
+  (value || "").split(",").map(item => item.trim()).filter(Boolean);
+
+export const AI_PROVIDER = process.env.AI_PROVIDER || (process.env.GEMINI_API_KEY ? "gemini" : process.env.OPENAI_BASE_URL ? "openai" : "");
+export const AI_MODEL = process.env.AI_MODEL || "";
+export const AI_REQUEST_TIMEOUT_MS = Number(process.env.AI_REQUEST_TIMEOUT_MS) || 60000;
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || "";
+export const GEMINI_MODELS = listFromEnv(process.env.GEMINI_MODELS || process.env.GEMINI_MODEL || "gemini-1.5-flash");
+export const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || "").replace(/\/+$/, "");
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+export const OPENAI_MODELS = listFromEnv(process.env.OPENAI_MODELS);
+export const AI_MOCK_ENABLED = process.env.AI_MOCK_ENABLED === "true" || AI_PROVIDER === "mock";
+
+// AI conversations: prior turns are replayed to the model within the token budget,
+// and only the newest messages are kept per conversation
+export const AI_HISTORY_TOKEN_BUDGET = Number(process.env.AI_HISTORY_TOKEN_BUDGET) || 4000;
+export const AI_CONVERSATION_MAX_MESSAGES = Number(process.env.AI_CONVERSATION_MAX_MESSAGES) || 500;
+
+// Project context for AI chat: room files added to the prompt (the open file, its imports
+// and the best lexical matches for the question), within a character budget
+export const AI_CONTEXT_MAX_CHARS = Number(process.env.AI_CONTEXT_MAX_CHARS) || 24000;
+export const AI_CONTEXT_MAX_FILE_CHARS = Number(process.env.AI_CONTEXT_MAX_FILE_CHARS) || 8000;
+export const AI_CONTEXT_MAX_MATCHES = Number(process.env.AI_CONTEXT_MAX_MATCHES) || 5;
+export const AI_CONTEXT_MAX_INDEXED_FILES = Number(process.env.AI_CONTEXT_MAX_INDEXED_FILES) || 500;
+
+// Inline AI completions: characters of text sent from before and after the cursor, and
+// the answers cached by a hash of that text
+export const AI_COMPLETION_MAX_PREFIX_CHARS = Number(process.env.AI_COMPLETION_MAX_PREFIX_CHARS) || 4000;
+export const AI_COMPLETION_MAX_SUFFIX_CHARS = Number(process.env.AI_COMPLETION_MAX_SUFFIX_CHARS) || 1500;
+export const AI_COMPLETION_CACHE_ENTRIES = Number(process.env.AI_COMPLETION_CACHE_ENTRIES) || 1000;
+export const AI_COMPLETION_CACHE_TTL_MS = Number(process.env.AI_COMPLETION_CACHE_TTL_MS) || 10 * 60 * 1000;
+
+// AI code review: files and characters of changed or selected code sent per review, and
+// the unchanged lines shown around each change
+export const AI_REVIEW_MAX_FILES = Number(process.env.AI_REVIEW_MAX_FILES) || 20;
+export const AI_REVIEW_MAX_CHARS = Number(process.env.AI_REVIEW_MAX_CHARS) || 40000;
+export const AI_REVIEW_CONTEXT_LINES = Number(process.env.AI_REVIEW_CONTEXT_LINES) || 5;
+
+// Shared room AI threads keep only the newest messages per room
+export const ROOM_AI_THREAD_MAX_MESSAGES = Number(process.env.ROOM_AI_THREAD_MAX_MESSAGES) || 500;
+
+// AI usage: every user's requests and (estimated) tokens per UTC day, across all rooms;
+// 0 means no limit. Rooms add their own quotas on top
+export const AI_USER_DAILY_REQUESTS = Number(process.env.AI_USER_DAILY_REQUESTS) || 0;
+export const AI_USER_DAILY_TOKENS = Number(process.env.AI_USER_DAILY_TOKENS) || 0;
@@ -3,6 +3,7 @@ import { GridFSBucket } from "mongodb";
 import { Readable } from "stream";
 
 let bucket: GridFSBucket | null = null;
+let vcsBucket: GridFSBucket | null = null;
 
 export function getGridFSBucket(): GridFSBucket {
   if (bucket) return bucket;
@@ -14,6 +15,17 @@ export function getGridFSBucket(): GridFSBucket {
   return bucket;
 }
 
+// Content-addressed blobs for room source control, kept apart from uploads
+export function getVcsBlobBucket(): GridFSBucket {
+  if (vcsBucket) return vcsBucket;
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error("MongoDB connection not established");
+  }
+  vcsBucket = new GridFSBucket(db, { bucketName: "vcsBlobs" });
+  return vcsBucket;
+}
+
 export function uploadFileStream(filename: string, options?: { contentType?: string; metadata?: any }) {
   const b = getGridFSBucket();
   return b.openUploadStream(filename, {
@@ -243,7 +243,83 @@ const roomSchema = new Schema<IRoom>({
       type: Date,
       default: Date.now
     }
-  }]
+  }],
+  runConfigurations: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    language: {
+      type: String,
+      default: "plaintext"
+    },
+    command: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    args: {
+      type: [String],
+      default: []
+    },
+    env: [{
+      _id: false,
+      name: {
+        type: String,
+        required: true
+      },
+      value: {
+        type: String,
+        default: ""
+      }
+    }],
+    workingDirectory: {
+      type: String,
+      default: ""
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  aiSettings: {
+    sharedThread: {
+      type: Boolean,
+      default: false
+    },
+    askPolicy: {
+      type: String,
+      enum: ["everyone", "admins", "owner"],
+      default: "everyone"
+    }
+  },
+  collaborationMode: {
+    type: String,
+    enum: ["ot", "crdt"],
+    default: "ot"
+  },
+  aiQuota: {
+    period: {
+      type: String,
+      enum: ["day", "month"],
+      default: "month"
+    },
+    roomRequests: { type: Number, default: null },
+    roomTokens: { type: Number, default: null },
+    memberRequests: { type: Number, default: null },
+    memberTokens: { type: Number, default: null }
+  }
 }, {
   timestamps: true,
   collection: "rooms"
@@ -367,14 +443,20 @@ export { userSchema, roomSchema, messageSchema };
 
 // File metadata and version history
 interface IFileHistoryEntry {
-  timestamp: Date;
-  userId: Schema.Types.ObjectId;
+  timestamp: Date; // When this version was replaced
+  userId: Schema.Types.ObjectId; // Who replaced it
   previousFileId: Schema.Types.ObjectId; // GridFS file id snapshot
+  version?: number; // Missing on entries written before versions were numbered
+  modifiedBy?: Schema.Types.ObjectId; // Who wrote this version
+  changeDescription?: string;
 }
 
 export interface IFileMeta extends Document {
   currentFileId: Schema.Types.ObjectId; // current GridFS file id
-  history: IFileHistoryEntry[];
+  history: IFileHistoryEntry[]; // Oldest first
+  version?: number; // Number of the current version
+  modifiedBy?: Schema.Types.ObjectId;
+  changeDescription?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -383,14 +465,323 @@ const fileHistorySchema = new Schema<IFileHistoryEntry>({
   timestamp: { type: Date, default: Date.now },
   userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
   previousFileId: { type: Schema.Types.ObjectId, required: true },
+  version: { type: Number },
+  modifiedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  changeDescription: { type: String, maxlength: 200 },
 });
 
 const fileMetaSchema = new Schema<IFileMeta>({
   currentFileId: { type: Schema.Types.ObjectId, required: true, index: true, unique: true },
   history: { type: [fileHistorySchema], default: [] },
+  version: { type: Number },
+  modifiedBy: { type: Schema.Types.ObjectId, ref: "User" },
+  changeDescription: { type: String, maxlength: 200 },
 }, {
   timestamps: true,
   collection: "fileMeta"
 });
 
-export const FileMeta = mongoose.model<IFileMeta>("FileMeta", fileMetaSchema);
\ No newline at end of file
+// Editors keep the file id they opened, so older ids must resolve to the file too
+fileMetaSchema.index({ "history.previousFileId": 1 });
+
+export const FileMeta = mongoose.model<IFileMeta>("FileMeta", fileMetaSchema);
+
+// Room source control: commits and per-room repository state
+interface IVcsTreeEntry {
+  path: string;
+  blobHash: string; // git blob SHA-1, also the VCS blob's GridFS filename
+  size: number;
+  mode?: string;
+}
+
+export interface IVcsCommit extends Document {
+  roomId: string;
+  hash: string; // git commit SHA-1
+  treeHash: string;
+  parents: string[];
+  tree: IVcsTreeEntry[];
+  message: string;
+  author: {
+    userId?: Schema.Types.ObjectId;
+    name: string;
+    email: string;
+  };
+  timestamp: Date;
+  raw?: Buffer; // Commit object body, so exports reproduce the hash exactly
+}
+
+export interface IVcsRepository extends Document {
+  roomId: string;
+  head: string; // Checked-out branch name
+  branches: { name: string; commitHash: string | null }[];
+  index: IVcsTreeEntry[]; // Staging area, a full snapshot like a commit tree
+  merge: {
+    branch: string;
+    theirs: string; // Commit being merged in
+    base: string | null; // Merge base, null for unrelated histories
+    conflicts: string[];
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const vcsTreeEntrySchema = new Schema<IVcsTreeEntry>({
+  path: { type: String, required: true },
+  blobHash: { type: String, required: true },
+  size: { type: Number, default: 0 },
+  mode: { type: String },
+}, { _id: false });
+
+const vcsCommitSchema = new Schema<IVcsCommit>({
+  roomId: { type: String, required: true },
+  hash: { type: String, required: true },
+  treeHash: { type: String, required: true },
+  parents: { type: [String], default: [] },
+  tree: { type: [vcsTreeEntrySchema], default: [] },
+  message: { type: String, required: true, maxlength: 5000 },
+  author: {
+    userId: { type: Schema.Types.ObjectId, ref: "User" },
+    name: { type: String, required: true },
+    email: { type: String, default: "" },
+  },
+  timestamp: { type: Date, default: Date.now },
+  raw: { type: Buffer },
+}, {
+  collection: "vcsCommits"
+});
+
+vcsCommitSchema.index({ roomId: 1, hash: 1 }, { unique: true });
+vcsCommitSchema.index({ roomId: 1, timestamp: -1 });
+
+const vcsRepositorySchema = new Schema<IVcsRepository>({
+  roomId: { type: String, required: true, unique: true },
+  head: { type: String, default: "main" },
+  branches: {
+    type: [{
+      _id: false,
+      name: { type: String, required: true },
+      commitHash: { type: String, default: null },
+    }],
+    default: [{ name: "main", commitHash: null }],
+  },
+  index: { type: [vcsTreeEntrySchema], default: [] },
+  merge: {
+    type: new Schema({
+      branch: { type: String, required: true },
+      theirs: { type: String, required: true },
+      base: { type: String, default: null },
+      conflicts: { type: [String], default: [] },
+    }, { _id: false }),
+    default: null,
+  },
+}, {
+  timestamps: true,
+  collection: "vcsRepositories",
+  // Concurrent stage/commit requests fail instead of overwriting each other's index
+  optimisticConcurrency: true
+});
+
+export const VcsCommit = mongoose.model<IVcsCommit>("VcsCommit", vcsCommitSchema);
+export const VcsRepository = mongoose.model<IVcsRepository>("VcsRepository", vcsRepositorySchema);
+
+// AI assistant conversations, per user and optionally per room
+export interface IAIConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+  tokens: number; // Estimated, for fitting history into the prompt budget
+  model?: string;
+  provider?: string;
+  timestamp: Date;
+}
+
+export interface IAIConversation extends Document {
+  userId: Schema.Types.ObjectId;
+  roomId: string | null;
+  title: string;
+  messages: IAIConversationMessage[]; // Oldest first
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const aiConversationMessageSchema = new Schema<IAIConversationMessage>({
+  role: { type: String, enum: ["user", "assistant"], required: true },
+  content: { type: String, required: true },
+  tokens: { type: Number, default: 0 },
+  model: { type: String },
+  provider: { type: String },
+  timestamp: { type: Date, default: Date.now },
+}, { _id: false });
+
+const aiConversationSchema = new Schema<IAIConversation>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  roomId: { type: String, default: null },
+  title: { type: String, required: true, maxlength: 100 },
+  messages: { type: [aiConversationMessageSchema], default: [] },
+}, {
+  timestamps: true,
+  collection: "aiConversations"
+});
+
+aiConversationSchema.index({ userId: 1, roomId: 1, updatedAt: -1 });
+
+export const AIConversation = mongoose.model<IAIConversation>("AIConversation", aiConversationSchema);
+
+// Messages of a room's shared AI thread, visible to every participant
+export interface IRoomAIMessage extends Document {
+  roomId: string;
+  role: "user" | "assistant";
+  userId: Schema.Types.ObjectId; // Who asked; on a reply, who it answers
+  userName: string;
+  content: string;
+  tokens: number; // Estimated, for fitting history into the prompt budget
+  aiModel?: string; // "model" is taken by Document
+  provider?: string;
+  status: "complete" | "cancelled" | "failed";
+  replyTo?: Schema.Types.ObjectId; // The question a reply answers
+  createdAt: Date;
+}
+
+const roomAIMessageSchema = new Schema<IRoomAIMessage>({
+  roomId: { type: String, required: true },
+  role: { type: String, enum: ["user", "assistant"], required: true },
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  userName: { type: String, required: true },
+  content: { type: String, default: "" },
+  tokens: { type: Number, default: 0 },
+  aiModel: { type: String },
+  provider: { type: String },
+  status: { type: String, enum: ["complete", "cancelled", "failed"], default: "complete" },
+  replyTo: { type: Schema.Types.ObjectId, default: undefined },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: "roomAIMessages"
+});
+
+roomAIMessageSchema.index({ roomId: 1, createdAt: -1 });
+
+export const RoomAIMessage = mongoose.model<IRoomAIMessage>("RoomAIMessage", roomAIMessageSchema);
+
+// One AI request, for usage accounting and quotas
+export interface IAIUsageRecord extends Document {
+  userId: Schema.Types.ObjectId;
+  roomId: string | null; // Room the request was made from, if any
+  purpose: "completion" | "chat" | "edit" | "review";
+  provider: string;
+  aiModel: string; // "model" is taken by Document
+  promptTokens: number; // Estimated from the prompt and reply text
+  completionTokens: number;
+  totalTokens: number;
+  cancelled: boolean;
+  createdAt: Date;
+}
+
+const aiUsageRecordSchema = new Schema<IAIUsageRecord>({
+  userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  roomId: { type: String, default: null },
+  purpose: { type: String, enum: ["completion", "chat", "edit", "review"], required: true },
+  provider: { type: String, required: true },
+  aiModel: { type: String, required: true },
+  promptTokens: { type: Number, default: 0 },
+  completionTokens: { type: Number, default: 0 },
+  totalTokens: { type: Number, default: 0 },
+  cancelled: { type: Boolean, default: false },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: "aiUsage"
+});
+
+aiUsageRecordSchema.index({ userId: 1, createdAt: -1 });
+aiUsageRecordSchema.index({ roomId: 1, createdAt: -1 });
+
+export const AIUsageRecord = mongoose.model<IAIUsageRecord>("AIUsageRecord", aiUsageRecordSchema);
+
+// Collaborative editing: per live document, the version last checkpointed to its file,
+// and the operations applied since, replayed when the document is loaded after a crash
+export interface ICollabDocument extends Document {
+  roomId: string;
+  fileId: string; // The id editors opened the file by, which may predate its latest save
+  version: number; // Version of the checkpointed content
+  contentHash: string; // SHA-1 of that content, to notice the file changing outside the editor
+  pending: { version: number; contentHash: string } | null; // A checkpoint being written
+  checkpointedAt: Date;
+}
+
+interface ICollabOperationPart {
+  type: "retain" | "insert" | "delete";
+  length?: number;
+  text?: string;
+}
+
+export interface ICollabOperation extends Document {
+  roomId: string;
+  fileId: string;
+  version: number; // Version the operations produced
+  changeId?: string; // Id of the client change, so a resent change isn't applied twice
+  operations: ICollabOperationPart[];
+  createdAt: Date;
+}
+
+const collabDocumentSchema = new Schema<ICollabDocument>({
+  roomId: { type: String, required: true },
+  fileId: { type: String, required: true },
+  version: { type: Number, default: 0 },
+  contentHash: { type: String, required: true },
+  pending: {
+    type: new Schema({
+      version: { type: Number, required: true },
+      contentHash: { type: String, required: true },
+    }, { _id: false }),
+    default: null,
+  },
+  checkpointedAt: { type: Date, default: Date.now },
+}, {
+  collection: "collabDocuments"
+});
+
+collabDocumentSchema.index({ roomId: 1, fileId: 1 }, { unique: true });
+
+const collabOperationPartSchema = new Schema<ICollabOperationPart>({
+  type: { type: String, enum: ["retain", "insert", "delete"], required: true },
+  length: { type: Number },
+  text: { type: String },
+}, { _id: false });
+
+const collabOperationSchema = new Schema<ICollabOperation>({
+  roomId: { type: String, required: true },
+  fileId: { type: String, required: true },
+  version: { type: Number, required: true },
+  changeId: { type: String },
+  operations: { type: [collabOperationPartSchema], default: [] },
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: "collabOperations"
+});
+
+collabOperationSchema.index({ roomId: 1, fileId: 1, version: 1 }, { unique: true });
+
+export const CollabDocument = mongoose.model<ICollabDocument>("CollabDocument", collabDocumentSchema);
+export const CollabOperation = mongoose.model<ICollabOperation>("CollabOperation", collabOperationSchema);
+
+// Rooms in CRDT mode: each open document's Yjs state, so clients that edited offline
+// can merge into the same document after a restart
+export interface ICrdtDocument extends Document {
+  roomId: string;
+  fileId: string;
+  docId: string; // Identifies this document's history; a new one means clients start over
+  state: Buffer; // The whole document as one Yjs update
+  updatedAt: Date;
+}
+
+const crdtDocumentSchema = new Schema<ICrdtDocument>({
+  roomId: { type: String, required: true },
+  fileId: { type: String, required: true },
+  docId: { type: String, required: true },
+  state: { type: Buffer, required: true },
+}, {
+  timestamps: { createdAt: false, updatedAt: true },
+  collection: "crdtDocuments"
+});
+
+crdtDocumentSchema.index({ roomId: 1, fileId: 1 }, { unique: true });
+
+export const CrdtDocument = mongoose.model<ICrdtDocument>("CrdtDocument", crdtDocumentSchema);
@@ -1,19 +1,57 @@
 import express from 'express';
 import rateLimit from 'express-rate-limit';
-import AIService from '../services/aiService';
-import { AIChatRequest, AICompletionRequest } from '../types';
+import { Server } from 'socket.io';
+import { aiService, AIError } from '../services/aiService';
+import { aiConversationService, AIConversationError } from '../services/aiConversationService';
+import { aiContextService, AIContextQuery } from '../services/aiContextService';
+import { aiEditService, AIEditError } from '../services/aiEditService';
+import { aiUsageService, AIUsageError } from '../services/aiUsageService';
+import { aiReviewService, AIReviewError } from '../services/aiReviewService';
+import { aiCompletionCache } from '../services/aiCompletionCache';
+import { fileVersionService } from '../services/fileVersionService';
+import { readLiveContent } from './search';
+import { applyServerChange } from '../socket/handlers/editorHandler';
+import { Room } from '../database/models';
+import { AI_COMPLETION_MAX_PREFIX_CHARS, AI_COMPLETION_MAX_SUFFIX_CHARS } from '../config/constants';
+import {
+  AIChatRequest,
+  AIChatResponse,
+  AICompletionRequest,
+  AICompletionResponse,
+  AIContextFile,
+  AIConversationTurn,
+  AIEditApplyFile,
+  AIEditApplyResponse,
+  AIEditProposal,
+  AIReviewResult,
+  ClientToServerEvents,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData,
+} from '../types';
 
+// Mounted behind authenticateToken: every AI request is made by, and accounted to, a user
 const router = express.Router();
 
-// Initialize Gemini AI Service
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
-const aiService = new AIService(GEMINI_API_KEY, GEMINI_MODEL);
+type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: SocketServer | null = null;
+
+// Set the Socket.IO server used to push applied AI edits to the room
+export const setSocketServer = (server: SocketServer) => {
+  io = server;
+};
+
+const MAX_EDIT_FILES = 50;
+const MAX_CHANGE_DESCRIPTION_LENGTH = 200;
+
+// Rate limiting configurations, per user; quotas cap usage over longer periods
+const userKey = (req: express.Request): string => (req as any).user.id;
 
-// Rate limiting configurations
 const aiSuggestionLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
   max: 30, // 30 requests per minute per user
+  keyGenerator: userKey,
   message: {
     success: false,
     error: 'Too many AI suggestion requests. Please try again later.',
@@ -26,6 +64,7 @@ const aiSuggestionLimiter = rateLimit({
 const aiChatLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
   max: 10, // 10 chat requests per minute per user
+  keyGenerator: userKey,
   message: {
     success: false,
     error: 'Too many AI chat requests. Please try again later.',
@@ -43,6 +82,73 @@ const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
   timestamp: new Date().toISOString(),
 });
 
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (
+    error instanceof AIError ||
+    error instanceof AIConversationError ||
+    error instanceof AIEditError ||
+    error instanceof AIUsageError ||
+    error instanceof AIReviewError
+  ) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+// Optional provider and model of a request body; null when either is not a string
+const parseModelSelection = (body: any): { provider?: string; model?: string } | null => {
+  const { provider, model } = body || {};
+  if ((provider !== undefined && typeof provider !== 'string') || (model !== undefined && typeof model !== 'string')) {
+    return null;
+  }
+  return { provider, model };
+};
+
+// The accepted hunks of an apply request; null when malformed
+const parseEditFiles = (value: unknown): AIEditApplyFile[] | null => {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_EDIT_FILES) return null;
+  const valid = value.every(file =>
+    typeof file?.path === 'string' &&
+    typeof file.create === 'boolean' &&
+    Array.isArray(file.hunks) &&
+    file.hunks.length > 0 &&
+    file.hunks.every((hunk: any) =>
+      Number.isInteger(hunk?.oldStart) &&
+      Array.isArray(hunk.lines) &&
+      hunk.lines.every((line: unknown) => typeof line === 'string' && ' -+'.includes(line[0]))
+    )
+  );
+  if (!valid) return null;
+  return value.map(file => ({
+    path: file.path,
+    create: file.create,
+    hunks: file.hunks.map((hunk: any) => ({ oldStart: hunk.oldStart, lines: hunk.lines })),
+  }));
+};
+
+// The end of a text, at most max characters, from the start of a line when it is cut
+const clipStart = (text: string, max: number): string => {
+  if (text.length <= max) return text;
+  const clipped = text.slice(text.length - max);
+  const lineStart = clipped.indexOf('\n');
+  return lineStart === -1 ? clipped : clipped.slice(lineStart + 1);
+};
+
+// The start of a text, at most max characters, ending on a whole line when it is cut
+const clipEnd = (text: string, max: number): string => {
+  if (text.length <= max) return text;
+  const clipped = text.slice(0, max);
+  const lineEnd = clipped.lastIndexOf('\n');
+  return lineEnd === -1 ? clipped : clipped.slice(0, lineEnd);
+};
+
+const isRoomParticipant = async (roomId: string, userId: string): Promise<boolean> => {
+  const room = await Room.findOne({ id: roomId }).select('participantList');
+  return Boolean(room?.participantList.some(p => p.userId.toString() === userId));
+};
+
 // Initialize AI service on startup
 aiService.initialize().catch(error => {
   console.error('Failed to initialize AI service:', error);
@@ -50,6 +156,10 @@ aiService.initialize().catch(error => {
 
 // Middleware to check AI service status
 const checkAIService = (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+  if (!aiService.isConfigured()) {
+    res.status(503).json(createAPIResponse(false, null, 'AI service is not configured'));
+    return;
+  }
   if (!aiService.isServiceConnected()) {
     res.status(503).json(createAPIResponse(false, null, 'AI service is not available'));
     return;
@@ -57,14 +167,16 @@ const checkAIService = (req: express.Request, res: express.Response, next: expre
   next();
 };
 
-// GET /api/ai/models - Get available AI models
+// GET /api/ai/models - Get every configured model across providers
 router.get('/models', async (req: express.Request, res: express.Response): Promise<void> => {
   try {
     const models = await aiService.getAvailableModels();
+    const defaultModel = aiService.getDefaultModel();
     res.json(createAPIResponse(true, { 
       models,
-      currentModel: GEMINI_MODEL,
-      config: { provider: 'gemini' }
+      currentModel: defaultModel?.id ?? null,
+      providers: aiService.getProviders(),
+      config: { provider: defaultModel?.provider ?? null }
     }));
   } catch (error) {
     console.error('Error fetching models:', error);
@@ -74,109 +186,587 @@ router.get('/models', async (req: express.Request, res: express.Response): Promi
   }
 });
 
-// POST /api/ai/suggestions - Generate code suggestions
+// POST /api/ai/suggestions - Generate code suggestions. With prefix and suffix (fill in the middle)
+// the answer is one completion for the cursor, cached by the text around it; closing the
+// connection cancels generation
 router.post('/suggestions', aiSuggestionLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
   try {
-    const { content, language, context, cursorPosition, fileContent } = req.body;
+    const { content, language, context, cursorPosition, fileContent, prefix, suffix, path } = req.body;
+    const selection = parseModelSelection(req.body);
+    const fillInMiddle = prefix !== undefined;
     
     // Validation
-    if (!content || typeof content !== 'string') {
+    if (fillInMiddle) {
+      if (typeof prefix !== 'string' || (suffix !== undefined && typeof suffix !== 'string') || (path !== undefined && typeof path !== 'string')) {
+        res.status(400).json(createAPIResponse(false, null, 'prefix, suffix and path must be strings'));
+        return;
+      }
+    } else if (!content || typeof content !== 'string') {
       res.status(400).json(
         createAPIResponse(false, null, 'Content is required and must be a string')
       );
       return;
     }
+    if (!selection) {
+      res.status(400).json(createAPIResponse(false, null, 'provider and model must be strings'));
+      return;
+    }
 
-    // Get user ID from auth middleware (assuming it's available)
-    const userId = (req as any).user?.id || 'anonymous';
+    const userId: string = (req as any).user.id;
+    const request: AICompletionRequest = fillInMiddle
+      ? {
+          // Only the text nearest the cursor is sent, starting and ending on whole lines
+          content: '',
+          prefix: clipStart(prefix, AI_COMPLETION_MAX_PREFIX_CHARS),
+          suffix: clipEnd(suffix || '', AI_COMPLETION_MAX_SUFFIX_CHARS),
+          path,
+          language: language || 'javascript',
+          userId,
+          ...selection,
+        }
+      : {
+          content: content.trim(),
+          language: language || 'javascript',
+          context: context || '',
+          userId,
+          cursorPosition,
+          fileContent,
+          ...selection,
+        };
 
-    const request: AICompletionRequest = {
-      content: content.trim(),
-      language: language || 'javascript',
-      context: context || '',
-      userId,
-      cursorPosition,
-      fileContent,
-    };
+    // Cached answers cost nothing, so they don't count towards quotas
+    const resolved = aiService.resolveModel(selection.provider, selection.model);
+    const cacheKey = aiCompletionCache.keyFor(request, resolved.provider.name, resolved.model);
+    const cached = aiCompletionCache.get(cacheKey);
+    if (cached) {
+      res.json(createAPIResponse(true, { ...cached, cached: true }));
+      return;
+    }
+
+    await aiUsageService.checkQuota(userId, null);
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
 
-    const suggestions = await aiService.generateCodeSuggestions(request);
+    let suggestions: AICompletionResponse;
+    try {
+      suggestions = await aiService.generateCodeSuggestions(request, controller.signal);
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+      // The prompt was sent, so a cancelled completion still counts
+      await aiUsageService.record({
+        userId,
+        roomId: null,
+        purpose: 'completion',
+        provider: resolved.provider.name,
+        model: resolved.model,
+        usage: aiService.estimateCompletionUsage(request),
+        cancelled: true,
+      });
+      return;
+    }
+    await aiUsageService.record({ userId, roomId: null, purpose: 'completion', ...suggestions });
+    aiCompletionCache.set(cacheKey, suggestions);
     
     res.json(createAPIResponse(true, suggestions));
   } catch (error) {
-    console.error('Error generating AI suggestions:', error);
-    res.status(500).json(
-      createAPIResponse(false, null, 'Failed to generate AI suggestions')
-    );
+    sendError(res, error, 'Failed to generate AI suggestions');
   }
 });
 
-// POST /api/ai/chat - AI chat conversation
-router.post('/chat', aiChatLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
+// Project context is a best effort; a chat is still answered without it
+export const buildProjectContext = async (roomId: string, query: AIContextQuery): Promise<AIContextFile[]> => {
   try {
-    const { message, context, conversationId, attachments } = req.body;
-    
-    // Validation
-    if (!message || typeof message !== 'string') {
-      res.status(400).json(
-        createAPIResponse(false, null, 'Message is required and must be a string')
-      );
-      return;
-    }
+    // The editor may still refer to the file by an id from before its last save
+    const activeFileId = query.activeFileId && (await fileVersionService.resolveCurrentFileId(query.activeFileId));
+    return await aiContextService.buildContext(roomId, { ...query, activeFileId }, readLiveContent(roomId));
+  } catch (error) {
+    console.error('Failed to build AI project context:', error);
+    return [];
+  }
+};
+
+interface PreparedChat {
+  request: AIChatRequest;
+  conversationRoomId: string | null;
+  usageRoomId: string | null; // Room the chat is accounted to, while the user is in it
+}
+
+/**
+ * Validate a chat body, check quotas and load the conversation it continues.
+ * Responds and returns null when the request is rejected.
+ */
+const prepareChat = async (req: express.Request, res: express.Response): Promise<PreparedChat | null> => {
+  const { message, context, conversationId, attachments, roomId, activeFileId, activeFileContent, cursorLine, projectContext } = req.body;
+  const selection = parseModelSelection(req.body);
+  
+  // Validation
+  if (!message || typeof message !== 'string') {
+    res.status(400).json(
+      createAPIResponse(false, null, 'Message is required and must be a string')
+    );
+    return null;
+  }
+  if (!selection) {
+    res.status(400).json(createAPIResponse(false, null, 'provider and model must be strings'));
+    return null;
+  }
+  if ((conversationId !== undefined && typeof conversationId !== 'string') || (roomId !== undefined && typeof roomId !== 'string')) {
+    res.status(400).json(createAPIResponse(false, null, 'conversationId and roomId must be strings'));
+    return null;
+  }
+  if (
+    (activeFileId !== undefined && typeof activeFileId !== 'string') ||
+    (activeFileContent !== undefined && typeof activeFileContent !== 'string') ||
+    (cursorLine !== undefined && !Number.isInteger(cursorLine))
+  ) {
+    res.status(400).json(createAPIResponse(false, null, 'activeFileId and activeFileContent must be strings and cursorLine an integer'));
+    return null;
+  }
+
+  const userId: string = (req as any).user.id;
+
+  // A resumed conversation keeps its room; a new one may be started from a room the user is in
+  let history: AIConversationTurn[] = [];
+  let conversationRoomId: string | null = roomId || null;
+  if (conversationId) {
+    ({ roomId: conversationRoomId, history } = await aiConversationService.getHistory(userId, conversationId));
+  } else if (roomId && !(await isRoomParticipant(roomId, userId))) {
+    res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+    return null;
+  }
 
-    // Get user ID from auth middleware
-    const userId = (req as any).user?.id || 'anonymous';
+  // Room files are only read, and the room's quota only spent, while the user is still a participant
+  const usageRoomId =
+    conversationRoomId && (!conversationId || (await isRoomParticipant(conversationRoomId, userId)))
+      ? conversationRoomId
+      : null;
+  await aiUsageService.checkQuota(userId, usageRoomId);
 
-    const request: AIChatRequest = {
+  let contextFiles: AIContextFile[] = [];
+  if (usageRoomId && projectContext !== false) {
+    contextFiles = await buildProjectContext(usageRoomId, {
+      question: message,
+      activeFileId,
+      activeFileContent,
+      cursorLine,
+    });
+  }
+
+  return {
+    request: {
       message: message.trim(),
       context: context || '',
       conversationId,
       userId,
+      roomId: conversationRoomId ?? undefined,
+      history,
       attachments: attachments || [],
-    };
+      contextFiles,
+      ...selection,
+    },
+    conversationRoomId,
+    usageRoomId,
+  };
+};
+
+// Store the exchange, pointing the response at the stored conversation
+const storeExchange = async (chat: PreparedChat, chatResponse: AIChatResponse): Promise<void> => {
+  const saved = await aiConversationService.appendExchange(
+    chat.request.userId,
+    chat.request.conversationId ?? null,
+    chat.conversationRoomId,
+    chat.request.message,
+    { content: chatResponse.response, model: chatResponse.model, provider: chatResponse.provider }
+  );
+  chatResponse.conversationId = saved.id;
+  chatResponse.title = saved.title;
+};
 
-    const chatResponse = await aiService.chatWithAI(request);
+// POST /api/ai/chat - AI chat conversation; conversations are stored and resumed by conversationId
+router.post('/chat', aiChatLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const chat = await prepareChat(req, res);
+    if (!chat) return;
+
+    const chatResponse = await aiService.chatWithAI(chat.request);
+    await aiUsageService.record({ userId: chat.request.userId, roomId: chat.usageRoomId, purpose: 'chat', ...chatResponse });
+    await storeExchange(chat, chatResponse);
     
     res.json(createAPIResponse(true, chatResponse));
   } catch (error) {
-    console.error('Error in AI chat:', error);
-    res.status(500).json(
-      createAPIResponse(false, null, 'Failed to process AI chat request')
+    sendError(res, error, 'Failed to process AI chat request');
+  }
+});
+
+/**
+ * POST /api/ai/chat/stream - AI chat with the reply streamed as server-sent
+ * events: "chunk" events carry { text } as it is generated, then "done"
+ * carries the chat response or "error" carries { error }. Closing the
+ * connection cancels generation; a cancelled exchange is not stored, but
+ * what was generated still counts towards quotas.
+ */
+router.post('/chat/stream', aiChatLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
+  let chat: PreparedChat | null;
+  try {
+    chat = await prepareChat(req, res);
+    if (!chat) return;
+    // Reject unknown models with a status before the stream starts
+    aiService.resolveModel(chat.request.provider, chat.request.model);
+  } catch (error) {
+    sendError(res, error, 'Failed to process AI chat request');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const { userId } = chat.request;
+  let text = '';
+  try {
+    const chatResponse = await aiService.chatWithAIStream(
+      chat.request,
+      chunk => {
+        text += chunk;
+        sendEvent('chunk', { text: chunk });
+      },
+      controller.signal
     );
+    await aiUsageService.record({ userId, roomId: chat.usageRoomId, purpose: 'chat', ...chatResponse });
+    await storeExchange(chat, chatResponse);
+    sendEvent('done', chatResponse);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      const { provider, model } = aiService.resolveModel(chat.request.provider, chat.request.model);
+      await aiUsageService.record({
+        userId,
+        roomId: chat.usageRoomId,
+        purpose: 'chat',
+        provider: provider.name,
+        model,
+        usage: aiService.estimateChatUsage(chat.request, text),
+        cancelled: true,
+      });
+      return;
+    }
+    const expected = error instanceof AIError || error instanceof AIConversationError;
+    if (!expected) console.error('Failed to process AI chat request:', error);
+    sendEvent('error', { error: expected ? error.message : 'Failed to process AI chat request' });
+  } finally {
+    res.end();
+  }
+});
+
+// POST /api/ai/edits - Ask for changes to room files, returned as per-hunk edits to review
+router.post('/edits', aiChatLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { message, roomId, activeFileId, activeFileContent, cursorLine } = req.body || {};
+  const selection = parseModelSelection(req.body);
+  if (!message || typeof message !== 'string' || typeof roomId !== 'string' || !roomId) {
+    res.status(400).json(createAPIResponse(false, null, 'message and roomId are required strings'));
+    return;
+  }
+  if (!selection) {
+    res.status(400).json(createAPIResponse(false, null, 'provider and model must be strings'));
+    return;
+  }
+  if (
+    (activeFileId !== undefined && typeof activeFileId !== 'string') ||
+    (activeFileContent !== undefined && typeof activeFileContent !== 'string') ||
+    (cursorLine !== undefined && !Number.isInteger(cursorLine))
+  ) {
+    res.status(400).json(createAPIResponse(false, null, 'activeFileId and activeFileContent must be strings and cursorLine an integer'));
+    return;
+  }
+
+  try {
+    const userId: string = (req as any).user.id;
+    if (!(await isRoomParticipant(roomId, userId))) {
+      res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+      return;
+    }
+    await aiUsageService.checkQuota(userId, roomId);
+
+    const contextFiles = await buildProjectContext(roomId, { question: message, activeFileId, activeFileContent, cursorLine });
+    const answer = await aiService.generateEdits({ message: message.trim(), userId, roomId, contextFiles, ...selection });
+    await aiUsageService.record({ userId, roomId, purpose: 'edit', ...answer });
+    const proposal: AIEditProposal = {
+      ...(await aiEditService.review(roomId, answer.response, readLiveContent(roomId))),
+      model: answer.model,
+      provider: answer.provider,
+      timestamp: new Date().toISOString(),
+    };
+    res.json(createAPIResponse(true, proposal));
+  } catch (error) {
+    sendError(res, error, 'Failed to generate AI edits');
+  }
+});
+
+// POST /api/ai/edits/apply - Apply accepted hunks as collaborative edits, saving each file as a new version
+router.post('/edits/apply', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { roomId, summary } = req.body || {};
+  const files = parseEditFiles(req.body?.files);
+  if (typeof roomId !== 'string' || !roomId || !files || (summary !== undefined && typeof summary !== 'string')) {
+    res.status(400).json(createAPIResponse(false, null, 'roomId must be a string and files a non-empty list of accepted hunks'));
+    return;
+  }
+
+  try {
+    const user = (req as any).user;
+    if (!(await isRoomParticipant(roomId, user.id))) {
+      res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+      return;
+    }
+
+    // Every hunk is checked before anything is written
+    const plans = await aiEditService.planEdits(roomId, files, readLiveContent(roomId));
+    const description = `AI edit: ${summary?.trim() || 'applied suggested changes'}`.slice(0, MAX_CHANGE_DESCRIPTION_LENGTH);
+
+    const response: AIEditApplyResponse = { files: [] };
+    for (const plan of plans) {
+      if (!plan.fileId || !plan.base) continue;
+      // Open editors take the edit live; the result is then saved as a new version
+      const fileIds = await fileVersionService.getFileIds(plan.fileId);
+      const content = await applyServerChange(roomId, fileIds, plan.base, plan.operations, {
+        userId: user.id,
+        userName: user.name,
+      });
+      const saved = await fileVersionService.saveContent(plan.fileId, Buffer.from(content, 'utf8'), user.id, description);
+      response.files.push({ path: plan.path, fileId: saved.fileId, created: false, hunks: plan.hunks, version: saved.version });
+    }
+
+    const created = plans.filter(plan => !plan.fileId);
+    if (created.length > 0) {
+      const fileIds = await aiEditService.createFiles(roomId, created, { userId: user.id, description });
+      for (const plan of created) {
+        response.files.push({ path: plan.path, fileId: fileIds.get(plan.path) ?? null, created: true, hunks: plan.hunks });
+      }
+      // New files change the tree, so everyone in the room reloads it
+      io?.to(roomId).emit('sync-file-structure', {
+        roomId,
+        reason: 'ai-edit',
+        userId: user.id,
+        userName: user.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    res.json(createAPIResponse(true, response));
+  } catch (error) {
+    sendError(res, error, 'Failed to apply AI edits');
+  }
+});
+
+// POST /api/ai/review - Review the room's uncommitted changes, or a selection, as findings on file lines
+router.post('/review', aiChatLimiter, checkAIService, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { roomId, scope, selection } = req.body || {};
+  const modelSelection = parseModelSelection(req.body);
+  if (typeof roomId !== 'string' || !roomId || (scope !== 'changes' && scope !== 'selection')) {
+    res.status(400).json(createAPIResponse(false, null, 'roomId is required and scope must be "changes" or "selection"'));
+    return;
+  }
+  if (!modelSelection) {
+    res.status(400).json(createAPIResponse(false, null, 'provider and model must be strings'));
+    return;
+  }
+  if (
+    scope === 'selection' &&
+    (typeof selection?.fileId !== 'string' ||
+      !Number.isInteger(selection.startLine) ||
+      !Number.isInteger(selection.endLine) ||
+      (selection.content !== undefined && typeof selection.content !== 'string'))
+  ) {
+    res.status(400).json(createAPIResponse(false, null, 'selection needs a fileId, integer startLine and endLine, and optional string content'));
+    return;
+  }
+
+  try {
+    const userId: string = (req as any).user.id;
+    if (!(await isRoomParticipant(roomId, userId))) {
+      res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+      return;
+    }
+
+    const readLive = readLiveContent(roomId);
+    const input = scope === 'selection'
+      ? await aiReviewService.collectSelection(roomId, {
+          // The editor may still refer to the file by an id from before its last save
+          fileId: await fileVersionService.resolveCurrentFileId(selection.fileId),
+          startLine: selection.startLine,
+          endLine: selection.endLine,
+          content: selection.content,
+        }, readLive)
+      : await aiReviewService.collectChanges(roomId, readLive);
+    const files = [...new Set(input.targets.map(target => target.path))];
+    // Nothing to send, so nothing to spend quota on
+    if (!input.targets.length) {
+      const { provider, model } = aiService.resolveModel(modelSelection.provider, modelSelection.model);
+      const result: AIReviewResult = {
+        scope,
+        summary: 'There are no uncommitted text changes to review.',
+        findings: [],
+        files,
+        skipped: input.skipped,
+        model,
+        provider: provider.name,
+        timestamp: new Date().toISOString(),
+      };
+      res.json(createAPIResponse(true, result));
+      return;
+    }
+
+    await aiUsageService.checkQuota(userId, roomId);
+    const answer = await aiService.reviewCode({ userId, roomId, scope, targets: input.targets, ...modelSelection });
+    await aiUsageService.record({ userId, roomId, purpose: 'review', ...answer });
+    const result: AIReviewResult = {
+      scope,
+      summary: answer.summary,
+      findings: aiReviewService.checkFindings(answer.comments, input),
+      files,
+      skipped: input.skipped,
+      model: answer.model,
+      provider: answer.provider,
+      timestamp: new Date().toISOString(),
+    };
+    res.json(createAPIResponse(true, result));
+  } catch (error) {
+    sendError(res, error, 'Failed to review code');
+  }
+});
+
+// GET /api/ai/conversations?roomId= - The caller's stored conversations, newest first
+router.get('/conversations', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const roomId = typeof req.query.roomId === 'string' ? req.query.roomId : undefined;
+    const conversations = await aiConversationService.list((req as any).user.id, roomId);
+    res.json(createAPIResponse(true, conversations));
+  } catch (error) {
+    sendError(res, error, 'Failed to list conversations');
+  }
+});
+
+// GET /api/ai/conversations/:conversationId - A conversation with its messages, to resume it
+router.get('/conversations/:conversationId', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const conversation = await aiConversationService.get((req as any).user.id, req.params.conversationId);
+    res.json(createAPIResponse(true, conversation));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch conversation');
+  }
+});
+
+// PATCH /api/ai/conversations/:conversationId - Rename a conversation
+router.patch('/conversations/:conversationId', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { title } = req.body || {};
+  if (typeof title !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'title must be a string'));
+    return;
+  }
+
+  try {
+    const conversation = await aiConversationService.rename((req as any).user.id, req.params.conversationId, title);
+    res.json(createAPIResponse(true, conversation));
+  } catch (error) {
+    sendError(res, error, 'Failed to rename conversation');
+  }
+});
+
+// DELETE /api/ai/conversations/:conversationId - Delete a conversation
+router.delete('/conversations/:conversationId', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    await aiConversationService.delete((req as any).user.id, req.params.conversationId);
+    res.json(createAPIResponse(true, null));
+  } catch (error) {
+    sendError(res, error, 'Failed to delete conversation');
+  }
+});
+
+// GET /api/ai/usage - The caller's AI usage: today, this month, by day, room and model
+router.get('/usage', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const usage = await aiUsageService.getUserUsage((req as any).user.id);
+    res.json(createAPIResponse(true, usage));
+  } catch (error) {
+    sendError(res, error, 'Failed to load AI usage');
+  }
+});
+
+// GET /api/ai/usage/rooms/:roomId - A room's usage in its current quota period, by member
+router.get('/usage/rooms/:roomId', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const usage = await aiUsageService.getRoomUsage(req.params.roomId, (req as any).user.id);
+    res.json(createAPIResponse(true, usage));
+  } catch (error) {
+    sendError(res, error, 'Failed to load room AI usage');
+  }
+});
+
+// PATCH /api/ai/usage/rooms/:roomId/quota - Set a room's daily or monthly quota (owners and admins)
+router.patch('/usage/rooms/:roomId/quota', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { period, roomRequests, roomTokens, memberRequests, memberTokens } = req.body || {};
+  try {
+    const quota = await aiUsageService.updateQuota(req.params.roomId, (req as any).user.id, {
+      period,
+      roomRequests,
+      roomTokens,
+      memberRequests,
+      memberTokens,
+    });
+    res.json(createAPIResponse(true, quota));
+  } catch (error) {
+    sendError(res, error, 'Failed to update the AI quota');
   }
 });
 
 // GET /api/ai/status - Check AI service status
 router.get('/status', (req: express.Request, res: express.Response) => {
   const isConnected = aiService.isServiceConnected();
+  const providers = aiService.getProviders();
+  const defaultModel = aiService.getDefaultModel();
   res.json(createAPIResponse(true, {
+    configured: aiService.isConfigured(),
     connected: isConnected,
-    service: 'Gemini',
-    config: { model: GEMINI_MODEL },
+    service: providers.filter(provider => provider.connected).map(provider => provider.label).join(', '),
+    providers,
+    config: { provider: defaultModel?.provider ?? null, model: defaultModel?.name ?? null },
     timestamp: new Date().toISOString(),
   }));
 });
 
-// POST /api/ai/test - Test AI service with a simple request
+// POST /api/ai/test - Test AI service with a simple request, optionally against a given provider or model
 router.post('/test', aiSuggestionLimiter, checkAIService, async (req: express.Request, res: express.Response) => {
   try {
+    const userId: string = (req as any).user.id;
+    await aiUsageService.checkQuota(userId, null);
     const testRequest: AICompletionRequest = {
       content: 'function hello',
       language: 'javascript',
       context: 'Testing AI service',
-      userId: 'test-user',
+      userId,
+      ...parseModelSelection(req.body),
     };
 
     const result = await aiService.generateCodeSuggestions(testRequest);
+    await aiUsageService.record({ userId, roomId: null, purpose: 'completion', ...result });
     
     res.json(createAPIResponse(true, {
       ...result,
       message: 'AI service test successful',
     }));
   } catch (error) {
-    console.error('AI service test failed:', error);
-    res.status(500).json(
-      createAPIResponse(false, null, 'AI service test failed')
-    );
+    sendError(res, error, 'AI service test failed');
   }
 });
 
@@ -0,0 +1,72 @@
+import express from 'express';
+import { Server } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import { roomAIThreadService, RoomAIThreadError } from '../services/roomAIThreadService';
+
+// Mounted under /api/rooms/:roomId/ai-thread; questions are asked over Socket.IO ("ai-thread-ask")
+const router = express.Router({ mergeParams: true });
+
+type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: SocketServer | null = null;
+
+// Set the Socket.IO server used to tell the room about setting changes
+export const setSocketServer = (server: SocketServer) => {
+  io = server;
+};
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof RoomAIThreadError) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+// GET /api/rooms/:roomId/ai-thread - The shared thread's settings and messages, oldest first
+router.get('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const thread = await roomAIThreadService.getThread(req.params.roomId, (req as any).user.id);
+    res.json(createAPIResponse(true, thread));
+  } catch (error) {
+    sendError(res, error, 'Failed to load the AI thread');
+  }
+});
+
+// PATCH /api/rooms/:roomId/ai-thread/settings - Turn the shared thread on or off and set who may ask (owners and admins)
+router.patch('/settings', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { sharedThread, askPolicy } = req.body || {};
+  try {
+    const { roomId } = req.params;
+    const user = (req as any).user;
+    const settings = await roomAIThreadService.updateSettings(roomId, user.id, { sharedThread, askPolicy });
+    io?.to(roomId).emit('ai-thread-settings', { roomId, settings, userId: user.id, userName: user.name });
+    res.json(createAPIResponse(true, settings));
+  } catch (error) {
+    sendError(res, error, 'Failed to update AI settings');
+  }
+});
+
+// DELETE /api/rooms/:roomId/ai-thread - Delete every message in the shared thread (owners and admins)
+router.delete('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = (req as any).user;
+    await roomAIThreadService.clear(roomId, user.id);
+    io?.to(roomId).emit('ai-thread-cleared', { roomId, userId: user.id, userName: user.name });
+    res.json(createAPIResponse(true, null));
+  } catch (error) {
+    sendError(res, error, 'Failed to clear the AI thread');
+  }
+});
+
+export default router;
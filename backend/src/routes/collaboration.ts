@@ -0,0 +1,60 @@
+import express from 'express';
+import { Server } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import { collaborationModeService, CollaborationModeError } from '../services/collaborationModeService';
+import { closeCrdtRoom } from '../socket/handlers/crdtHandler';
+
+// Mounted under /api/rooms/:roomId/collaboration; CRDT documents themselves sync over Socket.IO ("crdt-join")
+const router = express.Router({ mergeParams: true });
+
+type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: SocketServer | null = null;
+
+// Set the Socket.IO server used to tell the room about mode changes
+export const setSocketServer = (server: SocketServer) => {
+  io = server;
+};
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof CollaborationModeError) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+// GET /api/rooms/:roomId/collaboration - How the room edits together, and whether the caller may change it
+router.get('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    res.json(createAPIResponse(true, await collaborationModeService.getState(req.params.roomId, (req as any).user.id)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load the collaboration mode');
+  }
+});
+
+// PATCH /api/rooms/:roomId/collaboration - Switch between OT and CRDT editing (owners and admins)
+router.patch('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const { roomId } = req.params;
+    const user = (req as any).user;
+    const mode = await collaborationModeService.setMode(roomId, user.id, req.body?.mode);
+    // Back on OT the canonical docs take over; their CRDT documents are saved for next time
+    if (mode === 'ot') await closeCrdtRoom(roomId);
+    io?.to(roomId).emit('collaboration-mode', { roomId, mode, userId: user.id, userName: user.name });
+    res.json(createAPIResponse(true, { mode }));
+  } catch (error) {
+    sendError(res, error, 'Failed to change the collaboration mode');
+  }
+});
+
+export default router;
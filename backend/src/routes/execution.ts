@@ -0,0 +1,160 @@
+import express from 'express';
+import rateLimit, { MemoryStore } from 'express-rate-limit';
+import { executionService } from '../services/executionService';
+import { Room } from '../database/models';
+import { toRunConfiguration } from './runConfigurations';
+import { ExecutionRequest, ProjectExecutionRequest } from '../types';
+import { EXECUTION_MAX_SOURCE_LENGTH } from '../config/constants';
+
+const router = express.Router();
+
+export const EXECUTION_RATE_LIMIT = 20; // Runs per minute per user
+
+// Shared with socket runs, so both ways of starting a run draw on one budget
+export const executionRateStore = new MemoryStore();
+
+const executionLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: EXECUTION_RATE_LIMIT,
+  store: executionRateStore,
+  keyGenerator: (req: express.Request): string => (req as any).user.id,
+  message: {
+    success: false,
+    error: 'Too many execution requests. Please try again later.',
+    timestamp: new Date().toISOString(),
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+// GET /api/execute/runtimes - List supported languages and whether they are installed
+router.get('/runtimes', (req: express.Request, res: express.Response) => {
+  res.json(createAPIResponse(true, {
+    runtimes: executionService.getRuntimes(),
+    limits: executionService.getLimits(),
+  }));
+});
+
+// POST /api/execute - Run a snippet in an isolated child process
+router.post('/', executionLimiter, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { language, code, fileName, stdin, roomId } = req.body;
+
+  if (!language || typeof language !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'Language is required and must be a string'));
+    return;
+  }
+  if (typeof code !== 'string' || !code.trim()) {
+    res.status(400).json(createAPIResponse(false, null, 'Code is required and must be a string'));
+    return;
+  }
+  if (code.length > EXECUTION_MAX_SOURCE_LENGTH) {
+    res.status(413).json(createAPIResponse(false, null, 'Source code is too large to execute'));
+    return;
+  }
+  if (stdin !== undefined && typeof stdin !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'stdin must be a string'));
+    return;
+  }
+
+  const runtime = executionService.getRuntimes().find(r => r.language === language);
+  if (!runtime) {
+    res.status(400).json(createAPIResponse(false, null, `Unsupported language: ${language}`));
+    return;
+  }
+  if (!runtime.available) {
+    res.status(503).json(createAPIResponse(false, null, `Runtime for ${runtime.label} is not installed on this server`));
+    return;
+  }
+
+  // Kill the child process if the client goes away (e.g. the user pressed Stop)
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  try {
+    const request: ExecutionRequest = {
+      language,
+      code,
+      fileName: typeof fileName === 'string' ? fileName : undefined,
+      stdin,
+      userId: (req as any).user?.id || 'anonymous',
+      roomId: typeof roomId === 'string' ? roomId : undefined,
+    };
+
+    const result = await executionService.execute(request, { signal: abortController.signal });
+    res.json(createAPIResponse(true, result));
+  } catch (error) {
+    console.error('Error executing code:', error);
+    res.status(500).json(
+      createAPIResponse(false, null, error instanceof Error ? error.message : 'Failed to execute code')
+    );
+  }
+});
+
+// POST /api/execute/project - Run a room's run configuration against its whole file tree
+router.post('/project', executionLimiter, async (req: express.Request, res: express.Response): Promise<void> => {
+  const { roomId, configurationId, stdin } = req.body;
+
+  if (!roomId || typeof roomId !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'roomId is required and must be a string'));
+    return;
+  }
+  if (!configurationId || typeof configurationId !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'configurationId is required and must be a string'));
+    return;
+  }
+  if (stdin !== undefined && typeof stdin !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'stdin must be a string'));
+    return;
+  }
+
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abortController.abort();
+  });
+
+  try {
+    const userId = (req as any).user.id;
+    const room = await Room.findOne({ id: roomId }).select('participantList runConfigurations');
+    if (!room) {
+      res.status(404).json(createAPIResponse(false, null, 'Room not found'));
+      return;
+    }
+    if (!room.participantList.some(p => p.userId.toString() === userId)) {
+      res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+      return;
+    }
+
+    const config = (room.runConfigurations || []).find(c => c._id.toString() === configurationId);
+    if (!config) {
+      res.status(404).json(createAPIResponse(false, null, 'Run configuration not found'));
+      return;
+    }
+
+    const request: ProjectExecutionRequest = {
+      roomId,
+      userId,
+      configuration: toRunConfiguration(config),
+      stdin,
+    };
+
+    const result = await executionService.executeProject(request, { signal: abortController.signal });
+    res.json(createAPIResponse(true, result));
+  } catch (error) {
+    console.error('Error executing project:', error);
+    res.status(500).json(
+      createAPIResponse(false, null, error instanceof Error ? error.message : 'Failed to execute project')
+    );
+  }
+});
+
+export default router;
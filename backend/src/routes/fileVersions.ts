@@ -0,0 +1,121 @@
+import express from 'express';
+import { Server } from 'socket.io';
+import { Room } from '../database/models';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import { fileVersionService, FileVersionError } from '../services/fileVersionService';
+import { resetCanonicalContent } from '../socket/handlers/editorHandler';
+
+// Mounted under /api/files/:fileId/versions
+const router = express.Router({ mergeParams: true });
+
+type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: SocketServer | null = null;
+
+// Set the Socket.IO server used to push restored content to the room
+export const setSocketServer = (server: SocketServer) => {
+  io = server;
+};
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+/**
+ * Confirms the caller is a participant of the room holding the file;
+ * responds on failure. Resolves to the room id.
+ */
+const requireFileAccess = async (req: express.Request, res: express.Response): Promise<string | null> => {
+  const currentFileId = await fileVersionService.resolveCurrentFileId(req.params.fileId);
+  const room = await Room.findOne({ 'files.fileId': currentFileId }).select('id participantList');
+  if (!room) {
+    res.status(404).json(createAPIResponse(false, null, 'File not found'));
+    return null;
+  }
+  const userId = (req as any).user.id;
+  if (!room.participantList.some(p => p.userId.toString() === userId)) {
+    res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+    return null;
+  }
+  return room.id;
+};
+
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof FileVersionError) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+const parseVersion = (value: string): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// GET /api/files/:fileId/versions - Retained versions, newest first
+router.get('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireFileAccess(req, res))) return;
+    res.json(createAPIResponse(true, await fileVersionService.listVersions(req.params.fileId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load file versions');
+  }
+});
+
+// GET /api/files/:fileId/versions/:n - One version with its content
+router.get('/:n', async (req: express.Request, res: express.Response): Promise<void> => {
+  const version = parseVersion(req.params.n);
+  if (!version) {
+    res.status(400).json(createAPIResponse(false, null, 'Invalid version number'));
+    return;
+  }
+
+  try {
+    if (!(await requireFileAccess(req, res))) return;
+    res.json(createAPIResponse(true, await fileVersionService.getVersion(req.params.fileId, version)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load file version');
+  }
+});
+
+// POST /api/files/:fileId/versions/:n/restore - Make an older version current and push it to the room
+router.post('/:n/restore', async (req: express.Request, res: express.Response): Promise<void> => {
+  const version = parseVersion(req.params.n);
+  if (!version) {
+    res.status(400).json(createAPIResponse(false, null, 'Invalid version number'));
+    return;
+  }
+
+  try {
+    const roomId = await requireFileAccess(req, res);
+    if (!roomId) return;
+    const user = (req as any).user;
+    const restored = await fileVersionService.restoreVersion(req.params.fileId, version, user.id);
+
+    // Open editors hold the file under whichever id they loaded it with
+    const collaborationVersion = await resetCanonicalContent(roomId, restored.fileIds, restored.content);
+    io?.to(roomId).emit('file-restored', {
+      roomId,
+      fileId: restored.fileId,
+      fileIds: restored.fileIds,
+      content: restored.content,
+      version: collaborationVersion,
+      restoredVersion: version,
+      userId: user.id,
+      userName: user.name,
+      timestamp: new Date().toISOString(),
+    });
+
+    res.json(createAPIResponse(true, { fileId: restored.fileId, version: restored.version }));
+  } catch (error) {
+    sendError(res, error, 'Failed to restore file version');
+  }
+});
+
+export default router;
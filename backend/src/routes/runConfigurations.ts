@@ -0,0 +1,173 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { Room } from '../database/models';
+import { IRoom } from '../types/database';
+import { RunConfiguration, RunConfigurationEnvVar } from '../types';
+
+// Mounted under /api/rooms/:roomId/run-configurations
+const router = express.Router({ mergeParams: true });
+
+const MAX_CONFIGURATIONS_PER_ROOM = 50;
+const COMMAND_PATTERN = /^[A-Za-z0-9_./+-]+$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+const toRunConfiguration = (config: IRoom['runConfigurations'][number]): RunConfiguration => ({
+  id: config._id.toString(),
+  name: config.name,
+  language: config.language,
+  command: config.command,
+  args: config.args || [],
+  env: (config.env || []).map(variable => ({ name: variable.name, value: variable.value })),
+  workingDirectory: config.workingDirectory || undefined,
+});
+
+// Returns an error message, or the normalized fields when the body is valid
+const parseRunConfiguration = (body: any): { error: string } | { value: Omit<RunConfiguration, 'id'> } => {
+  const { name, language, command, args = [], env = [], workingDirectory = '' } = body || {};
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return { error: 'Name is required and must be at most 100 characters' };
+  }
+  if (typeof command !== 'string' || !COMMAND_PATTERN.test(command.trim())) {
+    return { error: 'Command must be a single executable name or path' };
+  }
+  if (!Array.isArray(args) || args.some((arg: unknown) => typeof arg !== 'string')) {
+    return { error: 'Args must be an array of strings' };
+  }
+  if (
+    !Array.isArray(env) ||
+    env.some((variable: any) => !ENV_NAME_PATTERN.test(variable?.name) || typeof (variable?.value ?? '') !== 'string')
+  ) {
+    return { error: 'Env must be an array of { name, value } with valid variable names' };
+  }
+  if (typeof workingDirectory !== 'string' || workingDirectory.split(/[/\\]/).includes('..')) {
+    return { error: 'Working directory must be a path inside the project' };
+  }
+
+  return {
+    value: {
+      name: name.trim(),
+      language: typeof language === 'string' && language ? language : 'plaintext',
+      command: command.trim(),
+      args,
+      env: env.map((variable: RunConfigurationEnvVar) => ({ name: variable.name, value: variable.value ?? '' })),
+      workingDirectory: workingDirectory.replace(/^[/\\]+/, ''),
+    },
+  };
+};
+
+// Loads the room and confirms the caller is a participant; responds on failure
+const findParticipantRoom = async (req: express.Request, res: express.Response) => {
+  const room = await Room.findOne({ id: req.params.roomId });
+  if (!room) {
+    res.status(404).json(createAPIResponse(false, null, 'Room not found'));
+    return null;
+  }
+  const userId = (req as any).user.id;
+  if (!room.participantList.some(p => p.userId.toString() === userId)) {
+    res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+    return null;
+  }
+  return room;
+};
+
+// GET /api/rooms/:roomId/run-configurations - List the room's run configurations
+router.get('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const room = await findParticipantRoom(req, res);
+    if (!room) return;
+    res.json(createAPIResponse(true, (room.runConfigurations || []).map(toRunConfiguration)));
+  } catch (error) {
+    console.error('Error listing run configurations:', error);
+    res.status(500).json(createAPIResponse(false, null, 'Failed to load run configurations'));
+  }
+});
+
+// POST /api/rooms/:roomId/run-configurations - Add a run configuration
+router.post('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  const parsed = parseRunConfiguration(req.body);
+  if ('error' in parsed) {
+    res.status(400).json(createAPIResponse(false, null, parsed.error));
+    return;
+  }
+
+  try {
+    const room = await findParticipantRoom(req, res);
+    if (!room) return;
+    if ((room.runConfigurations || []).length >= MAX_CONFIGURATIONS_PER_ROOM) {
+      res.status(400).json(createAPIResponse(false, null, 'Run configuration limit reached for this room'));
+      return;
+    }
+
+    room.runConfigurations.push({
+      ...parsed.value,
+      createdBy: new mongoose.Types.ObjectId((req as any).user.id),
+    } as any);
+    await room.save();
+
+    const created = room.runConfigurations[room.runConfigurations.length - 1];
+    res.status(201).json(createAPIResponse(true, toRunConfiguration(created)));
+  } catch (error) {
+    console.error('Error creating run configuration:', error);
+    res.status(500).json(createAPIResponse(false, null, 'Failed to create run configuration'));
+  }
+});
+
+// PUT /api/rooms/:roomId/run-configurations/:configId - Replace a run configuration
+router.put('/:configId', async (req: express.Request, res: express.Response): Promise<void> => {
+  const parsed = parseRunConfiguration(req.body);
+  if ('error' in parsed) {
+    res.status(400).json(createAPIResponse(false, null, parsed.error));
+    return;
+  }
+
+  try {
+    const room = await findParticipantRoom(req, res);
+    if (!room) return;
+
+    const config = room.runConfigurations.find(c => c._id.toString() === req.params.configId);
+    if (!config) {
+      res.status(404).json(createAPIResponse(false, null, 'Run configuration not found'));
+      return;
+    }
+
+    Object.assign(config, parsed.value, { updatedAt: new Date() });
+    await room.save();
+    res.json(createAPIResponse(true, toRunConfiguration(config)));
+  } catch (error) {
+    console.error('Error updating run configuration:', error);
+    res.status(500).json(createAPIResponse(false, null, 'Failed to update run configuration'));
+  }
+});
+
+// DELETE /api/rooms/:roomId/run-configurations/:configId - Remove a run configuration
+router.delete('/:configId', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    const room = await findParticipantRoom(req, res);
+    if (!room) return;
+
+    const before = room.runConfigurations.length;
+    room.runConfigurations = room.runConfigurations.filter(c => c._id.toString() !== req.params.configId);
+    if (room.runConfigurations.length === before) {
+      res.status(404).json(createAPIResponse(false, null, 'Run configuration not found'));
+      return;
+    }
+
+    await room.save();
+    res.json(createAPIResponse(true, { id: req.params.configId }));
+  } catch (error) {
+    console.error('Error deleting run configuration:', error);
+    res.status(500).json(createAPIResponse(false, null, 'Failed to delete run configuration'));
+  }
+});
+
+export { toRunConfiguration };
+export default router;
@@ -0,0 +1,137 @@
+import express from 'express';
+import { Room } from '../database/models';
+import { searchService, SearchError, LiveContentReader } from '../services/searchService';
+import { fileVersionService } from '../services/fileVersionService';
+import { applyServerChange, getCanonicalSnapshot } from '../socket/handlers/editorHandler';
+import { parseGlobList } from '../utils/globPattern';
+import { FileReplaceResponse, FileReplaceSelection, FileSearchQuery } from '../types/filesystem';
+
+// Mounted under /api/rooms/:roomId/search
+const router = express.Router({ mergeParams: true });
+
+const MAX_REPLACE_FILES = 1000;
+const MAX_CHANGE_DESCRIPTION_LENGTH = 200;
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+// Confirms the caller is a participant of the room; responds on failure
+const requireParticipant = async (req: express.Request, res: express.Response): Promise<boolean> => {
+  const room = await Room.findOne({ id: req.params.roomId }).select('participantList');
+  if (!room) {
+    res.status(404).json(createAPIResponse(false, null, 'Room not found'));
+    return false;
+  }
+  const userId = (req as any).user.id;
+  if (!room.participantList.some(p => p.userId.toString() === userId)) {
+    res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+    return false;
+  }
+  return true;
+};
+
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof SearchError) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+// Files being edited are searched as they are in the editor, not as last saved
+export const readLiveContent = (roomId: string): LiveContentReader => async fileId =>
+  getCanonicalSnapshot(roomId, await fileVersionService.getFileIds(fileId));
+
+const parseSelections = (value: unknown): FileReplaceSelection[] | null => {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_REPLACE_FILES) return null;
+  const valid = value.every(item =>
+    typeof item?.fileId === 'string' &&
+    (item.matches === undefined ||
+      (Array.isArray(item.matches) && item.matches.every((offset: unknown) => Number.isInteger(offset))))
+  );
+  return valid ? value.map(item => ({ fileId: item.fileId, matches: item.matches })) : null;
+};
+
+const isTrue = (value: unknown) => value === true || value === 'true' || value === '1';
+
+const parseSearchQuery = (source: any): FileSearchQuery => ({
+  query: typeof source?.q === 'string' ? source.q : '',
+  caseSensitive: isTrue(source?.caseSensitive),
+  wholeWord: isTrue(source?.wholeWord),
+  useRegex: isTrue(source?.regex),
+  include: parseGlobList(source?.include),
+  exclude: parseGlobList(source?.exclude),
+});
+
+// GET /api/rooms/:roomId/search?q=&caseSensitive=&wholeWord=&regex=&include=&exclude= - Search file contents
+router.get('/', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const { roomId } = req.params;
+    res.json(createAPIResponse(true, await searchService.search(roomId, parseSearchQuery(req.query), readLiveContent(roomId))));
+  } catch (error) {
+    sendError(res, error, 'Failed to search files');
+  }
+});
+
+// POST /api/rooms/:roomId/search/replace/preview - Every match with the text that would replace it
+router.post('/replace/preview', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { replace } = req.body || {};
+  if (typeof replace !== 'string') {
+    res.status(400).json(createAPIResponse(false, null, 'replace must be a string'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const { roomId } = req.params;
+    const preview = await searchService.previewReplace(roomId, parseSearchQuery(req.body), replace, readLiveContent(roomId));
+    res.json(createAPIResponse(true, preview));
+  } catch (error) {
+    sendError(res, error, 'Failed to preview replacements');
+  }
+});
+
+// POST /api/rooms/:roomId/search/replace - Apply the selected replacements as collaborative edits and save them
+router.post('/replace', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { replace } = req.body || {};
+  const selections = parseSelections(req.body?.files);
+  if (typeof replace !== 'string' || !selections) {
+    res.status(400).json(createAPIResponse(false, null, 'replace must be a string and files a non-empty list of selections'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const { roomId } = req.params;
+    const user = (req as any).user;
+    const query = parseSearchQuery(req.body);
+    const plans = await searchService.planReplace(roomId, query, replace, selections, readLiveContent(roomId));
+    const description = `Replaced "${query.query}" with "${replace}"`.slice(0, MAX_CHANGE_DESCRIPTION_LENGTH);
+
+    const response: FileReplaceResponse = { files: [], totalReplaced: 0 };
+    for (const plan of plans) {
+      // Open editors take the edit live; the result is then saved as a new version
+      const fileIds = await fileVersionService.getFileIds(plan.fileId);
+      const content = await applyServerChange(roomId, fileIds, plan.base, plan.operations, {
+        userId: user.id,
+        userName: user.name,
+      });
+      const saved = await fileVersionService.saveContent(plan.fileId, Buffer.from(content, 'utf8'), user.id, description);
+      response.files.push({ fileId: saved.fileId, filePath: plan.filePath, replaced: plan.replaced, version: saved.version });
+      response.totalReplaced += plan.replaced;
+    }
+
+    res.json(createAPIResponse(true, response));
+  } catch (error) {
+    sendError(res, error, 'Failed to replace in files');
+  }
+});
+
+export default router;
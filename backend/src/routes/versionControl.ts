@@ -0,0 +1,359 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import multer from 'multer';
+import { Server } from 'socket.io';
+import { Room } from '../database/models';
+import { ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData } from '../types/socket';
+import { versionControlService, VersionControlError, LiveDocuments } from '../services/versionControlService';
+import { closeCanonicalContent, flushRoomDocuments, resetCanonicalContent } from '../socket/handlers/editorHandler';
+import { VCS_IMPORT_MAX_BYTES } from '../config/constants';
+
+// Mounted under /api/rooms/:roomId/vcs
+const router = express.Router({ mergeParams: true });
+
+type SocketServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+let io: SocketServer | null = null;
+
+// Open editors are checkpointed before files are read and follow when they are rewritten
+const liveDocuments: LiveDocuments = {
+  flush: flushRoomDocuments,
+  replace: resetCanonicalContent,
+  close: closeCanonicalContent,
+};
+
+// Set the Socket.IO server used to tell rooms their file tree changed
+export const setSocketServer = (server: SocketServer) => {
+  io = server;
+  versionControlService.setLiveDocuments(liveDocuments);
+};
+
+const MAX_PATHS_PER_REQUEST = 1000;
+const MAX_COMMIT_MESSAGE_LENGTH = 5000;
+const MAX_LOG_LIMIT = 200;
+
+// Project archives and bundles for import, held in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: VCS_IMPORT_MAX_BYTES,
+    files: 1,
+  },
+});
+
+// API Response helper
+const createAPIResponse = (success: boolean, data?: any, error?: string) => ({
+  success,
+  data,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+// Confirms the caller is a participant of the room; responds on failure
+const requireParticipant = async (req: express.Request, res: express.Response): Promise<boolean> => {
+  const room = await Room.findOne({ id: req.params.roomId }).select('participantList');
+  if (!room) {
+    res.status(404).json(createAPIResponse(false, null, 'Room not found'));
+    return false;
+  }
+  const userId = (req as any).user.id;
+  if (!room.participantList.some(p => p.userId.toString() === userId)) {
+    res.status(403).json(createAPIResponse(false, null, 'Not a participant of this room'));
+    return false;
+  }
+  return true;
+};
+
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof VersionControlError) {
+    res.status(error.status).json(createAPIResponse(false, null, error.message));
+  } else if (error instanceof mongoose.Error.VersionError) {
+    res.status(409).json(createAPIResponse(false, null, 'The repository changed while saving. Try again.'));
+  } else {
+    console.error(`${fallback}:`, error);
+    res.status(500).json(createAPIResponse(false, null, fallback));
+  }
+};
+
+// Checkout and merge rewrite Room.files, so everyone in the room reloads the tree
+const broadcastFileStructure = (req: express.Request, reason: string, branch: string) => {
+  const user = (req as any).user;
+  io?.to(req.params.roomId).emit('sync-file-structure', {
+    roomId: req.params.roomId,
+    reason,
+    branch,
+    userId: user.id,
+    userName: user.name,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+const getAuthor = (req: express.Request) => {
+  const user = (req as any).user;
+  return { userId: user.id, name: user.name || 'Unknown', email: user.email || '' };
+};
+
+const parsePaths = (body: any): string[] | null => {
+  const paths = body?.paths;
+  if (!Array.isArray(paths) || !paths.length || paths.length > MAX_PATHS_PER_REQUEST) return null;
+  if (paths.some((path: unknown) => typeof path !== 'string' || !path)) return null;
+  return paths;
+};
+
+// GET /api/rooms/:roomId/vcs/status - Staged and unstaged changes against HEAD
+router.get('/status', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.json(createAPIResponse(true, await versionControlService.getStatus(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load source control status');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/stage - Stage files by path
+router.post('/stage', async (req: express.Request, res: express.Response): Promise<void> => {
+  const paths = parsePaths(req.body);
+  if (!paths) {
+    res.status(400).json(createAPIResponse(false, null, 'paths must be a non-empty array of file paths'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.stage(req.params.roomId, paths);
+    res.json(createAPIResponse(true, await versionControlService.getStatus(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to stage files');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/unstage - Unstage files by path
+router.post('/unstage', async (req: express.Request, res: express.Response): Promise<void> => {
+  const paths = parsePaths(req.body);
+  if (!paths) {
+    res.status(400).json(createAPIResponse(false, null, 'paths must be a non-empty array of file paths'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.unstage(req.params.roomId, paths);
+    res.json(createAPIResponse(true, await versionControlService.getStatus(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to unstage files');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/commit - Commit the staged changes
+router.post('/commit', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { message } = req.body || {};
+  if (typeof message !== 'string' || !message.trim() || message.length > MAX_COMMIT_MESSAGE_LENGTH) {
+    res.status(400).json(createAPIResponse(false, null, 'Commit message is required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const commit = await versionControlService.commit(req.params.roomId, message.trim(), getAuthor(req));
+    res.status(201).json(createAPIResponse(true, commit));
+  } catch (error) {
+    sendError(res, error, 'Failed to commit changes');
+  }
+});
+
+// GET /api/rooms/:roomId/vcs/log - Commit history of the current branch
+router.get('/log', async (req: express.Request, res: express.Response): Promise<void> => {
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ''), 10) || 50, 1), MAX_LOG_LIMIT);
+  const skip = Math.max(parseInt(String(req.query.skip ?? ''), 10) || 0, 0);
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.json(createAPIResponse(true, await versionControlService.getLog(req.params.roomId, { limit, skip })));
+  } catch (error) {
+    sendError(res, error, 'Failed to load commit history');
+  }
+});
+
+// GET /api/rooms/:roomId/vcs/commits/:hash - A commit and the files it changed
+router.get('/commits/:hash', async (req: express.Request, res: express.Response): Promise<void> => {
+  if (!/^[0-9a-f]{40}$/.test(req.params.hash)) {
+    res.status(400).json(createAPIResponse(false, null, 'Invalid commit hash'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.json(createAPIResponse(true, await versionControlService.getCommit(req.params.roomId, req.params.hash)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load commit');
+  }
+});
+
+// GET /api/rooms/:roomId/vcs/branches - List branches
+router.get('/branches', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.json(createAPIResponse(true, await versionControlService.listBranches(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load branches');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/branches - Create a branch at HEAD
+router.post('/branches', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { name } = req.body || {};
+  if (typeof name !== 'string' || !name.trim()) {
+    res.status(400).json(createAPIResponse(false, null, 'Branch name is required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.status(201).json(createAPIResponse(true, await versionControlService.createBranch(req.params.roomId, name.trim())));
+  } catch (error) {
+    sendError(res, error, 'Failed to create branch');
+  }
+});
+
+// DELETE /api/rooms/:roomId/vcs/branches/:name - Delete a branch (names may contain "/")
+router.delete('/branches/*name', async (req: express.Request, res: express.Response): Promise<void> => {
+  const name = ([] as string[]).concat(req.params.name as unknown as string[]).join('/');
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.deleteBranch(req.params.roomId, name);
+    res.json(createAPIResponse(true, { name }));
+  } catch (error) {
+    sendError(res, error, 'Failed to delete branch');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/checkout - Switch branches, rewriting the room's files
+router.post('/checkout', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { branch } = req.body || {};
+  if (typeof branch !== 'string' || !branch) {
+    res.status(400).json(createAPIResponse(false, null, 'Branch is required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.checkout(req.params.roomId, branch, (req as any).user.id);
+    broadcastFileStructure(req, 'checkout', branch);
+    res.json(createAPIResponse(true, await versionControlService.getStatus(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to switch branches');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/merge - Merge a branch into the checked-out one
+router.post('/merge', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { branch } = req.body || {};
+  if (typeof branch !== 'string' || !branch) {
+    res.status(400).json(createAPIResponse(false, null, 'Branch is required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const result = await versionControlService.merge(req.params.roomId, branch, getAuthor(req));
+    if (result.status !== 'up-to-date') {
+      broadcastFileStructure(req, 'merge', branch);
+    }
+    res.json(createAPIResponse(true, result));
+  } catch (error) {
+    sendError(res, error, 'Failed to merge branch');
+  }
+});
+
+// GET /api/rooms/:roomId/vcs/merge/conflicts - Each side of every unresolved path
+router.get('/merge/conflicts', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    res.json(createAPIResponse(true, await versionControlService.getConflicts(req.params.roomId)));
+  } catch (error) {
+    sendError(res, error, 'Failed to load merge conflicts');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/merge/resolve - Resolve one path with the given content (null deletes it)
+router.post('/merge/resolve', async (req: express.Request, res: express.Response): Promise<void> => {
+  const { path, content } = req.body || {};
+  if (typeof path !== 'string' || !path || (content !== null && typeof content !== 'string')) {
+    res.status(400).json(createAPIResponse(false, null, 'path and content (string or null) are required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.resolveConflict(req.params.roomId, path, content, (req as any).user.id);
+    const status = await versionControlService.getStatus(req.params.roomId);
+    broadcastFileStructure(req, 'merge-resolve', status.branch);
+    res.json(createAPIResponse(true, status));
+  } catch (error) {
+    sendError(res, error, 'Failed to resolve conflict');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/merge/abort - Abandon the merge and restore HEAD
+router.post('/merge/abort', async (req: express.Request, res: express.Response): Promise<void> => {
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    await versionControlService.abortMerge(req.params.roomId, (req as any).user.id);
+    const status = await versionControlService.getStatus(req.params.roomId);
+    broadcastFileStructure(req, 'merge-abort', status.branch);
+    res.json(createAPIResponse(true, status));
+  } catch (error) {
+    sendError(res, error, 'Failed to abort merge');
+  }
+});
+
+// GET /api/rooms/:roomId/vcs/export?format=bundle|tar - Download the history as a git bundle or bare repository
+router.get('/export', async (req: express.Request, res: express.Response): Promise<void> => {
+  const format = req.query.format ?? 'bundle';
+  if (format !== 'bundle' && format !== 'tar') {
+    res.status(400).json(createAPIResponse(false, null, 'format must be bundle or tar'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const archive = await versionControlService.exportRepository(req.params.roomId, format);
+    const filename = format === 'bundle' ? `${req.params.roomId}.bundle` : `${req.params.roomId}.git.tar.gz`;
+    res.setHeader('Content-Type', format === 'bundle' ? 'application/octet-stream' : 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(archive);
+  } catch (error) {
+    sendError(res, error, 'Failed to export repository');
+  }
+});
+
+// POST /api/rooms/:roomId/vcs/import - Import a project archive, git bundle or zipped repository
+router.post('/import', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload.single('archive')(req, res, error => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      res.status(413).json(createAPIResponse(false, null, 'Upload is too large'));
+    } else if (error) {
+      res.status(400).json(createAPIResponse(false, null, error.message));
+    } else {
+      next();
+    }
+  });
+}, async (req: express.Request, res: express.Response): Promise<void> => {
+  if (!req.file?.buffer.length) {
+    res.status(400).json(createAPIResponse(false, null, 'An archive file is required'));
+    return;
+  }
+
+  try {
+    if (!(await requireParticipant(req, res))) return;
+    const result = await versionControlService.importProject(req.params.roomId, req.file.buffer, (req as any).user.id);
+    const current = result.branches.find(branch => branch.current);
+    broadcastFileStructure(req, 'import', current?.name || '');
+    res.status(201).json(createAPIResponse(true, result));
+  } catch (error) {
+    sendError(res, error, 'Failed to import project');
+  }
+});
+
+export default router;
@@ -33,10 +33,21 @@ import {
 } from "./utils/userHelpers";
 import { initializeSocketHandlers } from "./socket/socketServer";
 import { setGridFSBucket, authRoutes } from "./routes/auth";
-import aiRoutes from "./routes/ai";
+import aiRoutes, { setSocketServer as setAISocketServer } from "./routes/ai";
 import roomRoutes from "./routes/roomRoutes";
-import { User, Room, Message, FileMeta } from "./database/models";
-import { JWT_SECRET, MONGO_URI, PORT } from "./config/constants";
+import executionRoutes from "./routes/execution";
+import runConfigurationRoutes from "./routes/runConfigurations";
+import versionControlRoutes, { setSocketServer as setVersionControlSocketServer } from "./routes/versionControl";
+import fileVersionRoutes, { setSocketServer as setFileVersionSocketServer } from "./routes/fileVersions";
+import searchRoutes from "./routes/search";
+import aiThreadRoutes, { setSocketServer as setAIThreadSocketServer } from "./routes/aiThread";
+import collaborationRoutes, { setSocketServer as setCollaborationSocketServer } from "./routes/collaboration";
+import { fileVersionService, FileVersionError } from "./services/fileVersionService";
+import { collaborationPersistenceService } from "./services/collaborationPersistenceService";
+import { crdtDocumentService } from "./services/crdtDocumentService";
+import { clusterService } from "./services/clusterService";
+import { User, Room, Message } from "./database/models";
+import { JWT_SECRET, MONGO_URI, PORT, REDIS_URL } from "./config/constants";
 
 // Load environment variables
 dotenv.config();
@@ -156,7 +167,6 @@ const upload = multer();
 
 // Routes
 app.use("/api/auth", authRoutes);
-app.use("/api/ai", aiRoutes);
 app.use("/api/rooms", roomRoutes);
 
 // Authentication middleware
@@ -188,6 +198,16 @@ const authenticateToken = (req: express.Request, res: express.Response, next: ex
   }
 };
 
+// Authenticated feature routers
+app.use("/api/ai", authenticateToken, aiRoutes);
+app.use("/api/execute", authenticateToken, executionRoutes);
+app.use("/api/rooms/:roomId/run-configurations", authenticateToken, runConfigurationRoutes);
+app.use("/api/rooms/:roomId/vcs", authenticateToken, versionControlRoutes);
+app.use("/api/files/:fileId/versions", authenticateToken, fileVersionRoutes);
+app.use("/api/rooms/:roomId/search", authenticateToken, searchRoutes);
+app.use("/api/rooms/:roomId/ai-thread", authenticateToken, aiThreadRoutes);
+app.use("/api/rooms/:roomId/collaboration", authenticateToken, collaborationRoutes);
+
 // Essential API endpoints that frontend needs
 
 // Health check endpoint
@@ -789,6 +809,11 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 // Socket connection handling
 // Initialize Socket.IO handlers
 initializeSocketHandlers(io);
+setVersionControlSocketServer(io);
+setFileVersionSocketServer(io);
+setAISocketServer(io);
+setAIThreadSocketServer(io);
+setCollaborationSocketServer(io);
 
 // Cleanup inactive users every 30 minutes
 setInterval(() => {
@@ -810,6 +835,12 @@ const startServer = async () => {
     console.log(`\n💾 [${timestamp}] Connecting to MongoDB...`);
     await dbConnectionPromise;
     console.log(`✅ [${new Date().toISOString()}] MongoDB connected successfully`);
+
+    if (REDIS_URL) {
+      console.log(`\n🧩 [${new Date().toISOString()}] Connecting to Redis...`);
+      await clusterService.connect(io, REDIS_URL);
+      console.log(`✅ [${new Date().toISOString()}] Redis connected, running as instance ${clusterService.instanceId}`);
+    }
     
     server.listen(PORT, () => {
       const bootTime = Date.now() - startTime;
@@ -821,6 +852,7 @@ const startServer = async () => {
       console.log(`📊 Environment: ${process.env.NODE_ENV || "development"}`);
       console.log(`💾 Database: ✅ Connected to MongoDB`);
       console.log(`🔌 Socket.IO: ✅ Ready for connections`);
+      console.log(`🧩 Cluster: ${clusterService.shared ? "✅ Sharing rooms through Redis" : "Single instance"}`);
       console.log(`🌐 Available at: http://localhost:${PORT}`);
       console.log(`\n🔥 Ready to accept requests! 🔥\n`);
     });
@@ -836,18 +868,28 @@ const startServer = async () => {
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("SIGTERM received, shutting down gracefully");
-  server.close(() => {
-    mongoose.connection.close();
-    process.exit(0);
-  });
+  // Live edits not yet written back go out before the database connection closes,
+  // and only then can other instances take the documents over
+  Promise.all([collaborationPersistenceService.flushAll(), crdtDocumentService.flushAll()])
+    .finally(() => clusterService.close().catch(() => undefined))
+    .finally(() => {
+      server.close(() => {
+        mongoose.connection.close();
+        process.exit(0);
+      });
+    });
 });
 
 process.on("SIGINT", () => {
   console.log("SIGINT received, shutting down gracefully");
-  server.close(() => {
-    mongoose.connection.close();
-    process.exit(0);
-  });
+  Promise.all([collaborationPersistenceService.flushAll(), crdtDocumentService.flushAll()])
+    .finally(() => clusterService.close().catch(() => undefined))
+    .finally(() => {
+      server.close(() => {
+        mongoose.connection.close();
+        process.exit(0);
+      });
+    });
 });
 
 // Missing endpoints that frontend expects
@@ -1410,7 +1452,7 @@ app.put("/api/files/:fileId/content", authenticateToken, async (req, res): Promi
   try {
     await dbConnectionPromise;
     const { fileId } = req.params;
-    const { content } = req.body;
+    const { content, changeDescription } = req.body;
 
     if (!gridfsBucket) {
       console.log(`❌ [${timestamp}] GridFS bucket not initialized`);
@@ -1420,92 +1462,43 @@ app.put("/api/files/:fileId/content", authenticateToken, async (req, res): Promi
       });
     }
 
-    // Check if file exists
-    const files = await gridfsBucket.find({ _id: new ObjectId(fileId) }).toArray();
-    if (!files || files.length === 0) {
-      console.log(`❌ [${timestamp}] File not found in GridFS: ${fileId}`);
-      return res.status(404).json({ 
+    if (typeof content !== 'string') {
+      return res.status(400).json({
         success: false,
-        message: "File not found" 
+        message: "Content must be a string"
       });
     }
 
-    const originalFile = files[0];
-    console.log(`🔍 [${timestamp}] Updating file: ${originalFile.filename}`);
-
-    // Record version history before replacing the file
-    try {
-      const userId = (req as any).user?.id;
-      await FileMeta.updateOne(
-        { currentFileId: new ObjectId(fileId) },
-        {
-          $setOnInsert: { currentFileId: new ObjectId(fileId) },
-          $push: {
-            history: {
-              timestamp: new Date(),
-              userId: new ObjectId(userId),
-              previousFileId: new ObjectId(fileId),
-            },
-          },
-        },
-        { upsert: true }
-      );
-    } catch (historyErr) {
-      console.warn(`⚠️ [${timestamp}] Failed to write file version history:`, historyErr);
+    if (changeDescription !== undefined && typeof changeDescription !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: "Change description must be a string"
+      });
     }
 
-    // Delete the old file
-    await gridfsBucket.delete(new ObjectId(fileId));
-    console.log(`🗑️ [${timestamp}] Old file deleted`);
-
-    // Upload the updated content as a new file with the same filename
-    const uploadStream = gridfsBucket.openUploadStream(originalFile.filename, {
-      metadata: { ...originalFile.metadata, updatedAt: new Date() }
-    });
-
-    uploadStream.end(Buffer.from(content, 'utf8'));
-
-    uploadStream.on('finish', async () => {
-      const newFileId = uploadStream.id;
-      console.log(`✅ [${timestamp}] File updated with new ID: ${newFileId}`);
-
-      // Update room files array with new file ID (if needed)
-      try {
-        await Room.updateMany(
-          { "files.fileId": new ObjectId(fileId) },
-          { $set: { "files.$.fileId": newFileId } }
-        );
-        console.log(`✅ [${timestamp}] Room file references updated`);
-      } catch (updateError) {
-        console.warn(`⚠️ [${timestamp}] Could not update room file references:`, updateError);
-      }
-
-      // Update FileMeta current pointer to the new GridFS file id
-      try {
-        await FileMeta.updateOne(
-          { currentFileId: new ObjectId(fileId) },
-          { $set: { currentFileId: newFileId } }
-        );
-      } catch (metaErr) {
-        console.warn(`⚠️ [${timestamp}] Failed to update FileMeta currentFileId:`, metaErr);
-      }
+    // The previous upload is kept as a version; editors may still hold an older id of this file
+    const saved = await fileVersionService.saveContent(
+      fileId,
+      Buffer.from(content, 'utf8'),
+      (req as any).user.id,
+      changeDescription?.trim().slice(0, 200) || undefined
+    );
+    console.log(`✅ [${timestamp}] File updated with new ID: ${saved.fileId} (version ${saved.version})`);
 
-      res.json({
-        success: true,
-        fileId: newFileId.toString(),
-        message: "File content updated successfully"
-      });
+    res.json({
+      success: true,
+      fileId: saved.fileId,
+      version: saved.version,
+      message: "File content updated successfully"
     });
 
-    uploadStream.on('error', (error) => {
-      console.error(`💥 [${timestamp}] Error updating file content:`, error);
-      res.status(500).json({ 
+  } catch (error) {
+    if (error instanceof FileVersionError) {
+      return res.status(error.status).json({
         success: false,
-        message: "Failed to update file content" 
+        message: error.message
       });
-    });
-
-  } catch (error) {
+    }
     console.error(`💥 [${timestamp}] File update error:`, error);
     res.status(500).json({ 
       success: false,
@@ -1955,6 +1948,7 @@ app.patch("/api/rooms/:roomId/files", authenticateToken, async (req, res): Promi
       const match = fileIdValue ? idsToDelete.has(fileIdValue) : false;
       if (match && entry.fileId && gridfsBucket) {
         try { await gridfsBucket.delete(new ObjectId(fileIdValue)); } catch {}
+        try { await fileVersionService.deleteHistory(fileIdValue!); } catch {}
       }
     }
 
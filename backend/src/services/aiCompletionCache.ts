@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+import { AI_COMPLETION_CACHE_ENTRIES, AI_COMPLETION_CACHE_TTL_MS } from "../config/constants";
+import { AICompletionRequest, AICompletionResponse } from "../types/ai";
+
+export interface AICompletionCacheLimits {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+interface CacheEntry {
+  response: AICompletionResponse;
+  expiresAt: number;
+}
+
+/**
+ * Completions by a hash of everything that goes into their prompt, so
+ * typing back to text already completed doesn't ask the model again.
+ * Least recently used entries are dropped first.
+ */
+class AICompletionCache {
+  private limits: AICompletionCacheLimits;
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(limits: AICompletionCacheLimits) {
+    this.limits = limits;
+  }
+
+  // The prompt is built from these fields alone, so equal keys mean equal prompts
+  keyFor(request: AICompletionRequest, provider: string, model: string): string {
+    const { language, path, prefix, suffix, content, context, fileContent, cursorPosition } = request;
+    return createHash("sha256")
+      .update(JSON.stringify([provider, model, language, path, prefix, suffix, content, context, fileContent, cursorPosition]))
+      .digest("hex");
+  }
+
+  get(key: string): AICompletionResponse | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+    this.entries.set(key, entry);
+    return entry.response;
+  }
+
+  set(key: string, response: AICompletionResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: Date.now() + this.limits.ttlMs });
+    while (this.entries.size > this.limits.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+export const aiCompletionCache = new AICompletionCache({
+  maxEntries: AI_COMPLETION_CACHE_ENTRIES,
+  ttlMs: AI_COMPLETION_CACHE_TTL_MS,
+});
+
+export default AICompletionCache;
@@ -0,0 +1,298 @@
+import path from "path";
+import {
+  AI_CONTEXT_MAX_CHARS,
+  AI_CONTEXT_MAX_FILE_CHARS,
+  AI_CONTEXT_MAX_INDEXED_FILES,
+  AI_CONTEXT_MAX_MATCHES,
+} from "../config/constants";
+import { AIContextFile, AIContextReason } from "../types/ai";
+import SearchService, { LiveContentReader, searchService } from "./searchService";
+
+export interface AIContextLimits {
+  maxChars: number; // Total file content added to a prompt
+  maxFileChars: number; // Per file; longer files are excerpted
+  maxMatches: number; // Files added for matching the question
+  maxIndexedFiles: number; // Files ranked per room
+}
+
+export interface AIContextQuery {
+  question: string;
+  activeFileId?: string; // Current GridFS id of the file open in the editor
+  activeFileContent?: string; // Its content as the user sees it
+  cursorLine?: number; // 1-based
+}
+
+interface IndexedFile {
+  length: number; // Term count
+  terms: Map<string, number>;
+}
+
+interface RoomFile {
+  path: string;
+  fileId: string;
+}
+
+const MAX_IMPORTS = 8;
+const MAX_CACHED_INDEXES = 5000;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Generated and vendored files that would only crowd out the project's own code
+const IGNORED_PATHS = ["node_modules", ".git", "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "*.min.js", "*.map"];
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "with", "this", "that", "from", "have", "has",
+  "what", "why", "how", "when", "where", "which", "who", "does", "did", "can", "could", "should", "would",
+  "will", "into", "about", "there", "their", "then", "than", "them", "they", "been", "was", "were", "its",
+  "our", "all", "any", "some", "use", "used", "using", "make", "get", "please", "want", "need", "like",
+]);
+
+const JS_IMPORT_PATTERNS = [
+  /\bimport\s+(?:[^'"]*?\s+from\s+)?["']([^"']+)["']/g,
+  /\bexport\s+[^'"]*?\s+from\s+["']([^"']+)["']/g,
+  /\b(?:require|import)\(\s*["']([^"']+)["']\s*\)/g,
+];
+const CSS_IMPORT_PATTERN = /@import\s+(?:url\()?["']([^"']+)["']/g;
+const C_INCLUDE_PATTERN = /^\s*#include\s+"([^"]+)"/gm;
+const PYTHON_FROM_PATTERN = /^\s*from\s+(\.*[\w.]*)\s+import\s+\(?([\w, ]+)/gm;
+const PYTHON_IMPORT_PATTERN = /^\s*import\s+([\w.]+)/gm;
+
+const SCRIPT_EXTENSIONS = ["", ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".json", ".vue", ".svelte"];
+const INDEX_FILES = ["/index.ts", "/index.tsx", "/index.js", "/index.jsx"];
+
+/**
+ * Lowercased search terms of a text: identifiers and words of three or more
+ * characters, plus the parts of camelCase and snake_case identifiers.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+    const whole = word.toLowerCase();
+    if (whole.length >= 3 && !STOP_WORDS.has(whole)) terms.push(whole);
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+    if (parts.length < 2) continue;
+    for (const part of parts) {
+      const term = part.toLowerCase();
+      if (term.length >= 3 && term !== whole && !STOP_WORDS.has(term)) terms.push(term);
+    }
+  }
+  return terms;
+};
+
+const matchAll = (content: string, patterns: RegExp[]): string[] =>
+  patterns.flatMap(pattern => Array.from(content.matchAll(pattern), match => match[1]));
+
+/**
+ * Room paths a file's relative imports point at, in the order they are
+ * imported. Package imports are skipped; "@/x" is read as "src/x".
+ */
+export const resolveImports = (filePath: string, content: string, paths: Set<string>): string[] => {
+  const dir = path.posix.dirname(filePath);
+  const extension = path.posix.extname(filePath).toLowerCase();
+  const firstExisting = (candidates: string[]) =>
+    candidates.map(candidate => path.posix.normalize(candidate).replace(/^\.\//, "")).find(candidate => paths.has(candidate));
+
+  let resolved: (string | undefined)[];
+  if (extension === ".py") {
+    // "from . import a, b" imports the sibling modules a and b
+    const specifiers = Array.from(content.matchAll(PYTHON_FROM_PATTERN), ([, from, names]) =>
+      /^\.+$/.test(from) ? names.split(",").map(name => from + name.trim()).filter(name => name !== from) : [from]
+    ).flat();
+    resolved = [...specifiers, ...matchAll(content, [PYTHON_IMPORT_PATTERN])].map(specifier => {
+      const level = specifier.match(/^\.*/)![0].length;
+      const modulePath = specifier.slice(level).replace(/\./g, "/");
+      const bases = level > 0
+        ? [path.posix.join(dir, ...Array(level - 1).fill(".."), modulePath)]
+        : [modulePath, path.posix.join(dir, modulePath)];
+      return firstExisting(bases.flatMap(base => [`${base}.py`, `${base}/__init__.py`]));
+    });
+  } else if ([".c", ".cc", ".cpp", ".h", ".hpp"].includes(extension)) {
+    resolved = matchAll(content, [C_INCLUDE_PATTERN]).map(specifier => firstExisting([path.posix.join(dir, specifier), specifier]));
+  } else {
+    resolved = matchAll(content, [...JS_IMPORT_PATTERNS, CSS_IMPORT_PATTERN]).map(specifier => {
+      let bases: string[];
+      if (specifier.startsWith("@/")) {
+        // The source root of the importing file's project, or the room root
+        const sourceRoot = filePath.includes("/src/") ? filePath.slice(0, filePath.lastIndexOf("/src/") + 5) : "src/";
+        bases = [sourceRoot + specifier.slice(2)];
+      } else if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        bases = [specifier.startsWith("/") ? specifier.slice(1) : path.posix.join(dir, specifier)];
+      } else {
+        return undefined;
+      }
+      return firstExisting(bases.flatMap(base => [...SCRIPT_EXTENSIONS.map(ext => base + ext), ...INDEX_FILES.map(index => base + index)]));
+    });
+  }
+
+  return [...new Set(resolved.filter((found): found is string => !!found && found !== filePath))];
+};
+
+/**
+ * Whole lines of `content` within `maxChars`, grown outwards from
+ * `focusLine` (1-based) so the part that matters is kept.
+ */
+const excerpt = (content: string, maxChars: number, focusLine = 1): Pick<AIContextFile, "content" | "startLine" | "truncated"> => {
+  if (content.length <= maxChars) {
+    return { content, startLine: 1, truncated: false };
+  }
+  const lines = content.split("\n");
+  let start = Math.min(Math.max(focusLine - 1, 0), lines.length - 1);
+  let end = start;
+  let size = lines[start].length + 1;
+  for (let grew = true; grew;) {
+    grew = false;
+    if (end + 1 < lines.length && size + lines[end + 1].length + 1 <= maxChars) {
+      size += lines[++end].length + 1;
+      grew = true;
+    }
+    if (start > 0 && size + lines[start - 1].length + 1 <= maxChars) {
+      size += lines[--start].length + 1;
+      grew = true;
+    }
+  }
+  return { content: lines.slice(start, end + 1).join("\n").slice(0, maxChars), startLine: start + 1, truncated: true };
+};
+
+// The 1-based line with the most query terms on it
+const bestLine = (content: string, queryTerms: Set<string>): number => {
+  let best = 1;
+  let bestHits = 0;
+  content.split("\n").forEach((line, index) => {
+    const hits = tokenize(line).filter(term => queryTerms.has(term)).length;
+    if (hits > bestHits) {
+      best = index + 1;
+      bestHits = hits;
+    }
+  });
+  return best;
+};
+
+/**
+ * Picks the room files to put in front of the model for a chat message:
+ * the file open in the editor, the files it imports, and the files that
+ * best match the question under BM25 over a lexical index of the room.
+ */
+class AIContextService {
+  private limits: AIContextLimits;
+  private searchService: SearchService;
+  // Keyed by GridFS id, which changes on every save, so entries never go stale
+  private indexes = new Map<string, IndexedFile>();
+
+  constructor(limits: AIContextLimits, searchService: SearchService) {
+    this.limits = limits;
+    this.searchService = searchService;
+  }
+
+  async buildContext(roomId: string, query: AIContextQuery, readLive?: LiveContentReader): Promise<AIContextFile[]> {
+    const files = await this.searchService.listSearchableFiles(roomId, { include: [], exclude: IGNORED_PATHS });
+    const byPath = new Map(files.map(file => [file.path, file]));
+    const context: AIContextFile[] = [];
+    let remaining = this.limits.maxChars;
+
+    const add = (file: RoomFile, reason: AIContextReason, content: string, focusLine?: number) => {
+      if (remaining <= 0 || context.some(entry => entry.fileId === file.fileId)) return;
+      const part = excerpt(content, Math.min(this.limits.maxFileChars, remaining), focusLine);
+      remaining -= part.content.length;
+      context.push({ fileId: file.fileId, path: file.path, reason, ...part });
+    };
+    const load = async (file: RoomFile) => (await this.searchService.loadContent(file.fileId, readLive))?.content ?? null;
+
+    const open = files.find(file => file.fileId === query.activeFileId);
+    if (open) {
+      const content = query.activeFileContent ?? await load(open);
+      if (content !== null) {
+        add(open, "open", content, query.cursorLine);
+        for (const importPath of resolveImports(open.path, content, new Set(byPath.keys())).slice(0, MAX_IMPORTS)) {
+          const imported = byPath.get(importPath)!;
+          const importedContent = await load(imported);
+          if (importedContent !== null) add(imported, "import", importedContent);
+        }
+      }
+    }
+
+    const queryTerms = new Set(tokenize(query.question));
+    const ranked = await this.rank(files, queryTerms);
+    for (const file of ranked.slice(0, this.limits.maxMatches)) {
+      const content = await load(file);
+      if (content !== null) add(file, "match", content, bestLine(content, queryTerms));
+    }
+
+    return context;
+  }
+
+  /**
+   * Files with any of the terms, best first. Terms in a file's path count
+   * as much as a strong content match.
+   */
+  private async rank(files: RoomFile[], queryTerms: Set<string>): Promise<RoomFile[]> {
+    if (queryTerms.size === 0) return [];
+
+    const indexed: { file: RoomFile; index: IndexedFile; pathTerms: Set<string> }[] = [];
+    for (const file of files.slice(0, this.limits.maxIndexedFiles)) {
+      const index = await this.getIndex(file.fileId);
+      if (index) indexed.push({ file, index, pathTerms: new Set(tokenize(file.path)) });
+    }
+    if (indexed.length === 0) return [];
+
+    const averageLength = indexed.reduce((sum, entry) => sum + entry.index.length, 0) / indexed.length || 1;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const frequency = indexed.filter(entry => entry.index.terms.has(term) || entry.pathTerms.has(term)).length;
+      idf.set(term, Math.log(1 + (indexed.length - frequency + 0.5) / (frequency + 0.5)));
+    }
+
+    return indexed
+      .map(({ file, index, pathTerms }) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const weight = idf.get(term)!;
+          const count = index.terms.get(term) || 0;
+          if (count > 0) {
+            score += weight * (count * (K1 + 1)) / (count + K1 * (1 - B + B * index.length / averageLength));
+          }
+          if (pathTerms.has(term)) score += weight;
+        }
+        return { file, score };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(entry => entry.file);
+  }
+
+  // Term counts of a stored file; null for binary files
+  private async getIndex(fileId: string): Promise<IndexedFile | null> {
+    const cached = this.indexes.get(fileId);
+    if (cached) {
+      // Refresh its position so the least recently used entries are evicted first
+      this.indexes.delete(fileId);
+      this.indexes.set(fileId, cached);
+      return cached;
+    }
+
+    const content = await this.searchService.readText(fileId).catch(() => null);
+    if (content === null) return null;
+    const terms = new Map<string, number>();
+    const tokens = tokenize(content);
+    tokens.forEach(term => terms.set(term, (terms.get(term) || 0) + 1));
+    const index = { length: tokens.length, terms };
+
+    this.indexes.set(fileId, index);
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+    return index;
+  }
+}
+
+export const aiContextService = new AIContextService(
+  {
+    maxChars: AI_CONTEXT_MAX_CHARS,
+    maxFileChars: AI_CONTEXT_MAX_FILE_CHARS,
+    maxMatches: AI_CONTEXT_MAX_MATCHES,
+    maxIndexedFiles: AI_CONTEXT_MAX_INDEXED_FILES,
+  },
+  searchService
+);
+
+export default AIContextService;
@@ -0,0 +1,221 @@
+import mongoose from "mongoose";
+import { AIConversation, IAIConversation, IAIConversationMessage } from "../database/models";
+import { AI_CONVERSATION_MAX_MESSAGES, AI_HISTORY_TOKEN_BUDGET } from "../config/constants";
+import { AIConversationDetail, AIConversationSummary, AIConversationTurn } from "../types/ai";
+
+const MAX_TITLE_LENGTH = 100;
+const PREVIEW_LENGTH = 120;
+const MAX_LISTED_CONVERSATIONS = 100;
+
+export interface AIConversationLimits {
+  historyTokenBudget: number; // Tokens of earlier turns replayed to the model
+  maxMessages: number; // Messages kept per conversation; older ones are dropped
+}
+
+export interface AIReply {
+  content: string;
+  model?: string;
+  provider?: string;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (unknown conversation, bad title, ...).
+ */
+export class AIConversationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AIConversationError";
+    this.status = status;
+  }
+}
+
+// Rough token count for budgeting, about four characters per token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const toObjectId = (id: string, label: string): mongoose.Types.ObjectId => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new AIConversationError(`Invalid ${label} id`);
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
+const clip = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// A title from the first line of the opening message
+const titleFrom = (message: string): string =>
+  clip(message.trim().split("\n")[0].trim(), MAX_TITLE_LENGTH) || "New conversation";
+
+const toDetail = (conversation: IAIConversation): AIConversationDetail => ({
+  id: String(conversation._id),
+  title: conversation.title,
+  roomId: conversation.roomId,
+  messageCount: conversation.messages.length,
+  createdAt: conversation.createdAt.toISOString(),
+  updatedAt: conversation.updatedAt.toISOString(),
+  messages: conversation.messages.map(message => ({
+    role: message.role,
+    content: message.content,
+    model: message.model,
+    provider: message.provider,
+    timestamp: message.timestamp.toISOString(),
+  })),
+});
+
+/**
+ * Stored AI assistant conversations. Each belongs to one user and, when
+ * started from a room, to that room.
+ */
+class AIConversationService {
+  private limits: AIConversationLimits;
+
+  constructor(limits: AIConversationLimits) {
+    this.limits = limits;
+  }
+
+  // Newest first; roomId narrows to one room, null to conversations outside rooms
+  async list(userId: string, roomId?: string | null): Promise<AIConversationSummary[]> {
+    const conversations = await AIConversation.aggregate([
+      { $match: { userId: toObjectId(userId, "user"), ...(roomId !== undefined && { roomId }) } },
+      { $sort: { updatedAt: -1 } },
+      { $limit: MAX_LISTED_CONVERSATIONS },
+      {
+        $project: {
+          title: 1,
+          roomId: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          messageCount: { $size: "$messages" },
+          lastMessage: { $arrayElemAt: ["$messages.content", -1] },
+        },
+      },
+    ]);
+
+    return conversations.map(conversation => ({
+      id: String(conversation._id),
+      title: conversation.title,
+      roomId: conversation.roomId ?? null,
+      messageCount: conversation.messageCount,
+      lastMessage: conversation.lastMessage ? clip(conversation.lastMessage, PREVIEW_LENGTH) : undefined,
+      createdAt: new Date(conversation.createdAt).toISOString(),
+      updatedAt: new Date(conversation.updatedAt).toISOString(),
+    }));
+  }
+
+  async get(userId: string, conversationId: string): Promise<AIConversationDetail> {
+    return toDetail(await this.find(userId, conversationId));
+  }
+
+  /**
+   * The most recent turns that fit the history token budget, oldest first,
+   * along with the conversation's room.
+   */
+  async getHistory(userId: string, conversationId: string): Promise<{ roomId: string | null; history: AIConversationTurn[] }> {
+    const conversation = await this.find(userId, conversationId);
+    const history: AIConversationTurn[] = [];
+    let tokens = 0;
+    for (let i = conversation.messages.length - 1; i >= 0; i--) {
+      const message = conversation.messages[i];
+      tokens += message.tokens || estimateTokens(message.content);
+      if (tokens > this.limits.historyTokenBudget) break;
+      history.unshift({ role: message.role, content: message.content });
+    }
+    // Start on a question rather than a reply cut off from it
+    if (history[0]?.role === "assistant") history.shift();
+    return { roomId: conversation.roomId, history };
+  }
+
+  /**
+   * Store a question and its reply. Without a conversation id a new
+   * conversation is started, titled after the question.
+   */
+  async appendExchange(
+    userId: string,
+    conversationId: string | null,
+    roomId: string | null,
+    question: string,
+    reply: AIReply
+  ): Promise<{ id: string; title: string }> {
+    const now = new Date();
+    const messages: IAIConversationMessage[] = [
+      { role: "user", content: question, tokens: estimateTokens(question), timestamp: now },
+      {
+        role: "assistant",
+        content: reply.content,
+        tokens: estimateTokens(reply.content),
+        model: reply.model,
+        provider: reply.provider,
+        timestamp: now,
+      },
+    ];
+
+    if (!conversationId) {
+      const conversation = await AIConversation.create({
+        userId: toObjectId(userId, "user"),
+        roomId,
+        title: titleFrom(question),
+        messages,
+      });
+      return { id: String(conversation._id), title: conversation.title };
+    }
+
+    const conversation = await AIConversation.findOneAndUpdate(
+      { _id: toObjectId(conversationId, "conversation"), userId: toObjectId(userId, "user") },
+      { $push: { messages: { $each: messages, $slice: -this.limits.maxMessages } } },
+      { new: true, projection: { title: 1 } }
+    );
+    if (!conversation) {
+      throw new AIConversationError("Conversation not found", 404);
+    }
+    return { id: String(conversation._id), title: conversation.title };
+  }
+
+  async rename(userId: string, conversationId: string, title: string): Promise<AIConversationSummary> {
+    const trimmed = title.trim();
+    if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+      throw new AIConversationError(`Title must be 1 to ${MAX_TITLE_LENGTH} characters`);
+    }
+    const conversation = await AIConversation.findOneAndUpdate(
+      { _id: toObjectId(conversationId, "conversation"), userId: toObjectId(userId, "user") },
+      { $set: { title: trimmed } },
+      { new: true }
+    );
+    if (!conversation) {
+      throw new AIConversationError("Conversation not found", 404);
+    }
+    const { messages, ...summary } = toDetail(conversation);
+    const last = messages[messages.length - 1];
+    return { ...summary, lastMessage: last ? clip(last.content, PREVIEW_LENGTH) : undefined };
+  }
+
+  async delete(userId: string, conversationId: string): Promise<void> {
+    const result = await AIConversation.deleteOne({
+      _id: toObjectId(conversationId, "conversation"),
+      userId: toObjectId(userId, "user"),
+    });
+    if (result.deletedCount === 0) {
+      throw new AIConversationError("Conversation not found", 404);
+    }
+  }
+
+  private async find(userId: string, conversationId: string): Promise<IAIConversation> {
+    const conversation = await AIConversation.findOne({
+      _id: toObjectId(conversationId, "conversation"),
+      userId: toObjectId(userId, "user"),
+    });
+    if (!conversation) {
+      throw new AIConversationError("Conversation not found", 404);
+    }
+    return conversation;
+  }
+}
+
+export const aiConversationService = new AIConversationService({
+  historyTokenBudget: AI_HISTORY_TOKEN_BUDGET,
+  maxMessages: AI_CONVERSATION_MAX_MESSAGES,
+});
+
+export default AIConversationService;
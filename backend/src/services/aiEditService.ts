@@ -0,0 +1,209 @@
+import path from "path";
+import { EXECUTION_MAX_WORKSPACE_BYTES } from "../config/constants";
+import { AIEditApplyFile, AIEditProposal, AIProposedFileEdit } from "../types/ai";
+import { WorkspaceFile } from "../types/execution";
+import { TextOperationPayload } from "../types/socket";
+import { diffLines } from "../utils/lineDiff";
+import { applyHunks, parseUnifiedDiff } from "../utils/unifiedDiff";
+import SearchService, { ContentSnapshot, LiveContentReader, searchService } from "./searchService";
+import WorkspaceService, { RoomFilesChange } from "./workspaceService";
+
+// An edit to one file, ready to apply: against `base` for an existing file,
+// or as the whole content of a new one
+export interface AIEditPlan {
+  path: string;
+  fileId: string | null;
+  base: ContentSnapshot | null;
+  operations: TextOperationPayload[];
+  content: string;
+  hunks: number;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (hunk no longer applies, file missing, ...).
+ */
+export class AIEditError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AIEditError";
+    this.status = status;
+  }
+}
+
+// Fenced blocks holding the diff, left out of the summary shown above it
+const DIFF_BLOCK = /```(?:diff|patch)?[^\n]*\n(?:(?!```)[\s\S])*@@(?:(?!```)[\s\S])*(?:```|$)/g;
+
+// A room path for a new file, or null when it would leave the room
+const normalizePath = (filePath: string): string | null => {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, "/")).replace(/^\/+/, "");
+  if (!normalized || normalized === "." || normalized.split("/").some(segment => segment === ".." || !segment)) {
+    return null;
+  }
+  return normalized;
+};
+
+// Lines of a text with their line breaks, so they join back to it exactly
+const splitKeepingBreaks = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+// Retain/delete/insert operations turning `before` into `after`, line by line
+const lineOperations = (before: string, after: string): TextOperationPayload[] => {
+  const operations: TextOperationPayload[] = [];
+  for (const op of diffLines(splitKeepingBreaks(before), splitKeepingBreaks(after))) {
+    const text = op.lines.join("");
+    if (op.type === "equal") operations.push({ type: "retain", length: text.length });
+    else if (op.type === "delete") operations.push({ type: "delete", length: text.length });
+    else operations.push({ type: "insert", text });
+  }
+  return operations;
+};
+
+/**
+ * Turns AI answers into per-hunk file edits a user can review, and plans
+ * the accepted hunks as collaborative changes.
+ */
+class AIEditService {
+  private searchService: SearchService;
+  private workspaceService: WorkspaceService;
+
+  constructor(searchService: SearchService, workspaceService: WorkspaceService) {
+    this.searchService = searchService;
+    this.workspaceService = workspaceService;
+  }
+
+  /**
+   * Split a model answer into its explanation and the file edits in its
+   * diff, checking each hunk against the room's current files.
+   */
+  async review(
+    roomId: string,
+    answer: string,
+    readLive?: LiveContentReader
+  ): Promise<Pick<AIEditProposal, "summary" | "files" | "skipped">> {
+    const byPath = await this.listFiles(roomId);
+    const proposal: Pick<AIEditProposal, "summary" | "files" | "skipped"> = {
+      summary: answer.replace(DIFF_BLOCK, "").replace(/\n{3,}/g, "\n\n").trim(),
+      files: [],
+      skipped: [],
+    };
+
+    for (const patch of parseUnifiedDiff(answer)) {
+      const displayPath = patch.newPath ?? patch.oldPath ?? "";
+      if (patch.newPath === null) {
+        proposal.skipped.push({ path: displayPath, reason: "Deleting files is not supported" });
+        continue;
+      }
+      const filePath = normalizePath(patch.newPath);
+      if (!filePath) {
+        proposal.skipped.push({ path: displayPath, reason: "Path is outside the room" });
+        continue;
+      }
+      if (proposal.files.some(edit => edit.path === filePath)) {
+        proposal.skipped.push({ path: filePath, reason: "File is patched more than once" });
+        continue;
+      }
+
+      const existing = byPath.get(filePath);
+      let content = "";
+      if (existing && patch.oldPath === null) {
+        proposal.skipped.push({ path: filePath, reason: "File already exists" });
+        continue;
+      } else if (!existing && patch.oldPath !== null) {
+        proposal.skipped.push({ path: filePath, reason: "File not found in the room" });
+        continue;
+      } else if (existing) {
+        const snapshot = await this.searchService.loadContent(existing.fileId, readLive);
+        if (!snapshot) {
+          proposal.skipped.push({ path: filePath, reason: "File is binary" });
+          continue;
+        }
+        content = snapshot.content;
+      }
+
+      // Each hunk is checked on its own, as the user may accept any of them
+      const edit: AIProposedFileEdit = {
+        path: filePath,
+        fileId: existing?.fileId ?? null,
+        hunks: patch.hunks.map(hunk => ({ ...hunk, applies: applyHunks(content, [hunk]).failed.length === 0 })),
+      };
+      proposal.files.push(edit);
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Work out the changes for the accepted hunks against the files as they
+   * are now. Fails without changing anything if a hunk no longer fits or a
+   * new file's path is taken.
+   */
+  async planEdits(roomId: string, edits: AIEditApplyFile[], readLive?: LiveContentReader): Promise<AIEditPlan[]> {
+    const byPath = await this.listFiles(roomId);
+
+    const plans: AIEditPlan[] = [];
+    for (const edit of edits) {
+      const filePath = normalizePath(edit.path);
+      if (!filePath) {
+        throw new AIEditError(`Invalid path "${edit.path}"`);
+      }
+      if (plans.some(plan => plan.path === filePath)) {
+        throw new AIEditError(`"${filePath}" is listed more than once`);
+      }
+
+      const existing = byPath.get(filePath);
+      let base: ContentSnapshot | null = null;
+      if (edit.create && existing) {
+        throw new AIEditError(`"${filePath}" already exists`, 409);
+      } else if (!edit.create && !existing) {
+        throw new AIEditError(`"${filePath}" was not found in the room`, 404);
+      } else if (existing) {
+        base = await this.searchService.loadContent(existing.fileId, readLive);
+        if (!base) throw new AIEditError(`"${filePath}" is binary`);
+      }
+
+      const result = applyHunks(base?.content ?? "", edit.hunks);
+      if (result.failed.length > 0) {
+        throw new AIEditError(`"${filePath}" has changed and ${result.failed.length} hunk(s) no longer apply`, 409);
+      }
+      plans.push({
+        path: filePath,
+        fileId: existing?.fileId ?? null,
+        base,
+        operations: base ? lineOperations(base.content, result.content) : [],
+        content: result.content,
+        hunks: edit.hunks.length,
+      });
+    }
+    return plans;
+  }
+
+  /**
+   * Add planned new files to the room. Returns the GridFS id of each by path.
+   */
+  async createFiles(roomId: string, plans: AIEditPlan[], change: RoomFilesChange): Promise<Map<string, string>> {
+    await this.workspaceService.updateRoomFiles(
+      roomId,
+      plans.map(plan => ({ path: plan.path, content: Buffer.from(plan.content, "utf8") })),
+      [],
+      change
+    );
+    const files = await this.listFiles(roomId);
+    return new Map(Array.from(files, ([filePath, file]) => [filePath, file.fileId]));
+  }
+
+  private async listFiles(roomId: string): Promise<Map<string, WorkspaceFile>> {
+    let files: WorkspaceFile[];
+    try {
+      files = await this.workspaceService.listRoomFiles(roomId);
+    } catch {
+      throw new AIEditError("Room not found", 404);
+    }
+    return new Map(files.map(file => [file.path, file]));
+  }
+}
+
+export const aiEditService = new AIEditService(searchService, new WorkspaceService(EXECUTION_MAX_WORKSPACE_BYTES));
+
+export default AIEditService;
@@ -0,0 +1,243 @@
+import { createHash } from "crypto";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { AIGenerateRequest, AIProvider } from "../types/ai";
+import {
+  AI_MOCK_ENABLED,
+  AI_REQUEST_TIMEOUT_MS,
+  GEMINI_API_KEY,
+  GEMINI_MODELS,
+  OPENAI_API_KEY,
+  OPENAI_BASE_URL,
+  OPENAI_MODELS,
+} from "../config/constants";
+
+// A controller aborted along with signal, which stops following it once released
+function followSignal(signal?: AbortSignal): { controller: AbortController; release: () => void } {
+  signal?.throwIfAborted();
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  return { controller, release: () => signal?.removeEventListener("abort", onAbort) };
+}
+
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini" as const;
+  readonly label = "Gemini";
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, private models: string[], private timeoutMs: number) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async initialize(): Promise<void> {
+    // Minimal connectivity check by attempting to get a model instance
+    this.genAI.getGenerativeModel({ model: this.models[0] });
+  }
+
+  getModels(): string[] {
+    return [...this.models];
+  }
+
+  async generate({ model, prompt, purpose }: AIGenerateRequest): Promise<string> {
+    const generativeModel = this.genAI.getGenerativeModel({ model }, { timeout: this.timeoutMs });
+    if (purpose === "chat") {
+      const result = await generativeModel.startChat().sendMessage(prompt);
+      return result.response.text();
+    }
+    const response = await generativeModel.generateContent(prompt);
+    return response.response.text();
+  }
+
+  // The timeout covers waiting for the stream to start, as with OpenAICompatibleProvider
+  async *generateStream({ model, prompt, purpose }: AIGenerateRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const generativeModel = this.genAI.getGenerativeModel({ model });
+    const { controller, release } = followSignal(signal);
+    const timer = setTimeout(
+      () => controller.abort(new Error(`${this.label} request timed out`)),
+      this.timeoutMs
+    );
+    try {
+      const options = { signal: controller.signal };
+      const result = purpose === "chat"
+        ? await generativeModel.startChat().sendMessageStream(prompt, options)
+        : await generativeModel.generateContentStream(prompt, options);
+      clearTimeout(timer);
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local llama.cpp, Ollama or vLLM server.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai" as const;
+  readonly label = "OpenAI-compatible";
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string,
+    private models: string[],
+    private timeoutMs: number
+  ) {}
+
+  /**
+   * Send a request. The timeout covers waiting for the response to start,
+   * so long streamed replies are not cut off; the controller cancels throughout.
+   */
+  private async send(path: string, body?: object, controller = new AbortController()): Promise<Response> {
+    const timer = setTimeout(
+      () => controller.abort(new Error(`${this.label} request to ${path} timed out`)),
+      this.timeoutMs
+    );
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method: body ? "POST" : "GET",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`${this.label} request to ${path} failed with HTTP ${response.status}`);
+      }
+      return response;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async request(path: string, body?: object): Promise<any> {
+    return (await this.send(path, body)).json();
+  }
+
+  async initialize(): Promise<void> {
+    const body = await this.request("/models");
+    if (this.models.length === 0) {
+      const reported: unknown[] = Array.isArray(body?.data) ? body.data.map((model: any) => model?.id) : [];
+      this.models = reported.filter((id): id is string => typeof id === "string");
+    }
+    if (this.models.length === 0) {
+      throw new Error(`${this.label} endpoint at ${this.baseUrl} reports no models; set OPENAI_MODELS`);
+    }
+  }
+
+  getModels(): string[] {
+    return [...this.models];
+  }
+
+  async generate({ model, prompt, purpose }: AIGenerateRequest): Promise<string> {
+    const body = await this.request("/chat/completions", {
+      model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: purpose === "chat" ? 0.7 : 0.2,
+      stream: false,
+    });
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`${this.label} response has no message content`);
+    }
+    return content;
+  }
+
+  async *generateStream({ model, prompt, purpose }: AIGenerateRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const { controller, release } = followSignal(signal);
+    try {
+      const response = await this.send("/chat/completions", {
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: purpose === "chat" ? 0.7 : 0.2,
+        stream: true,
+      }, controller);
+      if (!response.body) {
+        throw new Error(`${this.label} response has no body`);
+      }
+
+      // Server-sent events, one "data: {json}" line per delta and "data: [DONE]" at the end
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+          if (!data) continue;
+          if (data === "[DONE]") return;
+          const text = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof text === "string" && text) yield text;
+        }
+      }
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Offline provider with deterministic replies derived from the prompt, for
+ * tests and deployments without access to a model.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = "mock" as const;
+  readonly label = "Mock";
+
+  async initialize(): Promise<void> {}
+
+  getModels(): string[] {
+    return ["mock-1"];
+  }
+
+  async generate({ model, prompt, purpose }: AIGenerateRequest): Promise<string> {
+    const digest = createHash("sha256").update(`${model}\n${purpose}\n${prompt}`).digest("hex").slice(0, 8);
+    if (purpose === "completion") {
+      return `// mock completion ${digest}`;
+    }
+    if (purpose === "edit") {
+      return `Mock edit ${digest} from ${model}.\n\n\`\`\`diff\n--- /dev/null\n+++ b/mock-edit-${digest}.md\n@@ -0,0 +1 @@\n+Mock edit ${digest}\n\`\`\`\n`;
+    }
+    if (purpose === "review") {
+      // One finding on the first reviewed file
+      const file = prompt.match(/^File: (.+) \(lines (\d+)-\d+\)$/m);
+      const findings = file
+        ? [{ path: file[1], startLine: Number(file[2]), endLine: Number(file[2]), severity: "info", message: `Mock finding ${digest}` }]
+        : [];
+      return `Mock review ${digest} from ${model}.\n\n\`\`\`json\n${JSON.stringify(findings, null, 2)}\n\`\`\`\n`;
+    }
+    return `Mock response ${digest} from ${model} to a ${prompt.length} character prompt.`;
+  }
+
+  // The same reply as generate, a word at a time
+  async *generateStream(request: AIGenerateRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const words = (await this.generate(request)).split(/(?<= )/);
+    for (const word of words) {
+      await new Promise(resolve => setImmediate(resolve));
+      signal?.throwIfAborted();
+      yield word;
+    }
+  }
+}
+
+// The providers enabled by the environment, in listing order
+export function createConfiguredProviders(): AIProvider[] {
+  const providers: AIProvider[] = [];
+  if (GEMINI_API_KEY) {
+    providers.push(new GeminiProvider(GEMINI_API_KEY, GEMINI_MODELS, AI_REQUEST_TIMEOUT_MS));
+  }
+  if (OPENAI_BASE_URL) {
+    providers.push(new OpenAICompatibleProvider(OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODELS, AI_REQUEST_TIMEOUT_MS));
+  }
+  if (AI_MOCK_ENABLED) {
+    providers.push(new MockProvider());
+  }
+  return providers;
+}
@@ -0,0 +1,189 @@
+import { AI_REVIEW_CONTEXT_LINES, AI_REVIEW_MAX_CHARS, AI_REVIEW_MAX_FILES, EXECUTION_MAX_WORKSPACE_BYTES } from "../config/constants";
+import { AIReviewComment, AIReviewFinding, AIReviewResult, AIReviewTarget } from "../types/ai";
+import { splitLines } from "../utils/lineDiff";
+import { createHunks } from "../utils/unifiedDiff";
+import SearchService, { LiveContentReader, searchService } from "./searchService";
+import VersionControlService, { versionControlService } from "./versionControlService";
+import WorkspaceService from "./workspaceService";
+
+export interface AIReviewLimits {
+  maxFiles: number; // Files sent per review
+  maxChars: number; // Characters of reviewed lines, context included
+  contextLines: number; // Unchanged lines around each change or selection
+}
+
+// Lines picked for review, with the content of each file as it was read
+export interface AIReviewInput {
+  targets: AIReviewTarget[];
+  skipped: AIReviewResult["skipped"];
+  contents: Map<string, string>; // By path
+}
+
+export interface AIReviewSelection {
+  fileId: string; // Current GridFS id
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  content?: string; // The file as the user sees it; read from the room otherwise
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (file missing, selection out of range, ...).
+ */
+export class AIReviewError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AIReviewError";
+    this.status = status;
+  }
+}
+
+const targetLength = (target: AIReviewTarget): number =>
+  target.lines.reduce((sum, line) => sum + line.length, 0);
+
+/**
+ * Picks the lines an AI review looks at, and checks the findings that come
+ * back against them so each points at lines that were actually reviewed.
+ */
+class AIReviewService {
+  private searchService: SearchService;
+  private versionControlService: VersionControlService;
+  private workspaceService: WorkspaceService;
+  private limits: AIReviewLimits;
+
+  constructor(
+    searchService: SearchService,
+    versionControlService: VersionControlService,
+    workspaceService: WorkspaceService,
+    limits: AIReviewLimits
+  ) {
+    this.searchService = searchService;
+    this.versionControlService = versionControlService;
+    this.workspaceService = workspaceService;
+    this.limits = limits;
+  }
+
+  /**
+   * The hunks of every file changed since the last commit, numbered against
+   * the file as it is now, unsaved edits included.
+   */
+  async collectChanges(roomId: string, readLive?: LiveContentReader): Promise<AIReviewInput> {
+    const { changes, skipped } = await this.versionControlService.getUncommittedChanges(roomId);
+    const input: AIReviewInput = { targets: [], skipped: [...skipped], contents: new Map() };
+    let budget = this.limits.maxChars;
+
+    for (const change of changes) {
+      if (!change.fileId || change.after === null) {
+        input.skipped.push({ path: change.path, reason: "File was deleted" });
+        continue;
+      }
+      if (input.contents.size >= this.limits.maxFiles) {
+        input.skipped.push({ path: change.path, reason: `Only ${this.limits.maxFiles} files are reviewed at a time` });
+        continue;
+      }
+      const snapshot = await this.searchService.loadContent(change.fileId, readLive);
+      const content = snapshot?.content ?? change.after;
+      const targets: AIReviewTarget[] = createHunks(change.before ?? "", content, this.limits.contextLines)
+        .map(hunk => {
+          const shown = hunk.lines.filter(line => line[0] !== "-").length;
+          return {
+            path: change.path,
+            fileId: change.fileId!,
+            startLine: hunk.newStart,
+            endLine: hunk.newStart + Math.max(shown, 1) - 1,
+            lines: hunk.lines,
+          };
+        });
+      // Unsaved edits may have undone the change
+      if (!targets.length) continue;
+
+      const size = targets.reduce((sum, target) => sum + targetLength(target), 0);
+      if (size > budget) {
+        input.skipped.push({ path: change.path, reason: "Changes are too large to review with the rest" });
+        continue;
+      }
+      budget -= size;
+      input.targets.push(...targets);
+      input.contents.set(change.path, content);
+    }
+
+    return input;
+  }
+
+  // The selected lines of one file, with context lines around them
+  async collectSelection(roomId: string, selection: AIReviewSelection, readLive?: LiveContentReader): Promise<AIReviewInput> {
+    const files = await this.workspaceService.listRoomFiles(roomId);
+    const file = files.find(candidate => candidate.fileId === selection.fileId);
+    if (!file) {
+      throw new AIReviewError("File not found in the room", 404);
+    }
+    const content = selection.content ?? (await this.searchService.loadContent(file.fileId, readLive))?.content;
+    if (content === undefined) {
+      throw new AIReviewError("Binary files cannot be reviewed");
+    }
+
+    const lines = splitLines(content);
+    const { startLine, endLine } = selection;
+    if (startLine < 1 || endLine < startLine || endLine > Math.max(lines.length, 1)) {
+      throw new AIReviewError(`Selection must be within lines 1-${Math.max(lines.length, 1)} of the file`);
+    }
+    const first = Math.max(1, startLine - this.limits.contextLines);
+    const last = Math.min(lines.length, endLine + this.limits.contextLines);
+    const target: AIReviewTarget = {
+      path: file.path,
+      fileId: file.fileId,
+      startLine: first,
+      endLine: Math.max(last, first),
+      lines: lines.slice(first - 1, last).map((line, index) => {
+        const number = first + index;
+        return `${number >= startLine && number <= endLine ? "+" : " "}${line}`;
+      }),
+    };
+    if (targetLength(target) > this.limits.maxChars) {
+      throw new AIReviewError(`Selection is too large to review (at most ${this.limits.maxChars} characters)`);
+    }
+
+    return { targets: [target], skipped: [], contents: new Map([[file.path, content]]) };
+  }
+
+  /**
+   * Keep the findings about reviewed lines, clamped to the lines shown,
+   * and attach the text each one covers so a fix can be checked later.
+   */
+  checkFindings(comments: AIReviewComment[], input: AIReviewInput): AIReviewFinding[] {
+    const findings: AIReviewFinding[] = [];
+    for (const comment of comments) {
+      const targets = input.targets.filter(target => target.path === comment.path);
+      const startLine = Math.min(comment.startLine, comment.endLine);
+      const endLine = Math.max(comment.startLine, comment.endLine);
+      const target = targets.find(candidate => startLine <= candidate.endLine && endLine >= candidate.startLine);
+      const content = input.contents.get(comment.path);
+      if (!target || content === undefined) continue;
+
+      const lines = splitLines(content);
+      const start = Math.max(startLine, target.startLine);
+      const end = Math.min(endLine, target.endLine, Math.max(lines.length, 1));
+      findings.push({
+        ...comment,
+        id: `finding-${findings.length + 1}`,
+        fileId: target.fileId,
+        startLine: start,
+        endLine: end,
+        original: lines.slice(start - 1, end).join("\n"),
+      });
+    }
+
+    return findings.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : a.startLine - b.startLine));
+  }
+}
+
+export const aiReviewService = new AIReviewService(
+  searchService,
+  versionControlService,
+  new WorkspaceService(EXECUTION_MAX_WORKSPACE_BYTES),
+  { maxFiles: AI_REVIEW_MAX_FILES, maxChars: AI_REVIEW_MAX_CHARS, contextLines: AI_REVIEW_CONTEXT_LINES }
+);
+
+export default AIReviewService;
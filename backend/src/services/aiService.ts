@@ -1,113 +1,215 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-export interface AICompletionRequest {
-  content: string;
-  language?: string;
-  context?: string;
-  userId: string;
-  cursorPosition?: number;
-  fileContent?: string;
-}
+import {
+  AIChatRequest,
+  AIChatResponse,
+  AICompletionRequest,
+  AICompletionResponse,
+  AIContextFile,
+  AIContextReason,
+  AIEditRequest,
+  AIModelInfo,
+  AIProvider,
+  AIProviderName,
+  AIReviewComment,
+  AIReviewRequest,
+  AIReviewSeverity,
+  AIReviewTarget,
+  AISource,
+  AIUsage,
+} from "../types/ai";
+import { AI_MODEL, AI_PROVIDER } from "../config/constants";
+import { createConfiguredProviders } from "./aiProviders";
+import { estimateTokens } from "./aiConversationService";
 
-export interface AICompletionResponse {
-  suggestions: string[];
-  confidence: number;
-  model: string;
-  timestamp: string;
+export class AIError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'AIError';
+  }
 }
 
-export interface AIChatRequest {
-  message: string;
-  context?: string;
-  conversationId?: string;
-  userId: string;
-  attachments?: {
-    fileId: string;
-    content: string;
-    language: string;
-  }[];
-}
+const CONTEXT_REASONS: Record<AIContextReason, string> = { open: 'open in the editor', import: 'imported by the open file', match: 'matches the question' };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Providers don't all report usage, so it is estimated the same way for each
+const estimateUsage = (prompt: string, reply: string): AIUsage => {
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+const REVIEW_SEVERITIES: AIReviewSeverity[] = ['error', 'warning', 'info'];
 
-export interface AIChatResponse {
-  response: string;
-  conversationId: string;
+// A finding from the model's JSON, or null when it lacks a place or a message
+const toReviewComment = (value: any): AIReviewComment | null => {
+  const startLine = Number(value?.startLine ?? value?.line);
+  const endLine = value?.endLine === undefined ? startLine : Number(value.endLine);
+  if (typeof value?.path !== 'string' || !Number.isInteger(startLine) || !Number.isInteger(endLine)) return null;
+  if (typeof value.message !== 'string' || !value.message.trim()) return null;
+  const severity = String(value.severity).toLowerCase() as AIReviewSeverity;
+  return {
+    path: value.path.replace(/^[ab]\//, ''),
+    startLine,
+    endLine,
+    severity: REVIEW_SEVERITIES.includes(severity) ? severity : 'info',
+    message: value.message.trim(),
+    // A fix replaces whole lines, so a final line break would add an empty one
+    ...(typeof value.fix === 'string' ? { fix: value.fix.replace(/\r\n?/g, '\n').replace(/\n$/, '') } : {}),
+  };
+};
+
+interface ResolvedModel {
+  provider: AIProvider;
   model: string;
-  timestamp: string;
 }
 
 class AIService {
-  private genAI: GoogleGenerativeAI;
-  private modelName: string;
-  private isConnected: boolean = false;
+  private providers: AIProvider[];
+  private connected = new Set<AIProviderName>();
+  private defaultProvider: string;
+  private defaultModel: string;
 
-  constructor(apiKey: string, modelName: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.modelName = modelName;
+  constructor(providers: AIProvider[], defaults: { provider: string; model?: string }) {
+    this.providers = providers;
+    this.defaultProvider = defaults.provider;
+    this.defaultModel = defaults.model || '';
   }
 
   async initialize(): Promise<void> {
-    try {
-      // Minimal connectivity check by attempting to get a model instance
-      this.genAI.getGenerativeModel({ model: this.modelName });
-      this.isConnected = true;
-      console.log('✅ AI Service connected to Gemini');
-    } catch (error) {
-      console.error('❌ Failed to connect to Gemini:', error);
-      this.isConnected = false;
-      throw new Error('Gemini connection failed. Ensure GEMINI_API_KEY is valid.');
+    if (!this.isConfigured()) {
+      throw new Error('AI service is not configured. Set GEMINI_API_KEY or OPENAI_BASE_URL, or AI_MOCK_ENABLED=true for the mock provider.');
+    }
+    await Promise.all(this.providers.map(async provider => {
+      try {
+        await provider.initialize();
+        this.connected.add(provider.name);
+        console.log(`✅ AI Service connected to ${provider.label}`);
+      } catch (error) {
+        console.error(`❌ Failed to connect to ${provider.label}:`, error);
+      }
+    }));
+
+    if (this.connected.size === 0) {
+      throw new Error('No AI provider connected. Check the AI provider settings (GEMINI_API_KEY, OPENAI_BASE_URL or AI_MOCK_ENABLED).');
     }
   }
 
-  // Optional: static list or configured
-  async getAvailableModels(): Promise<string[]> {
-    return [this.modelName];
+  // Every configured model, whether or not its provider connected
+  async getAvailableModels(): Promise<AIModelInfo[]> {
+    return this.providers.flatMap(provider =>
+      provider.getModels().map(name => ({
+        id: `${provider.name}:${name}`,
+        provider: provider.name,
+        name,
+        available: this.connected.has(provider.name),
+      }))
+    );
   }
 
-  async generateCodeSuggestions(request: AICompletionRequest): Promise<AICompletionResponse> {
-    if (!this.isConnected) {
-      throw new Error('AI Service not connected');
+  /**
+   * Pick the provider and model for a request. The model may be an id
+   * ("openai:llama3") or a bare name; anything left out falls back to the
+   * configured default.
+   */
+  resolveModel(providerName?: string, modelName?: string): ResolvedModel {
+    let model = modelName?.trim() || '';
+    let name = providerName?.trim() || '';
+    const separator = model.indexOf(':');
+    if (!name && separator > 0 && this.findProvider(model.slice(0, separator))) {
+      name = model.slice(0, separator);
+      model = model.slice(separator + 1);
+    }
+
+    let provider: AIProvider | undefined;
+    if (name) {
+      provider = this.findProvider(name);
+      if (!provider) throw new AIError(`Unknown AI provider "${name}"`);
+    } else if (model) {
+      const offering = this.providers.filter(candidate => candidate.getModels().includes(model));
+      provider = offering.find(candidate => candidate.name === this.getDefaultProvider()?.name) || offering[0];
+      if (!provider) throw new AIError(`Unknown AI model "${model}"`);
+    } else {
+      provider = this.getDefaultProvider();
+      if (!provider) throw new AIError('No AI provider is configured', 503);
+    }
+
+    model = model || this.defaultModelFor(provider);
+    if (!model) {
+      throw new AIError(`${provider.label} has no models`, 503);
+    }
+    if (!provider.getModels().includes(model)) {
+      throw new AIError(`Model "${model}" is not offered by ${provider.label}`);
     }
+    if (!this.connected.has(provider.name)) {
+      throw new AIError(`${provider.label} is not available`, 503);
+    }
+    return { provider, model };
+  }
+
+  private findProvider(name: string): AIProvider | undefined {
+    return this.providers.find(provider => provider.name === name);
+  }
+
+  // The configured default provider, or the first one when it is not configured
+  private getDefaultProvider(): AIProvider | undefined {
+    return this.findProvider(this.defaultProvider) || this.providers[0];
+  }
+
+  private defaultModelFor(provider: AIProvider): string {
+    return provider.name === this.defaultProvider && this.defaultModel ? this.defaultModel : provider.getModels()[0] || '';
+  }
+
+  /**
+   * Completions for the code at the cursor. With a signal the reply is
+   * streamed, so a completion nobody waits for any more stops generating.
+   */
+  async generateCodeSuggestions(request: AICompletionRequest, signal?: AbortSignal): Promise<AICompletionResponse> {
+    const { provider, model } = this.resolveModel(request.provider, request.model);
 
     try {
       const prompt = this.buildCompletionPrompt(request);
-      
-      const model = this.genAI.getGenerativeModel({ model: this.modelName });
-      const response = await model.generateContent(prompt);
-      const text = response.response.text();
+      let text = '';
+      if (signal) {
+        for await (const chunk of provider.generateStream({ model, prompt, purpose: 'completion' }, signal)) {
+          signal.throwIfAborted();
+          text += chunk;
+        }
+      } else {
+        text = await provider.generate({ model, prompt, purpose: 'completion' });
+      }
 
       // Parse response to extract suggestions
-      const suggestions = this.parseCompletionResponse(text, request.language);
+      const suggestions = this.parseCompletionResponse(text, request.language, request);
 
       return {
         suggestions,
         confidence: this.calculateConfidence(text),
-        model: this.modelName,
+        model,
+        provider: provider.name,
+        usage: estimateUsage(prompt, text),
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      console.error('Error generating code suggestions:', error);
+      if (!signal?.aborted) console.error('Error generating code suggestions:', error);
       throw error;
     }
   }
 
   async chatWithAI(request: AIChatRequest): Promise<AIChatResponse> {
-    if (!this.isConnected) {
-      throw new Error('AI Service not connected');
-    }
+    const { provider, model } = this.resolveModel(request.provider, request.model);
 
     try {
       const prompt = this.buildChatPrompt(request);
-      
-      const model = this.genAI.getGenerativeModel({ model: this.modelName });
-      const chat = model.startChat();
-      const result = await chat.sendMessage(prompt);
-      const text = result.response.text();
+      const text = await provider.generate({ model, prompt, purpose: 'chat' });
 
       return {
         response: text.trim(),
         conversationId: request.conversationId || this.generateConversationId(),
-        model: this.modelName,
+        model,
+        provider: provider.name,
+        usage: estimateUsage(prompt, text),
         timestamp: new Date().toISOString(),
+        sources: this.getSources(request, text),
       };
     } catch (error) {
       console.error('Error in AI chat:', error);
@@ -115,8 +217,101 @@ class AIService {
     }
   }
 
+  /**
+   * Ask the model for changes to the project. Resolves with its raw answer:
+   * an explanation followed by a unified diff.
+   */
+  async generateEdits(
+    request: AIEditRequest
+  ): Promise<{ response: string; model: string; provider: AIProviderName; usage: AIUsage }> {
+    const { provider, model } = this.resolveModel(request.provider, request.model);
+
+    try {
+      const prompt = this.buildEditPrompt(request);
+      const text = await provider.generate({ model, prompt, purpose: 'edit' });
+      return { response: text, model, provider: provider.name, usage: estimateUsage(prompt, text) };
+    } catch (error) {
+      console.error('Error generating AI edits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the model to review lines of the room's files. Resolves with its
+   * overview and the findings it reported, still unchecked.
+   */
+  async reviewCode(
+    request: AIReviewRequest
+  ): Promise<{ summary: string; comments: AIReviewComment[]; model: string; provider: AIProviderName; usage: AIUsage }> {
+    const { provider, model } = this.resolveModel(request.provider, request.model);
+
+    try {
+      const prompt = this.buildReviewPrompt(request);
+      const text = await provider.generate({ model, prompt, purpose: 'review' });
+      return { ...this.parseReviewResponse(text), model, provider: provider.name, usage: estimateUsage(prompt, text) };
+    } catch (error) {
+      console.error('Error generating AI review:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Chat with the reply streamed to onChunk as it is generated. Resolves
+   * with the whole reply; rejects if the signal aborts first.
+   */
+  async chatWithAIStream(
+    request: AIChatRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIChatResponse> {
+    const { provider, model } = this.resolveModel(request.provider, request.model);
+
+    try {
+      const prompt = this.buildChatPrompt(request);
+      let text = '';
+      for await (const chunk of provider.generateStream({ model, prompt, purpose: 'chat' }, signal)) {
+        signal?.throwIfAborted();
+        text += chunk;
+        onChunk(chunk);
+      }
+
+      return {
+        response: text.trim(),
+        conversationId: request.conversationId || this.generateConversationId(),
+        model,
+        provider: provider.name,
+        usage: estimateUsage(prompt, text),
+        timestamp: new Date().toISOString(),
+        sources: this.getSources(request, text),
+      };
+    } catch (error) {
+      if (!signal?.aborted) console.error('Error in AI chat stream:', error);
+      throw error;
+    }
+  }
+
+  // Usage of a completion that was cancelled, counting only its prompt
+  estimateCompletionUsage(request: AICompletionRequest): AIUsage {
+    return estimateUsage(this.buildCompletionPrompt(request), '');
+  }
+
+  // Usage of a chat that ended early, such as a cancelled stream, from what was generated
+  estimateChatUsage(request: AIChatRequest, partialReply: string): AIUsage {
+    return estimateUsage(this.buildChatPrompt(request), partialReply);
+  }
+
   private buildCompletionPrompt(request: AICompletionRequest): string {
-    const { content, language, context, fileContent, cursorPosition } = request;
+    const { content, language, context, fileContent, cursorPosition, prefix, suffix, path } = request;
+    
+    if (prefix !== undefined) {
+      let prompt = `You are an expert ${language || 'code'} developer. Fill in the code at the cursor${path ? ` in ${path}` : ''}, so that the code before the cursor flows into the code after it.\n\n`;
+      prompt += `Code before the cursor:\n\`\`\`${language || ''}\n${prefix}\n\`\`\`\n\n`;
+      prompt += `Code after the cursor:\n\`\`\`${language || ''}\n${suffix || ''}\n\`\`\`\n\n`;
+      prompt += `Answer with only the code to insert at the cursor: no explanations, no code fences, and none of the code already before or after it. `;
+      prompt += `Finish the current statement or block; leave the answer empty when nothing should be inserted.\n\n`;
+      prompt += `Insert:`;
+      return prompt;
+    }
     
     let prompt = `You are an expert ${language || 'code'} developer. Provide code completion suggestions for the following context.\n\n`;
     
@@ -157,13 +352,100 @@ class AIService {
       });
     }
     
+    if (request.contextFiles && request.contextFiles.length > 0) {
+      prompt += `Project files from the user's workspace. When your answer relies on one, mention it by its path.\n\n`;
+      prompt += this.formatContextFiles(request.contextFiles);
+    }
+    
+    if (request.history && request.history.length > 0) {
+      prompt += `Conversation so far:\n`;
+      request.history.forEach(turn => {
+        prompt += `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}\n\n`;
+      });
+    }
+    
     prompt += `User: ${request.message}\n\n`;
     prompt += `Assistant:`;
     
     return prompt;
   }
 
-  private parseCompletionResponse(response: string, language?: string): string[] {
+  // The project files given to the model, marking those the reply mentions by path or name
+  private getSources(request: AIChatRequest, reply: string): AISource[] | undefined {
+    if (!request.contextFiles || request.contextFiles.length === 0) return undefined;
+    return request.contextFiles.map(({ fileId, path, reason }) => ({
+      fileId,
+      path,
+      reason,
+      cited: reply.includes(path) || new RegExp(`(^|[^\\w./-])${escapeRegExp(path.split('/').pop()!)}(?![\\w-])`).test(reply),
+    }));
+  }
+
+  private buildEditPrompt(request: AIEditRequest): string {
+    let prompt = `You are HiveCodex AI, a coding assistant that edits a project on request. Answer with a short explanation of the change, followed by the change itself as a unified diff in a single \`\`\`diff block.\n\n`;
+    prompt += `Diff rules:\n`;
+    prompt += `- Start each file with "--- a/<path>" and "+++ b/<path>", using the paths shown below\n`;
+    prompt += `- For a new file, use "--- /dev/null" and "+++ b/<path>"\n`;
+    prompt += `- Start each hunk with an "@@ -<line>,<count> +<line>,<count> @@" header\n`;
+    prompt += `- Keep about 3 unchanged context lines around each change, and copy context and removed lines exactly\n`;
+    prompt += `- Only change files that are shown, unless creating a new one\n\n`;
+    
+    if (request.contextFiles && request.contextFiles.length > 0) {
+      prompt += `Project files:\n\n`;
+      prompt += this.formatContextFiles(request.contextFiles);
+    }
+    
+    prompt += `Requested change: ${request.message}\n\n`;
+    prompt += `Answer:`;
+    
+    return prompt;
+  }
+
+  private buildReviewPrompt(request: AIReviewRequest): string {
+    let prompt = `You are HiveCodex AI, reviewing code in a collaborative project. Look for bugs, security problems, unhandled errors and code that is hard to maintain. Do not comment on formatting a formatter would fix.\n\n`;
+    prompt += request.scope === 'changes'
+      ? `These are the changes since the last commit. Lines marked "+" were added or changed, lines marked "-" were removed and are no longer in the file, and the other lines are unchanged context.\n\n`
+      : `This is code the user selected. Lines marked "+" are the selection and the other lines are context around it.\n\n`;
+    prompt += request.targets.map(target => this.formatReviewTarget(target)).join('');
+    
+    prompt += `Answer with a short summary of the review, followed by the findings as a JSON array in a single \`\`\`json block. Each finding is an object with:\n`;
+    prompt += `- "path": the file, as shown above\n`;
+    prompt += `- "startLine" and "endLine": the lines the finding is about, numbered as shown\n`;
+    prompt += `- "severity": "error", "warning" or "info"\n`;
+    prompt += `- "message": what is wrong and why\n`;
+    prompt += `- "fix" (optional): the complete replacement for lines startLine to endLine, indented as in the file\n`;
+    prompt += `Only report findings on lines marked "+". Use an empty array when there is nothing to report.\n\n`;
+    prompt += `Review:`;
+    
+    return prompt;
+  }
+
+  // Numbered lines of a file; removed lines have no number as they are not in the file
+  private formatReviewTarget(target: AIReviewTarget): string {
+    const width = String(target.endLine).length;
+    let line = target.startLine;
+    const numbered = target.lines.map(entry => {
+      const number = entry[0] === '-' ? '' : String(line++);
+      return `${number.padStart(width)} ${entry[0]} ${entry.slice(1)}`;
+    });
+    return `File: ${target.path} (lines ${target.startLine}-${target.endLine})\n\`\`\`\n${numbered.join('\n')}\n\`\`\`\n\n`;
+  }
+
+  private formatContextFiles(files: AIContextFile[]): string {
+    return files.map(file => {
+      const lines = file.truncated
+        ? `, lines ${file.startLine}-${file.startLine + file.content.split('\n').length - 1}`
+        : '';
+      return `${file.path} (${CONTEXT_REASONS[file.reason]}${lines}):\n\`\`\`\n${file.content}\n\`\`\`\n\n`;
+    }).join('');
+  }
+
+  private parseCompletionResponse(response: string, language?: string, request?: AICompletionRequest): string[] {
+    if (request?.prefix !== undefined) {
+      const completion = this.parseInlineCompletion(response, request.prefix, request.suffix || '');
+      return completion ? [completion] : [];
+    }
+    
     // Clean up the response and extract code suggestions
     const cleaned = response
       .replace(/```[\w]*\n?/g, '') // Remove code block markers
@@ -180,6 +462,51 @@ class AIService {
     return suggestions.length > 0 ? suggestions : [cleaned];
   }
 
+  private parseReviewResponse(response: string): { summary: string; comments: AIReviewComment[] } {
+    // The findings are the last JSON array in the answer, fenced or not
+    const blocks = [...response.matchAll(/```(?:json)?[^\n]*\n((?:(?!```)[\s\S])*)(?:```|$)/g)];
+    const block = blocks.reverse().find(match => match[1].trim().startsWith('['));
+    const start = response.lastIndexOf('\n[');
+    const json = block ? block[1] : start === -1 ? '' : response.slice(start, response.lastIndexOf(']') + 1);
+    
+    let parsed: unknown = [];
+    try {
+      parsed = json ? JSON.parse(json) : [];
+    } catch {
+      parsed = [];
+    }
+    const comments = Array.isArray(parsed)
+      ? parsed.map(toReviewComment).filter((comment): comment is AIReviewComment => comment !== null)
+      : [];
+    
+    const summary = block ? response.replace(block[0], '') : json ? response.replace(json, '') : response;
+    return { summary: summary.replace(/\n{3,}/g, '\n\n').trim(), comments };
+  }
+
+  // The text to insert at the cursor, without what the model repeated from around it
+  private parseInlineCompletion(response: string, prefix: string, suffix: string): string {
+    let text = response.replace(/\r\n?/g, '\n');
+    const fenced = text.match(/```[\w+-]*\n([\s\S]*?)(?:\n```|$)/);
+    if (fenced) text = fenced[1];
+    text = text.replace(/^(Insert:|Completion:)\s?/i, '').replace(/\s+$/, '');
+    
+    // Models often restate the line being completed
+    const currentLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+    if (currentLine && text.startsWith(currentLine)) {
+      text = text.slice(currentLine.length);
+    }
+    // ...or run on into lines that already follow the cursor
+    const following = suffix.split('\n').map(line => line.trim()).filter(Boolean);
+    const lines = text.split('\n');
+    for (let count = Math.min(lines.length - 1, following.length); count > 0; count--) {
+      if (lines.slice(-count).every((line, index) => line.trim() === following[index])) {
+        lines.splice(-count);
+        break;
+      }
+    }
+    return lines.join('\n').replace(/\s+$/, '');
+  }
+
   private calculateConfidence(response: string): number {
     // Simple confidence calculation based on response characteristics
     let confidence = 0.5; // Base confidence
@@ -206,13 +533,32 @@ class AIService {
     return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Whether any provider is enabled by the environment
+  isConfigured(): boolean {
+    return this.providers.length > 0;
+  }
+
   isServiceConnected(): boolean {
-    return this.isConnected;
+    return this.connected.size > 0;
+  }
+
+  // Connection state of each configured provider
+  getProviders(): { name: AIProviderName; label: string; connected: boolean }[] {
+    return this.providers.map(provider => ({
+      name: provider.name,
+      label: provider.label,
+      connected: this.connected.has(provider.name),
+    }));
   }
 
-  getModel(): string {
-    return this.modelName;
+  // The default model, or null when no provider is configured
+  getDefaultModel(): AIModelInfo | null {
+    const provider = this.getDefaultProvider();
+    const name = provider && this.defaultModelFor(provider);
+    if (!provider || !name) return null;
+    return { id: `${provider.name}:${name}`, provider: provider.name, name, available: this.connected.has(provider.name) };
   }
 }
 
+export const aiService = new AIService(createConfiguredProviders(), { provider: AI_PROVIDER, model: AI_MODEL });
 export default AIService;
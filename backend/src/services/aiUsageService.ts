@@ -0,0 +1,286 @@
+import mongoose from "mongoose";
+import { AIUsageRecord, Room } from "../database/models";
+import { AI_USER_DAILY_REQUESTS, AI_USER_DAILY_TOKENS } from "../config/constants";
+import { IRoom } from "../types/database";
+import {
+  AIPromptPurpose,
+  AIQuotaPeriod,
+  AIRoomUsage,
+  AIUsage,
+  AIUsageTotals,
+  AIUserUsage,
+  RoomAIQuota,
+} from "../types/ai";
+
+const QUOTA_PERIODS: AIQuotaPeriod[] = ["day", "month"];
+const QUOTA_LIMITS = ["roomRequests", "roomTokens", "memberRequests", "memberTokens"] as const;
+const DEFAULT_QUOTA: RoomAIQuota = { period: "month", roomRequests: null, roomTokens: null, memberRequests: null, memberTokens: null };
+const DASHBOARD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AIUsageLimits {
+  userDailyRequests: number; // 0 is unlimited
+  userDailyTokens: number;
+}
+
+// One request to account for
+export interface AIUsageEntry {
+  userId: string;
+  roomId: string | null;
+  purpose: AIPromptPurpose;
+  provider: string;
+  model: string;
+  usage: AIUsage;
+  cancelled?: boolean;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (quota used up, not allowed to change it, ...).
+ */
+export class AIUsageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "AIUsageError";
+    this.status = status;
+  }
+}
+
+type Participant = IRoom["participantList"][number];
+
+// Quota periods follow UTC, so every participant shares the same reset
+const periodStart = (period: AIQuotaPeriod, now = new Date()): Date =>
+  period === "day"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const toQuota = (room: IRoom): RoomAIQuota => ({
+  period: room.aiQuota?.period ?? DEFAULT_QUOTA.period,
+  roomRequests: room.aiQuota?.roomRequests ?? null,
+  roomTokens: room.aiQuota?.roomTokens ?? null,
+  memberRequests: room.aiQuota?.memberRequests ?? null,
+  memberTokens: room.aiQuota?.memberTokens ?? null,
+});
+
+const isManager = (participant: Participant): boolean =>
+  participant.role === "owner" || participant.role === "admin";
+
+const toObjectId = (id: string): mongoose.Types.ObjectId => {
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw new AIUsageError("Invalid user id");
+  }
+  return new mongoose.Types.ObjectId(id);
+};
+
+// Which of a request/token limit pair is used up, if any
+const exceeded = (totals: AIUsageTotals, requests: number | null, tokens: number | null): "request" | "token" | null => {
+  if (requests !== null && totals.requests >= requests) return "request";
+  if (tokens !== null && totals.tokens >= tokens) return "token";
+  return null;
+};
+
+/**
+ * Records what each AI request cost and enforces the per-user daily limits
+ * and the quotas room owners set.
+ */
+class AIUsageService {
+  private limits: AIUsageLimits;
+
+  constructor(limits: AIUsageLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Throws when the user, or the room the request is made from, has used up
+   * its allowance. Checked before a request, so the request that crosses a
+   * limit is still answered.
+   */
+  async checkQuota(userId: string, roomId: string | null): Promise<void> {
+    const user = toObjectId(userId);
+    const { userDailyRequests, userDailyTokens } = this.limits;
+    if (userDailyRequests > 0 || userDailyTokens > 0) {
+      const used = await this.sum({ userId: user, createdAt: { $gte: periodStart("day") } });
+      const limit = exceeded(used, userDailyRequests || null, userDailyTokens || null);
+      if (limit) {
+        throw new AIUsageError(`You have used your daily AI ${limit} allowance`, 429);
+      }
+    }
+
+    if (!roomId) return;
+    const room = await Room.findOne({ id: roomId }).select("aiQuota");
+    if (!room) return;
+    const quota = toQuota(room);
+    const since = periodStart(quota.period);
+    const periodName = quota.period === "day" ? "daily" : "monthly";
+
+    if (quota.roomRequests !== null || quota.roomTokens !== null) {
+      const limit = exceeded(await this.sum({ roomId, createdAt: { $gte: since } }), quota.roomRequests, quota.roomTokens);
+      if (limit) {
+        throw new AIUsageError(`This room has used its ${periodName} AI ${limit} quota`, 429);
+      }
+    }
+    if (quota.memberRequests !== null || quota.memberTokens !== null) {
+      const used = await this.sum({ roomId, userId: user, createdAt: { $gte: since } });
+      const limit = exceeded(used, quota.memberRequests, quota.memberTokens);
+      if (limit) {
+        throw new AIUsageError(`You have used your ${periodName} AI ${limit} quota in this room`, 429);
+      }
+    }
+  }
+
+  // Accounting is best effort: a failure to record is logged, not passed on
+  async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      await AIUsageRecord.create({
+        userId: toObjectId(entry.userId),
+        roomId: entry.roomId,
+        purpose: entry.purpose,
+        provider: entry.provider,
+        aiModel: entry.model,
+        ...entry.usage,
+        cancelled: entry.cancelled ?? false,
+      });
+    } catch (error) {
+      console.error("Failed to record AI usage:", error);
+    }
+  }
+
+  async getUserUsage(userId: string): Promise<AIUserUsage> {
+    const user = toObjectId(userId);
+    const today = periodStart("day");
+    const month = periodStart("month");
+    const firstDay = new Date(today.getTime() - (DASHBOARD_DAYS - 1) * DAY_MS);
+
+    const [todayTotals, monthTotals, dayRows, roomRows, modelRows] = await Promise.all([
+      this.sum({ userId: user, createdAt: { $gte: today } }),
+      this.sum({ userId: user, createdAt: { $gte: month } }),
+      AIUsageRecord.aggregate<{ _id: string } & AIUsageTotals>([
+        { $match: { userId: user, createdAt: { $gte: firstDay } } },
+        { $group: { _id: { $dateToString: { format: "%Y-%m-%d", date: "$createdAt" } }, requests: { $sum: 1 }, tokens: { $sum: "$totalTokens" } } },
+      ]),
+      AIUsageRecord.aggregate<{ _id: string } & AIUsageTotals>([
+        { $match: { userId: user, roomId: { $ne: null }, createdAt: { $gte: month } } },
+        { $group: { _id: "$roomId", requests: { $sum: 1 }, tokens: { $sum: "$totalTokens" } } },
+        { $sort: { tokens: -1 } },
+      ]),
+      AIUsageRecord.aggregate<{ _id: { provider: string; model: string } } & AIUsageTotals>([
+        { $match: { userId: user, createdAt: { $gte: month } } },
+        { $group: { _id: { provider: "$provider", model: "$aiModel" }, requests: { $sum: 1 }, tokens: { $sum: "$totalTokens" } } },
+        { $sort: { tokens: -1 } },
+      ]),
+    ]);
+
+    // Every day of the range, including those without requests
+    const byDay = new Map(dayRows.map(row => [row._id, row]));
+    const days = Array.from({ length: DASHBOARD_DAYS }, (_, index) => {
+      const date = new Date(firstDay.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+      return { date, requests: byDay.get(date)?.requests ?? 0, tokens: byDay.get(date)?.tokens ?? 0 };
+    });
+
+    const rooms = await Room.find({ id: { $in: roomRows.map(row => row._id) } }).select("id name");
+    const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+
+    return {
+      today: todayTotals,
+      month: monthTotals,
+      dailyLimit: {
+        requests: this.limits.userDailyRequests || null,
+        tokens: this.limits.userDailyTokens || null,
+      },
+      days,
+      rooms: roomRows.map(row => ({
+        roomId: row._id,
+        name: roomNames.get(row._id) ?? "Deleted room",
+        requests: row.requests,
+        tokens: row.tokens,
+      })),
+      models: modelRows.map(row => ({ ...row._id, requests: row.requests, tokens: row.tokens })),
+    };
+  }
+
+  // Participants only; members are listed with the names they have in the room
+  async getRoomUsage(roomId: string, userId: string): Promise<AIRoomUsage> {
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    const quota = toQuota(room);
+    const since = periodStart(quota.period);
+
+    const [total, memberRows] = await Promise.all([
+      this.sum({ roomId, createdAt: { $gte: since } }),
+      AIUsageRecord.aggregate<{ _id: mongoose.Types.ObjectId } & AIUsageTotals>([
+        { $match: { roomId, createdAt: { $gte: since } } },
+        { $group: { _id: "$userId", requests: { $sum: 1 }, tokens: { $sum: "$totalTokens" } } },
+        { $sort: { tokens: -1 } },
+      ]),
+    ]);
+
+    const names = new Map(room.participantList.map(p => [p.userId.toString(), p.name]));
+    return {
+      roomId,
+      quota,
+      periodStart: since.toISOString(),
+      total,
+      members: memberRows.map(row => ({
+        userId: row._id.toString(),
+        name: names.get(row._id.toString()) ?? "Former participant",
+        requests: row.requests,
+        tokens: row.tokens,
+      })),
+      canManage: isManager(participant),
+    };
+  }
+
+  // Owners and admins only; fields left out keep their value
+  async updateQuota(roomId: string, userId: string, update: Partial<RoomAIQuota>): Promise<RoomAIQuota> {
+    if (update.period !== undefined && !QUOTA_PERIODS.includes(update.period)) {
+      throw new AIUsageError(`period must be one of ${QUOTA_PERIODS.join(", ")}`);
+    }
+    for (const key of QUOTA_LIMITS) {
+      const value = update[key];
+      if (value !== undefined && value !== null && !(Number.isInteger(value) && value > 0)) {
+        throw new AIUsageError(`${key} must be a positive integer or null`);
+      }
+    }
+
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    if (!isManager(participant)) {
+      throw new AIUsageError("Only room owners and admins can change the AI quota", 403);
+    }
+    const quota: RoomAIQuota = { ...toQuota(room) };
+    if (update.period !== undefined) quota.period = update.period;
+    for (const key of QUOTA_LIMITS) {
+      if (update[key] !== undefined) quota[key] = update[key] ?? null;
+    }
+    room.aiQuota = quota;
+    await room.save();
+    return quota;
+  }
+
+  private async sum(match: Record<string, unknown>): Promise<AIUsageTotals> {
+    const [row] = await AIUsageRecord.aggregate<AIUsageTotals>([
+      { $match: match },
+      { $group: { _id: null, requests: { $sum: 1 }, tokens: { $sum: "$totalTokens" } } },
+    ]);
+    return { requests: row?.requests ?? 0, tokens: row?.tokens ?? 0 };
+  }
+
+  private async findParticipant(roomId: string, userId: string): Promise<{ room: IRoom; participant: Participant }> {
+    const room = await Room.findOne({ id: roomId });
+    if (!room) {
+      throw new AIUsageError("Room not found", 404);
+    }
+    const participant = room.participantList.find(p => p.userId.toString() === userId);
+    if (!participant) {
+      throw new AIUsageError("Not a participant of this room", 403);
+    }
+    return { room, participant };
+  }
+}
+
+export const aiUsageService = new AIUsageService({
+  userDailyRequests: AI_USER_DAILY_REQUESTS,
+  userDailyTokens: AI_USER_DAILY_TOKENS,
+});
+
+export default AIUsageService;
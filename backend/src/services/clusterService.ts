@@ -0,0 +1,247 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { Server } from "socket.io";
+import { createClient } from "redis";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { CLUSTER_REQUEST_TIMEOUT_MS, DOCUMENT_LEASE_MS } from "../config/constants";
+import {
+  ClientToServerEvents,
+  DocumentCall,
+  DocumentCallReply,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData,
+} from "../types/socket";
+import { MemoryStateStore, RedisClient, RedisStateStore, StateStore } from "./stateStore";
+
+export type ClusterServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+export interface ClusterLimits {
+  leaseMs: number; // A document's owner must renew its lease within this long
+  requestTimeoutMs: number; // Longest a call to another instance waits for its reply
+}
+
+export type DocumentCallHandler = (io: ClusterServer, roomId: string, fileId: string, args: any) => unknown;
+export type InstanceCallHandler = (io: ClusterServer, args: any) => unknown;
+
+interface Lease {
+  roomId: string;
+  fileId: string;
+}
+
+const leaseKey = (roomId: string, fileId: string) => `document-owner:${roomId}:${fileId}`;
+const heartbeatKey = (instanceId: string) => `instance:${instanceId}`;
+
+/**
+ * Lets several backend instances serve the same rooms. Socket.IO rooms span
+ * instances through the Redis adapter, shared state goes in the state store,
+ * and every live document is run by exactly one instance, its owner, which
+ * holds a lease on it: calls for the document are sent there, so its
+ * changes are sequenced in one place. Without Redis this instance owns
+ * everything and calls run in place.
+ */
+class ClusterService {
+  readonly instanceId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  private limits: ClusterLimits;
+  private store: StateStore;
+  private io: ClusterServer | null = null;
+  private redisClients: RedisClient[] = [];
+  private documentHandlers = new Map<string, DocumentCallHandler>();
+  private instanceHandlers = new Map<string, InstanceCallHandler>();
+  private leases = new Map<string, Lease>();
+  private claiming = new Map<string, Promise<string>>();
+  private lostListeners: Array<(roomId: string, fileId: string) => void> = [];
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  constructor(limits: ClusterLimits, store: StateStore = new MemoryStateStore()) {
+    this.limits = limits;
+    this.store = store;
+  }
+
+  get shared(): boolean {
+    return this.store.shared;
+  }
+
+  getStore(): StateStore {
+    return this.store;
+  }
+
+  /**
+   * Share state and rooms with the other instances through Redis. Must run
+   * before the server accepts connections.
+   */
+  async connect(io: ClusterServer, url: string): Promise<void> {
+    const client = createClient({ url });
+    const pubClient = client.duplicate();
+    const subClient = client.duplicate();
+    for (const redis of [client, pubClient, subClient]) {
+      redis.on("error", error => console.error("Redis connection error:", error));
+    }
+    await Promise.all([client.connect(), pubClient.connect(), subClient.connect()]);
+    this.redisClients = [client, pubClient, subClient];
+
+    io.adapter(createAdapter(pubClient, subClient, { requestsTimeout: this.limits.requestTimeoutMs }));
+    this.store = new RedisStateStore(client);
+    await this.renew();
+    this.renewTimer = setInterval(() => this.renew(), Math.floor(this.limits.leaseMs / 3));
+    this.renewTimer.unref();
+  }
+
+  // The server calls are answered on and run with; set before any are made
+  attach(io: ClusterServer): void {
+    this.io = io;
+    io.on("document-call", async (call, callback) => {
+      const reply = (fields: Partial<DocumentCallReply>) =>
+        callback({ instanceId: this.instanceId, handled: false, ...fields });
+      // Every instance hears the call; a lease that lapsed on the way means the caller has to look again
+      if (call.ownerId !== this.instanceId || !this.leases.has(leaseKey(call.roomId, call.fileId))) {
+        reply({ handled: false });
+        return;
+      }
+      try {
+        reply({ handled: true, result: await this.runDocumentCall(call) });
+      } catch (error) {
+        reply({ handled: true, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    io.on("instance-call", async ({ kind, args }, callback) => {
+      try {
+        await this.instanceHandlers.get(kind)?.(io, args);
+      } catch (error) {
+        console.error(`Failed to run ${kind} from another instance:`, error);
+      }
+      callback(this.instanceId);
+    });
+  }
+
+  handleDocumentCall(kind: string, handler: DocumentCallHandler): void {
+    this.documentHandlers.set(kind, handler);
+  }
+
+  handleInstanceCall(kind: string, handler: InstanceCallHandler): void {
+    this.instanceHandlers.set(kind, handler);
+  }
+
+  // Told when another instance took over a document this one was running
+  onDocumentLost(listener: (roomId: string, fileId: string) => void): void {
+    this.lostListeners.push(listener);
+  }
+
+  /**
+   * Run a call on the document's owner and return its result. Unless
+   * `open` is false, a document nobody runs is taken on here; with it
+   * false such a call returns undefined.
+   */
+  async callOwner<T>(
+    roomId: string,
+    fileId: string,
+    kind: string,
+    args: unknown,
+    { open = true }: { open?: boolean } = {}
+  ): Promise<T | undefined> {
+    const io = this.server();
+    const key = leaseKey(roomId, fileId);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const ownerId = open ? await this.claim(roomId, fileId) : await this.ownerOf(roomId, fileId);
+      if (!ownerId) return undefined;
+      const call: DocumentCall = { ownerId, kind, roomId, fileId, args };
+      if (ownerId === this.instanceId) return (await this.runDocumentCall(call)) as T;
+
+      const replies = await io.serverSideEmitWithAck("document-call", call);
+      const handled = replies.find(reply => reply.handled);
+      if (handled) {
+        if (handled.error) throw new Error(handled.error);
+        return handled.result as T;
+      }
+      // An owner that didn't answer at all is gone; its lease is taken over rather than waited out
+      if (!replies.some(reply => reply.instanceId === ownerId)) await this.store.deleteIfEquals(key, ownerId);
+    }
+    throw new Error(`No instance is running document ${fileId} in room ${roomId}`);
+  }
+
+  // Run a call on every instance, this one included, and wait until they all ran it
+  async callEverywhere(kind: string, args: unknown): Promise<void> {
+    const io = this.server();
+    await Promise.all([
+      this.shared ? io.serverSideEmitWithAck("instance-call", { kind, args }) : undefined,
+      this.instanceHandlers.get(kind)?.(io, args),
+    ]);
+  }
+
+  // Whether an instance is still running, e.g. before trusting state it left in the store
+  async isAlive(instanceId: string): Promise<boolean> {
+    return instanceId === this.instanceId || !this.shared || (await this.store.get(heartbeatKey(instanceId))) !== null;
+  }
+
+  /**
+   * Give up every lease and disconnect, e.g. when shutting down after the
+   * documents were saved. Their next calls load them on another instance.
+   */
+  async close(): Promise<void> {
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    this.renewTimer = null;
+    await Promise.all([...this.leases.keys()].map(key => this.store.deleteIfEquals(key, this.instanceId)));
+    this.leases.clear();
+    if (this.shared) await this.store.deleteIfEquals(heartbeatKey(this.instanceId), this.instanceId);
+    await Promise.all(this.redisClients.map(client => (client.isOpen ? client.quit() : undefined)));
+    this.redisClients = [];
+  }
+
+  private server(): ClusterServer {
+    if (!this.io) throw new Error("The cluster service is not attached to a Socket.IO server");
+    return this.io;
+  }
+
+  private async runDocumentCall({ kind, roomId, fileId, args }: DocumentCall): Promise<unknown> {
+    const handler = this.documentHandlers.get(kind);
+    if (!handler) throw new Error(`Unknown document call: ${kind}`);
+    return handler(this.server(), roomId, fileId, args);
+  }
+
+  private async ownerOf(roomId: string, fileId: string): Promise<string | null> {
+    const key = leaseKey(roomId, fileId);
+    return this.leases.has(key) ? this.instanceId : this.store.get(key);
+  }
+
+  // The document's owner, taking it on when nobody has it; callers at the same time share one attempt
+  private claim(roomId: string, fileId: string): Promise<string> {
+    const key = leaseKey(roomId, fileId);
+    if (this.leases.has(key)) return Promise.resolve(this.instanceId);
+    let claiming = this.claiming.get(key);
+    if (!claiming) {
+      claiming = (async () => {
+        // Leases only expire when another instance could be waiting for them
+        const ttlMs = this.shared ? this.limits.leaseMs : undefined;
+        let ownerId = (await this.store.setIfAbsent(key, this.instanceId, ttlMs)) ? this.instanceId : await this.store.get(key);
+        // Released between the two calls
+        if (ownerId === null && (await this.store.setIfAbsent(key, this.instanceId, ttlMs))) ownerId = this.instanceId;
+        if (!ownerId) throw new Error(`Could not find an owner for document ${fileId} in room ${roomId}`);
+        if (ownerId === this.instanceId) this.leases.set(key, { roomId, fileId });
+        return ownerId;
+      })().finally(() => this.claiming.delete(key));
+      this.claiming.set(key, claiming);
+    }
+    return claiming;
+  }
+
+  // Keep this instance's heartbeat and leases alive; a lease that couldn't be renewed belongs to someone else now
+  private async renew(): Promise<void> {
+    try {
+      await this.store.set(heartbeatKey(this.instanceId), this.instanceId, this.limits.leaseMs);
+      for (const [key, lease] of [...this.leases]) {
+        if (await this.store.extendIfEquals(key, this.instanceId, this.limits.leaseMs)) continue;
+        this.leases.delete(key);
+        this.lostListeners.forEach(listener => listener(lease.roomId, lease.fileId));
+      }
+    } catch (error) {
+      console.error("Failed to renew document leases:", error);
+    }
+  }
+}
+
+export const clusterService = new ClusterService({
+  leaseMs: DOCUMENT_LEASE_MS,
+  requestTimeoutMs: CLUSTER_REQUEST_TIMEOUT_MS,
+});
+
+export default ClusterService;
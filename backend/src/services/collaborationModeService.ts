@@ -0,0 +1,76 @@
+import { Room } from "../database/models";
+import { IRoom } from "../types/database";
+import { CollaborationMode } from "../types/socket";
+
+const MODES: CollaborationMode[] = ["ot", "crdt"];
+
+// A room's mode as one of its participants sees it
+export interface CollaborationModeState {
+  mode: CollaborationMode;
+  canManage: boolean;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (unknown mode, not allowed to change it, ...).
+ */
+export class CollaborationModeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CollaborationModeError";
+    this.status = status;
+  }
+}
+
+type Participant = IRoom["participantList"][number];
+
+const isManager = (participant: Participant): boolean =>
+  participant.role === "owner" || participant.role === "admin";
+
+/**
+ * How each room's editors stay in sync. Rooms use operational transforms
+ * unless an owner or admin opts them into CRDT (Yjs) documents.
+ */
+class CollaborationModeService {
+  async getMode(roomId: string): Promise<CollaborationMode> {
+    const room = await Room.findOne({ id: roomId }).select("collaborationMode");
+    return room?.collaborationMode || "ot";
+  }
+
+  async getState(roomId: string, userId: string): Promise<CollaborationModeState> {
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    return { mode: room.collaborationMode || "ot", canManage: isManager(participant) };
+  }
+
+  // Owners and admins only
+  async setMode(roomId: string, userId: string, mode: unknown): Promise<CollaborationMode> {
+    if (!MODES.includes(mode as CollaborationMode)) {
+      throw new CollaborationModeError(`mode must be one of ${MODES.join(", ")}`);
+    }
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    if (!isManager(participant)) {
+      throw new CollaborationModeError("Only room owners and admins can change how the room edits together", 403);
+    }
+    room.collaborationMode = mode as CollaborationMode;
+    await room.save();
+    return room.collaborationMode;
+  }
+
+  private async findParticipant(roomId: string, userId: string): Promise<{ room: IRoom; participant: Participant }> {
+    const room = await Room.findOne({ id: roomId });
+    if (!room) {
+      throw new CollaborationModeError("Room not found", 404);
+    }
+    const participant = room.participantList.find(p => p.userId.toString() === userId);
+    if (!participant) {
+      throw new CollaborationModeError("Not a participant of this room", 403);
+    }
+    return { room, participant };
+  }
+}
+
+export const collaborationModeService = new CollaborationModeService();
+
+export default CollaborationModeService;
@@ -0,0 +1,284 @@
+import { createHash } from "crypto";
+import { CollabDocument, CollabOperation } from "../database/models";
+import { COLLAB_CHECKPOINT_DELAY_MS, COLLAB_CHECKPOINT_MAX_DELAY_MS, COLLAB_LOG_FLUSH_MS } from "../config/constants";
+import { CollaborativeLogEntry } from "../types/socket";
+import { applyOperations } from "../utils/textOperations";
+import FileVersionService, { FileVersionError, fileVersionService } from "./fileVersionService";
+
+export interface CollaborationPersistenceLimits {
+  checkpointDelayMs: number; // Quiet time before a document is written back to its file
+  checkpointMaxDelayMs: number; // Longest a changed document waits while edits go on
+  logFlushMs: number; // Operations are logged in batches this far apart
+}
+
+// A live document as loaded: the file's content with the logged operations replayed
+export interface LoadedDocument {
+  content: string;
+  version: number;
+  operationsLog: CollaborativeLogEntry[];
+  snapshotVersion: number; // Version of the stored content the log starts from
+}
+
+// The live document itself, read when a checkpoint is written so it gets the latest content
+export interface DocumentSource {
+  content: string;
+  version: number;
+}
+
+interface TrackedDocument {
+  roomId: string;
+  fileId: string;
+  source: DocumentSource;
+  unlogged: CollaborativeLogEntry[];
+  dirtySince: number | null; // When the first change since the last checkpoint was made
+  logTimer: NodeJS.Timeout | null;
+  checkpointTimer: NodeJS.Timeout | null;
+  writes: Promise<void>; // Writes for the document, one at a time and in order
+  failures: number; // Failed writes in a row
+}
+
+const BINARY_SNIFF_BYTES = 8000;
+// Failed writes retried in a row before the document is dropped until its next edit
+const MAX_WRITE_RETRIES = 5;
+
+const hashContent = (content: string): string => createHash("sha1").update(content).digest("hex");
+
+/**
+ * Durable state for collaborative documents. Documents start from their
+ * file's content; applied operations are logged as they come and the
+ * content is written back to the file in debounced checkpoints, after which
+ * the log up to the checkpoint is dropped. Loading a document replays what
+ * was logged since its last checkpoint, so a crash loses at most one batch.
+ */
+class CollaborationPersistenceService {
+  private fileVersionService: FileVersionService;
+  private limits: CollaborationPersistenceLimits;
+  private documents = new Map<string, TrackedDocument>();
+
+  constructor(fileVersionService: FileVersionService, limits: CollaborationPersistenceLimits) {
+    this.fileVersionService = fileVersionService;
+    this.limits = limits;
+  }
+
+  /**
+   * A document's content and version for collaborative editing, or null for
+   * missing and binary files and those of other rooms.
+   */
+  async load(roomId: string, fileId: string): Promise<LoadedDocument | null> {
+    if (!(await this.fileVersionService.isRoomFile(roomId, fileId))) return null;
+    const file = await this.fileVersionService.readCurrentContent(fileId);
+    if (!file || file.content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+    const stored = file.content.toString("utf8");
+    const contentHash = hashContent(stored);
+
+    const record = await CollabDocument.findOne({ roomId, fileId });
+    if (!record) {
+      await CollabDocument.create({ roomId, fileId, version: 0, contentHash });
+      return { content: stored, version: 0, operationsLog: [], snapshotVersion: 0 };
+    }
+
+    // The file holds either the last checkpoint or, after a crash while writing one, the next
+    const base = record.pending?.contentHash === contentHash ? record.pending.version : record.version;
+    const logged = await CollabOperation.find({ roomId, fileId, version: { $gt: base } }).sort({ version: 1 }).lean();
+    const version = logged.length ? logged[logged.length - 1].version : Math.max(base, record.version);
+
+    if (contentHash !== record.contentHash && contentHash !== record.pending?.contentHash) {
+      // Saved or restored outside the editor since: the log no longer applies to it
+      await CollabOperation.deleteMany({ roomId, fileId });
+      await CollabDocument.updateOne(
+        { _id: record._id },
+        { version: version + 1, contentHash, pending: null, checkpointedAt: new Date() }
+      );
+      return { content: stored, version: version + 1, operationsLog: [], snapshotVersion: version + 1 };
+    }
+
+    let content = stored;
+    const operationsLog = logged.map(entry => {
+      content = applyOperations(content, entry.operations);
+      return { id: entry.changeId, operations: entry.operations, version: entry.version };
+    });
+    return { content, version, operationsLog, snapshotVersion: base };
+  }
+
+  /**
+   * Log operations applied to a loaded document and push its checkpoint
+   * back. Server-side replacements are recorded the same way as edits.
+   */
+  record(roomId: string, fileId: string, entry: CollaborativeLogEntry, source: DocumentSource): void {
+    const tracked = this.track(roomId, fileId, source);
+    tracked.unlogged.push(entry);
+    if (!tracked.logTimer) {
+      tracked.logTimer = setTimeout(() => {
+        tracked.logTimer = null;
+        this.enqueue(tracked, () => this.writeLog(tracked));
+      }, this.limits.logFlushMs);
+    }
+
+    const now = Date.now();
+    if (tracked.dirtySince === null) tracked.dirtySince = now;
+    const deadline = tracked.dirtySince + this.limits.checkpointMaxDelayMs;
+    this.scheduleCheckpoint(tracked, Math.max(0, Math.min(this.limits.checkpointDelayMs, deadline - now)));
+  }
+
+  /**
+   * Write every pending operation and checkpoint now, e.g. before shutting down.
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all([...this.documents.values()].map(tracked => this.flushDocument(tracked)));
+  }
+
+  /**
+   * Write one document's pending operations and checkpoint now, e.g. before
+   * its file is read outside the editor.
+   */
+  async flush(roomId: string, fileId: string): Promise<void> {
+    const tracked = this.documents.get(`${roomId}:${fileId}`);
+    if (tracked) await this.flushDocument(tracked);
+  }
+
+  /**
+   * Stop persisting a document another instance runs now. Operations not
+   * logged yet still are; checkpoints are left to the new owner, whose
+   * content is newer.
+   */
+  release(roomId: string, fileId: string): Promise<void> {
+    const tracked = this.documents.get(`${roomId}:${fileId}`);
+    if (!tracked) return Promise.resolve();
+    this.untrack(tracked);
+    return tracked.writes.then(() => this.writeLog(tracked)).catch(error => {
+      console.error(`Failed to log released document ${fileId} in room ${roomId}:`, error);
+    });
+  }
+
+  private track(roomId: string, fileId: string, source: DocumentSource): TrackedDocument {
+    const key = `${roomId}:${fileId}`;
+    let tracked = this.documents.get(key);
+    if (!tracked) {
+      tracked = {
+        roomId,
+        fileId,
+        source,
+        unlogged: [],
+        dirtySince: null,
+        logTimer: null,
+        checkpointTimer: null,
+        writes: Promise.resolve(),
+        failures: 0,
+      };
+      this.documents.set(key, tracked);
+    }
+    tracked.source = source;
+    return tracked;
+  }
+
+  // Stop writing a document; a later record tracks it afresh
+  private untrack(tracked: TrackedDocument): void {
+    if (tracked.logTimer) clearTimeout(tracked.logTimer);
+    if (tracked.checkpointTimer) clearTimeout(tracked.checkpointTimer);
+    tracked.logTimer = tracked.checkpointTimer = null;
+    const key = `${tracked.roomId}:${tracked.fileId}`;
+    if (this.documents.get(key) === tracked) this.documents.delete(key);
+  }
+
+  private flushDocument(tracked: TrackedDocument): Promise<void> {
+    if (tracked.logTimer) clearTimeout(tracked.logTimer);
+    if (tracked.checkpointTimer) clearTimeout(tracked.checkpointTimer);
+    tracked.logTimer = tracked.checkpointTimer = null;
+    return this.enqueue(tracked, () =>
+      tracked.dirtySince === null ? this.writeLog(tracked) : this.writeCheckpoint(tracked)
+    );
+  }
+
+  private scheduleCheckpoint(tracked: TrackedDocument, delay: number): void {
+    if (tracked.checkpointTimer) clearTimeout(tracked.checkpointTimer);
+    tracked.checkpointTimer = setTimeout(() => {
+      tracked.checkpointTimer = null;
+      this.enqueue(tracked, () => this.writeCheckpoint(tracked));
+    }, delay);
+  }
+
+  /**
+   * Failed writes are retried with the next checkpoint, which logs anything
+   * left over first, backing off up to the longest checkpoint delay. A
+   * document whose file was deleted is dropped along with its log, as is one
+   * that keeps failing; its next edit, if any, starts over.
+   */
+  private enqueue(tracked: TrackedDocument, write: () => Promise<void>): Promise<void> {
+    const { roomId, fileId } = tracked;
+    tracked.writes = tracked.writes.then(write).then(
+      () => {
+        tracked.failures = 0;
+      },
+      async error => {
+        if (error instanceof FileVersionError && error.status === 404) {
+          console.warn(`⚠️ File ${fileId} in room ${roomId} is gone, dropping its collaborative document`);
+          this.untrack(tracked);
+          tracked.unlogged = [];
+          await Promise.all([
+            CollabOperation.deleteMany({ roomId, fileId }),
+            CollabDocument.deleteOne({ roomId, fileId }),
+          ]).catch(cleanupError => console.error(`Failed to clear the log of deleted file ${fileId}:`, cleanupError));
+          return;
+        }
+
+        tracked.failures++;
+        console.error(`Failed to persist collaborative document ${fileId} in room ${roomId}:`, error);
+        if (tracked.failures > MAX_WRITE_RETRIES) {
+          console.error(`Giving up on collaborative document ${fileId} in room ${roomId} after ${MAX_WRITE_RETRIES} retries`);
+          this.untrack(tracked);
+          return;
+        }
+        const delay = this.limits.checkpointDelayMs * 2 ** (tracked.failures - 1);
+        if (!tracked.checkpointTimer) this.scheduleCheckpoint(tracked, Math.min(delay, this.limits.checkpointMaxDelayMs));
+      }
+    );
+    return tracked.writes;
+  }
+
+  // Upserts by version, so a batch retried after a partial write doesn't fail on what made it
+  private async writeLog(tracked: TrackedDocument): Promise<void> {
+    const batch = tracked.unlogged.splice(0);
+    if (!batch.length) return;
+    const { roomId, fileId } = tracked;
+    try {
+      await CollabOperation.bulkWrite(batch.map(entry => ({
+        updateOne: {
+          filter: { roomId, fileId, version: entry.version },
+          update: { $setOnInsert: { changeId: entry.id, operations: entry.operations } },
+          upsert: true,
+        },
+      })));
+    } catch (error) {
+      tracked.unlogged.unshift(...batch);
+      throw error;
+    }
+  }
+
+  private async writeCheckpoint(tracked: TrackedDocument): Promise<void> {
+    await this.writeLog(tracked);
+    const { roomId, fileId } = tracked;
+    const { content, version } = tracked.source;
+    const contentHash = hashContent(content);
+
+    await CollabDocument.updateOne({ roomId, fileId }, { pending: { version, contentHash } }, { upsert: true });
+    await this.fileVersionService.writeCheckpoint(fileId, Buffer.from(content, "utf8"));
+    await CollabDocument.updateOne({ roomId, fileId }, { version, contentHash, pending: null, checkpointedAt: new Date() });
+    await CollabOperation.deleteMany({ roomId, fileId, version: { $lte: version } });
+
+    // Edits made while writing scheduled the next checkpoint already
+    if (tracked.source.version === version) {
+      tracked.dirtySince = null;
+      if (!tracked.logTimer && !tracked.checkpointTimer && !tracked.unlogged.length) {
+        this.documents.delete(`${roomId}:${fileId}`);
+      }
+    }
+  }
+}
+
+export const collaborationPersistenceService = new CollaborationPersistenceService(fileVersionService, {
+  checkpointDelayMs: COLLAB_CHECKPOINT_DELAY_MS,
+  checkpointMaxDelayMs: COLLAB_CHECKPOINT_MAX_DELAY_MS,
+  logFlushMs: COLLAB_LOG_FLUSH_MS,
+});
+
+export default CollaborationPersistenceService;
@@ -0,0 +1,295 @@
+import { randomUUID } from "crypto";
+import * as Y from "yjs";
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from "y-protocols/awareness";
+import { CrdtDocument } from "../database/models";
+import { CRDT_STATE_FLUSH_MS } from "../config/constants";
+import { TextOperationPayload } from "../types/socket";
+import { diffOperations } from "../utils/textOperations";
+
+export interface CrdtDocumentLimits {
+  stateFlushMs: number; // Quiet time before a document's Yjs state is saved
+}
+
+// What a client joining a document gets back
+export interface CrdtJoinResult {
+  docId: string;
+  update: Uint8Array;
+  stateVector: Uint8Array;
+  awareness: Uint8Array | null;
+}
+
+// Cursors to take down after a client left a document
+export interface CrdtAwarenessRemoval {
+  roomId: string;
+  fileId: string;
+  update: Uint8Array;
+}
+
+interface OpenDocument {
+  roomId: string;
+  fileId: string;
+  doc: Y.Doc;
+  text: Y.Text;
+  awareness: Awareness;
+  clients: Map<string, Set<number>>; // Sockets with the document open, and the awareness ids each one set
+  saveTimer: NodeJS.Timeout | null;
+  saving: Promise<void>; // Saves for the document, one at a time and in order
+}
+
+// Edits made on the server, which its canonical doc already has
+const SERVER_ORIGIN = "server";
+const TEXT_NAME = "content";
+
+const toOperations = (delta: Y.YTextEvent["delta"]): TextOperationPayload[] =>
+  delta.map(part => {
+    if (part.retain !== undefined) return { type: "retain", length: part.retain };
+    if (part.delete !== undefined) return { type: "delete", length: part.delete };
+    return { type: "insert", text: typeof part.insert === "string" ? part.insert : "" };
+  });
+
+/**
+ * Yjs documents for rooms in CRDT mode, one per open file. Each starts
+ * from the file's canonical text and its saved Yjs state, so clients that
+ * edited offline merge into the same history they left. Text changes are
+ * reported back as operations, keeping the canonical doc (and with it
+ * checkpoints, search and AI edits) in step.
+ */
+class CrdtDocumentService {
+  private limits: CrdtDocumentLimits;
+  private documents = new Map<string, OpenDocument>();
+  private loading = new Map<string, Promise<OpenDocument>>();
+  private closing = new Map<string, Promise<void>>();
+
+  constructor(limits: CrdtDocumentLimits) {
+    this.limits = limits;
+  }
+
+  isOpen(roomId: string, fileId: string): boolean {
+    return this.documents.has(`${roomId}:${fileId}`);
+  }
+
+  /**
+   * Open a file's document for a socket and return what the client is
+   * missing. `readContent` gives the canonical text, read when the document
+   * is created so edits made while it loads aren't lost.
+   */
+  async join(
+    roomId: string,
+    fileId: string,
+    socketId: string,
+    readContent: () => string,
+    stateVector: Uint8Array
+  ): Promise<CrdtJoinResult> {
+    const key = `${roomId}:${fileId}`;
+    let document = this.documents.get(key);
+    if (!document) {
+      let loading = this.loading.get(key);
+      if (!loading) {
+        loading = this.open(roomId, fileId, readContent).finally(() => this.loading.delete(key));
+        this.loading.set(key, loading);
+      }
+      document = await loading;
+    }
+
+    if (!document.clients.has(socketId)) document.clients.set(socketId, new Set());
+    const clientIds = [...document.awareness.getStates().keys()];
+    return {
+      docId: document.doc.guid,
+      update: Y.encodeStateAsUpdate(document.doc, stateVector),
+      stateVector: Y.encodeStateVector(document.doc),
+      awareness: clientIds.length ? encodeAwarenessUpdate(document.awareness, clientIds) : null,
+    };
+  }
+
+  /**
+   * Apply a client's update. Returns the resulting text change as
+   * operations (empty when the text is unchanged), or null when the socket
+   * doesn't have the document open.
+   */
+  applyUpdate(roomId: string, fileId: string, socketId: string, update: Uint8Array): TextOperationPayload[] | null {
+    const document = this.documents.get(`${roomId}:${fileId}`);
+    if (!document?.clients.has(socketId)) return null;
+
+    let operations: TextOperationPayload[] = [];
+    const capture = (event: Y.YTextEvent) => {
+      operations = toOperations(event.delta);
+    };
+    document.text.observe(capture);
+    try {
+      Y.applyUpdate(document.doc, update, socketId);
+    } finally {
+      document.text.unobserve(capture);
+    }
+    return operations;
+  }
+
+  /**
+   * Apply an edit made on the server to an open document. Returns the Yjs
+   * update for clients, or null when nobody has the document open.
+   */
+  applyOperations(roomId: string, fileId: string, operations: TextOperationPayload[]): Uint8Array | null {
+    const document = this.documents.get(`${roomId}:${fileId}`);
+    if (!document) return null;
+    const before = Y.encodeStateVector(document.doc);
+    this.edit(document, operations);
+    return Y.encodeStateAsUpdate(document.doc, before);
+  }
+
+  // False when the socket doesn't have the document open
+  applyAwareness(roomId: string, fileId: string, socketId: string, update: Uint8Array): boolean {
+    const document = this.documents.get(`${roomId}:${fileId}`);
+    if (!document?.clients.has(socketId)) return false;
+    applyAwarenessUpdate(document.awareness, update, socketId);
+    return true;
+  }
+
+  /**
+   * Close a socket's copy of a document, returning the update that takes
+   * its cursors down. The last one out saves and unloads the document.
+   */
+  leave(roomId: string, fileId: string, socketId: string): Uint8Array | null {
+    const document = this.documents.get(`${roomId}:${fileId}`);
+    const clientIds = document?.clients.get(socketId);
+    if (!document || !clientIds) return null;
+
+    document.clients.delete(socketId);
+    let update: Uint8Array | null = null;
+    if (clientIds.size) {
+      removeAwarenessStates(document.awareness, [...clientIds], null);
+      update = encodeAwarenessUpdate(document.awareness, [...clientIds]);
+    }
+    if (!document.clients.size) this.close(document);
+    return update;
+  }
+
+  // Every document a disconnected socket had open
+  leaveAll(socketId: string): CrdtAwarenessRemoval[] {
+    const removals: CrdtAwarenessRemoval[] = [];
+    for (const document of [...this.documents.values()]) {
+      if (!document.clients.has(socketId)) continue;
+      const { roomId, fileId } = document;
+      const update = this.leave(roomId, fileId, socketId);
+      if (update) removals.push({ roomId, fileId, update });
+    }
+    return removals;
+  }
+
+  // Save and unload a room's documents, e.g. when it goes back to OT
+  async closeRoom(roomId: string): Promise<void> {
+    await Promise.all([...this.documents.values()]
+      .filter(document => document.roomId === roomId)
+      .map(document => this.close(document)));
+  }
+
+  // Save and unload one document, e.g. once another instance runs it
+  async closeDocument(roomId: string, fileId: string): Promise<void> {
+    const document = this.documents.get(`${roomId}:${fileId}`);
+    if (document) await this.close(document);
+  }
+
+  /**
+   * Save every open document now, e.g. before shutting down.
+   */
+  async flushAll(): Promise<void> {
+    await Promise.all([...this.documents.values()].map(document => this.save(document)));
+  }
+
+  private async open(roomId: string, fileId: string, readContent: () => string): Promise<OpenDocument> {
+    const key = `${roomId}:${fileId}`;
+    // A copy being unloaded must be saved first, or its last updates would come back as new edits
+    await this.closing.get(key);
+    const stored = await CrdtDocument.findOne({ roomId, fileId });
+
+    const doc = new Y.Doc({ guid: stored?.docId || randomUUID() });
+    if (stored) Y.applyUpdate(doc, stored.state, SERVER_ORIGIN);
+    const document: OpenDocument = {
+      roomId,
+      fileId,
+      doc,
+      text: doc.getText(TEXT_NAME),
+      awareness: new Awareness(doc),
+      clients: new Map(),
+      saveTimer: null,
+      saving: Promise.resolve(),
+    };
+
+    // Edits since the state was saved (or made in OT mode) come in as one change
+    const current = document.text.toString();
+    const content = readContent();
+    if (current !== content) this.edit(document, diffOperations(current, content));
+
+    document.awareness.setLocalState(null);
+    document.awareness.on("update", (
+      { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const clientIds = typeof origin === "string" ? document.clients.get(origin) : undefined;
+      if (!clientIds) return;
+      [...added, ...updated].forEach(id => clientIds.add(id));
+      removed.forEach(id => clientIds.delete(id));
+    });
+    doc.on("update", () => this.scheduleSave(document));
+
+    this.documents.set(key, document);
+    return document;
+  }
+
+  private edit(document: OpenDocument, operations: TextOperationPayload[]): void {
+    document.doc.transact(() => {
+      let index = 0;
+      for (const op of operations) {
+        if (op.type === "retain") {
+          index += op.length || 0;
+        } else if (op.type === "delete") {
+          document.text.delete(index, op.length || 0);
+        } else if (op.text) {
+          document.text.insert(index, op.text);
+          index += op.text.length;
+        }
+      }
+    }, SERVER_ORIGIN);
+  }
+
+  private scheduleSave(document: OpenDocument): void {
+    if (document.saveTimer) clearTimeout(document.saveTimer);
+    document.saveTimer = setTimeout(() => {
+      document.saveTimer = null;
+      this.save(document);
+    }, this.limits.stateFlushMs);
+  }
+
+  // Failures are logged; the next update schedules another save
+  private save(document: OpenDocument): Promise<void> {
+    if (document.saveTimer) clearTimeout(document.saveTimer);
+    document.saveTimer = null;
+    const { roomId, fileId, doc } = document;
+    const state = Buffer.from(Y.encodeStateAsUpdate(doc));
+    document.saving = document.saving
+      .then(async () => {
+        await CrdtDocument.updateOne({ roomId, fileId }, { docId: doc.guid, state }, { upsert: true });
+      })
+      .catch(error => {
+        console.error(`Failed to save CRDT document ${fileId} in room ${roomId}:`, error);
+      });
+    return document.saving;
+  }
+
+  private close(document: OpenDocument): Promise<void> {
+    const key = `${document.roomId}:${document.fileId}`;
+    if (this.documents.get(key) !== document) return this.closing.get(key) || Promise.resolve();
+    this.documents.delete(key);
+    document.awareness.destroy();
+    const closing = this.save(document).finally(() => {
+      document.doc.destroy();
+      if (this.closing.get(key) === closing) this.closing.delete(key);
+    });
+    this.closing.set(key, closing);
+    return closing;
+  }
+}
+
+export const crdtDocumentService = new CrdtDocumentService({
+  stateFlushMs: CRDT_STATE_FLUSH_MS,
+});
+
+export default CrdtDocumentService;
@@ -0,0 +1,510 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import ts from "typescript";
+import WorkspaceService from "./workspaceService";
+import {
+  ExecutionLimits,
+  ExecutionOptions,
+  ExecutionRequest,
+  ExecutionResult,
+  ExecutionStream,
+  LanguageRuntime,
+  ProjectExecutionRequest,
+  RuntimeInfo,
+} from "../types/execution";
+import {
+  EXECUTION_TIMEOUT_MS,
+  EXECUTION_INTERACTIVE_TIMEOUT_MS,
+  EXECUTION_CPU_SECONDS,
+  EXECUTION_MEMORY_MB,
+  EXECUTION_MAX_OUTPUT_BYTES,
+  EXECUTION_MAX_WORKSPACE_BYTES,
+} from "../config/constants";
+
+// What each runtime prints when an allocation fails, as it does past RLIMIT_DATA
+const OUT_OF_MEMORY = new RegExp([
+  "MemoryError\\b", // Python, Ruby's NoMemoryError and Java's OutOfMemoryError
+  "std::bad_alloc", // C++
+  "JavaScript heap out of memory", // Node
+  "runtime: out of memory", // Go
+  "memory allocation of \\d+ bytes failed", // Rust
+  "PHP Fatal error: +Out of memory", // PHP
+].join("|"));
+
+const RUNTIMES: LanguageRuntime[] = [
+  {
+    language: "javascript",
+    label: "JavaScript (Node.js)",
+    extension: "js",
+    requires: [],
+    run: (file) => [process.execPath, file],
+  },
+  {
+    language: "typescript",
+    label: "TypeScript",
+    extension: "ts",
+    requires: [],
+    transpile: (source, fileName) => ({
+      fileName: fileName.replace(/\.tsx?$/, "") + ".js",
+      code: ts.transpileModule(source, {
+        fileName,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+        },
+      }).outputText,
+    }),
+    run: (file) => [process.execPath, file],
+  },
+  {
+    language: "python",
+    label: "Python",
+    extension: "py",
+    requires: ["python3"],
+    run: (file) => ["python3", "-u", file],
+  },
+  {
+    language: "ruby",
+    label: "Ruby",
+    extension: "rb",
+    requires: ["ruby"],
+    run: (file) => ["ruby", file],
+  },
+  {
+    language: "php",
+    label: "PHP",
+    extension: "php",
+    requires: ["php"],
+    run: (file) => ["php", file],
+  },
+  {
+    language: "go",
+    label: "Go",
+    extension: "go",
+    requires: ["go"],
+    compile: (file) => ["go", "build", "-o", "main", file],
+    run: () => ["./main"],
+  },
+  {
+    language: "c",
+    label: "C",
+    extension: "c",
+    requires: ["gcc"],
+    compile: (file) => ["gcc", "-O2", "-o", "main", file, "-lm"],
+    run: () => ["./main"],
+  },
+  {
+    language: "cpp",
+    label: "C++",
+    extension: "cpp",
+    requires: ["g++"],
+    compile: (file) => ["g++", "-O2", "-o", "main", file],
+    run: () => ["./main"],
+  },
+  {
+    language: "rust",
+    label: "Rust",
+    extension: "rs",
+    requires: ["rustc"],
+    compile: (file) => ["rustc", "-O", "-o", "main", file],
+    run: () => ["./main"],
+  },
+  {
+    language: "java",
+    label: "Java",
+    extension: "java",
+    entryFileName: "Main.java",
+    requires: ["javac", "java"],
+    compile: (file) => ["javac", file],
+    run: () => ["java", "-cp", ".", "Main"],
+  },
+];
+
+interface SandboxOptions {
+  cwd: string;
+  stdin?: string;
+  input?: Readable;
+  env?: Record<string, string>;
+  timeoutMs: number;
+  cpuSeconds?: number;
+  memoryMb?: number;
+  maxOutputBytes: number;
+  signal?: AbortSignal;
+  onOutput?: ExecutionOptions["onOutput"];
+}
+
+interface SandboxOutcome {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  truncated: boolean;
+  cancelled: boolean;
+  limitExceeded?: ExecutionResult["limitExceeded"];
+}
+
+class ExecutionService {
+  private limits: ExecutionLimits;
+  private workspaceService: WorkspaceService;
+  private executableCache: Map<string, boolean> = new Map();
+
+  constructor(limits: ExecutionLimits, workspaceService: WorkspaceService) {
+    this.limits = limits;
+    this.workspaceService = workspaceService;
+  }
+
+  getRuntimes(): RuntimeInfo[] {
+    return RUNTIMES.map(runtime => ({
+      language: runtime.language,
+      label: runtime.label,
+      extension: runtime.extension,
+      available: runtime.requires.every(cmd => this.hasExecutable(cmd)),
+    }));
+  }
+
+  getLimits(): ExecutionLimits {
+    return { ...this.limits };
+  }
+
+  getRuntime(language: string): LanguageRuntime | undefined {
+    return RUNTIMES.find(runtime => runtime.language === language);
+  }
+
+  async execute(request: ExecutionRequest, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    const { signal, onOutput } = options;
+    const runtime = this.getRuntime(request.language);
+    if (!runtime) {
+      throw new Error(`Unsupported language: ${request.language}`);
+    }
+    if (!runtime.requires.every(cmd => this.hasExecutable(cmd))) {
+      throw new Error(`Runtime for ${runtime.label} is not installed on this server`);
+    }
+
+    const id = options.id || this.generateExecutionId();
+    const startTime = Date.now();
+    const workspace = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hivecodex-run-"));
+
+    try {
+      let entryFile = runtime.entryFileName || this.sanitizeFileName(request.fileName, runtime.extension);
+      let source = request.code;
+      if (runtime.transpile) {
+        await fs.promises.writeFile(path.join(workspace, entryFile), source, "utf8");
+        const output = runtime.transpile(source, entryFile);
+        entryFile = output.fileName;
+        source = output.code;
+      }
+      await fs.promises.writeFile(path.join(workspace, entryFile), source, "utf8");
+
+      if (runtime.compile) {
+        const build = await this.runSandboxed(runtime.compile(entryFile), {
+          cwd: workspace,
+          timeoutMs: this.limits.timeoutMs * 3,
+          maxOutputBytes: this.limits.maxOutputBytes,
+          signal,
+          // Compiler diagnostics are shown as stderr whichever stream they used
+          onOutput: onOutput && ((_stream, chunk) => onOutput("stderr", chunk)),
+        });
+        if (build.exitCode !== 0 || build.cancelled || build.limitExceeded) {
+          return this.buildResult(id, request.language, startTime, {
+            ...build,
+            stderr: build.stderr || build.stdout,
+            stdout: "",
+          });
+        }
+      }
+
+      const runOptions = this.runOptions(workspace, request.stdin, options);
+      const outcome = await this.runSandboxed(this.wrapArgv(runtime.run(entryFile), options), runOptions);
+
+      return this.buildResult(id, request.language, startTime, outcome, runOptions.timeoutMs);
+    } finally {
+      this.cleanupWorkspace(workspace);
+    }
+  }
+
+  /**
+   * Run a stored run configuration against a copy of the room's whole file
+   * tree, so projects that import across files behave as they would locally.
+   */
+  async executeProject(request: ProjectExecutionRequest, options: ExecutionOptions = {}): Promise<ExecutionResult> {
+    const { configuration } = request;
+    const command = this.resolveCommand(configuration.command);
+
+    const id = options.id || this.generateExecutionId();
+    const startTime = Date.now();
+    const workspace = await fs.promises.mkdtemp(path.join(os.tmpdir(), "hivecodex-run-"));
+
+    try {
+      await this.workspaceService.materialize(request.roomId, workspace);
+
+      const cwd = this.workspaceService.resolveInside(workspace, configuration.workingDirectory || ".");
+      await fs.promises.mkdir(cwd, { recursive: true });
+
+      const runOptions = {
+        ...this.runOptions(cwd, request.stdin, options),
+        env: Object.fromEntries(configuration.env.map(variable => [variable.name, variable.value])),
+      };
+      const outcome = await this.runSandboxed(this.wrapArgv([command, ...configuration.args], options), runOptions);
+
+      return this.buildResult(id, configuration.language, startTime, outcome, runOptions.timeoutMs);
+    } finally {
+      this.cleanupWorkspace(workspace);
+    }
+  }
+
+  /**
+   * Sandbox options for the program itself. Interactive runs keep stdin open
+   * and get a longer wall clock, since they mostly sit waiting for input.
+   */
+  private runOptions(cwd: string, stdin: string | undefined, options: ExecutionOptions): SandboxOptions {
+    return {
+      cwd,
+      stdin,
+      input: options.input,
+      timeoutMs: options.input ? this.limits.interactiveTimeoutMs : this.limits.timeoutMs,
+      cpuSeconds: this.limits.cpuSeconds,
+      memoryMb: this.limits.memoryMb,
+      maxOutputBytes: this.limits.maxOutputBytes,
+      signal: options.signal,
+      onOutput: options.onOutput,
+    };
+  }
+
+  /**
+   * Output goes to a pipe rather than a tty, so C stdio would hold back
+   * prompts until exit. For interactive runs, unbuffer where stdbuf exists.
+   */
+  private wrapArgv(argv: string[], options: ExecutionOptions): string[] {
+    if (!options.input || !this.hasExecutable("stdbuf")) return argv;
+    return ["stdbuf", "-o0", "-e0", ...argv];
+  }
+
+  private buildResult(
+    id: string,
+    language: string,
+    startTime: number,
+    outcome: SandboxOutcome,
+    timeoutMs: number = this.limits.timeoutMs
+  ): ExecutionResult {
+    let status: ExecutionResult["status"] = "error";
+    if (outcome.limitExceeded === "timeout" || outcome.limitExceeded === "cpu") {
+      status = "timeout";
+    } else if (outcome.exitCode === 0 && !outcome.limitExceeded && !outcome.cancelled) {
+      status = "completed";
+    }
+
+    let stderr = outcome.stderr;
+    if (outcome.cancelled) {
+      stderr += "\nExecution cancelled";
+    } else if (outcome.limitExceeded === "timeout") {
+      stderr += `\nTime limit exceeded (${timeoutMs}ms)`;
+    } else if (outcome.limitExceeded === "cpu") {
+      stderr += `\nCPU time limit exceeded (${this.limits.cpuSeconds}s)`;
+    } else if (outcome.limitExceeded === "memory") {
+      stderr += `\nMemory limit exceeded (${this.limits.memoryMb} MB)`;
+    } else if (outcome.limitExceeded === "output") {
+      stderr += `\nOutput limit exceeded (${this.limits.maxOutputBytes} bytes)`;
+    } else if (outcome.signal) {
+      stderr += `\nProcess terminated by ${outcome.signal}`;
+    }
+
+    return {
+      id,
+      language,
+      status,
+      stdout: outcome.stdout,
+      stderr: stderr.trim(),
+      exitCode: outcome.exitCode,
+      signal: outcome.signal,
+      executionTime: Date.now() - startTime,
+      truncated: outcome.truncated,
+      limitExceeded: outcome.limitExceeded,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Spawn a command in its own process group with resource limits applied
+   * through the shell's ulimit before exec'ing the real program.
+   */
+  private runSandboxed(argv: string[], options: SandboxOptions): Promise<SandboxOutcome> {
+    return new Promise((resolve) => {
+      const rlimits: string[] = [];
+      if (options.cpuSeconds) rlimits.push(`ulimit -t ${Math.ceil(options.cpuSeconds)}`);
+      if (options.memoryMb) rlimits.push(`ulimit -d ${Math.ceil(options.memoryMb * 1024)}`);
+
+      const useShell = process.platform !== "win32" && rlimits.length > 0;
+      const command = useShell ? "/bin/sh" : argv[0];
+      const args = useShell
+        ? ["-c", `${rlimits.join(" && ")} && exec "$0" "$@"`, ...argv]
+        : argv.slice(1);
+
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        env: {
+          PATH: process.env.PATH || "",
+          LANG: process.env.LANG || "C.UTF-8",
+          HOME: options.cwd,
+          TMPDIR: options.cwd,
+          ...options.env,
+        },
+        detached: process.platform !== "win32",
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      let stdout = "";
+      let stderr = "";
+      let outputBytes = 0;
+      let truncated = false;
+      let cancelled = false;
+      let limitExceeded: SandboxOutcome["limitExceeded"];
+      let killedBySandbox = false;
+      let settled = false;
+
+      const kill = () => {
+        killedBySandbox = true;
+        try {
+          if (child.pid && process.platform !== "win32") {
+            process.kill(-child.pid, "SIGKILL");
+          } else {
+            child.kill("SIGKILL");
+          }
+        } catch {}
+      };
+
+      // Decoders keep multi-byte characters intact across chunk boundaries
+      const decoders = { stdout: new StringDecoder("utf8"), stderr: new StringDecoder("utf8") };
+      const collect = (stream: ExecutionStream) => (chunk: Buffer) => {
+        if (truncated) return;
+        const remaining = options.maxOutputBytes - outputBytes;
+        const text = decoders[stream].write(chunk.length > remaining ? chunk.subarray(0, remaining) : chunk);
+        outputBytes += Math.min(chunk.length, remaining);
+        if (stream === "stdout") stdout += text;
+        else stderr += text;
+        if (text) options.onOutput?.(stream, text);
+        if (chunk.length > remaining) {
+          truncated = true;
+          limitExceeded = limitExceeded || "output";
+          kill();
+        }
+      };
+
+      child.stdout.on("data", collect("stdout"));
+      child.stderr.on("data", collect("stderr"));
+
+      const timer = setTimeout(() => {
+        limitExceeded = limitExceeded || "timeout";
+        kill();
+      }, options.timeoutMs);
+
+      const onAbort = () => {
+        cancelled = true;
+        kill();
+      };
+      if (options.signal) {
+        if (options.signal.aborted) onAbort();
+        else options.signal.addEventListener("abort", onAbort, { once: true });
+      }
+
+      const finish = (exitCode: number | null, signal: string | null, spawnError?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        stdout += decoders.stdout.end();
+        stderr += decoders.stderr.end();
+        options.signal?.removeEventListener("abort", onAbort);
+        options.input?.unpipe(child.stdin);
+        // RLIMIT_CPU delivers SIGXCPU at the soft limit and SIGKILL at the hard one
+        const cpuKilled = signal === "SIGXCPU" || (signal === "SIGKILL" && !killedBySandbox);
+        if (options.cpuSeconds && cpuKilled) {
+          limitExceeded = limitExceeded || "cpu";
+        }
+        // Past RLIMIT_DATA allocations fail; only the runtime's own report tells that from any other crash
+        if (options.memoryMb && !killedBySandbox && exitCode !== 0 && OUT_OF_MEMORY.test(stderr)) {
+          limitExceeded = limitExceeded || "memory";
+        }
+        resolve({
+          stdout,
+          stderr: spawnError ? `${stderr}${spawnError.message}` : stderr,
+          exitCode,
+          signal,
+          truncated,
+          cancelled,
+          limitExceeded,
+        });
+      };
+
+      child.on("error", (error) => finish(null, null, error));
+      child.on("close", (code, signal) => finish(code, signal));
+
+      // Programs that never read stdin would otherwise raise EPIPE here
+      child.stdin.on("error", () => {});
+      if (options.input) {
+        if (options.stdin) child.stdin.write(options.stdin);
+        options.input.pipe(child.stdin);
+      } else {
+        child.stdin.end(options.stdin || "");
+      }
+    });
+  }
+
+  private sanitizeFileName(fileName: string | undefined, extension: string): string {
+    const base = path.basename(fileName || "").replace(/[^A-Za-z0-9._-]/g, "_");
+    if (!base || base.startsWith(".")) return `main.${extension}`;
+    return base.endsWith(`.${extension}`) ? base : `${base}.${extension}`;
+  }
+
+  /**
+   * Map a run configuration command to something spawnable. Paths are taken
+   * as-is (relative ones resolve against the working directory); bare names
+   * must be on PATH.
+   */
+  private resolveCommand(command: string): string {
+    if (command === "node") return process.execPath;
+    if (command.includes("/")) return command;
+    if (!this.hasExecutable(command)) {
+      throw new Error(`Command not found on this server: ${command}`);
+    }
+    return command;
+  }
+
+  private cleanupWorkspace(workspace: string): void {
+    fs.promises.rm(workspace, { recursive: true, force: true }).catch(error => {
+      console.warn(`⚠️ Failed to clean up execution workspace ${workspace}:`, error);
+    });
+  }
+
+  private hasExecutable(command: string): boolean {
+    const cached = this.executableCache.get(command);
+    if (cached !== undefined) return cached;
+
+    const extensions = process.platform === "win32" ? [".exe", ".cmd", ""] : [""];
+    const found = (process.env.PATH || "")
+      .split(path.delimiter)
+      .filter(Boolean)
+      .some(dir => extensions.some(ext => fs.existsSync(path.join(dir, command + ext))));
+
+    this.executableCache.set(command, found);
+    return found;
+  }
+
+  generateExecutionId(): string {
+    return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Shared by the HTTP routes and the socket handlers
+export const executionService = new ExecutionService({
+  timeoutMs: EXECUTION_TIMEOUT_MS,
+  interactiveTimeoutMs: EXECUTION_INTERACTIVE_TIMEOUT_MS,
+  cpuSeconds: EXECUTION_CPU_SECONDS,
+  memoryMb: EXECUTION_MEMORY_MB,
+  maxOutputBytes: EXECUTION_MAX_OUTPUT_BYTES,
+}, new WorkspaceService(EXECUTION_MAX_WORKSPACE_BYTES));
+
+export default ExecutionService;
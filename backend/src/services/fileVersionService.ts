@@ -0,0 +1,405 @@
+import mongoose from "mongoose";
+import { GridFSBucketWriteStream } from "mongodb";
+import { FileMeta, IFileMeta, Room, User } from "../database/models";
+import { getGridFSBucket } from "../database/gridfs";
+import { FILE_VERSION_MAX_AGE_DAYS, FILE_VERSION_MAX_COUNT } from "../config/constants";
+import { FileVersioning, FileVersionSummary } from "../types/filesystem";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Saves that lose the race for a file's current version start over this many times
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface FileVersionRetention {
+  maxVersions: number; // Previous versions kept per file
+  maxAgeDays: number; // 0 keeps versions regardless of age
+}
+
+export interface SavedFileVersion {
+  fileId: string;
+  previousFileId: string;
+  version: number;
+  roomId: string | null;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (unknown file, version pruned, ...).
+ */
+export class FileVersionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "FileVersionError";
+    this.status = status;
+  }
+}
+
+const readStream = (stream: NodeJS.ReadableStream): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", chunk => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+
+const writeUpload = (upload: GridFSBucketWriteStream, content: Buffer): Promise<void> =>
+  new Promise((resolve, reject) => {
+    upload.on("error", reject);
+    upload.on("finish", () => resolve());
+    upload.end(content);
+  });
+
+const toObjectId = (fileId: string): mongoose.Types.ObjectId => {
+  if (!mongoose.Types.ObjectId.isValid(fileId)) {
+    throw new FileVersionError("Invalid file id");
+  }
+  return new mongoose.Types.ObjectId(fileId);
+};
+
+// Entries written before versions were numbered count up from 1 in order
+const versionOf = (meta: IFileMeta, index: number): number => meta.history[index].version ?? index + 1;
+const currentVersionOf = (meta: IFileMeta | null): number =>
+  meta ? meta.version ?? meta.history.length + 1 : 1;
+
+/**
+ * Version history for room files. Every save writes a new GridFS upload and
+ * the previous one is kept as a version in FileMeta until the retention
+ * policy prunes it.
+ */
+class FileVersionService {
+  private retention: FileVersionRetention;
+
+  constructor(retention: FileVersionRetention) {
+    this.retention = retention;
+  }
+
+  /**
+   * The current GridFS id for a file, given its current id or any id it
+   * had before.
+   */
+  async resolveCurrentFileId(fileId: string): Promise<string> {
+    const meta = await this.findMeta(fileId);
+    return meta ? meta.currentFileId.toString() : fileId;
+  }
+
+  /**
+   * Every GridFS id a file has had, current first. Open editors may refer
+   * to the file by any of them.
+   */
+  async getFileIds(fileId: string): Promise<string[]> {
+    const meta = await this.findMeta(fileId);
+    if (!meta) return [fileId];
+    return [meta.currentFileId.toString(), ...meta.history.map(entry => entry.previousFileId.toString())];
+  }
+
+  /**
+   * Whether a file, given any id it has had, is one of a room's files. Any
+   * of its ids counts, since a save repoints the room just after moving on.
+   */
+  async isRoomFile(roomId: string, fileId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(fileId)) return false;
+    const fileIds = (await this.getFileIds(fileId)).map(toObjectId);
+    return Boolean(await Room.exists({ id: roomId, "files.fileId": { $in: fileIds } }));
+  }
+
+  /**
+   * Replace a file's content, keeping what it held before as a version.
+   * Room entries are repointed at the new upload. A save that races
+   * another one of the same file starts over from the version that won.
+   */
+  async saveContent(
+    fileId: string,
+    content: Buffer,
+    userId: string,
+    changeDescription?: string
+  ): Promise<SavedFileVersion> {
+    const bucket = getGridFSBucket();
+    for (let attempt = 1; ; attempt++) {
+      const currentId = toObjectId(await this.resolveCurrentFileId(fileId));
+      const [original] = await bucket.find({ _id: currentId }).toArray();
+      if (!original) {
+        throw new FileVersionError("File not found", 404);
+      }
+
+      const upload = bucket.openUploadStream(original.filename, {
+        metadata: { ...original.metadata, updatedAt: new Date() },
+      });
+      await writeUpload(upload, content);
+      const newId = upload.id as mongoose.Types.ObjectId;
+
+      const recorded = await this.recordVersion(currentId, newId, userId, changeDescription);
+      if (!recorded) {
+        await this.deleteUploads([newId.toString()]);
+        if (attempt < MAX_SAVE_ATTEMPTS) continue;
+        throw new FileVersionError("The file is being saved by someone else, try again", 409);
+      }
+
+      // Entries on any older upload go to the newest, which a racing save may have made since
+      const [latestId, ...olderIds] = (await this.getFileIds(newId.toString())).map(toObjectId);
+      await Room.updateMany(
+        { "files.fileId": { $in: olderIds } },
+        {
+          $set: {
+            "files.$.fileId": latestId,
+            ...(latestId.equals(newId) && { "files.$.size": content.length }),
+            "files.$.lastModified": new Date(),
+          },
+        }
+      );
+      await this.deleteUploads(recorded.pruned);
+      const room = await Room.findOne({ "files.fileId": latestId }).select("id");
+
+      return {
+        fileId: newId.toString(),
+        previousFileId: currentId.toString(),
+        version: recorded.version,
+        roomId: room?.id ?? null,
+      };
+    }
+  }
+
+  /**
+   * A file's current content, given any id it has had, or null when its
+   * upload is gone.
+   */
+  async readCurrentContent(fileId: string): Promise<{ fileId: string; content: Buffer } | null> {
+    const bucket = getGridFSBucket();
+    const currentId = toObjectId(await this.resolveCurrentFileId(fileId));
+    const [upload] = await bucket.find({ _id: currentId }).toArray();
+    if (!upload) return this.recoverCheckpoint(currentId);
+    return { fileId: currentId.toString(), content: await readStream(bucket.openDownloadStream(currentId)) };
+  }
+
+  /**
+   * Write the live content of a collaborative document into the file's
+   * current upload, keeping its id and adding no version. GridFS uploads
+   * can't be rewritten, so the content is staged in a second upload first:
+   * a crash between deleting and rewriting the upload leaves it there.
+   */
+  async writeCheckpoint(fileId: string, content: Buffer): Promise<string> {
+    const bucket = getGridFSBucket();
+    const currentId = toObjectId(await this.resolveCurrentFileId(fileId));
+    const [original] = await bucket.find({ _id: currentId }).toArray();
+    if (!original) {
+      throw new FileVersionError("File not found", 404);
+    }
+
+    const metadata = { ...original.metadata, updatedAt: new Date() };
+    const staged = bucket.openUploadStream(original.filename, { metadata: { ...metadata, checkpointOf: currentId } });
+    await writeUpload(staged, content);
+    await bucket.delete(currentId);
+    await writeUpload(bucket.openUploadStreamWithId(currentId, original.filename, { metadata }), content);
+    await bucket.delete(staged.id);
+
+    await Room.updateMany(
+      { "files.fileId": currentId },
+      { $set: { "files.$.size": content.length, "files.$.lastModified": new Date() } }
+    );
+    return currentId.toString();
+  }
+
+  /**
+   * Every retained version of a file, newest first, including the current one.
+   */
+  async listVersions(fileId: string): Promise<FileVersionSummary[]> {
+    const meta = await this.findMeta(fileId);
+    const currentId = meta ? meta.currentFileId.toString() : fileId;
+    const ids = [currentId, ...(meta?.history || []).map(entry => entry.previousFileId.toString())];
+    const uploads = await getGridFSBucket()
+      .find({ _id: { $in: ids.map(toObjectId) } })
+      .toArray();
+    const uploadById = new Map(uploads.map(upload => [upload._id.toString(), upload]));
+    if (!uploadById.has(currentId)) {
+      throw new FileVersionError("File not found", 404);
+    }
+
+    const versions: FileVersionSummary[] = [];
+    meta?.history.forEach((entry, index) => {
+      // Versions saved before retention was fixed point at deleted uploads
+      const upload = uploadById.get(entry.previousFileId.toString());
+      if (!upload) return;
+      versions.push({
+        fileId: entry.previousFileId as unknown as FileVersionSummary["fileId"],
+        version: versionOf(meta, index),
+        modifiedBy: (entry.modifiedBy ?? null) as FileVersionSummary["modifiedBy"],
+        modifiedAt: upload.uploadDate,
+        changeDescription: entry.changeDescription,
+        size: upload.length,
+        current: false,
+      });
+    });
+
+    const current = uploadById.get(currentId)!;
+    versions.push({
+      fileId: current._id as unknown as FileVersionSummary["fileId"],
+      version: currentVersionOf(meta),
+      modifiedBy: (meta?.modifiedBy ?? current.metadata?.userId ?? null) as FileVersionSummary["modifiedBy"],
+      modifiedAt: current.uploadDate,
+      changeDescription: meta?.changeDescription,
+      size: current.length,
+      current: true,
+    });
+
+    await this.attachUserNames(versions);
+    return versions.reverse();
+  }
+
+  /**
+   * One version of a file with its content.
+   */
+  async getVersion(fileId: string, version: number): Promise<FileVersioning & FileVersionSummary> {
+    const summary = (await this.listVersions(fileId)).find(entry => entry.version === version);
+    if (!summary) {
+      throw new FileVersionError(`Version ${version} is not available`, 404);
+    }
+    const content = await readStream(getGridFSBucket().openDownloadStream(toObjectId(summary.fileId.toString())));
+    return {
+      ...summary,
+      modifiedBy: summary.modifiedBy as FileVersioning["modifiedBy"],
+      content: content.toString("utf8"),
+    };
+  }
+
+  /**
+   * Save an older version's content as the newest version.
+   */
+  async restoreVersion(
+    fileId: string,
+    version: number,
+    userId: string
+  ): Promise<SavedFileVersion & { content: string; fileIds: string[] }> {
+    const target = await this.getVersion(fileId, version);
+    if (target.current) {
+      throw new FileVersionError(`Version ${version} is already the current version`);
+    }
+
+    const saved = await this.saveContent(fileId, Buffer.from(target.content, "utf8"), userId, `Restored version ${version}`);
+    return { ...saved, content: target.content, fileIds: await this.getFileIds(saved.fileId) };
+  }
+
+  /**
+   * Drop a deleted file's history along with every retained upload.
+   */
+  async deleteHistory(fileId: string): Promise<void> {
+    const meta = await this.findMeta(fileId);
+    if (!meta) return;
+    await FileMeta.deleteOne({ _id: meta._id });
+    await this.deleteUploads(meta.history.map(entry => entry.previousFileId.toString()));
+  }
+
+  // Finish a checkpoint that was interrupted after its upload was deleted
+  private async recoverCheckpoint(fileId: mongoose.Types.ObjectId): Promise<{ fileId: string; content: Buffer } | null> {
+    const bucket = getGridFSBucket();
+    const [staged] = await bucket.find({ "metadata.checkpointOf": fileId }).sort({ uploadDate: -1 }).limit(1).toArray();
+    if (!staged) return null;
+
+    const content = await readStream(bucket.openDownloadStream(staged._id));
+    const { checkpointOf, ...metadata } = staged.metadata || {};
+    await writeUpload(bucket.openUploadStreamWithId(fileId, staged.filename, { metadata }), content);
+    await bucket.delete(staged._id);
+    return { fileId: fileId.toString(), content };
+  }
+
+  private async findMeta(fileId: string): Promise<IFileMeta | null> {
+    const id = toObjectId(fileId);
+    return FileMeta.findOne({ $or: [{ currentFileId: id }, { "history.previousFileId": id }] });
+  }
+
+  /**
+   * Move a file's current pointer to a new upload, keeping the old one as a
+   * version, and apply the retention policy. The pointer only moves while
+   * previousFileId is still current, so of two saves made from the same
+   * version one gets null back. Returns the new version number and the
+   * uploads the policy pruned, for the caller to delete.
+   */
+  private async recordVersion(
+    previousFileId: mongoose.Types.ObjectId,
+    newFileId: mongoose.Types.ObjectId,
+    userId: string,
+    changeDescription?: string
+  ): Promise<{ version: number; pruned: string[] } | null> {
+    // A file saved for the first time gets its record here, so racing saves share it
+    try {
+      await FileMeta.updateOne(
+        { $or: [{ currentFileId: previousFileId }, { "history.previousFileId": previousFileId }] },
+        { $setOnInsert: { currentFileId: previousFileId, history: [] } },
+        { upsert: true }
+      );
+    } catch (error) {
+      // Another save created it first
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+    const meta = await FileMeta.findOne({ currentFileId: previousFileId });
+    if (!meta) return null;
+    const previousVersion = currentVersionOf(meta);
+
+    meta.history.push({
+      timestamp: new Date(),
+      userId: new mongoose.Types.ObjectId(userId) as any,
+      previousFileId: previousFileId as any,
+      version: previousVersion,
+      modifiedBy: meta.modifiedBy,
+      changeDescription: meta.changeDescription,
+    });
+    const pruned = this.applyRetention(meta);
+
+    const moved = await FileMeta.updateOne(
+      { _id: meta._id, currentFileId: previousFileId },
+      {
+        $set: {
+          currentFileId: newFileId,
+          history: meta.history,
+          version: previousVersion + 1,
+          modifiedBy: new mongoose.Types.ObjectId(userId),
+          ...(changeDescription !== undefined && { changeDescription }),
+        },
+        ...(changeDescription === undefined && { $unset: { changeDescription: 1 } }),
+      }
+    );
+    return moved.modifiedCount ? { version: previousVersion + 1, pruned } : null;
+  }
+
+  // Trim history to the policy; the newest previous version always stays. Returns pruned upload ids.
+  private applyRetention(meta: IFileMeta): string[] {
+    const { maxVersions, maxAgeDays } = this.retention;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : 0;
+    const keepFrom = Math.max(0, meta.history.length - Math.max(maxVersions, 1));
+
+    const kept = meta.history.filter((entry, index) =>
+      index === meta.history.length - 1 || (index >= keepFrom && entry.timestamp.getTime() >= cutoff)
+    );
+    const pruned = meta.history.filter(entry => !kept.includes(entry)).map(entry => entry.previousFileId.toString());
+    meta.history = kept;
+    return pruned;
+  }
+
+  private async deleteUploads(fileIds: string[]): Promise<void> {
+    const bucket = getGridFSBucket();
+    for (const fileId of fileIds) {
+      try {
+        await bucket.delete(new mongoose.Types.ObjectId(fileId));
+      } catch {
+        // Already gone, e.g. deleted by the old save route
+      }
+    }
+  }
+
+  private async attachUserNames(versions: FileVersionSummary[]): Promise<void> {
+    const ids = [...new Set(versions.map(version => version.modifiedBy?.toString()).filter(Boolean))] as string[];
+    if (!ids.length) return;
+    const users = await User.find({ _id: { $in: ids } }).select("name");
+    const names = new Map(users.map(user => [user._id.toString(), user.name]));
+    versions.forEach(version => {
+      const name = version.modifiedBy ? names.get(version.modifiedBy.toString()) : undefined;
+      if (name) version.modifiedByName = name;
+    });
+  }
+}
+
+export const fileVersionService = new FileVersionService({
+  maxVersions: FILE_VERSION_MAX_COUNT,
+  maxAgeDays: FILE_VERSION_MAX_AGE_DAYS,
+});
+
+export default FileVersionService;
@@ -0,0 +1,200 @@
+import mongoose from "mongoose";
+import { IRoomAIMessage, Room, RoomAIMessage } from "../database/models";
+import { AI_HISTORY_TOKEN_BUDGET, ROOM_AI_THREAD_MAX_MESSAGES } from "../config/constants";
+import { IRoom } from "../types/database";
+import { AIConversationTurn, RoomAIAskPolicy, RoomAISettings, RoomAIThread, RoomAIThreadMessage } from "../types/ai";
+import { estimateTokens } from "./aiConversationService";
+
+const ASK_POLICIES: RoomAIAskPolicy[] = ["everyone", "admins", "owner"];
+const DEFAULT_SETTINGS: RoomAISettings = { sharedThread: false, askPolicy: "everyone" };
+
+export interface RoomAIThreadLimits {
+  historyTokenBudget: number; // Tokens of earlier messages replayed to the model
+  maxMessages: number; // Messages kept per room; older ones are deleted
+}
+
+// A message to add to a thread
+export interface RoomAIMessageInput {
+  role: "user" | "assistant";
+  userId: string;
+  userName: string;
+  content: string;
+  model?: string;
+  provider?: string;
+  status?: RoomAIThreadMessage["status"];
+  replyTo?: string;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (thread disabled, not allowed to ask, ...).
+ */
+export class RoomAIThreadError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RoomAIThreadError";
+    this.status = status;
+  }
+}
+
+type Participant = IRoom["participantList"][number];
+
+const toSettings = (room: IRoom): RoomAISettings => ({
+  sharedThread: room.aiSettings?.sharedThread ?? DEFAULT_SETTINGS.sharedThread,
+  askPolicy: room.aiSettings?.askPolicy ?? DEFAULT_SETTINGS.askPolicy,
+});
+
+const toMessage = (message: IRoomAIMessage): RoomAIThreadMessage => ({
+  id: String(message._id),
+  role: message.role,
+  userId: String(message.userId),
+  userName: message.userName,
+  content: message.content,
+  model: message.aiModel,
+  provider: message.provider,
+  status: message.status,
+  replyTo: message.replyTo ? String(message.replyTo) : undefined,
+  timestamp: message.createdAt.toISOString(),
+});
+
+const isManager = (participant: Participant): boolean =>
+  participant.role === "owner" || participant.role === "admin";
+
+const mayAsk = (participant: Participant, settings: RoomAISettings): boolean =>
+  settings.sharedThread &&
+  (settings.askPolicy === "everyone" ||
+    (settings.askPolicy === "admins" && isManager(participant)) ||
+    participant.role === "owner");
+
+/**
+ * A room's shared AI thread: questions any allowed participant asks and
+ * the replies to them, stored with the room for everyone to see.
+ */
+class RoomAIThreadService {
+  private limits: RoomAIThreadLimits;
+
+  constructor(limits: RoomAIThreadLimits) {
+    this.limits = limits;
+  }
+
+  async getThread(roomId: string, userId: string): Promise<RoomAIThread> {
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    const settings = toSettings(room);
+    const messages = await RoomAIMessage.find({ roomId }).sort({ createdAt: -1 }).limit(this.limits.maxMessages);
+    return {
+      settings,
+      messages: messages.reverse().map(toMessage),
+      canAsk: mayAsk(participant, settings),
+      canManage: isManager(participant),
+    };
+  }
+
+  // Owners and admins only; fields left out keep their value
+  async updateSettings(roomId: string, userId: string, update: Partial<RoomAISettings>): Promise<RoomAISettings> {
+    if (update.sharedThread !== undefined && typeof update.sharedThread !== "boolean") {
+      throw new RoomAIThreadError("sharedThread must be a boolean");
+    }
+    if (update.askPolicy !== undefined && !ASK_POLICIES.includes(update.askPolicy)) {
+      throw new RoomAIThreadError(`askPolicy must be one of ${ASK_POLICIES.join(", ")}`);
+    }
+
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    if (!isManager(participant)) {
+      throw new RoomAIThreadError("Only room owners and admins can change AI settings", 403);
+    }
+    const settings = { ...toSettings(room), ...update };
+    room.aiSettings = settings;
+    await room.save();
+    return settings;
+  }
+
+  // Owners and admins only
+  async clear(roomId: string, userId: string): Promise<void> {
+    const { participant } = await this.findParticipant(roomId, userId);
+    if (!isManager(participant)) {
+      throw new RoomAIThreadError("Only room owners and admins can clear the AI thread", 403);
+    }
+    await RoomAIMessage.deleteMany({ roomId });
+  }
+
+  // Throws unless the user may ask in the room's thread right now
+  async authorizeAsk(roomId: string, userId: string): Promise<void> {
+    const { room, participant } = await this.findParticipant(roomId, userId);
+    const settings = toSettings(room);
+    if (!settings.sharedThread) {
+      throw new RoomAIThreadError("The shared AI thread is turned off in this room", 403);
+    }
+    if (!mayAsk(participant, settings)) {
+      const allowed = settings.askPolicy === "owner" ? "the room owner" : "room owners and admins";
+      throw new RoomAIThreadError(`Only ${allowed} can ask the AI in this room`, 403);
+    }
+  }
+
+  /**
+   * The most recent completed messages that fit the history token budget,
+   * oldest first. Questions are prefixed with the asker's name so the model
+   * can tell people apart.
+   */
+  async getHistory(roomId: string): Promise<AIConversationTurn[]> {
+    const messages = await RoomAIMessage.find({ roomId, status: "complete" })
+      .sort({ createdAt: -1 })
+      .limit(this.limits.maxMessages);
+    const history: AIConversationTurn[] = [];
+    let tokens = 0;
+    for (const message of messages) {
+      tokens += message.tokens || estimateTokens(message.content);
+      if (tokens > this.limits.historyTokenBudget) break;
+      const content = message.role === "user" ? `${message.userName}: ${message.content}` : message.content;
+      history.unshift({ role: message.role, content });
+    }
+    // Start on a question rather than a reply cut off from it
+    if (history[0]?.role === "assistant") history.shift();
+    return history;
+  }
+
+  // Store a message, dropping the oldest ones past the per-room limit
+  async addMessage(roomId: string, input: RoomAIMessageInput): Promise<RoomAIThreadMessage> {
+    const message = await RoomAIMessage.create({
+      roomId,
+      role: input.role,
+      userId: new mongoose.Types.ObjectId(input.userId),
+      userName: input.userName,
+      content: input.content,
+      tokens: estimateTokens(input.content),
+      aiModel: input.model,
+      provider: input.provider,
+      status: input.status || "complete",
+      replyTo: input.replyTo ? new mongoose.Types.ObjectId(input.replyTo) : undefined,
+    });
+
+    const oldest = await RoomAIMessage.find({ roomId })
+      .sort({ createdAt: -1 })
+      .skip(this.limits.maxMessages)
+      .select("_id");
+    if (oldest.length > 0) {
+      await RoomAIMessage.deleteMany({ _id: { $in: oldest.map(entry => entry._id) } });
+    }
+    return toMessage(message);
+  }
+
+  private async findParticipant(roomId: string, userId: string): Promise<{ room: IRoom; participant: Participant }> {
+    const room = await Room.findOne({ id: roomId });
+    if (!room) {
+      throw new RoomAIThreadError("Room not found", 404);
+    }
+    const participant = room.participantList.find(p => p.userId.toString() === userId);
+    if (!participant) {
+      throw new RoomAIThreadError("Not a participant of this room", 403);
+    }
+    return { room, participant };
+  }
+}
+
+export const roomAIThreadService = new RoomAIThreadService({
+  historyTokenBudget: AI_HISTORY_TOKEN_BUDGET,
+  maxMessages: ROOM_AI_THREAD_MAX_MESSAGES,
+});
+
+export default RoomAIThreadService;
@@ -0,0 +1,390 @@
+import vm from "vm";
+import mongoose from "mongoose";
+import { getGridFSBucket } from "../database/gridfs";
+import {
+  SEARCH_MAX_FILE_BYTES,
+  SEARCH_MAX_RESULTS,
+  SEARCH_TIMEOUT_MS,
+} from "../config/constants";
+import {
+  FileReplacePreviewResponse,
+  FileReplaceSelection,
+  FileSearchQuery,
+  FileSearchResponse,
+  FileSearchResult,
+} from "../types/filesystem";
+import { TextOperationPayload } from "../types/socket";
+import { createPathFilter } from "../utils/globPattern";
+import WorkspaceService, { workspaceService } from "./workspaceService";
+
+const MAX_QUERY_LENGTH = 1000;
+const MAX_CONTEXT_LENGTH = 240;
+const CONTEXT_LEAD = 60; // Characters kept before a match when a long line is clipped
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface SearchLimits {
+  maxFileBytes: number;
+  maxResults: number;
+  timeoutMs: number; // Time a request may spend matching, across all its files
+}
+
+export type SearchMatch = FileSearchResult["matches"][number] & {
+  index: number; // Offset of the match in the whole file
+  replacement?: string;
+};
+
+// Live content of a file being edited collaboratively; fileId is the doc it came from
+export interface ContentSnapshot {
+  fileId?: string;
+  content: string;
+  version: number;
+}
+
+// Looks up the live copy of a file by its stored id, if anyone has it open
+export type LiveContentReader = (fileId: string) => Promise<ContentSnapshot | null>;
+
+// Replacements for one file, ready to apply against `base`
+export interface ReplacementPlan {
+  fileId: string;
+  filePath: string;
+  base: ContentSnapshot;
+  operations: TextOperationPayload[];
+  replaced: number;
+}
+
+interface MatchOptions {
+  wholeWord?: boolean;
+  limit?: number;
+  replacement?: string;
+  expandReplacement?: boolean; // Treat $1, $& and friends in the replacement as regex references
+  deadline?: number; // Epoch ms after which matching stops with a SearchError
+}
+
+type ScanResult = Omit<FileSearchResult, "matches"> & { matches: SearchMatch[] };
+
+interface SearchableFile {
+  path: string;
+  fileId: string;
+  lastModified: Date;
+}
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (invalid pattern, unknown room, ...).
+ */
+export class SearchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "SearchError";
+    this.status = status;
+  }
+}
+
+const readStream = (stream: NodeJS.ReadableStream): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", chunk => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+
+// Matching runs through a script so its timeout applies: V8 interrupts a backtracking regex, a timer can't
+const matchContext = vm.createContext({ task: null });
+const runTask = new vm.Script("task()");
+
+const runBefore = <T>(deadline: number, task: () => T): T => {
+  matchContext.task = task;
+  try {
+    return runTask.runInContext(matchContext, { timeout: Math.max(1, Math.ceil(deadline - Date.now())) }) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+      throw new SearchError("The search took too long. Try a simpler pattern or narrow the files to include.");
+    }
+    throw error;
+  } finally {
+    matchContext.task = null;
+  }
+};
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+// Expand $&, $1, $<name>, $` and $' in a regex replacement, like String.prototype.replace
+const expandReplacement = (replacement: string, match: RegExpExecArray, line: string): string =>
+  replacement.replace(/\$(\$|&|`|'|<([^>]*)>|(\d{1,2}))/g, (token, symbol: string, name?: string, digits?: string) => {
+    if (symbol === "$") return "$";
+    if (symbol === "&") return match[0];
+    if (symbol === "`") return line.slice(0, match.index);
+    if (symbol === "'") return line.slice(match.index + match[0].length);
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const group = Number(digits);
+    if (group > 0 && group < match.length) return match[group] ?? "";
+    const single = Number(digits![0]);
+    if (digits!.length === 2 && single > 0 && single < match.length) return (match[single] ?? "") + digits![1];
+    return token;
+  });
+
+// Retain/delete/insert operations that swap each match for its replacement
+const replacementOperations = (length: number, matches: SearchMatch[]): TextOperationPayload[] => {
+  const operations: TextOperationPayload[] = [];
+  let position = 0;
+  for (const match of matches) {
+    if (match.index > position) operations.push({ type: "retain", length: match.index - position });
+    operations.push({ type: "delete", length: match.length });
+    if (match.replacement) operations.push({ type: "insert", text: match.replacement });
+    position = match.index + match.length;
+  }
+  if (position < length) operations.push({ type: "retain", length: length - position });
+  return operations;
+};
+
+// The line around a match, without leading indentation and clipped when long
+const clipContext = (line: string, column: number, length: number): { context: string; contextOffset: number } => {
+  const indent = line.length - line.trimStart().length;
+  let start = Math.min(indent, column);
+  if (line.length - start > MAX_CONTEXT_LENGTH && column - start > CONTEXT_LEAD) {
+    start = column - CONTEXT_LEAD;
+  }
+  const end = Math.max(Math.min(line.length, start + MAX_CONTEXT_LENGTH), column + length);
+  return { context: line.slice(start, end).trimEnd(), contextOffset: column - start };
+};
+
+/**
+ * Full-text search over the files of a room, read from GridFS.
+ */
+class SearchService {
+  private limits: SearchLimits;
+  private workspaceService: WorkspaceService;
+
+  constructor(limits: SearchLimits, workspaceService: WorkspaceService) {
+    this.limits = limits;
+    this.workspaceService = workspaceService;
+  }
+
+  async search(roomId: string, query: FileSearchQuery, readLive?: LiveContentReader): Promise<FileSearchResponse> {
+    const response = await this.scan(roomId, query, readLive);
+    return {
+      ...response,
+      results: response.results.map(result => ({
+        ...result,
+        matches: result.matches.map(({ index, replacement, ...match }) => match),
+      })),
+    };
+  }
+
+  /**
+   * Search as for replace-in-files, with each match's replacement and
+   * offset so the caller can pick which ones to apply.
+   */
+  async previewReplace(
+    roomId: string,
+    query: FileSearchQuery,
+    replacement: string,
+    readLive?: LiveContentReader
+  ): Promise<FileReplacePreviewResponse> {
+    const response = await this.scan(roomId, query, readLive, replacement);
+    return response as FileReplacePreviewResponse;
+  }
+
+  /**
+   * Work out the edits for the selected matches. Matches are found again in
+   * the current content, so selections that no longer match are dropped.
+   */
+  async planReplace(
+    roomId: string,
+    query: FileSearchQuery,
+    replacement: string,
+    selections: FileReplaceSelection[],
+    readLive?: LiveContentReader
+  ): Promise<ReplacementPlan[]> {
+    const pattern = this.compilePattern(query);
+    const deadline = Date.now() + this.limits.timeoutMs;
+    const selected = new Map(selections.map(selection => [selection.fileId, selection.matches]));
+    const files = (await this.listSearchableFiles(roomId, query)).filter(file => selected.has(file.fileId));
+
+    const plans: ReplacementPlan[] = [];
+    for (const file of files) {
+      const base = await this.loadContent(file.fileId, readLive);
+      if (!base) continue;
+      const offsets = selected.get(file.fileId);
+      const matches = this.findMatches(base.content, pattern, {
+        wholeWord: query.wholeWord,
+        replacement,
+        expandReplacement: query.useRegex,
+        deadline,
+      }).filter(match => !offsets || offsets.includes(match.index));
+      if (matches.length === 0) continue;
+      plans.push({
+        fileId: file.fileId,
+        filePath: file.path,
+        base,
+        operations: replacementOperations(base.content.length, matches),
+        replaced: matches.length,
+      });
+    }
+    return plans;
+  }
+
+  // Run the query over every searchable file, up to the result cap
+  private async scan(
+    roomId: string,
+    query: FileSearchQuery,
+    readLive?: LiveContentReader,
+    replacement?: string
+  ): Promise<Omit<FileSearchResponse, "results"> & { results: ScanResult[] }> {
+    const pattern = this.compilePattern(query);
+    const deadline = Date.now() + this.limits.timeoutMs;
+    const files = await this.listSearchableFiles(roomId, query);
+    const response = { results: [] as ScanResult[], totalMatches: 0, filesSearched: 0, truncated: false };
+
+    for (const file of files) {
+      const loaded = await this.loadContent(file.fileId, readLive);
+      if (!loaded) continue;
+      response.filesSearched++;
+
+      const matches = this.findMatches(loaded.content, pattern, {
+        wholeWord: query.wholeWord,
+        limit: this.limits.maxResults - response.totalMatches,
+        replacement,
+        expandReplacement: query.useRegex,
+        deadline,
+      });
+      if (matches.length === 0) continue;
+      response.totalMatches += matches.length;
+      response.results.push({
+        fileId: file.fileId as unknown as FileSearchResult["fileId"],
+        fileName: file.path.split("/").pop() || file.path,
+        filePath: file.path,
+        matches,
+        roomId,
+        lastModified: file.lastModified,
+      });
+      if (response.totalMatches >= this.limits.maxResults) {
+        response.truncated = true;
+        break;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Turn the panel's options into a global RegExp. Whole-word matching is
+   * checked per match instead, so it also works for patterns that start or
+   * end with punctuation.
+   */
+  compilePattern(query: FileSearchQuery): RegExp {
+    if (!query.query) {
+      throw new SearchError("Search query is required");
+    }
+    if (query.query.length > MAX_QUERY_LENGTH) {
+      throw new SearchError(`Search query is limited to ${MAX_QUERY_LENGTH} characters`);
+    }
+    const source = query.useRegex ? query.query : query.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    try {
+      return new RegExp(source, query.caseSensitive ? "gm" : "gim");
+    } catch (error) {
+      throw new SearchError((error as Error).message);
+    }
+  }
+
+  /**
+   * Room files matching the query's globs, with when they were last written,
+   * in path order. Files over the size limit are left out.
+   */
+  async listSearchableFiles(
+    roomId: string,
+    query: Pick<FileSearchQuery, "include" | "exclude">
+  ): Promise<SearchableFile[]> {
+    let files;
+    try {
+      files = await this.workspaceService.listRoomFiles(roomId);
+    } catch {
+      throw new SearchError("Room not found", 404);
+    }
+
+    const included = createPathFilter(query.include, query.exclude);
+    return files
+      .filter(file => file.size <= this.limits.maxFileBytes && included(file.path))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(file => ({ path: file.path, fileId: file.fileId, lastModified: file.modifiedAt }));
+  }
+
+  /**
+   * A file's content: the live copy when someone has it open, the stored
+   * one otherwise. Null when the stored file looks binary.
+   */
+  async loadContent(fileId: string, readLive?: LiveContentReader): Promise<ContentSnapshot | null> {
+    const live = readLive ? await readLive(fileId) : null;
+    if (live) return live;
+    const content = await this.readText(fileId);
+    return content === null ? null : { content, version: 0 };
+  }
+
+  /**
+   * A file's content as text, or null when it looks binary.
+   */
+  async readText(fileId: string): Promise<string | null> {
+    const buffer = await readStream(getGridFSBucket().openDownloadStream(new mongoose.Types.ObjectId(fileId)));
+    if (buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+    return buffer.toString("utf8");
+  }
+
+  /**
+   * Every match of `pattern` in `content`, in order, up to `limit`. Matches
+   * do not span lines and empty matches are skipped. With a `replacement`,
+   * each match carries the text that would replace it; with a `deadline`,
+   * matching that runs past it throws a SearchError.
+   */
+  findMatches(content: string, pattern: RegExp, options: MatchOptions = {}): SearchMatch[] {
+    const { deadline, ...rest } = options;
+    if (deadline === undefined) return this.collectMatches(content, pattern, rest);
+    return runBefore(deadline, () => this.collectMatches(content, pattern, rest));
+  }
+
+  private collectMatches(content: string, pattern: RegExp, options: MatchOptions): SearchMatch[] {
+    const { wholeWord = false, limit = Infinity, replacement, expandReplacement: expand = false } = options;
+    const matches: SearchMatch[] = [];
+    const lines = content.split("\n");
+    let lineStart = 0;
+
+    for (let lineIndex = 0; lineIndex < lines.length && matches.length < limit; lineIndex++) {
+      const line = lines[lineIndex].replace(/\r$/, "");
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while (matches.length < limit && (match = pattern.exec(line))) {
+        const text = match[0];
+        if (!text) {
+          pattern.lastIndex++;
+          continue;
+        }
+        const column = match.index;
+        if (wholeWord && (isWordChar(line[column - 1]) || isWordChar(line[column + text.length]))) {
+          continue;
+        }
+        matches.push({
+          line: lineIndex + 1,
+          column: column + 1,
+          length: text.length,
+          text,
+          ...clipContext(line, column, text.length),
+          index: lineStart + column,
+          ...(replacement !== undefined && {
+            replacement: expand ? expandReplacement(replacement, match, line) : replacement,
+          }),
+        });
+      }
+      lineStart += lines[lineIndex].length + 1;
+    }
+
+    return matches;
+  }
+}
+
+export const searchService = new SearchService(
+  { maxFileBytes: SEARCH_MAX_FILE_BYTES, maxResults: SEARCH_MAX_RESULTS, timeoutMs: SEARCH_TIMEOUT_MS },
+  workspaceService
+);
+
+export default SearchService;
@@ -0,0 +1,150 @@
+import { createClient } from "redis";
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Keys and hashes that every backend instance sees: document owners, file
+ * locks and room presence. Values are strings; keys given a TTL disappear
+ * unless they are renewed, so what a crashed instance held frees itself.
+ */
+export interface StateStore {
+  readonly shared: boolean; // False when only this process can see the state
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  // Set only when the key is missing; true when it was set
+  setIfAbsent(key: string, value: string, ttlMs?: number): Promise<boolean>;
+  // Push a key's expiry out, but only while it still holds `value`
+  extendIfEquals(key: string, value: string, ttlMs: number): Promise<boolean>;
+  deleteIfEquals(key: string, value: string): Promise<boolean>;
+  hashSet(key: string, field: string, value: string): Promise<void>;
+  hashDelete(key: string, field: string): Promise<void>;
+  hashGetAll(key: string): Promise<Record<string, string>>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * The store for a single instance, and for tests: plain maps, with expiry
+ * checked when a key is read.
+ */
+export class MemoryStateStore implements StateStore {
+  readonly shared = false;
+  private values = new Map<string, MemoryEntry>();
+  private hashes = new Map<string, Map<string, string>>();
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.values.set(key, { value, expiresAt: ttlMs ? Date.now() + ttlMs : null });
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs?: number): Promise<boolean> {
+    if (this.read(key) !== null) return false;
+    await this.set(key, value, ttlMs);
+    return true;
+  }
+
+  async extendIfEquals(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key) !== value) return false;
+    await this.set(key, value, ttlMs);
+    return true;
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    if (this.read(key) !== value) return false;
+    this.values.delete(key);
+    return true;
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    hash.set(field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<void> {
+    const hash = this.hashes.get(key);
+    if (!hash) return;
+    hash.delete(field);
+    if (!hash.size) this.hashes.delete(key);
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) || []);
+  }
+
+  private read(key: string): string | null {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
+
+// Compare-and-set steps have to run inside Redis to be atomic
+const EXTEND_IF_EQUALS = `if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("PEXPIRE", KEYS[1], ARGV[2]) else return 0 end`;
+const DELETE_IF_EQUALS = `if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) else return 0 end`;
+
+/**
+ * The store shared by every instance, in Redis or anything that speaks its
+ * protocol. Keys are prefixed so a Redis can be shared with other apps.
+ */
+export class RedisStateStore implements StateStore {
+  readonly shared = true;
+  private client: RedisClient;
+  private prefix: string;
+
+  constructor(client: RedisClient, prefix = "hivecodex:") {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    await this.client.set(this.prefix + key, value, ttlMs ? { expiration: { type: "PX", value: ttlMs } } : undefined);
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs?: number): Promise<boolean> {
+    const reply = await this.client.set(this.prefix + key, value, {
+      condition: "NX",
+      ...(ttlMs ? { expiration: { type: "PX", value: ttlMs } } : {}),
+    });
+    return reply === "OK";
+  }
+
+  async extendIfEquals(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const reply = await this.client.eval(EXTEND_IF_EQUALS, { keys: [this.prefix + key], arguments: [value, String(ttlMs)] });
+    return reply === 1;
+  }
+
+  async deleteIfEquals(key: string, value: string): Promise<boolean> {
+    const reply = await this.client.eval(DELETE_IF_EQUALS, { keys: [this.prefix + key], arguments: [value] });
+    return reply === 1;
+  }
+
+  async hashSet(key: string, field: string, value: string): Promise<void> {
+    await this.client.hSet(this.prefix + key, field, value);
+  }
+
+  async hashDelete(key: string, field: string): Promise<void> {
+    await this.client.hDel(this.prefix + key, field);
+  }
+
+  async hashGetAll(key: string): Promise<Record<string, string>> {
+    return this.client.hGetAll(this.prefix + key);
+  }
+}
@@ -0,0 +1,1213 @@
+import zlib from "zlib";
+import mongoose from "mongoose";
+import AdmZip from "adm-zip";
+import { Room, User, VcsCommit, VcsRepository, IVcsCommit, IVcsRepository } from "../database/models";
+import { getGridFSBucket, getVcsBlobBucket } from "../database/gridfs";
+import WorkspaceService, { RoomFilesChange } from "./workspaceService";
+import { fileVersionService } from "./fileVersionService";
+import {
+  GitObject,
+  FILE_MODE,
+  TREE_MODE,
+  GITLINK_MODE,
+  hashObject,
+  hashBlob,
+  buildTrees,
+  buildCommit,
+  parseTree,
+  parseCommit,
+  ParsedCommit,
+  rewriteCommit,
+} from "../utils/gitObjects";
+import {
+  GitRef,
+  GitRepositoryData,
+  isBundle,
+  readBundle,
+  readGitDirectory,
+  writeBundle,
+  writeLooseObject,
+} from "../utils/gitPack";
+import { createTar, readTar, TarEntry } from "../utils/tarArchive";
+import { countLineChanges, mergeText } from "../utils/lineDiff";
+import { EXECUTION_MAX_WORKSPACE_BYTES, VCS_IMPORT_MAX_UNPACKED_BYTES } from "../config/constants";
+import {
+  VcsTreeEntry,
+  VcsSignature,
+  VcsFileChange,
+  VcsTextChange,
+  VcsStatus,
+  VcsCommitSummary,
+  VcsCommitDetail,
+  VcsBranch,
+  VcsMergeResult,
+  VcsConflict,
+  VcsExportFormat,
+  VcsImportResult,
+} from "../types/versionControl";
+
+// Files larger than this are listed without line counts
+const MAX_DIFF_BYTES = 512 * 1024;
+const MAX_HASH_CACHE_ENTRIES = 10000;
+const DEFAULT_LOG_LIMIT = 50;
+
+const MAX_BRANCHES_PER_ROOM = 100;
+const MAX_COMMIT_MESSAGE_LENGTH = 5000;
+
+// Archive clutter that never belongs in a room
+const IGNORED_ARCHIVE_PATHS = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+// A snapshot entry, plus the GridFS upload it was read from for working files
+type TreeFile = VcsTreeEntry & { fileId?: string };
+type Tree = Map<string, TreeFile>;
+type CommitGraph = Map<string, string[]>;
+
+/**
+ * Error with an HTTP status, for failures the caller should see as-is
+ * (nothing to commit, unknown path, ...).
+ */
+export class VersionControlError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "VersionControlError";
+    this.status = status;
+  }
+}
+
+/**
+ * The room's open collaborative documents, which can be ahead of the
+ * stored files and have to follow when version control rewrites them.
+ * Files are given by any upload id they have had.
+ */
+export interface LiveDocuments {
+  flush(roomId: string): Promise<void>;
+  replace(roomId: string, fileIds: string[], content: string): Promise<unknown>;
+  close(roomId: string, fileIds: string[]): Promise<void>;
+}
+
+const noLiveDocuments: LiveDocuments = {
+  flush: async () => {},
+  replace: async () => {},
+  close: async () => {},
+};
+
+const readStream = (stream: NodeJS.ReadableStream): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", chunk => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+
+const toEntry = ({ path, blobHash, size, mode }: VcsTreeEntry): VcsTreeEntry =>
+  mode ? { path, blobHash, size, mode } : { path, blobHash, size };
+
+const toTree = (entries: VcsTreeEntry[]): Tree =>
+  new Map(entries.map(entry => [entry.path, toEntry(entry)]));
+
+const toManifest = (tree: Tree): VcsTreeEntry[] =>
+  [...tree.values()].map(toEntry).sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+const sameTree = (a: Tree, b: Tree): boolean =>
+  a.size === b.size && [...a.values()].every(entry => b.get(entry.path)?.blobHash === entry.blobHash);
+
+// Roughly git's check-ref-format rules
+const isValidBranchName = (name: string): boolean =>
+  /^[A-Za-z0-9._/-]{1,100}$/.test(name) &&
+  !name.startsWith("-") &&
+  !name.split("/").some(part => !part || part.startsWith(".") || part.endsWith(".lock")) &&
+  !name.includes("..");
+
+const ancestorsOf = (graph: CommitGraph, hash: string): Set<string> => {
+  const seen = new Set<string>();
+  const pending = [hash];
+  while (pending.length) {
+    const next = pending.pop()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    (graph.get(next) || []).forEach(parent => pending.push(parent));
+  }
+  return seen;
+};
+
+const isAncestor = (graph: CommitGraph, ancestor: string, descendant: string): boolean =>
+  ancestorsOf(graph, descendant).has(ancestor);
+
+// Nearest common ancestor, searching breadth-first back from theirs
+const findMergeBase = (graph: CommitGraph, ours: string, theirs: string): string | null => {
+  const oursAncestors = ancestorsOf(graph, ours);
+  const seen = new Set<string>();
+  const queue = [theirs];
+  while (queue.length) {
+    const next = queue.shift()!;
+    if (oursAncestors.has(next)) return next;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    queue.push(...(graph.get(next) || []));
+  }
+  return null;
+};
+
+const isSafeSegment = (name: string): boolean => Boolean(name) && name !== "." && name !== ".." && !name.includes("/");
+
+// Drop archive clutter and unsafe paths, and the single top-level folder most archives wrap their contents in
+const normalizeArchive = (files: Map<string, Buffer>): Map<string, Buffer> => {
+  const kept = [...files].filter(([path]) =>
+    !IGNORED_ARCHIVE_PATHS.test(path) && path.split("/").every(isSafeSegment)
+  );
+  const top = kept[0]?.[0].split("/")[0];
+  const wrapped = top && top !== ".git" && kept.every(([path]) => path.startsWith(`${top}/`));
+  return new Map(kept.map(([path, content]) => [wrapped ? path.slice(top.length + 1) : path, content]));
+};
+
+const archiveTooLarge = (maxBytes: number) =>
+  new VersionControlError(`Archive unpacks to more than the import limit (${maxBytes} bytes)`, 413);
+
+// An entry's content, inflated by us since the sizes in its header are the uploader's word
+const readZipEntry = (entry: AdmZip.IZipEntry, maxBytes: number): Buffer => {
+  const { method, flags } = entry.header;
+  if (flags & 1) {
+    throw new VersionControlError(`${entry.entryName} is encrypted`);
+  }
+  const data = entry.getCompressedData();
+  if (method === 0) {
+    if (data.length > maxBytes) throw archiveTooLarge(maxBytes);
+    return data;
+  }
+  if (method !== 8) {
+    throw new VersionControlError(`${entry.entryName} uses an unsupported compression method`);
+  }
+  return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, maxBytes) });
+};
+
+/**
+ * Unpack a zip, tar or gzipped tar upload into its files, counting what
+ * actually comes out against maxBytes.
+ */
+const readArchive = (upload: Buffer, maxBytes: number): Map<string, Buffer> => {
+  try {
+    if (upload.readUInt32LE(0) === 0x04034b50) {
+      const files = new Map<string, Buffer>();
+      let total = 0;
+      for (const entry of new AdmZip(upload).getEntries()) {
+        if (entry.isDirectory) continue;
+        const content = readZipEntry(entry, maxBytes - total);
+        total += content.length;
+        if (total > maxBytes) throw archiveTooLarge(maxBytes);
+        files.set(entry.entryName.replace(/\\/g, "/"), content);
+      }
+      return normalizeArchive(files);
+    }
+    const gzipped = upload[0] === 0x1f && upload[1] === 0x8b;
+    const tar = gzipped ? zlib.gunzipSync(upload, { maxOutputLength: maxBytes }) : upload;
+    if (tar.toString("latin1", 257, 262) !== "ustar") {
+      throw new VersionControlError("Upload a zip or tar archive, or a git bundle");
+    }
+    return normalizeArchive(readTar(tar));
+  } catch (error) {
+    // zlib stops at maxOutputLength with a RangeError
+    if (error instanceof RangeError) throw archiveTooLarge(maxBytes);
+    throw error;
+  }
+};
+
+// Files under `prefix`, keyed by the rest of their path
+const filesUnder = (files: Map<string, Buffer>, prefix: string): Map<string, Buffer> =>
+  new Map([...files].filter(([path]) => path.startsWith(prefix)).map(([path, content]) => [path.slice(prefix.length), content]));
+
+const toSummary = (commit: IVcsCommit): VcsCommitSummary => ({
+  hash: commit.hash,
+  shortHash: commit.hash.slice(0, 7),
+  message: commit.message,
+  author: commit.author.name,
+  authorEmail: commit.author.email,
+  date: commit.timestamp.toISOString(),
+  parents: commit.parents,
+});
+
+/**
+ * Per-room version control over the GridFS-backed file tree. The model is
+ * git's: the room's files are the working tree, the index is a staged
+ * snapshot, and commits point at full snapshots. Blob, tree and commit
+ * hashes are real git object ids so history can be exported losslessly.
+ */
+class VersionControlService {
+  private workspaceService: WorkspaceService;
+  private liveDocuments: LiveDocuments = noLiveDocuments;
+  // Hashes are cached per upload write; checkpoints rewrite an upload under the same id
+  private hashCache: Map<string, string> = new Map();
+
+  constructor(workspaceService: WorkspaceService) {
+    this.workspaceService = workspaceService;
+  }
+
+  // Set once sockets are up; until then there are no open documents to follow
+  setLiveDocuments(liveDocuments: LiveDocuments): void {
+    this.liveDocuments = liveDocuments;
+  }
+
+  /**
+   * Load a room's repository, creating an empty one on first use.
+   */
+  async getRepository(roomId: string): Promise<IVcsRepository> {
+    const repository = await VcsRepository.findOneAndUpdate(
+      { roomId },
+      { $setOnInsert: { roomId } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    return repository!;
+  }
+
+  async getStatus(roomId: string): Promise<VcsStatus> {
+    const repository = await this.getRepository(roomId);
+    const headHash = this.getHeadHash(repository);
+    const head = await this.readCommitTree(roomId, headHash);
+    const index = toTree(repository.index || []);
+    const working = await this.readWorkingTree(roomId);
+
+    const staged = this.diffTrees(head, index, true);
+    const unstaged = this.diffTrees(index, working, false).map(change =>
+      change.type === "added" && !head.has(change.path) ? { ...change, type: "untracked" as const } : change
+    );
+    await this.annotateLineCounts(staged, head, index);
+    await this.annotateLineCounts(unstaged, index, working);
+
+    const merge = repository.merge ? { branch: repository.merge.branch, conflicts: repository.merge.conflicts } : null;
+    return { branch: repository.head, head: headHash, changes: [...staged, ...unstaged], merge };
+  }
+
+  /**
+   * The text of every file that differs between HEAD and the room, whether
+   * staged or not. Binary files and those too large to diff are skipped.
+   */
+  async getUncommittedChanges(
+    roomId: string
+  ): Promise<{ changes: VcsTextChange[]; skipped: { path: string; reason: string }[] }> {
+    const repository = await this.getRepository(roomId);
+    const head = await this.readCommitTree(roomId, this.getHeadHash(repository));
+    const working = await this.readWorkingTree(roomId);
+
+    const result: { changes: VcsTextChange[]; skipped: { path: string; reason: string }[] } = { changes: [], skipped: [] };
+    for (const { path } of this.diffTrees(head, working, false)) {
+      const before = head.get(path);
+      const after = working.get(path);
+      if ((before?.size || 0) > MAX_DIFF_BYTES || (after?.size || 0) > MAX_DIFF_BYTES) {
+        result.skipped.push({ path, reason: "File is too large to diff" });
+        continue;
+      }
+
+      const [beforeContent, afterContent] = await Promise.all([
+        before ? this.readContent(before) : Promise.resolve(null),
+        after ? this.readContent(after) : Promise.resolve(null),
+      ]);
+      if (beforeContent?.includes(0) || afterContent?.includes(0)) {
+        result.skipped.push({ path, reason: "File is binary" });
+        continue;
+      }
+      result.changes.push({
+        path,
+        fileId: after?.fileId ?? null,
+        before: beforeContent ? beforeContent.toString("utf8") : null,
+        after: afterContent ? afterContent.toString("utf8") : null,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Copy the working version of each path into the index. Paths that no
+   * longer exist in the room are staged as deletions.
+   */
+  async stage(roomId: string, paths: string[]): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    const index = toTree(repository.index || []);
+    const working = await this.readWorkingTree(roomId);
+
+    for (const path of paths) {
+      const file = working.get(path);
+      if (file) {
+        await this.storeWorkingBlob(file);
+        index.set(path, toEntry({ ...file, mode: index.get(path)?.mode }));
+      } else if (index.has(path)) {
+        index.delete(path);
+      } else {
+        throw new VersionControlError(`Unknown path: ${path}`, 404);
+      }
+    }
+
+    repository.index = toManifest(index);
+    await repository.save();
+  }
+
+  /**
+   * Reset the index entry for each path back to what HEAD has.
+   */
+  async unstage(roomId: string, paths: string[]): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    const head = await this.readCommitTree(roomId, this.getHeadHash(repository));
+    const index = toTree(repository.index || []);
+
+    for (const path of paths) {
+      const committed = head.get(path);
+      if (committed) index.set(path, committed);
+      else index.delete(path);
+    }
+
+    repository.index = toManifest(index);
+    await repository.save();
+  }
+
+  /**
+   * Record the index as a new commit on the checked-out branch. While a
+   * merge is in progress this concludes it with a two-parent commit.
+   */
+  async commit(roomId: string, message: string, author: VcsSignature): Promise<VcsCommitSummary> {
+    const repository = await this.getRepository(roomId);
+    const parentHash = this.getHeadHash(repository);
+    const head = await this.readCommitTree(roomId, parentHash);
+    const index = toTree(repository.index || []);
+    const merge = repository.merge;
+
+    if (merge?.conflicts.length) {
+      throw new VersionControlError("Resolve all merge conflicts before committing", 409);
+    }
+    if (!merge && sameTree(head, index)) {
+      throw new VersionControlError("Nothing to commit. Stage some changes first.");
+    }
+
+    const parents = [parentHash, merge?.theirs].filter((hash): hash is string => Boolean(hash));
+    const commit = await this.createCommit(roomId, toManifest(index), parents, message, author);
+    this.moveHead(repository, commit.hash);
+    repository.merge = null;
+    await repository.save();
+
+    return toSummary(commit);
+  }
+
+  /**
+   * History reachable from HEAD, newest first.
+   */
+  async getLog(roomId: string, options: { limit?: number; skip?: number } = {}): Promise<VcsCommitSummary[]> {
+    const repository = await this.getRepository(roomId);
+    const headHash = this.getHeadHash(repository);
+    if (!headHash) return [];
+
+    const limit = options.limit ?? DEFAULT_LOG_LIMIT;
+    const skip = options.skip ?? 0;
+    const commits = await VcsCommit.find({ roomId }).select("-tree -raw").sort({ timestamp: -1 });
+    const byHash = new Map(commits.map(commit => [commit.hash, commit]));
+
+    // Walk parents from HEAD so commits on other branches stay out of the log
+    const reachable = new Set<string>();
+    const pending = [headHash];
+    while (pending.length) {
+      const hash = pending.pop()!;
+      if (reachable.has(hash)) continue;
+      reachable.add(hash);
+      byHash.get(hash)?.parents.forEach(parent => pending.push(parent));
+    }
+
+    return commits
+      .filter(commit => reachable.has(commit.hash))
+      .slice(skip, skip + limit)
+      .map(toSummary);
+  }
+
+  /**
+   * A single commit with the files it changed relative to its first parent.
+   */
+  async getCommit(roomId: string, hash: string): Promise<VcsCommitDetail> {
+    const commit = await this.findCommit(roomId, hash);
+    const tree = toTree(commit.tree);
+    const parent = await this.readCommitTree(roomId, commit.parents[0] || null);
+
+    const changes = this.diffTrees(parent, tree, true);
+    await this.annotateLineCounts(changes, parent, tree);
+    return { ...toSummary(commit), changes };
+  }
+
+  async listBranches(roomId: string): Promise<VcsBranch[]> {
+    const repository = await this.getRepository(roomId);
+    return repository.branches
+      .map(branch => ({ name: branch.name, commitHash: branch.commitHash, current: branch.name === repository.head }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create a branch pointing at the current HEAD commit.
+   */
+  async createBranch(roomId: string, name: string): Promise<VcsBranch> {
+    if (!isValidBranchName(name)) {
+      throw new VersionControlError(`Invalid branch name: ${name}`);
+    }
+    const repository = await this.getRepository(roomId);
+    if (repository.branches.some(branch => branch.name === name)) {
+      throw new VersionControlError(`Branch ${name} already exists`, 409);
+    }
+    if (repository.branches.length >= MAX_BRANCHES_PER_ROOM) {
+      throw new VersionControlError("Branch limit reached for this room");
+    }
+    const commitHash = this.getHeadHash(repository);
+    if (!commitHash) {
+      throw new VersionControlError("Commit something before creating a branch");
+    }
+
+    repository.branches.push({ name, commitHash });
+    await repository.save();
+    return { name, commitHash, current: false };
+  }
+
+  async deleteBranch(roomId: string, name: string): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    if (name === repository.head) {
+      throw new VersionControlError("Cannot delete the checked-out branch");
+    }
+    if (repository.merge?.branch === name) {
+      throw new VersionControlError("Cannot delete a branch while it is being merged", 409);
+    }
+    const remaining = repository.branches.filter(branch => branch.name !== name);
+    if (remaining.length === repository.branches.length) {
+      throw new VersionControlError(`Branch not found: ${name}`, 404);
+    }
+    repository.branches = remaining;
+    await repository.save();
+  }
+
+  /**
+   * Switch to another branch, rewriting the room's files to its snapshot.
+   * Refuses while there are uncommitted changes that would be lost.
+   */
+  async checkout(roomId: string, name: string, userId: string): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    if (repository.merge) {
+      throw new VersionControlError("Finish or abort the merge before switching branches", 409);
+    }
+    const target = repository.branches.find(branch => branch.name === name);
+    if (!target) {
+      throw new VersionControlError(`Branch not found: ${name}`, 404);
+    }
+    if (name === repository.head) return;
+
+    const current = await this.readCommitTree(roomId, this.getHeadHash(repository));
+    const incoming = await this.readCommitTree(roomId, target.commitHash);
+    const working = await this.requireCleanTree(roomId, repository, current, incoming);
+
+    await this.applyTree(roomId, current, incoming, working, { userId, description: `Checked out ${name}` });
+    repository.head = name;
+    repository.index = toManifest(incoming);
+    await repository.save();
+  }
+
+  /**
+   * Three-way merge of a branch into the checked-out one. Clean merges are
+   * committed straight away; otherwise the merge stays open, conflicted
+   * files get conflict markers and must be resolved before committing.
+   */
+  async merge(roomId: string, name: string, author: VcsSignature & { userId: string }): Promise<VcsMergeResult> {
+    const repository = await this.getRepository(roomId);
+    if (repository.merge) {
+      throw new VersionControlError("A merge is already in progress", 409);
+    }
+    if (name === repository.head) {
+      throw new VersionControlError("Cannot merge a branch into itself");
+    }
+    const source = repository.branches.find(branch => branch.name === name);
+    if (!source) {
+      throw new VersionControlError(`Branch not found: ${name}`, 404);
+    }
+    if (!source.commitHash) {
+      throw new VersionControlError(`Branch ${name} has no commits`);
+    }
+
+    const oursHash = this.getHeadHash(repository);
+    const theirsHash = source.commitHash;
+    const graph = await this.loadGraph(roomId);
+    if (oursHash && isAncestor(graph, theirsHash, oursHash)) {
+      return { status: "up-to-date", conflicts: [] };
+    }
+
+    const ours = await this.readCommitTree(roomId, oursHash);
+    const theirs = await this.readCommitTree(roomId, theirsHash);
+    const working = await this.requireCleanTree(roomId, repository, ours, theirs);
+    const change = { userId: author.userId, description: `Merged ${name}` };
+
+    if (!oursHash || isAncestor(graph, oursHash, theirsHash)) {
+      await this.applyTree(roomId, ours, theirs, working, change);
+      this.moveHead(repository, theirsHash);
+      repository.index = toManifest(theirs);
+      await repository.save();
+      return { status: "fast-forward", conflicts: [] };
+    }
+
+    const baseHash = findMergeBase(graph, oursHash, theirsHash);
+    const base = await this.readCommitTree(roomId, baseHash);
+    const labels = { ours: repository.head, theirs: name };
+
+    const merged: Tree = new Map(); // What the room's files become
+    const index: Tree = new Map(); // Clean results, and our side of each conflict
+    const contents = new Map<string, Buffer>(); // Merged content that isn't a stored blob
+    const conflicts: string[] = [];
+
+    const paths = new Set([...base.keys(), ...ours.keys(), ...theirs.keys()]);
+    for (const path of [...paths].sort()) {
+      const b = base.get(path);
+      const o = ours.get(path);
+      const t = theirs.get(path);
+      const keep = (entry: TreeFile | undefined) => {
+        if (!entry) return;
+        merged.set(path, entry);
+        index.set(path, entry);
+      };
+
+      if (o?.blobHash === t?.blobHash || t?.blobHash === b?.blobHash) {
+        keep(o);
+        continue;
+      }
+      if (o?.blobHash === b?.blobHash) {
+        keep(t);
+        continue;
+      }
+
+      // Both sides changed the file differently
+      if (o) index.set(path, o);
+      conflicts.push(path);
+      if (!o || !t) {
+        // Modified on one side, deleted on the other: leave the modified version in place
+        merged.set(path, (o || t)!);
+        continue;
+      }
+
+      const [baseContent, oursContent, theirsContent] = await Promise.all([
+        b ? this.readBlob(b.blobHash) : Promise.resolve(Buffer.alloc(0)),
+        this.readBlob(o.blobHash),
+        this.readBlob(t.blobHash),
+      ]);
+      if (baseContent.includes(0) || oursContent.includes(0) || theirsContent.includes(0)) {
+        merged.set(path, o); // Binary: keep ours until someone picks a side
+        continue;
+      }
+
+      const result = mergeText(
+        baseContent.toString("utf8"),
+        oursContent.toString("utf8"),
+        theirsContent.toString("utf8"),
+        labels
+      );
+      const content = Buffer.from(result.text, "utf8");
+      if (result.conflicts === 0) {
+        conflicts.pop();
+        const entry = toEntry({ path, blobHash: await this.writeBlob(content), size: content.length, mode: o.mode });
+        merged.set(path, entry);
+        index.set(path, entry);
+      } else {
+        merged.set(path, { path, blobHash: hashBlob(content), size: content.length });
+        contents.set(path, content);
+      }
+    }
+
+    const previous = new Map([...ours, ...theirs]);
+    await this.applyTree(roomId, previous, merged, working, change, contents);
+    repository.index = toManifest(index);
+
+    if (conflicts.length) {
+      repository.merge = { branch: name, theirs: theirsHash, base: baseHash, conflicts };
+      await repository.save();
+      return { status: "conflicts", conflicts };
+    }
+
+    const commit = await this.createCommit(
+      roomId,
+      toManifest(index),
+      [oursHash, theirsHash],
+      `Merge branch '${name}' into ${repository.head}`,
+      author
+    );
+    this.moveHead(repository, commit.hash);
+    await repository.save();
+    return { status: "merged", commit: toSummary(commit), conflicts: [] };
+  }
+
+  /**
+   * Base, ours, theirs and current content for each unresolved path.
+   */
+  async getConflicts(roomId: string): Promise<VcsConflict[]> {
+    const repository = await this.getRepository(roomId);
+    const merge = this.requireMerge(repository);
+    const base = await this.readCommitTree(roomId, merge.base);
+    const ours = await this.readCommitTree(roomId, this.getHeadHash(repository));
+    const theirs = await this.readCommitTree(roomId, merge.theirs);
+    const working = await this.readWorkingTree(roomId);
+
+    const readText = async (entry: TreeFile | undefined) =>
+      entry ? (await this.readContent(entry)).toString("utf8") : null;
+
+    return Promise.all(
+      merge.conflicts.map(async path => ({
+        path,
+        base: await readText(base.get(path)),
+        ours: await readText(ours.get(path)),
+        theirs: await readText(theirs.get(path)),
+        working: await readText(working.get(path)),
+      }))
+    );
+  }
+
+  /**
+   * Settle one conflicted path: write the chosen content to the room and
+   * stage it. A null content resolves the conflict by deleting the file.
+   */
+  async resolveConflict(roomId: string, path: string, content: string | null, userId: string): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    const merge = this.requireMerge(repository);
+    if (!merge.conflicts.includes(path)) {
+      throw new VersionControlError(`No conflict for path: ${path}`, 404);
+    }
+
+    const index = toTree(repository.index || []);
+    const change = { userId, description: `Resolved merge conflict with ${merge.branch}` };
+    if (content === null) {
+      await this.updateRoomFiles(roomId, [], [path], change);
+      index.delete(path);
+    } else {
+      const buffer = Buffer.from(content, "utf8");
+      await this.updateRoomFiles(roomId, [{ path, content: buffer }], [], change);
+      index.set(path, { path, blobHash: await this.writeBlob(buffer), size: buffer.length });
+    }
+
+    repository.index = toManifest(index);
+    merge.conflicts = merge.conflicts.filter(conflict => conflict !== path);
+    repository.markModified("merge");
+    await repository.save();
+  }
+
+  /**
+   * Drop an in-progress merge and put the room's files back to HEAD.
+   */
+  async abortMerge(roomId: string, userId: string): Promise<void> {
+    const repository = await this.getRepository(roomId);
+    const merge = this.requireMerge(repository);
+    const ours = await this.readCommitTree(roomId, this.getHeadHash(repository));
+    const theirs = await this.readCommitTree(roomId, merge.theirs);
+    const working = await this.readWorkingTree(roomId);
+
+    await this.applyTree(roomId, new Map([...theirs, ...ours]), ours, working, {
+      userId,
+      description: `Aborted merge of ${merge.branch}`,
+    });
+    repository.index = toManifest(ours);
+    repository.merge = null;
+    await repository.save();
+  }
+
+  /**
+   * Everything reachable from the room's branches, as a git bundle or a
+   * gzipped bare repository. Commits keep the hashes shown in the room.
+   */
+  async exportRepository(roomId: string, format: VcsExportFormat): Promise<Buffer> {
+    const repository = await this.getRepository(roomId);
+    const refs: GitRef[] = repository.branches
+      .filter(branch => branch.commitHash)
+      .map(branch => ({ name: `refs/heads/${branch.name}`, hash: branch.commitHash! }));
+    if (!refs.length) {
+      throw new VersionControlError("Nothing to export yet. Make a commit first.");
+    }
+
+    const graph = await this.loadGraph(roomId);
+    const reachable = new Set(refs.flatMap(ref => [...ancestorsOf(graph, ref.hash)]));
+    const commits = await VcsCommit.find({ roomId, hash: { $in: [...reachable] } });
+
+    const objects = new Map<string, GitObject>();
+    const blobHashes = new Set<string>();
+    for (const commit of commits) {
+      const object = commit.raw
+        ? hashObject("commit", commit.raw)
+        : buildCommit({
+          treeHash: commit.treeHash,
+          parents: commit.parents,
+          author: { name: commit.author.name, email: commit.author.email },
+          message: commit.message,
+          timestamp: commit.timestamp,
+        });
+      const trees = buildTrees(commit.tree);
+      if (object.hash !== commit.hash || trees[trees.length - 1].hash !== commit.treeHash) {
+        throw new Error(`Commit ${commit.hash} could not be reproduced`);
+      }
+      objects.set(object.hash, object);
+      trees.forEach(tree => objects.set(tree.hash, tree));
+      commit.tree.forEach(entry => blobHashes.add(entry.blobHash));
+    }
+    for (const hash of blobHashes) {
+      objects.set(hash, hashObject("blob", await this.readBlob(hash)));
+    }
+
+    const head = `refs/heads/${repository.head}`;
+    if (format === "bundle") {
+      return writeBundle(refs, head, [...objects.values()]);
+    }
+
+    // A bare repository, as `git clone --bare` would leave it with loose objects
+    const root = `${roomId}.git`;
+    const directories = new Set([root, `${root}/objects`, `${root}/refs`, `${root}/refs/heads`, `${root}/refs/tags`]);
+    const files: TarEntry[] = [
+      { path: `${root}/HEAD`, content: Buffer.from(`ref: ${head}\n`) },
+      { path: `${root}/config`, content: Buffer.from("[core]\n\trepositoryformatversion = 0\n\tfilemode = true\n\tbare = true\n") },
+      ...refs.map(ref => ({ path: `${root}/${ref.name}`, content: Buffer.from(`${ref.hash}\n`) })),
+      ...[...objects.values()].map(object => ({
+        path: `${root}/objects/${object.hash.slice(0, 2)}/${object.hash.slice(2)}`,
+        content: writeLooseObject(object),
+      })),
+    ];
+    files.forEach(file => {
+      for (let slash = file.path.lastIndexOf("/"); slash > root.length; slash = file.path.lastIndexOf("/", slash - 1)) {
+        directories.add(file.path.slice(0, slash));
+      }
+    });
+    const entries = [...[...directories].sort().map(path => ({ path })), ...files];
+    return zlib.gzipSync(createTar(entries));
+  }
+
+  /**
+   * Bring an uploaded project into the room. Plain zip or tar archives just
+   * add their files. Git bundles, bare repositories and archives with a .git
+   * folder also bring every branch and its history, which needs a room
+   * with no commits yet; commit authors are matched to room participants
+   * by email.
+   */
+  async importProject(roomId: string, upload: Buffer, userId: string): Promise<VcsImportResult> {
+    let data: GitRepositoryData | null = null;
+    let working: Map<string, Buffer> | null = null;
+    try {
+      if (isBundle(upload)) {
+        data = readBundle(upload, VCS_IMPORT_MAX_UNPACKED_BYTES);
+      } else {
+        const files = readArchive(upload, VCS_IMPORT_MAX_UNPACKED_BYTES);
+        if (files.has(".git/HEAD")) {
+          data = readGitDirectory(filesUnder(files, ".git/"), VCS_IMPORT_MAX_UNPACKED_BYTES);
+          working = new Map([...files].filter(([path]) => !path.startsWith(".git/")));
+        } else if (files.has("HEAD") && [...files.keys()].some(path => path.startsWith("objects/"))) {
+          data = readGitDirectory(files, VCS_IMPORT_MAX_UNPACKED_BYTES);
+        } else {
+          working = files;
+        }
+      }
+    } catch (error) {
+      if (error instanceof VersionControlError) throw error;
+      throw new VersionControlError(`Could not read the upload: ${(error as Error).message}`);
+    }
+
+    if (!data) {
+      const writes = [...working!].map(([path, content]) => ({ path, content }));
+      if (!writes.length) {
+        throw new VersionControlError("The archive has no files");
+      }
+      await this.updateRoomFiles(roomId, writes, [], { userId, description: "Imported project" });
+      return { history: false, files: writes.length, commits: 0, branches: await this.listBranches(roomId) };
+    }
+
+    if (await VcsCommit.exists({ roomId })) {
+      throw new VersionControlError("This room already has commits. Import history into a new room.", 409);
+    }
+    const { objects } = data;
+    const branches = data.refs
+      .filter(ref => ref.name.startsWith("refs/heads/") && objects.get(ref.hash)?.type === "commit")
+      .map(ref => ({ name: ref.name.slice("refs/heads/".length), hash: ref.hash }))
+      .filter(branch => isValidBranchName(branch.name))
+      .slice(0, MAX_BRANCHES_PER_ROOM);
+    if (!branches.length) {
+      throw new VersionControlError("The repository has no branches to import");
+    }
+
+    // Parents before children, so rewritten parent hashes are known in time
+    const parsed = new Map<string, ParsedCommit>();
+    const order: string[] = [];
+    const entered = new Set<string>();
+    const pending = branches.map(branch => branch.hash);
+    while (pending.length) {
+      const hash = pending[pending.length - 1];
+      if (parsed.has(hash) && !entered.has(hash)) {
+        pending.pop();
+        continue;
+      }
+      if (entered.has(hash)) {
+        entered.delete(hash);
+        order.push(hash);
+        pending.pop();
+        continue;
+      }
+      const object = objects.get(hash);
+      if (object?.type !== "commit") {
+        throw new VersionControlError(`Commit ${hash} is missing; shallow clones can't be imported`);
+      }
+      const commit = parseCommit(object.data);
+      parsed.set(hash, commit);
+      entered.add(hash);
+      pending.push(...commit.parents.filter(parent => !parsed.has(parent)));
+    }
+
+    const flattened = new Map<string, VcsTreeEntry[]>();
+    const flatten = (treeHash: string): VcsTreeEntry[] => {
+      const cached = flattened.get(treeHash);
+      if (cached) return cached;
+      const tree = objects.get(treeHash);
+      if (tree?.type !== "tree") {
+        throw new VersionControlError(`Tree ${treeHash} is missing from the repository`);
+      }
+      const entries: VcsTreeEntry[] = [];
+      for (const item of parseTree(tree.data)) {
+        if (!isSafeSegment(item.name)) {
+          throw new VersionControlError(`Tree ${treeHash} has an invalid entry name`);
+        }
+        if (item.mode === TREE_MODE) {
+          flatten(item.hash).forEach(entry => entries.push({ ...entry, path: `${item.name}/${entry.path}` }));
+        } else if (item.mode !== GITLINK_MODE) {
+          // Submodules have no content here and are left out
+          const blob = objects.get(item.hash);
+          if (blob?.type !== "blob") {
+            throw new VersionControlError(`Blob ${item.hash} is missing from the repository`);
+          }
+          entries.push(toEntry({
+            path: item.name,
+            blobHash: item.hash,
+            size: blob.data.length,
+            mode: item.mode === FILE_MODE ? undefined : item.mode,
+          }));
+        }
+      }
+      flattened.set(treeHash, entries);
+      return entries;
+    };
+
+    const emails = await this.participantEmails(roomId);
+    const rewritten = new Map<string, string>();
+    const blobHashes = new Set<string>();
+    const commits = order.map(originalHash => {
+      const commit = parsed.get(originalHash)!;
+      const manifest = toManifest(toTree(flatten(commit.treeHash)));
+      const treeHash = buildTrees(manifest).pop()!.hash;
+      const parents = commit.parents.map(parent => rewritten.get(parent)!);
+      // Trees this model can't represent (submodules, odd modes) get a rewritten commit
+      const unchanged = treeHash === commit.treeHash && parents.every((parent, i) => parent === commit.parents[i]);
+      const original = objects.get(originalHash)!.data;
+      const raw = unchanged ? original : rewriteCommit(original, treeHash, parents);
+      const hash = unchanged ? originalHash : hashObject("commit", raw).hash;
+      rewritten.set(originalHash, hash);
+      manifest.forEach(entry => blobHashes.add(entry.blobHash));
+
+      const userId = emails.get(commit.author.email.toLowerCase());
+      return {
+        roomId,
+        hash,
+        treeHash,
+        parents,
+        tree: manifest,
+        message: commit.message.trim().slice(0, MAX_COMMIT_MESSAGE_LENGTH) || "(no message)",
+        author: {
+          userId: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+          name: commit.author.name || "Unknown",
+          email: commit.author.email,
+        },
+        timestamp: commit.timestamp,
+        raw,
+      };
+    });
+
+    for (const hash of blobHashes) {
+      await this.uploadBlobIfMissing(hash, () => Promise.resolve(objects.get(hash)!.data));
+    }
+    await VcsCommit.insertMany(commits);
+
+    const headName = data.head?.startsWith("refs/heads/") ? data.head.slice("refs/heads/".length) : null;
+    const head = branches.find(branch => branch.name === headName) ||
+      branches.find(branch => branch.name === "main") ||
+      branches[0];
+    const headCommit = commits.find(commit => commit.hash === rewritten.get(head.hash))!;
+
+    const repository = await this.getRepository(roomId);
+    repository.head = head.name;
+    repository.branches = branches.map(branch => ({ name: branch.name, commitHash: rewritten.get(branch.hash)! }));
+    repository.index = headCommit.tree;
+    repository.merge = null;
+    await repository.save();
+
+    // An archive with a checkout brings its working files; otherwise the room gets HEAD's snapshot
+    const writes = working
+      ? [...working].map(([path, content]) => ({ path, content }))
+      : headCommit.tree.map(entry => ({ path: entry.path, content: objects.get(entry.blobHash)!.data }));
+    if (writes.length) {
+      await this.updateRoomFiles(roomId, writes, [], { userId, description: "Imported project" });
+    }
+
+    return { history: true, files: writes.length, commits: commits.length, branches: await this.listBranches(roomId) };
+  }
+
+  async findCommit(roomId: string, hash: string): Promise<IVcsCommit> {
+    const commit = await VcsCommit.findOne({ roomId, hash });
+    if (!commit) {
+      throw new VersionControlError(`Commit not found: ${hash}`, 404);
+    }
+    return commit;
+  }
+
+  /**
+   * Read a stored blob by its git hash.
+   */
+  async readBlob(hash: string): Promise<Buffer> {
+    return readStream(getVcsBlobBucket().openDownloadStreamByName(hash));
+  }
+
+  /**
+   * Store content as a blob if it isn't stored yet. Returns the git hash.
+   */
+  async writeBlob(content: Buffer): Promise<string> {
+    const hash = hashBlob(content);
+    await this.uploadBlobIfMissing(hash, () => Promise.resolve(content));
+    return hash;
+  }
+
+  private getHeadHash(repository: IVcsRepository): string | null {
+    return repository.branches.find(branch => branch.name === repository.head)?.commitHash || null;
+  }
+
+  // Point the checked-out branch at a new commit
+  private moveHead(repository: IVcsRepository, hash: string): void {
+    const branch = repository.branches.find(b => b.name === repository.head);
+    if (branch) branch.commitHash = hash;
+    else repository.branches.push({ name: repository.head, commitHash: hash });
+  }
+
+  // Lowercased email of each room participant, mapped to their user id
+  private async participantEmails(roomId: string): Promise<Map<string, string>> {
+    const room = await Room.findOne({ id: roomId }).select("participantList");
+    if (!room) {
+      throw new VersionControlError("Room not found", 404);
+    }
+    const users = await User.find({ _id: { $in: room.participantList.map(p => p.userId) } }).select("email");
+    return new Map(users.map(user => [String(user.email).toLowerCase(), user._id.toString()]));
+  }
+
+  private requireMerge(repository: IVcsRepository): NonNullable<IVcsRepository["merge"]> {
+    if (!repository.merge) {
+      throw new VersionControlError("No merge in progress");
+    }
+    return repository.merge;
+  }
+
+  private async createCommit(
+    roomId: string,
+    manifest: VcsTreeEntry[],
+    parents: string[],
+    message: string,
+    author: VcsSignature
+  ): Promise<IVcsCommit> {
+    const treeHash = buildTrees(manifest).pop()!.hash;
+    const timestamp = new Date();
+    const { hash, data } = buildCommit({ treeHash, parents, author, message, timestamp });
+
+    return VcsCommit.create({
+      roomId,
+      hash,
+      treeHash,
+      parents,
+      tree: manifest,
+      message,
+      author: {
+        userId: author.userId ? new mongoose.Types.ObjectId(author.userId) : undefined,
+        name: author.name,
+        email: author.email,
+      },
+      timestamp,
+      raw: data,
+    });
+  }
+
+  // Parent links for every commit in the room, for ancestry checks
+  private async loadGraph(roomId: string): Promise<CommitGraph> {
+    const commits = await VcsCommit.find({ roomId }).select("hash parents").lean();
+    return new Map(commits.map(commit => [commit.hash, commit.parents]));
+  }
+
+  /**
+   * Make sure replacing the working tree can't lose anything: no staged or
+   * unstaged changes to tracked files, and no untracked file in the way of
+   * an incoming one. Returns the working tree it checked.
+   */
+  private async requireCleanTree(
+    roomId: string,
+    repository: IVcsRepository,
+    head: Tree,
+    incoming: Tree
+  ): Promise<Tree> {
+    const index = toTree(repository.index || []);
+    const working = await this.readWorkingTree(roomId);
+
+    const dirty = !sameTree(head, index) ||
+      [...index.values()].some(entry => working.get(entry.path)?.blobHash !== entry.blobHash);
+    if (dirty) {
+      throw new VersionControlError("Commit or discard your changes first", 409);
+    }
+    const blocked = [...incoming.values()].find(entry => {
+      const file = working.get(entry.path);
+      return file && !index.has(entry.path) && file.blobHash !== entry.blobHash;
+    });
+    if (blocked) {
+      throw new VersionControlError(`Untracked file would be overwritten: ${blocked.path}`, 409);
+    }
+    return working;
+  }
+
+  /**
+   * Rewrite the room's files from one snapshot to another. Paths only in
+   * `from` are removed; untracked files are left alone.
+   */
+  private async applyTree(
+    roomId: string,
+    from: Tree,
+    to: Tree,
+    working: Tree,
+    change: RoomFilesChange,
+    contents: Map<string, Buffer> = new Map()
+  ): Promise<void> {
+    const writes: { path: string; content: Buffer }[] = [];
+    for (const entry of to.values()) {
+      if (working.get(entry.path)?.blobHash === entry.blobHash) continue;
+      writes.push({ path: entry.path, content: contents.get(entry.path) ?? (await this.readBlob(entry.blobHash)) });
+    }
+    const removals = [...from.keys()].filter(path => !to.has(path) && working.has(path));
+
+    if (writes.length || removals.length) {
+      await this.updateRoomFiles(roomId, writes, removals, change);
+    }
+  }
+
+  /**
+   * Write to the room's files, then bring open documents along: rewritten
+   * files take the new content and removed ones are closed.
+   */
+  private async updateRoomFiles(
+    roomId: string,
+    writes: { path: string; content: Buffer }[],
+    removals: string[],
+    change: RoomFilesChange
+  ): Promise<void> {
+    const { replaced, removed } = await this.workspaceService.updateRoomFiles(roomId, writes, removals, change);
+    for (const write of writes) {
+      const fileId = replaced.get(write.path);
+      if (!fileId) continue;
+      await this.liveDocuments.replace(roomId, await fileVersionService.getFileIds(fileId), write.content.toString("utf8"));
+    }
+    if (removed.length) await this.liveDocuments.close(roomId, removed);
+  }
+
+  private async readCommitTree(roomId: string, hash: string | null): Promise<Tree> {
+    if (!hash) return new Map();
+    const commit = await this.findCommit(roomId, hash);
+    return toTree(commit.tree);
+  }
+
+  /**
+   * Snapshot the room's current files, hashing any upload not seen before.
+   * Open documents are checkpointed first, so edits not saved yet count.
+   */
+  private async readWorkingTree(roomId: string): Promise<Tree> {
+    await this.liveDocuments.flush(roomId);
+    const files = await this.workspaceService.listRoomFiles(roomId);
+    const tree: Tree = new Map();
+    for (const file of files) {
+      const cacheKey = `${file.fileId}:${file.modifiedAt.getTime()}`;
+      let blobHash = this.hashCache.get(cacheKey);
+      if (!blobHash) {
+        blobHash = hashBlob(await this.readUpload(file.fileId));
+        if (this.hashCache.size >= MAX_HASH_CACHE_ENTRIES) {
+          this.hashCache.delete(this.hashCache.keys().next().value!);
+        }
+        this.hashCache.set(cacheKey, blobHash);
+      }
+      tree.set(file.path, { path: file.path, blobHash, size: file.size, fileId: file.fileId });
+    }
+    return tree;
+  }
+
+  private async storeWorkingBlob(file: TreeFile): Promise<void> {
+    await this.uploadBlobIfMissing(file.blobHash, () => this.readUpload(file.fileId!));
+  }
+
+  private async uploadBlobIfMissing(hash: string, load: () => Promise<Buffer>): Promise<void> {
+    const bucket = getVcsBlobBucket();
+    const existing = await bucket.find({ filename: hash }).limit(1).toArray();
+    if (existing.length) return;
+
+    const content = await load();
+    await new Promise<void>((resolve, reject) => {
+      const upload = bucket.openUploadStream(hash, { metadata: { vcsBlob: true } });
+      upload.on("error", reject);
+      upload.on("finish", () => resolve());
+      upload.end(content);
+    });
+  }
+
+  private readUpload(fileId: string): Promise<Buffer> {
+    return readStream(getGridFSBucket().openDownloadStream(new mongoose.Types.ObjectId(fileId)));
+  }
+
+  private readContent(file: TreeFile): Promise<Buffer> {
+    return file.fileId ? this.readUpload(file.fileId) : this.readBlob(file.blobHash);
+  }
+
+  /**
+   * Changes that turn `from` into `to`. Staged comparisons pair deleted and
+   * added paths with identical content into renames.
+   */
+  private diffTrees(from: Tree, to: Tree, staged: boolean): VcsFileChange[] {
+    const changes: VcsFileChange[] = [];
+    const id = (path: string) => `${staged ? "staged" : "working"}:${path}`;
+
+    to.forEach((entry, path) => {
+      const before = from.get(path);
+      if (!before) changes.push({ id: id(path), path, type: "added", staged });
+      else if (before.blobHash !== entry.blobHash) changes.push({ id: id(path), path, type: "modified", staged });
+    });
+    from.forEach((_entry, path) => {
+      if (!to.has(path)) changes.push({ id: id(path), path, type: "deleted", staged });
+    });
+
+    if (staged) {
+      const deleted = changes.filter(change => change.type === "deleted");
+      for (const added of changes.filter(change => change.type === "added")) {
+        const hash = to.get(added.path)!.blobHash;
+        const match = deleted.findIndex(change => from.get(change.path)!.blobHash === hash);
+        if (match === -1) continue;
+        const [source] = deleted.splice(match, 1);
+        added.type = "renamed";
+        added.oldPath = source.path;
+        changes.splice(changes.indexOf(source), 1);
+      }
+    }
+
+    return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  private async annotateLineCounts(changes: VcsFileChange[], from: Tree, to: Tree): Promise<void> {
+    for (const change of changes) {
+      const before = from.get(change.oldPath || change.path);
+      const after = to.get(change.path);
+      if ((before?.size || 0) > MAX_DIFF_BYTES || (after?.size || 0) > MAX_DIFF_BYTES) continue;
+
+      const [beforeContent, afterContent] = await Promise.all([
+        before ? this.readContent(before) : Promise.resolve(Buffer.alloc(0)),
+        after ? this.readContent(after) : Promise.resolve(Buffer.alloc(0)),
+      ]);
+      // Binary files get no line counts, like git's "Bin" entries
+      if (beforeContent.includes(0) || afterContent.includes(0)) continue;
+
+      Object.assign(change, countLineChanges(beforeContent.toString("utf8"), afterContent.toString("utf8")));
+    }
+  }
+}
+
+export const versionControlService = new VersionControlService(
+  new WorkspaceService(EXECUTION_MAX_WORKSPACE_BYTES)
+);
+
+export default VersionControlService;
@@ -0,0 +1,261 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import { pipeline } from "stream/promises";
+import { Room } from "../database/models";
+import { getGridFSBucket } from "../database/gridfs";
+import { EXECUTION_MAX_WORKSPACE_BYTES } from "../config/constants";
+import { fileVersionService } from "./fileVersionService";
+import { FileInfo } from "../types/filesystem";
+import { WorkspaceFile } from "../types/execution";
+
+type RoomFileEntry = FileInfo & { _id?: mongoose.Types.ObjectId };
+
+// Who rewrote a room's files and why, recorded with the versions it creates
+export interface RoomFilesChange {
+  userId: string;
+  description: string;
+}
+
+// What updateRoomFiles changed, by the uploads files had before
+export interface RoomFilesUpdate {
+  replaced: Map<string, string>; // Path of each rewritten file to its previous upload
+  removed: string[]; // Every upload id the removed files have had
+}
+
+// Guards against parentId cycles in corrupted file trees
+const MAX_FOLDER_DEPTH = 64;
+
+class WorkspaceService {
+  private maxWorkspaceBytes: number;
+
+  constructor(maxWorkspaceBytes: number) {
+    this.maxWorkspaceBytes = maxWorkspaceBytes;
+  }
+
+  /**
+   * Resolve every file in a room to a project-relative path by walking the
+   * folder hierarchy in Room.files. Sizes come from GridFS since the room
+   * entries are not always kept up to date.
+   */
+  async listRoomFiles(roomId: string): Promise<WorkspaceFile[]> {
+    const room = await Room.findOne({ id: roomId }).select("files").lean();
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const entries = (room.files || []) as RoomFileEntry[];
+    const folders = new Map<string, RoomFileEntry>();
+    entries
+      .filter(entry => entry.type === "folder" && entry._id)
+      .forEach(entry => folders.set(entry._id!.toString(), entry));
+
+    const fileEntries = entries.filter(entry => entry.type === "file" && entry.fileId);
+    const fileIds = fileEntries.map(entry => new mongoose.Types.ObjectId(entry.fileId!.toString()));
+    const stored = await getGridFSBucket().find({ _id: { $in: fileIds } }).toArray();
+    const uploads = new Map(stored.map(file => [file._id.toString(), file]));
+
+    const seen = new Set<string>();
+    const files: WorkspaceFile[] = [];
+    for (const entry of fileEntries) {
+      const fileId = entry.fileId!.toString();
+      const upload = uploads.get(fileId);
+      if (!upload) continue; // Blob missing from GridFS
+
+      const filePath = [...this.resolveFolderPath(entry, folders), this.sanitizeSegment(entry.name)].join("/");
+      if (seen.has(filePath)) {
+        console.warn(`⚠️ Duplicate path ${filePath} in room ${roomId}, skipping ${fileId}`);
+        continue;
+      }
+      seen.add(filePath);
+      files.push({ path: filePath, fileId, size: upload.length, modifiedAt: upload.uploadDate });
+    }
+
+    return files;
+  }
+
+  /**
+   * Write a room's files into targetDir, recreating its folder structure.
+   */
+  async materialize(roomId: string, targetDir: string): Promise<WorkspaceFile[]> {
+    const files = await this.listRoomFiles(roomId);
+
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > this.maxWorkspaceBytes) {
+      throw new Error(`Project is too large to run (${totalBytes} bytes, limit ${this.maxWorkspaceBytes})`);
+    }
+
+    const bucket = getGridFSBucket();
+    for (const file of files) {
+      const target = this.resolveInside(targetDir, file.path);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await pipeline(
+        bucket.openDownloadStream(new mongoose.Types.ObjectId(file.fileId)),
+        fs.createWriteStream(target)
+      );
+    }
+
+    return files;
+  }
+
+  /**
+   * Apply path-level changes to a room's file tree. Each write replaces the
+   * file at that path with new content (creating it and any missing folders),
+   * saved as a new version of the file so its history carries on; each
+   * removal drops the file and its history, plus any folders it leaves empty.
+   */
+  async updateRoomFiles(
+    roomId: string,
+    writes: { path: string; content: Buffer }[],
+    removals: string[],
+    change: RoomFilesChange
+  ): Promise<RoomFilesUpdate> {
+    const room = await Room.findOne({ id: roomId });
+    if (!room) {
+      throw new Error("Room not found");
+    }
+
+    const entries = (room.files || []) as unknown as RoomFileEntry[];
+    const folders = new Map<string, RoomFileEntry>();
+    entries
+      .filter(entry => entry.type === "folder" && entry._id)
+      .forEach(entry => folders.set(entry._id!.toString(), entry));
+
+    const folderByPath = new Map<string, RoomFileEntry>();
+    const fileByPath = new Map<string, RoomFileEntry>();
+    for (const entry of entries) {
+      const entryPath = [...this.resolveFolderPath(entry, folders), this.sanitizeSegment(entry.name)].join("/");
+      if (entry.type === "folder") folderByPath.set(entryPath, entry);
+      else if (entry.fileId && !fileByPath.has(entryPath)) fileByPath.set(entryPath, entry);
+    }
+
+    const now = new Date();
+    const ensureFolder = (folderPath: string): mongoose.Types.ObjectId | null => {
+      if (!folderPath) return null;
+      const existing = folderByPath.get(folderPath);
+      if (existing) return existing._id!;
+      const slash = folderPath.lastIndexOf("/");
+      const parentId = ensureFolder(slash === -1 ? "" : folderPath.slice(0, slash));
+      const folder = {
+        _id: new mongoose.Types.ObjectId(),
+        name: folderPath.slice(slash + 1),
+        type: "folder",
+        parentId,
+        read: false,
+        size: 0,
+        lastModified: now,
+        createdAt: now,
+      } as RoomFileEntry;
+      room.files.push(folder as any);
+      folderByPath.set(folderPath, folder);
+      return folder._id!;
+    };
+
+    const bucket = getGridFSBucket();
+    const replaced = new Map<string, string>();
+    for (const write of writes) {
+      // Existing files get their new version once the tree is saved
+      const existing = fileByPath.get(write.path);
+      if (existing) {
+        replaced.set(write.path, existing.fileId!.toString());
+        continue;
+      }
+
+      const name = write.path.slice(write.path.lastIndexOf("/") + 1);
+      const upload = bucket.openUploadStream(name, { metadata: { roomId, userId: change.userId, createdAt: now } });
+      await new Promise<void>((resolve, reject) => {
+        upload.on("error", reject);
+        upload.on("finish", () => resolve());
+        upload.end(write.content);
+      });
+
+      const slash = write.path.lastIndexOf("/");
+      room.files.push({
+        fileId: upload.id,
+        name,
+        ext: path.extname(name),
+        read: false,
+        type: "file",
+        size: write.content.length,
+        lastModified: now,
+        createdAt: now,
+        parentId: ensureFolder(slash === -1 ? "" : write.path.slice(0, slash)),
+        path: `/${name}`,
+      } as any);
+    }
+
+    const removedIds = new Set<string>();
+    const emptiedFolders = new Set<string>();
+    for (const removal of removals) {
+      const entry = fileByPath.get(removal);
+      if (!entry) continue;
+      removedIds.add(entry.fileId!.toString());
+      if (entry.parentId) emptiedFolders.add(entry.parentId.toString());
+    }
+    let remaining = room.files.filter(file => !(file.fileId && removedIds.has(file.fileId.toString())));
+
+    // Git doesn't track folders, so ones a removal emptied go too
+    while (emptiedFolders.size) {
+      const [folderId] = emptiedFolders;
+      emptiedFolders.delete(folderId);
+      const hasChildren = remaining.some(file => file.parentId?.toString() === folderId);
+      const folder = remaining.find(file => (file as any)._id?.toString() === folderId);
+      if (hasChildren || !folder) continue;
+      remaining = remaining.filter(file => file !== folder);
+      if (folder.parentId) emptiedFolders.add(folder.parentId.toString());
+    }
+
+    room.files = remaining;
+    await room.save();
+
+    const contents = new Map(writes.map(write => [write.path, write.content]));
+    for (const [filePath, fileId] of replaced) {
+      await fileVersionService.saveContent(fileId, contents.get(filePath)!, change.userId, change.description);
+    }
+    const removed: string[] = [];
+    for (const fileId of removedIds) {
+      removed.push(...(await fileVersionService.getFileIds(fileId)));
+      try {
+        await bucket.delete(new mongoose.Types.ObjectId(fileId));
+        await fileVersionService.deleteHistory(fileId);
+      } catch (error) {
+        console.warn(`⚠️ Could not delete removed upload ${fileId}:`, error);
+      }
+    }
+    return { replaced, removed };
+  }
+
+  /**
+   * Resolve a project-relative path against root, rejecting anything that
+   * would escape it. Returns the absolute path.
+   */
+  resolveInside(root: string, relativePath: string): string {
+    const resolved = path.resolve(root, relativePath.replace(/^[/\\]+/, ""));
+    const relative = path.relative(root, resolved);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Path escapes the project root: ${relativePath}`);
+    }
+    return resolved;
+  }
+
+  private resolveFolderPath(entry: RoomFileEntry, folders: Map<string, RoomFileEntry>): string[] {
+    const segments: string[] = [];
+    let parentId = entry.parentId ? entry.parentId.toString() : null;
+    while (parentId && segments.length < MAX_FOLDER_DEPTH) {
+      const folder = folders.get(parentId);
+      if (!folder) break; // Orphaned entries land at the root
+      segments.unshift(this.sanitizeSegment(folder.name));
+      parentId = folder.parentId ? folder.parentId.toString() : null;
+    }
+    return segments;
+  }
+
+  private sanitizeSegment(name: string): string {
+    const segment = name.replace(/[/\\\0]/g, "_").trim();
+    return !segment || segment === "." || segment === ".." ? "_" : segment;
+  }
+}
+
+export const workspaceService = new WorkspaceService(EXECUTION_MAX_WORKSPACE_BYTES);
+
+export default WorkspaceService;
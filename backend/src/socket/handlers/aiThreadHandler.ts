@@ -0,0 +1,173 @@
+import { Server, Socket } from "socket.io";
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  InterServerEvents,
+  SocketData,
+  AIThreadAskAck,
+} from "../../types/socket";
+import { AIChatRequest, AIConversationTurn } from "../../types/ai";
+import { aiService, AIError } from "../../services/aiService";
+import { roomAIThreadService, RoomAIThreadError } from "../../services/roomAIThreadService";
+import { aiUsageService, AIUsageError } from "../../services/aiUsageService";
+import { buildProjectContext } from "../../routes/ai";
+import { updateUserActivity } from "../../utils/userHelpers";
+import { getSocketUser } from "../middleware/auth";
+
+const MAX_QUESTION_LENGTH = 20000;
+
+interface ActiveReply {
+  controller: AbortController;
+  questionId: string;
+  userId: string;
+  socketId: string;
+}
+
+// One reply at a time per room, so the thread reads in order
+const activeReplies: Map<string, ActiveReply> = new Map();
+
+export function registerAIThreadHandlers(
+  io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+): void {
+  socket.on("ai-thread-ask", async (data, ack) => {
+    const respond = typeof ack === "function" ? ack : (_response: AIThreadAskAck) => {};
+
+    // Asking spends AI quota, so it needs a verified identity
+    const user = getSocketUser(socket);
+    if (!user) {
+      respond({ success: false, error: "Authentication required" });
+      return;
+    }
+    const { roomId, userName } = socket.data || {};
+    if (!roomId) {
+      respond({ success: false, error: "Join a room to use its AI thread" });
+      return;
+    }
+
+    const { message, provider, model, activeFileId, activeFileContent, cursorLine } = data || ({} as typeof data);
+    if (typeof message !== "string" || !message.trim() || message.length > MAX_QUESTION_LENGTH) {
+      respond({ success: false, error: `Message is required and must be at most ${MAX_QUESTION_LENGTH} characters` });
+      return;
+    }
+    if ((provider !== undefined && typeof provider !== "string") || (model !== undefined && typeof model !== "string")) {
+      respond({ success: false, error: "provider and model must be strings" });
+      return;
+    }
+    if (activeReplies.has(roomId)) {
+      respond({ success: false, error: "The AI is still answering the previous question" });
+      return;
+    }
+
+    const controller = new AbortController();
+    const reply: ActiveReply = { controller, questionId: "", userId: user.id, socketId: socket.id };
+    activeReplies.set(roomId, reply);
+    const askerName = userName || user.name;
+
+    let questionId: string;
+    let history: AIConversationTurn[];
+    try {
+      await roomAIThreadService.authorizeAsk(roomId, user.id);
+      await aiUsageService.checkQuota(user.id, roomId);
+      aiService.resolveModel(provider, model);
+      history = await roomAIThreadService.getHistory(roomId);
+      const question = await roomAIThreadService.addMessage(roomId, {
+        role: "user",
+        userId: user.id,
+        userName: askerName,
+        content: message.trim(),
+      });
+      questionId = question.id;
+      reply.questionId = questionId;
+      respond({ success: true, questionId });
+      io.to(roomId).emit("ai-thread-message", { roomId, message: question });
+    } catch (error) {
+      activeReplies.delete(roomId);
+      const expected = error instanceof RoomAIThreadError || error instanceof AIUsageError || error instanceof AIError;
+      if (!expected) console.error("Failed to ask in the room AI thread:", error);
+      respond({ success: false, error: expected ? error.message : "Failed to ask the AI" });
+      return;
+    }
+    updateUserActivity(socket.id);
+
+    let text = "";
+    let outcome: { status: "complete" | "cancelled" | "failed"; content: string; model?: string; provider?: string };
+    const request: AIChatRequest = {
+      message: `${askerName}: ${message.trim()}`,
+      context: "Shared room AI thread: several people in a coding session ask questions, each prefixed with the asker's name.",
+      userId: user.id,
+      roomId,
+      history,
+      provider,
+      model,
+    };
+    try {
+      request.contextFiles = await buildProjectContext(roomId, {
+        question: message,
+        activeFileId: typeof activeFileId === "string" ? activeFileId : undefined,
+        activeFileContent: typeof activeFileContent === "string" ? activeFileContent : undefined,
+        cursorLine: Number.isInteger(cursorLine) ? cursorLine : undefined,
+      });
+      const response = await aiService.chatWithAIStream(
+        request,
+        chunk => {
+          text += chunk;
+          io.to(roomId).emit("ai-thread-chunk", { roomId, questionId, text: chunk });
+        },
+        controller.signal
+      );
+      outcome = { status: "complete", content: response.response, model: response.model, provider: response.provider };
+      await aiUsageService.record({ userId: user.id, roomId, purpose: "chat", ...response });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        outcome = { status: "cancelled", content: text };
+        // The asker pays for what was generated before they stopped it
+        const resolved = aiService.resolveModel(provider, model);
+        await aiUsageService.record({
+          userId: user.id,
+          roomId,
+          purpose: "chat",
+          provider: resolved.provider.name,
+          model: resolved.model,
+          usage: aiService.estimateChatUsage(request, text),
+          cancelled: true,
+        });
+      } else {
+        const expected = error instanceof AIError;
+        if (!expected) console.error("Room AI thread reply failed:", error);
+        outcome = { status: "failed", content: expected ? error.message : "Failed to get a reply from the AI" };
+      }
+    } finally {
+      activeReplies.delete(roomId);
+    }
+
+    try {
+      const answer = await roomAIThreadService.addMessage(roomId, {
+        role: "assistant",
+        userId: user.id,
+        userName: askerName,
+        replyTo: questionId,
+        ...outcome,
+      });
+      io.to(roomId).emit("ai-thread-message", { roomId, message: answer });
+    } catch (error) {
+      console.error("Failed to store the room AI thread reply:", error);
+    }
+  });
+
+  // The asker may stop the reply to their question
+  socket.on("ai-thread-cancel", ({ questionId } = { questionId: "" }) => {
+    const roomId = socket.data?.roomId;
+    const reply = roomId ? activeReplies.get(roomId) : undefined;
+    const user = getSocketUser(socket);
+    if (!reply || !user || reply.questionId !== questionId || reply.userId !== user.id) return;
+    reply.controller.abort();
+  });
+
+  // Like a streamed chat over HTTP, a reply doesn't outlive the connection that asked
+  socket.on("disconnect", () => {
+    activeReplies.forEach(reply => {
+      if (reply.socketId === socket.id) reply.controller.abort();
+    });
+  });
+}
@@ -0,0 +1,152 @@
+import { Server, Socket } from "socket.io";
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  InterServerEvents,
+  SocketData,
+  CrdtJoinPayload,
+  CrdtUpdatePayload,
+} from "../../types/socket";
+import { crdtDocumentService } from "../../services/crdtDocumentService";
+import { collaborationModeService } from "../../services/collaborationModeService";
+import { clusterService } from "../../services/clusterService";
+import { fileVersionService } from "../../services/fileVersionService";
+import { applyCrdtChange, callDocumentOwner, loadCanonical } from "./editorHandler";
+import { updateUserActivity } from "../../utils/userHelpers";
+
+type CrdtServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// Calls for a document carry its updates as base64, since calls between instances are JSON
+interface CrdtCall {
+  socketId: string;
+  update: string;
+}
+
+// An empty document's state vector: a client syncing with it gets everything
+const EMPTY_STATE_VECTOR = new Uint8Array([0]);
+
+const isUpdate = (data: Partial<CrdtUpdatePayload> | undefined): data is CrdtUpdatePayload =>
+  typeof data?.fileId === "string" && data.update instanceof Uint8Array;
+
+const toBase64 = (data: Uint8Array) => Buffer.from(data).toString("base64");
+const fromBase64 = (data: string) => new Uint8Array(Buffer.from(data, "base64"));
+
+/**
+ * Open a file's document for a socket and send it what it is missing; false
+ * outside CRDT mode and for files of other rooms, whose state would
+ * otherwise be kept and saved under this room.
+ */
+async function joinDocument(
+  io: CrdtServer,
+  roomId: string,
+  fileId: string,
+  socketId: string,
+  stateVector: Uint8Array
+): Promise<boolean> {
+  if ((await collaborationModeService.getMode(roomId)) !== "crdt") return false;
+  if (!(await fileVersionService.isRoomFile(roomId, fileId))) return false;
+  const canonical = await loadCanonical(roomId, fileId);
+  if (!canonical) return false;
+  const sync = await crdtDocumentService.join(roomId, fileId, socketId, () => canonical.content, stateVector);
+  io.to(socketId).emit("crdt-sync", { fileId, ...sync });
+  return true;
+}
+
+// Run by the document's owner
+clusterService.handleDocumentCall("crdt:join", async (io, roomId, fileId, { socketId, update }: CrdtCall) => {
+  try {
+    await joinDocument(io, roomId, fileId, socketId, fromBase64(update));
+  } catch (error) {
+    console.error(`Failed to open CRDT document ${fileId} in room ${roomId}:`, error);
+    io.to(socketId).emit("error", { message: "Failed to open the document" });
+  }
+});
+
+clusterService.handleDocumentCall("crdt:update", async (io, roomId, fileId, { socketId, update }: CrdtCall) => {
+  const bytes = fromBase64(update);
+  let operations;
+  try {
+    operations = crdtDocumentService.applyUpdate(roomId, fileId, socketId, bytes);
+    // The client joined on an instance that has since stopped running the document; it syncs up here first
+    if (!operations && (await joinDocument(io, roomId, fileId, socketId, EMPTY_STATE_VECTOR))) {
+      operations = crdtDocumentService.applyUpdate(roomId, fileId, socketId, bytes);
+    }
+  } catch (error) {
+    console.error(`Rejected a malformed CRDT update for ${fileId}:`, error);
+    return;
+  }
+  if (!operations) return;
+  applyCrdtChange(roomId, fileId, operations);
+  io.to(roomId).except(socketId).emit("crdt-update", { fileId, update: bytes });
+});
+
+clusterService.handleDocumentCall("crdt:awareness", (io, roomId, fileId, { socketId, update }: CrdtCall) => {
+  const bytes = fromBase64(update);
+  try {
+    if (!crdtDocumentService.applyAwareness(roomId, fileId, socketId, bytes)) return;
+  } catch (error) {
+    return;
+  }
+  io.to(roomId).except(socketId).emit("crdt-awareness", { fileId, update: bytes });
+});
+
+clusterService.handleDocumentCall("crdt:leave", (io, roomId, fileId, { socketId }: { socketId: string }) => {
+  const update = crdtDocumentService.leave(roomId, fileId, socketId);
+  if (update) io.to(roomId).except(socketId).emit("crdt-awareness", { fileId, update });
+});
+
+// Run by every instance, since a socket's documents can be spread over several
+clusterService.handleInstanceCall("crdt:socket-left", (io, socketId: string) => {
+  for (const { roomId, fileId, update } of crdtDocumentService.leaveAll(socketId)) {
+    io.to(roomId).emit("crdt-awareness", { fileId, update });
+  }
+});
+
+clusterService.handleInstanceCall("crdt:close-room", (io, roomId: string) => crdtDocumentService.closeRoom(roomId));
+
+// Save and unload a room's documents wherever they run, e.g. when it goes back to OT
+export function closeCrdtRoom(roomId: string): Promise<void> {
+  return clusterService.callEverywhere("crdt:close-room", roomId);
+}
+
+/**
+ * Yjs sync for rooms in CRDT mode: clients join a file's document with
+ * their state vector, then exchange updates and awareness (cursors)
+ * through the room.
+ */
+export function registerCrdtHandlers(
+  io: CrdtServer,
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+): void {
+  socket.on("crdt-join", async (data: CrdtJoinPayload) => {
+    if (!(data?.stateVector instanceof Uint8Array)) return;
+    await callDocumentOwner(socket, data.fileId, "crdt:join", { update: toBase64(data.stateVector) });
+    updateUserActivity(socket.id);
+  });
+
+  socket.on("crdt-update", async (data: CrdtUpdatePayload) => {
+    if (!isUpdate(data)) return;
+    await callDocumentOwner(socket, data.fileId, "crdt:update", { update: toBase64(data.update) });
+    updateUserActivity(socket.id);
+  });
+
+  socket.on("crdt-awareness", (data: CrdtUpdatePayload) => {
+    if (!isUpdate(data)) return;
+    callDocumentOwner(socket, data.fileId, "crdt:awareness", { update: toBase64(data.update) });
+  });
+
+  socket.on("crdt-leave", (data: { fileId: string }) => {
+    const { roomId } = socket.data || {};
+    if (!roomId || typeof data?.fileId !== "string") return;
+    clusterService.callOwner(roomId, data.fileId, "crdt:leave", { socketId: socket.id }, { open: false }).catch(error => {
+      console.error(`Failed to leave CRDT document ${data.fileId} in room ${roomId}:`, error);
+    });
+  });
+
+  // Take the socket's cursors down everywhere it had a document open
+  socket.on("disconnect", () => {
+    clusterService.callEverywhere("crdt:socket-left", socket.id).catch(error => {
+      console.error(`Failed to close the CRDT documents of socket ${socket.id}:`, error);
+    });
+  });
+}
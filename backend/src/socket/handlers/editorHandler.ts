@@ -5,148 +5,404 @@ import {
   InterServerEvents,
   SocketData,
   CollaborativeChangePayload,
+  CollaborativeLogEntry,
+  CatchUpPayload,
+  CatchUpRequestPayload,
   TextOperationPayload,
 } from "../../types/socket";
+import { COLLAB_LOG_MAX_ENTRIES } from "../../config/constants";
 import { updateUserCursorPosition, setUserTyping, updateUserActivity } from "../../utils/userHelpers";
+import { applyOperations, diffOperations, replaceAllOperations, transformOperations } from "../../utils/textOperations";
+import { collaborationPersistenceService } from "../../services/collaborationPersistenceService";
+import { crdtDocumentService } from "../../services/crdtDocumentService";
+import { clusterService } from "../../services/clusterService";
 
-// In-memory canonical docs per room
+// Canonical docs this instance owns, per room, loaded from storage when first opened
 interface CanonicalFileState {
   content: string;
   version: number;
-  operationsLog: { operations: TextOperationPayload[]; version: number }[];
+  operationsLog: CollaborativeLogEntry[];
+  snapshotVersion: number; // The log holds every change after this version; older ones were compacted away
 }
 
 const roomDocuments: Map<string, Map<string, CanonicalFileState>> = new Map();
+// Docs being read from storage, so everyone opening one at once shares the load
+const loadingDocuments: Map<string, Promise<CanonicalFileState | null>> = new Map();
 
-function getCanonical(socket: Socket, fileId: string): CanonicalFileState | null {
+type EditorServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+type EditorSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+/**
+ * A file's canonical doc, seeded from its stored content (plus any edits
+ * logged since its last checkpoint) the first time it is opened. Null when
+ * the file is missing or binary.
+ */
+export async function loadCanonical(roomId: string, fileId: string): Promise<CanonicalFileState | null> {
+  const loaded = roomDocuments.get(roomId)?.get(fileId);
+  if (loaded) return loaded;
+
+  const key = `${roomId}:${fileId}`;
+  let loading = loadingDocuments.get(key);
+  if (!loading) {
+    loading = collaborationPersistenceService.load(roomId, fileId)
+      .then(document => {
+        if (!document) return null;
+        let files = roomDocuments.get(roomId);
+        if (!files) {
+          files = new Map();
+          roomDocuments.set(roomId, files);
+        }
+        files.set(fileId, document);
+        return document;
+      })
+      .catch(error => {
+        console.error(`Failed to load collaborative document ${fileId}:`, error);
+        return null;
+      })
+      .finally(() => loadingDocuments.delete(key));
+    loadingDocuments.set(key, loading);
+  }
+  return loading;
+}
+
+// Unload a doc without checkpointing it, since its file no longer takes what it holds
+function unloadDocument(roomId: string, fileId: string): Promise<unknown> {
+  roomDocuments.get(roomId)?.delete(fileId);
+  return Promise.all([
+    collaborationPersistenceService.release(roomId, fileId),
+    crdtDocumentService.closeDocument(roomId, fileId),
+  ]);
+}
+
+// Another instance runs the doc now, so this copy is stale and must not be written back
+clusterService.onDocumentLost((roomId, fileId) => {
+  unloadDocument(roomId, fileId);
+});
+
+/**
+ * Run a client's request for a file on the instance that owns its doc.
+ * Resolves to the call's result, or undefined when it failed, in which case
+ * the client recovers through its next sync.
+ */
+export async function callDocumentOwner<T>(
+  socket: EditorSocket,
+  fileId: unknown,
+  kind: string,
+  args: object = {}
+): Promise<T | undefined> {
   const { roomId } = socket.data || {};
-  if (!roomId) return null;
-  let files = roomDocuments.get(roomId);
-  if (!files) {
-    files = new Map();
-    roomDocuments.set(roomId, files);
+  if (!roomId || typeof fileId !== "string") return undefined;
+  try {
+    return await clusterService.callOwner<T>(roomId, fileId, kind, { ...args, socketId: socket.id });
+  } catch (error) {
+    console.error(`Failed to run ${kind} for ${fileId} in room ${roomId}:`, error);
+    return undefined;
   }
-  let file = files.get(fileId);
-  if (!file) {
-    file = { content: "", version: 0, operationsLog: [] };
-    files.set(fileId, file);
+}
+
+/**
+ * Log a change applied to a doc and persist it, which also schedules
+ * writing the doc back to its file. Past COLLAB_LOG_MAX_ENTRIES the older
+ * half of the log is compacted away; clients based before what is left
+ * catch up from a snapshot instead.
+ */
+function logChange(roomId: string, fileId: string, file: CanonicalFileState, entry: CollaborativeLogEntry): void {
+  file.operationsLog.push(entry);
+  if (file.operationsLog.length > COLLAB_LOG_MAX_ENTRIES) {
+    const compacted = file.operationsLog.splice(0, file.operationsLog.length - Math.floor(COLLAB_LOG_MAX_ENTRIES / 2));
+    file.snapshotVersion = compacted[compacted.length - 1].version;
   }
-  return file;
-}
-
-function applyOperations(content: string, operations: TextOperationPayload[]): string {
-  let index = 0;
-  let result = "";
-  for (const op of operations) {
-    if (op.type === 'retain') {
-      const len = op.length || 0;
-      result += content.slice(index, index + len);
-      index += len;
-    } else if (op.type === 'insert') {
-      result += op.text || "";
-    } else if (op.type === 'delete') {
-      index += op.length || 0;
-    }
+  collaborationPersistenceService.record(roomId, fileId, entry, file);
+}
+
+// A change to a canonical doc goes to the file's CRDT document too, when a room in CRDT mode has it open
+function forwardToCrdt(io: EditorServer, roomId: string, fileId: string, operations: TextOperationPayload[]): void {
+  const update = crdtDocumentService.applyOperations(roomId, fileId, operations);
+  if (update) io.to(roomId).emit("crdt-update", { fileId, update });
+}
+
+// Logged changes after `version`; versions only grow, so the first one is found by bisection
+function entriesSince(file: CanonicalFileState, version: number): CollaborativeLogEntry[] {
+  let low = 0;
+  let high = file.operationsLog.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (file.operationsLog[mid].version > version) high = mid;
+    else low = mid + 1;
   }
-  if (index < content.length) {
-    result += content.slice(index);
+  return file.operationsLog.slice(low);
+}
+
+// What a client at baseVersion is missing: the changes since, or the whole doc once they were compacted away
+function catchUpFor(fileId: string, file: CanonicalFileState, baseVersion: number): CatchUpPayload {
+  const payload: CatchUpPayload = { fileId, baseVersion, version: file.version };
+  // A client ahead of the server lost changes in a crash; it can only start over from the doc
+  if (baseVersion < file.snapshotVersion || baseVersion > file.version) {
+    return { ...payload, snapshot: { content: file.content, version: file.version } };
   }
-  return result;
+  return { ...payload, changes: entriesSince(file, baseVersion) };
 }
 
-function transformAgainst(opA: TextOperationPayload[], opB: TextOperationPayload[]): TextOperationPayload[] {
-  const a = [...opA];
-  const b = [...opB];
-  const result: TextOperationPayload[] = [];
-  let i = 0, j = 0;
-  let aOffset = 0, bOffset = 0;
-
-  const pushRetain = (len: number) => {
-    if (len <= 0) return;
-    const prev = result[result.length - 1];
-    if (prev && prev.type === 'retain') prev.length = (prev.length || 0) + len;
-    else result.push({ type: 'retain', length: len });
-  };
-  const pushInsert = (text: string) => {
-    if (!text) return;
-    const prev = result[result.length - 1];
-    if (prev && prev.type === 'insert') prev.text = (prev.text || '') + text;
-    else result.push({ type: 'insert', text });
-  };
-  const pushDelete = (len: number) => {
-    if (len <= 0) return;
-    const prev = result[result.length - 1];
-    if (prev && prev.type === 'delete') prev.length = (prev.length || 0) + len;
-    else result.push({ type: 'delete', length: len });
-  };
-
-  let aOp = a[i];
-  let bOp = b[j];
-  while (aOp || bOp) {
-    if (bOp && bOp.type === 'insert') {
-      pushRetain((bOp.text || '').length - bOffset);
-      j++; bOp = b[j]; bOffset = 0;
-      continue;
-    }
-    if (aOp && aOp.type === 'insert') {
-      pushInsert((aOp.text || '').slice(aOffset));
-      i++; aOp = a[i]; aOffset = 0;
-      continue;
-    }
-    const aLen = aOp ? (aOp.type !== 'insert' ? (aOp.length || 0) - aOffset : 0) : 0;
-    const bLen = bOp ? (bOp.type !== 'insert' ? (bOp.length || 0) - bOffset : 0) : 0;
-    if (!bOp || bOp.type === 'retain') {
-      if (aOp && aOp.type === 'retain') { pushRetain(aLen); i++; aOp = a[i]; aOffset = 0; }
-      else if (aOp && aOp.type === 'delete') { pushDelete(aLen); i++; aOp = a[i]; aOffset = 0; }
-      else { j++; bOp = b[j]; bOffset = 0; }
-    } else if (bOp.type === 'delete') {
-      const consume = Math.min(aLen, bLen);
-      if (aOp && aOp.type === 'retain') {
-        aOffset += consume;
-      } else if (aOp && aOp.type === 'delete') {
-        aOffset += consume;
-      }
-      if (aOffset === (aOp?.length || 0)) { i++; aOp = a[i]; aOffset = 0; }
-      if (consume === bLen) { j++; bOp = b[j]; bOffset = 0; } else { bOffset += consume; }
+// Who asked, for calls made on a client's behalf; replies reach its socket on whichever instance it is connected to
+interface Requester {
+  socketId: string;
+}
+
+interface ServerEdit {
+  operations: TextOperationPayload[];
+  baseVersion: number | null; // Set for the doc the operations were computed against
+  baseContent: string;
+  result: string; // The edited content, for docs that drifted from baseContent
+  author: { userId: string; userName?: string };
+}
+
+async function applyClientChange(
+  io: EditorServer,
+  roomId: string,
+  fileId: string,
+  { socketId, change }: Requester & { change: CollaborativeChangePayload }
+): Promise<void> {
+  const canonical = await loadCanonical(roomId, fileId);
+  if (!canonical) return;
+  const { operations, baseVersion } = change;
+
+  // What it would be transformed against was compacted away, so the client rebases on the doc
+  if (baseVersion < canonical.snapshotVersion) {
+    io.to(socketId).emit("collaborative-catch-up", catchUpFor(fileId, canonical, baseVersion));
+    return;
+  }
+  const missed = entriesSince(canonical, baseVersion);
+  // Resent after a reconnect, though it had gone through
+  const applied = change.id ? missed.find(entry => entry.id === change.id) : undefined;
+  if (applied) {
+    io.to(socketId).emit("collaborative-change-ack", { fileId, ackVersion: applied.version, operations: applied.operations });
+    return;
+  }
+
+  // Transform only against operations AFTER the client's baseVersion
+  let transformed = operations;
+  for (const entry of missed) {
+    transformed = transformOperations(transformed, entry.operations);
+  }
+
+  const newContent = applyOperations(canonical.content, transformed);
+  const oldVersion = canonical.version;
+  canonical.version = oldVersion + 1;
+  canonical.content = newContent;
+  logChange(roomId, fileId, canonical, { id: change.id, operations: transformed, version: canonical.version });
+  forwardToCrdt(io, roomId, fileId, transformed);
+
+  io.to(socketId).emit("collaborative-change-ack", { fileId, ackVersion: canonical.version, operations: transformed });
+  io.to(roomId).except(socketId).emit("collaborative-change", {
+    ...change,
+    serverApplied: false,
+    operations: transformed,
+    baseVersion: oldVersion,
+    appliedVersion: canonical.version,
+  });
+}
+
+// Canonical docs are seeded from storage, so only a newer version pushed by a client replaces one
+async function applyClientSync(
+  io: EditorServer,
+  roomId: string,
+  fileId: string,
+  { socketId, content, version }: Requester & { content: string; version: unknown }
+): Promise<boolean> {
+  const canonical = await loadCanonical(roomId, fileId);
+  if (!canonical) return false;
+  if (typeof version === 'number' && version > canonical.version) {
+    const operations = replaceAllOperations(canonical.content, content);
+    forwardToCrdt(io, roomId, fileId, diffOperations(canonical.content, content));
+    canonical.content = content;
+    canonical.version = version;
+    logChange(roomId, fileId, canonical, { operations, version });
+  }
+  io.to(roomId).except(socketId).emit("file-sync", { fileId, content: canonical.content, version: canonical.version });
+  return true;
+}
+
+function applyServerEdit(io: EditorServer, roomId: string, fileId: string, edit: ServerEdit): string | null {
+  const file = roomDocuments.get(roomId)?.get(fileId);
+  if (!file) return null;
+
+  let fileOperations = edit.operations;
+  if (edit.baseVersion !== null) {
+    for (const entry of entriesSince(file, edit.baseVersion)) {
+      fileOperations = transformOperations(fileOperations, entry.operations);
     }
+  } else if (file.content !== edit.baseContent) {
+    fileOperations = replaceAllOperations(file.content, edit.result);
+  }
+
+  const id = `server-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const baseVersion = file.version;
+  file.content = applyOperations(file.content, fileOperations);
+  file.version = baseVersion + 1;
+  logChange(roomId, fileId, file, { id, operations: fileOperations, version: file.version });
+  forwardToCrdt(io, roomId, fileId, fileOperations);
+
+  io.to(roomId).emit("collaborative-change", {
+    id,
+    userId: edit.author.userId,
+    userName: edit.author.userName,
+    fileId,
+    operations: fileOperations,
+    baseVersion,
+    appliedVersion: file.version,
+    timestamp: Date.now(),
+    roomId,
+    serverApplied: true,
+  });
+  return file.content;
+}
+
+function resetDocument(io: EditorServer, roomId: string, fileId: string, { content, version }: { content: string; version: number }): void {
+  const file = roomDocuments.get(roomId)?.get(fileId);
+  if (!file) return;
+  const operations = replaceAllOperations(file.content, content);
+  forwardToCrdt(io, roomId, fileId, diffOperations(file.content, content));
+  file.content = content;
+  file.version = version;
+  logChange(roomId, fileId, file, { operations, version });
+  io.to(roomId).emit("file-sync", { fileId, content, version });
+}
+
+// Run by the doc's owner, wherever the request came in
+clusterService.handleDocumentCall("editor:change", applyClientChange);
+clusterService.handleDocumentCall("editor:sync", applyClientSync);
+clusterService.handleDocumentCall("editor:server-edit", applyServerEdit);
+clusterService.handleDocumentCall("editor:reset", resetDocument);
+clusterService.handleDocumentCall("editor:close", (io, roomId, fileId) => unloadDocument(roomId, fileId));
+clusterService.handleDocumentCall("editor:catch-up", async (io, roomId, fileId, { socketId, baseVersion }: Requester & { baseVersion: number }) => {
+  const canonical = await loadCanonical(roomId, fileId);
+  if (canonical) io.to(socketId).emit("collaborative-catch-up", catchUpFor(fileId, canonical, baseVersion));
+});
+clusterService.handleDocumentCall("editor:file-sync", async (io, roomId, fileId, { socketId }: Requester) => {
+  const canonical = await loadCanonical(roomId, fileId);
+  if (canonical) io.to(socketId).emit("file-sync", { fileId, content: canonical.content, version: canonical.version });
+});
+clusterService.handleDocumentCall("editor:snapshot", (io, roomId, fileId) => {
+  const file = roomDocuments.get(roomId)?.get(fileId);
+  return file ? { content: file.content, version: file.version } : null;
+});
+
+// Run by every instance, for the docs of the room it owns
+clusterService.handleInstanceCall("editor:flush-room", (io, roomId: string) =>
+  Promise.all([...(roomDocuments.get(roomId)?.keys() || [])].map(fileId => collaborationPersistenceService.flush(roomId, fileId)))
+);
+
+export interface CanonicalSnapshot {
+  fileId: string;
+  content: string;
+  version: number;
+}
+
+/**
+ * The freshest live copy of a file among the ids editors know it by, or
+ * null when nobody has it open.
+ */
+export async function getCanonicalSnapshot(roomId: string, fileIds: string[]): Promise<CanonicalSnapshot | null> {
+  const copies = await Promise.all(fileIds.map(fileId =>
+    clusterService.callOwner<{ content: string; version: number } | null>(roomId, fileId, "editor:snapshot", {}, { open: false })
+  ));
+  let snapshot: CanonicalSnapshot | null = null;
+  copies.forEach((copy, index) => {
+    if (copy && (!snapshot || copy.version > snapshot.version)) snapshot = { fileId: fileIds[index], ...copy };
+  });
+  return snapshot;
+}
+
+/**
+ * Replace a file's canonical content from outside the editor, e.g. when a
+ * version is restored. Every open id in `fileIds` moves to the same new
+ * version and is sent to the editors that have it; the replacement is
+ * logged so changes based on older versions still transform against it.
+ * Ids nobody has open load the new content from storage when opened.
+ * Returns the new version.
+ */
+export async function resetCanonicalContent(roomId: string, fileIds: string[], content: string): Promise<number> {
+  const current = await getCanonicalSnapshot(roomId, fileIds);
+  const version = (current?.version ?? 0) + 1;
+  await Promise.all(fileIds.map(fileId =>
+    clusterService.callOwner(roomId, fileId, "editor:reset", { content, version }, { open: false })
+  ));
+  return version;
+}
+
+/**
+ * Close a file's docs once it was removed from outside the editor. Edits
+ * still being made to them are dropped rather than written back.
+ */
+export async function closeCanonicalContent(roomId: string, fileIds: string[]): Promise<void> {
+  await Promise.all(fileIds.map(fileId => clusterService.callOwner(roomId, fileId, "editor:close", {}, { open: false })));
+}
+
+/**
+ * Checkpoint every open doc of a room, wherever it runs, so its stored files
+ * hold what editors show, e.g. before version control reads them.
+ */
+export function flushRoomDocuments(roomId: string): Promise<void> {
+  return clusterService.callEverywhere("editor:flush-room", roomId);
+}
+
+/**
+ * Apply an edit made on the server (e.g. replace in files) to every open
+ * copy of a file and broadcast it as a collaborative change. `base` is what
+ * the operations were computed against: a snapshot from
+ * getCanonicalSnapshot, or the stored content with no fileId. Edits that
+ * landed since the snapshot are transformed against, like a client change
+ * with an old baseVersion. Resolves to the resulting content.
+ */
+export async function applyServerChange(
+  roomId: string,
+  fileIds: string[],
+  base: { fileId?: string; content: string; version: number },
+  operations: TextOperationPayload[],
+  author: { userId: string; userName?: string }
+): Promise<string> {
+  let result = applyOperations(base.content, operations);
+
+  // The snapshot's own doc goes first, so the others can fall back to its result
+  const ordered = base.fileId ? [base.fileId, ...fileIds.filter(fileId => fileId !== base.fileId)] : fileIds;
+  for (const fileId of ordered) {
+    const edit: ServerEdit = {
+      operations,
+      baseVersion: fileId === base.fileId ? base.version : null,
+      baseContent: base.content,
+      result,
+      author,
+    };
+    const content = await clusterService.callOwner<string | null>(roomId, fileId, "editor:server-edit", edit, { open: false });
+    if (fileId === base.fileId && typeof content === "string") result = content;
   }
+
   return result;
 }
 
-export function registerEditorHandlers(
-  io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
-): void {
-  socket.on("collaborative-change", (data: CollaborativeChangePayload) => {
-    const { roomId } = socket.data || {};
-    if (!roomId) return;
-    const { fileId, operations, baseVersion } = data;
-    const canonical = getCanonical(socket, fileId);
-    if (!canonical) return;
-
-    let transformed = operations;
-    if (baseVersion < canonical.version) {
-      for (const entry of canonical.operationsLog) {
-        // Transform only against operations AFTER the client's baseVersion
-        if (entry.version > baseVersion) {
-          transformed = transformAgainst(transformed, entry.operations);
-        }
-      }
-    }
+/**
+ * Bring a canonical doc up to date with a text change a client made through
+ * the file's CRDT document, so checkpoints, search and AI edits see it.
+ * Runs on the doc's owner, which has the CRDT document too.
+ */
+export function applyCrdtChange(roomId: string, fileId: string, operations: TextOperationPayload[]): void {
+  const file = roomDocuments.get(roomId)?.get(fileId);
+  if (!file || !operations.length) return;
+  file.content = applyOperations(file.content, operations);
+  file.version += 1;
+  logChange(roomId, fileId, file, { operations, version: file.version });
+}
+
+export function registerEditorHandlers(io: EditorServer, socket: EditorSocket): void {
+  socket.on("collaborative-change", async (data: CollaborativeChangePayload) => {
+    await callDocumentOwner(socket, data?.fileId, "editor:change", { change: data });
+    updateUserActivity(socket.id);
+  });
 
-    const newContent = applyOperations(canonical.content, transformed);
-    const oldVersion = canonical.version;
-    canonical.version = oldVersion + 1;
-    canonical.content = newContent;
-    canonical.operationsLog.push({ operations: transformed, version: canonical.version });
-
-    socket.emit("collaborative-change-ack", { fileId, ackVersion: canonical.version });
-    socket.to(roomId).emit("collaborative-change", {
-      ...data,
-      operations: transformed,
-      baseVersion: oldVersion,
-      appliedVersion: canonical.version,
-    });
+  // A client coming back (e.g. after reconnecting) fetches what it missed
+  socket.on("request-catch-up", async (data: CatchUpRequestPayload) => {
+    if (typeof data?.baseVersion !== 'number') return;
+    await callDocumentOwner(socket, data.fileId, "editor:catch-up", { baseVersion: data.baseVersion });
     updateUserActivity(socket.id);
   });
 
@@ -174,38 +430,18 @@ export function registerEditorHandlers(
     updateUserActivity(socket.id);
   });
 
-  socket.on("request-file-sync", (data: { fileId: string }) => {
-    const { roomId } = socket.data || {};
-    if (!roomId) return;
-    const canonical = getCanonical(socket, data.fileId);
-    if (!canonical) return;
-    socket.emit("file-sync", {
-      fileId: data.fileId,
-      content: canonical.content,
-      version: canonical.version,
-    });
+  socket.on("request-file-sync", async (data: { fileId: string }) => {
+    await callDocumentOwner(socket, data?.fileId, "editor:file-sync");
     updateUserActivity(socket.id);
   });
 
-  socket.on("file-sync", (data: any) => {
+  socket.on("file-sync", async (data: any) => {
     const { roomId } = socket.data || {};
     if (!roomId) return;
     const { fileId, content, version } = data || {};
-    if (fileId && typeof content === 'string') {
-      const canonical = getCanonical(socket, fileId);
-      if (canonical) {
-        // Seed canonical if empty, or accept newer version
-        if ((canonical.version === 0 && canonical.content === "") || (typeof version === 'number' && version > canonical.version)) {
-          canonical.content = content;
-          canonical.version = typeof version === 'number' ? version : canonical.version;
-        }
-        socket.to(roomId).emit("file-sync", { fileId, content: canonical.content, version: canonical.version });
-        updateUserActivity(socket.id);
-        return;
-      }
-    }
+    const synced = typeof content === 'string' && await callDocumentOwner<boolean>(socket, fileId, "editor:sync", { content, version });
     // Fallback: just forward
-    socket.to(roomId).emit("file-sync", data);
+    if (!synced) socket.to(roomId).emit("file-sync", data);
     updateUserActivity(socket.id);
   });
 
@@ -0,0 +1,259 @@
+import { Server, Socket } from "socket.io";
+import { PassThrough } from "stream";
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  InterServerEvents,
+  SocketData,
+  ExecutionStartPayload,
+  ExecutionStartAck,
+  ExecutionOutputPayload,
+} from "../../types/socket";
+import { ExecutionOptions, ExecutionResult } from "../../types/execution";
+import { Room } from "../../database/models";
+import { executionService } from "../../services/executionService";
+import { toRunConfiguration } from "../../routes/runConfigurations";
+import { EXECUTION_RATE_LIMIT, executionRateStore } from "../../routes/execution";
+import { EXECUTION_MAX_SOURCE_LENGTH } from "../../config/constants";
+import { updateUserActivity } from "../../utils/userHelpers";
+import { getSocketUser } from "../middleware/auth";
+
+// Output is coalesced so chatty programs don't emit one event per write
+const OUTPUT_FLUSH_INTERVAL_MS = 50;
+const MAX_CONCURRENT_EXECUTIONS_PER_USER = 2;
+const MAX_INPUT_CHUNK_LENGTH = 4096;
+
+interface ActiveExecution {
+  controller: AbortController;
+  userId: string;
+  socketId: string;
+  roomId?: string;
+  shared: boolean;
+  input?: PassThrough; // Present for interactive runs only
+  echo?: (chunk: string, userName: string) => void;
+}
+
+const activeExecutions: Map<string, ActiveExecution> = new Map();
+// Starts still being checked, per user; they count towards the limit like running executions
+const startingExecutions: Map<string, number> = new Map();
+
+const releaseStart = (userId: string) => {
+  const starting = (startingExecutions.get(userId) || 0) - 1;
+  if (starting > 0) startingExecutions.set(userId, starting);
+  else startingExecutions.delete(userId);
+};
+
+interface PreparedExecution {
+  fileName: string;
+  language: string;
+  start: (options: ExecutionOptions) => Promise<ExecutionResult>;
+}
+
+/**
+ * Validate a start request and bind it to the right service call.
+ * Throws with a user-facing message when the run can't go ahead.
+ */
+async function prepareExecution(
+  data: ExecutionStartPayload,
+  userId: string,
+  roomId: string | undefined
+): Promise<PreparedExecution> {
+  const { stdin } = data;
+  if (stdin !== undefined && typeof stdin !== "string") {
+    throw new Error("stdin must be a string");
+  }
+
+  if (data.configurationId) {
+    if (!roomId) {
+      throw new Error("Join a room to run its configurations");
+    }
+    const room = await Room.findOne({ id: roomId }).select("participantList runConfigurations");
+    if (!room) {
+      throw new Error("Room not found");
+    }
+    if (!room.participantList.some(p => p.userId.toString() === userId)) {
+      throw new Error("Not a participant of this room");
+    }
+    const config = (room.runConfigurations || []).find(c => c._id.toString() === data.configurationId);
+    if (!config) {
+      throw new Error("Run configuration not found");
+    }
+
+    const configuration = toRunConfiguration(config);
+    return {
+      fileName: configuration.name,
+      language: configuration.language,
+      start: options => executionService.executeProject({ roomId, userId, configuration, stdin }, options),
+    };
+  }
+
+  const { language, code, fileName } = data;
+  if (!language || typeof language !== "string") {
+    throw new Error("Language is required and must be a string");
+  }
+  if (typeof code !== "string" || !code.trim()) {
+    throw new Error("Code is required and must be a string");
+  }
+  if (code.length > EXECUTION_MAX_SOURCE_LENGTH) {
+    throw new Error("Source code is too large to execute");
+  }
+
+  const runtime = executionService.getRuntimes().find(r => r.language === language);
+  if (!runtime) {
+    throw new Error(`Unsupported language: ${language}`);
+  }
+  if (!runtime.available) {
+    throw new Error(`Runtime for ${runtime.label} is not installed on this server`);
+  }
+
+  const name = typeof fileName === "string" && fileName ? fileName : `main.${runtime.extension}`;
+  return {
+    fileName: name,
+    language,
+    start: options => executionService.execute({ language, code, fileName: name, stdin, userId, roomId }, options),
+  };
+}
+
+export function registerExecutionHandlers(
+  io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+  socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+): void {
+  socket.on("execution-start", async (data, ack) => {
+    const respond = typeof ack === "function" ? ack : (_response: ExecutionStartAck) => {};
+
+    // Running code needs a verified identity, not just the userId sent on joinRoom
+    const user = getSocketUser(socket);
+    if (!user) {
+      respond({ success: false, error: "Authentication required" });
+      return;
+    }
+
+    // The slot is taken before anything is awaited, so a burst of starts can't all get past the limit
+    const starting = startingExecutions.get(user.id) || 0;
+    const running = [...activeExecutions.values()].filter(e => e.userId === user.id).length + starting;
+    if (running >= MAX_CONCURRENT_EXECUTIONS_PER_USER) {
+      respond({ success: false, error: "Too many executions running. Wait for one to finish." });
+      return;
+    }
+    startingExecutions.set(user.id, starting + 1);
+
+    const { roomId, userName } = socket.data || {};
+    let prepared: PreparedExecution;
+    try {
+      // Same per-user budget as POST /api/execute
+      const { totalHits } = await executionRateStore.increment(user.id);
+      if (totalHits > EXECUTION_RATE_LIMIT) {
+        respond({ success: false, error: "Too many execution requests. Please try again later." });
+        return;
+      }
+      prepared = await prepareExecution(data || {}, user.id, roomId);
+    } catch (error) {
+      respond({ success: false, error: error instanceof Error ? error.message : "Failed to start execution" });
+      return;
+    } finally {
+      // Handed over to activeExecutions below, with nothing awaited in between
+      releaseStart(user.id);
+    }
+
+    const interactive = data?.interactive === true;
+    const shared = interactive && data?.shared === true;
+
+    const executionId = executionService.generateExecutionId();
+    const controller = new AbortController();
+    const input = interactive ? new PassThrough() : undefined;
+    const execution: ActiveExecution = { controller, userId: user.id, socketId: socket.id, roomId, shared, input };
+    activeExecutions.set(executionId, execution);
+    respond({ success: true, executionId });
+
+    // The whole room watches batch runs and shared terminals; private terminals
+    // and runs outside a room only go back to the caller
+    const watchers = io.to((!interactive || shared) && roomId ? roomId : socket.id);
+
+    const pending: { stream: ExecutionOutputPayload["stream"]; chunk: string; userName?: string }[] = [];
+    let flushTimer: NodeJS.Timeout | null = null;
+    const flush = () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = null;
+      pending.splice(0).forEach(({ stream, chunk, userName }) => {
+        watchers.emit("execution-output", { executionId, stream, chunk, userName });
+      });
+    };
+    const onOutput = (stream: ExecutionOutputPayload["stream"], chunk: string, userName?: string) => {
+      const last = pending[pending.length - 1];
+      if (last && last.stream === stream && last.userName === userName) last.chunk += chunk;
+      else pending.push({ stream, chunk, userName });
+      if (!flushTimer) flushTimer = setTimeout(flush, OUTPUT_FLUSH_INTERVAL_MS);
+    };
+    // Typed input goes through the same buffer so it stays ordered with the output
+    execution.echo = (chunk, name) => onOutput("stdin", chunk, name);
+
+    watchers.emit("execution-started", {
+      executionId,
+      roomId,
+      userId: user.id,
+      userName: userName || user.name,
+      fileName: prepared.fileName,
+      language: prepared.language,
+      interactive,
+      shared,
+      timestamp: new Date().toISOString(),
+    });
+    updateUserActivity(socket.id);
+
+    try {
+      const result = await prepared.start({ id: executionId, signal: controller.signal, input, onOutput });
+      flush();
+      watchers.emit("execution-finished", { executionId, result });
+    } catch (error) {
+      flush();
+      console.error(`Execution ${executionId} failed:`, error);
+      watchers.emit("execution-finished", {
+        executionId,
+        error: error instanceof Error ? error.message : "Failed to execute code",
+      });
+    } finally {
+      input?.end();
+      activeExecutions.delete(executionId);
+    }
+  });
+
+  // Resolve an interactive execution this socket is allowed to type into
+  const findWritableExecution = (executionId: string): ActiveExecution | null => {
+    const execution = activeExecutions.get(executionId);
+    if (!execution?.input || execution.input.writableEnded) return null;
+    const user = getSocketUser(socket);
+    if (!user) return null;
+    if (execution.userId === user.id) return execution;
+    // Shared sessions accept input from anyone in the same room, like cursor-update
+    const inSameRoom = Boolean(execution.roomId) && socket.data?.roomId === execution.roomId;
+    return execution.shared && inSameRoom ? execution : null;
+  };
+
+  socket.on("execution-input", ({ executionId, data } = { executionId: "", data: "" }) => {
+    if (typeof data !== "string" || !data || data.length > MAX_INPUT_CHUNK_LENGTH) return;
+    const execution = findWritableExecution(executionId);
+    if (!execution) return;
+    execution.input!.write(data);
+    execution.echo?.(data, socket.data?.userName || "");
+    updateUserActivity(socket.id);
+  });
+
+  // End of input (Ctrl+D): the program sees EOF on stdin
+  socket.on("execution-input-end", ({ executionId } = { executionId: "" }) => {
+    findWritableExecution(executionId)?.input!.end();
+  });
+
+  socket.on("execution-cancel", ({ executionId } = { executionId: "" }) => {
+    const execution = activeExecutions.get(executionId);
+    const user = getSocketUser(socket);
+    if (!execution || !user || execution.userId !== user.id) return;
+    execution.controller.abort();
+  });
+
+  // Like an HTTP run, an execution doesn't outlive the connection that started it
+  socket.on("disconnect", () => {
+    activeExecutions.forEach(execution => {
+      if (execution.socketId === socket.id) execution.controller.abort();
+    });
+  });
+}
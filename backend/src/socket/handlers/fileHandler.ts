@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import { Server, Socket } from "socket.io";
 import {
   ServerToClientEvents,
@@ -6,26 +7,30 @@ import {
   SocketData,
 } from "../../types/socket";
 import { updateUserCurrentFile, updateUserActivity } from "../../utils/userHelpers";
+import { clusterService } from "../../services/clusterService";
 
-// Simple in-memory lock set per room for destructive ops
-const roomFileLocks: Map<string, Set<string>> = new Map();
+// Locks for destructive ops live in the state store, so they hold across instances; one
+// whose holder died expires after this long
+const FILE_LOCK_TTL_MS = 30000;
 
-function lockFile(roomId: string, pathOrId: string): boolean {
-  let locks = roomFileLocks.get(roomId);
-  if (!locks) {
-    locks = new Set();
-    roomFileLocks.set(roomId, locks);
+const lockKey = (roomId: string, pathOrId: string) => `file-lock:${roomId}:${pathOrId}`;
+
+// The lock's token, or null when someone else holds it (or the store can't be reached)
+async function lockFile(roomId: string, pathOrId: string): Promise<string | null> {
+  const token = randomUUID();
+  try {
+    return (await clusterService.getStore().setIfAbsent(lockKey(roomId, pathOrId), token, FILE_LOCK_TTL_MS)) ? token : null;
+  } catch (error) {
+    console.error(`Failed to lock ${pathOrId} in room ${roomId}:`, error);
+    return null;
   }
-  if (locks.has(pathOrId)) return false;
-  locks.add(pathOrId);
-  return true;
 }
 
-function unlockFile(roomId: string, pathOrId: string): void {
-  const locks = roomFileLocks.get(roomId);
-  if (locks) {
-    locks.delete(pathOrId);
-    if (locks.size === 0) roomFileLocks.delete(roomId);
+async function unlockFile(roomId: string, pathOrId: string, token: string): Promise<void> {
+  try {
+    await clusterService.getStore().deleteIfEquals(lockKey(roomId, pathOrId), token);
+  } catch (error) {
+    console.error(`Failed to unlock ${pathOrId} in room ${roomId}:`, error);
   }
 }
 
@@ -53,14 +58,15 @@ export function registerFileHandlers(
     if (!roomId) return;
     const key = data.filePath || data.fileName;
     if (!key) return;
-    if (!lockFile(roomId, key)) {
+    const lock = await lockFile(roomId, key);
+    if (!lock) {
       socket.emit("error", { message: "File is locked for delete by another user" });
       return;
     }
     try {
       socket.to(roomId).emit("fileDelete", data);
     } finally {
-      unlockFile(roomId, key);
+      await unlockFile(roomId, key, lock);
     }
     updateUserActivity(socket.id);
   });
@@ -112,14 +118,15 @@ export function registerFileHandlers(
     if (!roomId) return;
     const key = data.oldPath || data.filePath;
     if (!key) return;
-    if (!lockFile(roomId, key)) {
+    const lock = await lockFile(roomId, key);
+    if (!lock) {
       socket.emit("error", { message: "File is locked for rename by another user" });
       return;
     }
     try {
       socket.to(roomId).emit("file-renamed", data);
     } finally {
-      unlockFile(roomId, key);
+      await unlockFile(roomId, key, lock);
     }
     updateUserActivity(socket.id);
   });
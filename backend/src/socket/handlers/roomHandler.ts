@@ -10,7 +10,7 @@ import { UserStatus } from "../../types/user";
 import {
   addUser,
   removeUser,
-  getUsersInRoom,
+  getRoomParticipants,
   updateUserActivity,
 } from "../../utils/userHelpers";
 import { User, Room } from "../../database/models";
@@ -80,7 +80,7 @@ export function registerRoomHandlers(
         timestamp,
       });
 
-      const participants = getUsersInRoom(roomId);
+      const participants = await getRoomParticipants(roomId);
       io.to(roomId).emit("roomParticipants", participants);
     } catch (error) {
       socket.emit("error", { message: "Failed to join room" });
@@ -113,7 +113,7 @@ export function registerRoomHandlers(
         timestamp: new Date().toISOString(),
       });
 
-      const participants = getUsersInRoom(roomId);
+      const participants = await getRoomParticipants(roomId);
       io.to(roomId).emit("roomParticipants", participants);
     } catch {}
   });
@@ -0,0 +1,27 @@
+import jwt from "jsonwebtoken";
+import { Socket } from "socket.io";
+import { JWT_SECRET } from "../../config/constants";
+
+// Shape of the token issued by /api/auth/login and /api/auth/register
+export interface SocketUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/**
+ * Verify the JWT the client sends in its handshake (`auth.token`).
+ * Returns null when the token is missing, expired or malformed.
+ */
+export function getSocketUser(socket: Socket<any, any, any, any>): SocketUser | null {
+  const token = socket.handshake.auth?.token;
+  if (!token || typeof token !== "string") return null;
+
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as Partial<SocketUser>;
+    if (!payload.id) return null;
+    return { id: String(payload.id), email: payload.email || "", name: payload.name || "" };
+  } catch {
+    return null;
+  }
+}
@@ -11,6 +11,10 @@ import { registerFileHandlers } from "./handlers/fileHandler";
 import { registerEditorHandlers } from "./handlers/editorHandler";
 import { registerMessageHandlers } from "./handlers/messageHandler";
 import { registerChatHandlers } from "./handlers/chatHandler";
+import { registerExecutionHandlers } from "./handlers/executionHandler";
+import { registerAIThreadHandlers } from "./handlers/aiThreadHandler";
+import { registerCrdtHandlers } from "./handlers/crdtHandler";
+import { clusterService } from "../services/clusterService";
 
 /**
  * Initialize all socket event handlers
@@ -18,7 +22,9 @@ import { registerChatHandlers } from "./handlers/chatHandler";
 export function initializeSocketHandlers(
   io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
 ): void {
-  
+  // Calls from other instances for the documents this one runs
+  clusterService.attach(io);
+
   // Configure socket.io server with better connection handling
   io.engine.on("connection_error", (err) => {
     console.log("Socket connection error:", err.req);
@@ -58,6 +64,9 @@ export function initializeSocketHandlers(
     registerEditorHandlers(io, socket);
     registerMessageHandlers(io, socket);
     registerChatHandlers(io, socket);
+    registerExecutionHandlers(io, socket);
+    registerAIThreadHandlers(io, socket);
+    registerCrdtHandlers(io, socket);
 
     socket.on("disconnect", () => {
       isConnected = false;
@@ -5,12 +5,21 @@ export interface AICompletionRequest {
   userId: string;
   cursorPosition?: number;
   fileContent?: string;
+  // Fill in the middle: the text before and after the cursor, used instead of content
+  prefix?: string;
+  suffix?: string;
+  path?: string; // The file being edited, for the conventions its name implies
+  provider?: string;
+  model?: string; // A model id or name; defaults to the configured model
 }
 
 export interface AICompletionResponse {
   suggestions: string[];
   confidence: number;
   model: string;
+  provider: AIProviderName;
+  usage: AIUsage;
+  cached?: boolean; // Answered from the completion cache, without using the model
   timestamp: string;
 }
 
@@ -19,6 +28,11 @@ export interface AIChatRequest {
   context?: string;
   conversationId?: string;
   userId: string;
+  roomId?: string;
+  provider?: string;
+  model?: string;
+  history?: AIConversationTurn[]; // Earlier turns of the conversation, oldest first
+  contextFiles?: AIContextFile[]; // Room files to ground the reply in
   attachments?: {
     fileId: string;
     content: string;
@@ -29,6 +43,253 @@ export interface AIChatRequest {
 export interface AIChatResponse {
   response: string;
   conversationId: string;
+  title?: string; // Set when the conversation is persisted
+  sources?: AISource[]; // Room files given to the model
   model: string;
+  provider: AIProviderName;
+  usage: AIUsage;
   timestamp: string;
 }
+
+// Tokens a request used, estimated from the prompt and reply text
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type AIProviderName = "gemini" | "openai" | "mock";
+
+// What a prompt is for; providers may tune sampling per purpose
+export type AIPromptPurpose = "completion" | "chat" | "edit" | "review";
+
+export interface AIGenerateRequest {
+  model: string;
+  prompt: string;
+  purpose: AIPromptPurpose;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly label: string;
+  // Check the backend is reachable; may fill in the model list
+  initialize(): Promise<void>;
+  getModels(): string[];
+  generate(request: AIGenerateRequest): Promise<string>;
+  // Yields the reply in pieces as the model produces it; stops when the signal aborts
+  generateStream(request: AIGenerateRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export interface AIModelInfo {
+  id: string; // "<provider>:<model>"
+  provider: AIProviderName;
+  name: string;
+  available: boolean; // Whether the provider connected
+}
+
+export interface AIConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface AIConversationMessage extends AIConversationTurn {
+  model?: string;
+  provider?: string;
+  timestamp: string;
+}
+
+export interface AIConversationSummary {
+  id: string;
+  title: string;
+  roomId: string | null;
+  messageCount: number;
+  lastMessage?: string; // Clipped preview
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIConversationDetail extends Omit<AIConversationSummary, "lastMessage"> {
+  messages: AIConversationMessage[];
+}
+
+// Why a room file was added to the prompt
+export type AIContextReason = "open" | "import" | "match";
+
+export interface AIContextFile {
+  fileId: string;
+  path: string;
+  reason: AIContextReason;
+  content: string; // The whole file, or an excerpt when truncated
+  startLine: number; // 1-based line the content starts at
+  truncated: boolean;
+}
+
+export interface AISource {
+  fileId: string;
+  path: string;
+  reason: AIContextReason;
+  cited: boolean; // Whether the reply mentions the file
+}
+
+export interface AIEditRequest {
+  message: string;
+  userId: string;
+  roomId: string;
+  provider?: string;
+  model?: string;
+  contextFiles?: AIContextFile[]; // Room files the edit may touch
+}
+
+export interface AIEditHunk {
+  oldStart: number; // 1-based line in the file the hunk was written against
+  lines: string[]; // Each prefixed with " ", "-" or "+"
+}
+
+export interface AIProposedHunk extends AIEditHunk {
+  applies: boolean; // Whether the hunk fits the file as it is now
+}
+
+export interface AIProposedFileEdit {
+  path: string;
+  fileId: string | null; // null when the edit creates the file
+  hunks: AIProposedHunk[];
+}
+
+export interface AIEditProposal {
+  summary: string; // The model's explanation, without the diff
+  files: AIProposedFileEdit[];
+  skipped: { path: string; reason: string }[]; // File patches that cannot be offered
+  model: string;
+  provider: AIProviderName;
+  timestamp: string;
+}
+
+// The accepted hunks of one file, sent back to be applied
+export interface AIEditApplyFile {
+  path: string;
+  create: boolean; // The file is new; fails if the path is taken by now
+  hunks: AIEditHunk[];
+}
+
+export interface AIEditApplyResponse {
+  files: {
+    path: string;
+    fileId: string | null;
+    created: boolean;
+    hunks: number;
+    version?: number; // Version saved for an existing file
+  }[];
+}
+
+export type AIReviewScope = "changes" | "selection";
+
+export type AIReviewSeverity = "error" | "warning" | "info";
+
+// Lines of a room file sent for review, numbered as the file is now
+export interface AIReviewTarget {
+  path: string;
+  fileId: string;
+  startLine: number; // 1-based
+  endLine: number;
+  lines: string[]; // Each prefixed with " " (context), "+" (to review) or "-" (removed, no longer in the file)
+}
+
+export interface AIReviewRequest {
+  userId: string;
+  roomId: string;
+  scope: AIReviewScope;
+  provider?: string;
+  model?: string;
+  targets: AIReviewTarget[];
+}
+
+// A finding as the model wrote it, before it is checked against the reviewed lines
+export interface AIReviewComment {
+  path: string;
+  startLine: number;
+  endLine: number;
+  severity: AIReviewSeverity;
+  message: string;
+  fix?: string; // Replacement for lines startLine to endLine
+}
+
+export interface AIReviewFinding extends AIReviewComment {
+  id: string;
+  fileId: string;
+  original: string; // The lines as reviewed; a fix applies only while they are unchanged
+}
+
+export interface AIReviewResult {
+  scope: AIReviewScope;
+  summary: string; // The model's overview, without the findings
+  findings: AIReviewFinding[]; // By file, then line
+  files: string[]; // Paths reviewed
+  skipped: { path: string; reason: string }[]; // Files left out of the review
+  model: string;
+  provider: AIProviderName;
+  timestamp: string;
+}
+
+// Who may ask in a room's shared AI thread, spending AI quota
+export type RoomAIAskPolicy = "everyone" | "admins" | "owner";
+
+export interface RoomAISettings {
+  sharedThread: boolean;
+  askPolicy: RoomAIAskPolicy;
+}
+
+export interface RoomAIThreadMessage {
+  id: string;
+  role: "user" | "assistant";
+  userId: string;
+  userName: string;
+  content: string;
+  model?: string;
+  provider?: string;
+  status: "complete" | "cancelled" | "failed";
+  replyTo?: string;
+  timestamp: string;
+}
+
+export interface RoomAIThread {
+  settings: RoomAISettings;
+  messages: RoomAIThreadMessage[]; // Oldest first
+  canAsk: boolean; // Whether the caller may ask under the current settings
+  canManage: boolean; // Owners and admins change settings and clear the thread
+}
+
+export type AIQuotaPeriod = "day" | "month";
+
+// Limits on a room's AI usage per period; null is unlimited
+export interface RoomAIQuota {
+  period: AIQuotaPeriod;
+  roomRequests: number | null;
+  roomTokens: number | null;
+  memberRequests: number | null; // Each participant's share
+  memberTokens: number | null;
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  tokens: number;
+}
+
+// The caller's own usage, for the usage dashboard
+export interface AIUserUsage {
+  today: AIUsageTotals;
+  month: AIUsageTotals;
+  dailyLimit: { requests: number | null; tokens: number | null }; // Server-wide, across rooms
+  days: ({ date: string } & AIUsageTotals)[]; // Last 30 UTC days, oldest first
+  rooms: ({ roomId: string; name: string } & AIUsageTotals)[]; // This month, most tokens first
+  models: ({ provider: string; model: string } & AIUsageTotals)[]; // This month, most tokens first
+}
+
+// A room's usage in its current quota period
+export interface AIRoomUsage {
+  roomId: string;
+  quota: RoomAIQuota;
+  periodStart: string;
+  total: AIUsageTotals;
+  members: ({ userId: string; name: string } & AIUsageTotals)[]; // Most tokens first
+  canManage: boolean; // Owners and admins set the quota
+}
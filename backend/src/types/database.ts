@@ -23,6 +23,30 @@ export interface IRoom extends Document {
     role: "owner" | "admin" | "member";
     joinedAt: Date;
   }[];
+  runConfigurations: {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    language: string;
+    command: string;
+    args: string[];
+    env: { name: string; value: string }[];
+    workingDirectory: string;
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+  }[];
+  aiSettings?: {
+    sharedThread: boolean; // Whether the room has a shared AI thread
+    askPolicy: "everyone" | "admins" | "owner"; // Who may spend AI quota by asking in it
+  };
+  collaborationMode?: "ot" | "crdt"; // How editors stay in sync; "ot" when unset
+  aiQuota?: {
+    period: "day" | "month"; // UTC day or calendar month
+    roomRequests: number | null; // null is unlimited
+    roomTokens: number | null;
+    memberRequests: number | null; // Each participant's share
+    memberTokens: number | null;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,96 @@
+import { Readable } from "stream";
+
+export type ExecutionStatus = "running" | "completed" | "error" | "timeout";
+
+export interface ExecutionLimits {
+  timeoutMs: number; // Wall-clock limit for the whole run
+  interactiveTimeoutMs: number; // Wall-clock limit when stdin is attached to a terminal
+  cpuSeconds: number; // CPU time limit (RLIMIT_CPU)
+  memoryMb: number; // Data segment limit (RLIMIT_DATA)
+  maxOutputBytes: number; // Combined stdout + stderr cap
+}
+
+export interface ExecutionRequest {
+  language: string;
+  code: string;
+  fileName?: string;
+  stdin?: string;
+  userId: string;
+  roomId?: string;
+}
+
+export type ExecutionStream = "stdout" | "stderr";
+
+export interface ExecutionOptions {
+  id?: string; // Pre-allocated execution id, so callers can announce the run first
+  signal?: AbortSignal;
+  // Live stdin for interactive runs; the process sees EOF when it ends
+  input?: Readable;
+  // Called with output as it is produced, before the result is assembled
+  onOutput?: (stream: ExecutionStream, chunk: string) => void;
+}
+
+export interface ExecutionResult {
+  id: string;
+  language: string;
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  executionTime: number; // in milliseconds
+  truncated: boolean;
+  limitExceeded?: "timeout" | "cpu" | "memory" | "output";
+  timestamp: string;
+}
+
+export interface LanguageRuntime {
+  language: string;
+  label: string;
+  extension: string;
+  // Fixed source file name for languages that care (e.g. Java's Main class)
+  entryFileName?: string;
+  // Executables that must be on PATH for the runtime to be offered
+  requires: string[];
+  // In-process source transform (e.g. TypeScript -> JavaScript)
+  transpile?: (source: string, fileName: string) => { fileName: string; code: string };
+  // Optional build step run before the program
+  compile?: (sourceFile: string) => string[];
+  run: (sourceFile: string) => string[];
+}
+
+export interface RuntimeInfo {
+  language: string;
+  label: string;
+  extension: string;
+  available: boolean;
+}
+
+export interface RunConfigurationEnvVar {
+  name: string;
+  value: string;
+}
+
+export interface RunConfiguration {
+  id: string;
+  name: string;
+  language: string;
+  command: string;
+  args: string[];
+  env: RunConfigurationEnvVar[];
+  workingDirectory?: string; // Relative to the project root
+}
+
+export interface ProjectExecutionRequest {
+  roomId: string;
+  userId: string;
+  configuration: RunConfiguration;
+  stdin?: string;
+}
+
+export interface WorkspaceFile {
+  path: string; // Relative, forward-slash separated
+  fileId: string;
+  size: number;
+  modifiedAt: Date; // When the upload was last written; checkpoints rewrite it under the same id
+}
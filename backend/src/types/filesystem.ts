@@ -85,6 +85,14 @@ export interface FileVersioning {
   changeDescription?: string;
 }
 
+// A retained version as listed in a file's timeline, without its content
+export interface FileVersionSummary extends Omit<FileVersioning, "content" | "modifiedBy"> {
+  modifiedBy: ObjectId | null; // Unknown for versions saved before history was kept
+  modifiedByName?: string;
+  size: number;
+  current: boolean;
+}
+
 export interface FilePermissions {
   fileId: ObjectId;
   userId: ObjectId;
@@ -128,21 +136,72 @@ export interface ProjectStructure {
   lastUpdated: Date;
 }
 
+export interface FileSearchMatch {
+  line: number; // 1-based
+  column: number; // 1-based
+  length: number;
+  text: string; // The matched text
+  context: string; // The line around the match, clipped when long
+  contextOffset: number; // Where the match starts within context
+}
+
 export interface FileSearchResult {
   fileId: ObjectId;
   fileName: string;
   filePath: string;
-  content: string;
-  matches: {
-    line: number;
-    column: number;
-    text: string;
-    context: string;
-  }[];
+  content?: string; // Whole file; left out of search responses
+  matches: FileSearchMatch[];
   roomId: string;
   lastModified: Date;
 }
 
+export interface FileSearchQuery {
+  query: string;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  useRegex?: boolean;
+  include?: string[]; // Globs; a file must match one when any are given
+  exclude?: string[];
+}
+
+export interface FileSearchResponse {
+  results: FileSearchResult[];
+  totalMatches: number;
+  filesSearched: number;
+  truncated: boolean; // Stopped at the result cap
+}
+
+export interface FileReplaceMatch extends FileSearchMatch {
+  index: number; // Offset in the file; identifies the match when replacing
+  replacement: string; // With regex groups expanded
+}
+
+export interface FileReplacePreview extends Omit<FileSearchResult, "matches"> {
+  matches: FileReplaceMatch[];
+}
+
+export interface FileReplacePreviewResponse extends Omit<FileSearchResponse, "results"> {
+  results: FileReplacePreview[];
+}
+
+// A file to replace in; only the listed match offsets when given
+export interface FileReplaceSelection {
+  fileId: string;
+  matches?: number[];
+}
+
+export interface FileReplaceResult {
+  fileId: string; // New id of the saved file
+  filePath: string;
+  replaced: number;
+  version: number;
+}
+
+export interface FileReplaceResponse {
+  files: FileReplaceResult[];
+  totalReplaced: number;
+}
+
 export interface FileValidation {
   isValid: boolean;
   errors: string[];
@@ -24,6 +24,12 @@ export type {
 // AI types
 export * from "./ai";
 
+// Code execution types
+export * from "./execution";
+
+// Source control types
+export * from "./versionControl";
+
 // Common utility types
 export interface ApiResponse<T = any> {
   success: boolean;
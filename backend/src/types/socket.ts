@@ -1,3 +1,6 @@
+import { ExecutionResult } from "./execution";
+import { RoomAISettings, RoomAIThreadMessage } from "./ai";
+
 export type SocketId = string;
 
 export interface JoinRoomPayload {
@@ -38,6 +41,64 @@ export interface CollaborativeChangePayload {
   baseVersion: number;
   timestamp?: number;
   roomId?: string;
+  serverApplied?: boolean; // Made by the server for userId (e.g. replace in files); their own editors apply it too
+}
+
+// A change as the server logged it, after transforming it against earlier ones
+export interface CollaborativeLogEntry {
+  id?: string; // The change's id, so its author can recognize it
+  operations: TextOperationPayload[];
+  version: number; // Version the change produced
+}
+
+export interface CollaborativeChangeAckPayload {
+  fileId: string;
+  ackVersion: number;
+  operations: TextOperationPayload[]; // The change as applied
+}
+
+export interface CatchUpRequestPayload {
+  fileId: string;
+  baseVersion: number; // The last version the client got from the server
+}
+
+// The changes since baseVersion, or the whole document once they were compacted away
+export interface CatchUpPayload {
+  fileId: string;
+  baseVersion: number;
+  version: number;
+  changes?: CollaborativeLogEntry[];
+  snapshot?: { content: string; version: number };
+}
+
+// How a room's editors stay in sync: operational transforms, or Yjs documents
+export type CollaborationMode = "ot" | "crdt";
+
+export interface CollaborationModePayload {
+  roomId: string;
+  mode: CollaborationMode;
+  userId: string;
+  userName?: string;
+}
+
+// Asks for a file's Yjs document, sending what the client has so only the rest comes back
+export interface CrdtJoinPayload {
+  fileId: string;
+  stateVector: Uint8Array;
+}
+
+export interface CrdtSyncPayload {
+  fileId: string;
+  docId: string; // Changes when the server starts the document over; older client copies must be dropped
+  update: Uint8Array; // What the client is missing
+  stateVector: Uint8Array; // So the client can send what the server is missing
+  awareness: Uint8Array | null; // Everyone else's cursors
+}
+
+// A Yjs document or awareness update for a file
+export interface CrdtUpdatePayload {
+  fileId: string;
+  update: Uint8Array;
 }
 
 export interface CursorUpdatePayload {
@@ -84,6 +145,100 @@ export interface ChatUpdatedPayload {
   timestamp: string;
 }
 
+export interface ExecutionStartPayload {
+  // Either a snippet (language + code) or a stored run configuration
+  language?: string;
+  code?: string;
+  fileName?: string;
+  configurationId?: string;
+  stdin?: string;
+  interactive?: boolean; // Keep stdin open and accept execution-input events
+  shared?: boolean; // Interactive only: let the room watch and type into the session
+}
+
+export interface ExecutionStartAck {
+  success: boolean;
+  executionId?: string;
+  error?: string;
+}
+
+export interface ExecutionStartedPayload {
+  executionId: string;
+  roomId?: string;
+  userId: string;
+  userName: string;
+  fileName: string;
+  language: string;
+  interactive: boolean;
+  shared: boolean;
+  timestamp: string;
+}
+
+export interface ExecutionOutputPayload {
+  executionId: string;
+  // "stdin" echoes what was typed into an interactive session
+  stream: "stdout" | "stderr" | "stdin";
+  chunk: string;
+  userName?: string; // Who typed it, for stdin echoes
+}
+
+export interface ExecutionInputPayload {
+  executionId: string;
+  data: string;
+}
+
+export interface ExecutionFinishedPayload {
+  executionId: string;
+  result?: ExecutionResult;
+  error?: string;
+}
+
+export interface FileRestoredPayload {
+  roomId: string;
+  fileId: string; // New GridFS id of the file
+  fileIds: string[]; // Every id the file has had, to match editors holding an older one
+  content: string;
+  version: number; // Collaboration version the content was reset to
+  restoredVersion: number;
+  userId: string;
+  userName?: string;
+  timestamp: string;
+}
+
+export interface AIThreadAskPayload {
+  message: string;
+  provider?: string;
+  model?: string;
+  // The asker's editor, for project context
+  activeFileId?: string;
+  activeFileContent?: string;
+  cursorLine?: number;
+}
+
+export interface AIThreadAskAck {
+  success: boolean;
+  questionId?: string;
+  error?: string;
+}
+
+export interface AIThreadChunkPayload {
+  roomId: string;
+  questionId: string;
+  text: string;
+}
+
+export interface AIThreadMessagePayload {
+  roomId: string;
+  message: RoomAIThreadMessage;
+}
+
+export interface AIThreadSettingsPayload {
+  roomId: string;
+  settings: RoomAISettings;
+  userId: string;
+  userName?: string;
+}
+
 export interface SocketData {
   roomId?: string;
   userId?: string;
@@ -99,7 +254,12 @@ export interface ServerToClientEvents {
   "roomParticipants": (users: any[]) => void;
   "message": (data: MessagePayload) => void;
   "collaborative-change": (data: CollaborativeChangePayload & { appliedVersion?: number }) => void;
-  "collaborative-change-ack": (data: { fileId: string; ackVersion: number }) => void;
+  "collaborative-change-ack": (data: CollaborativeChangeAckPayload) => void;
+  "collaborative-catch-up": (data: CatchUpPayload) => void;
+  "collaboration-mode": (data: CollaborationModePayload) => void;
+  "crdt-sync": (data: CrdtSyncPayload) => void;
+  "crdt-update": (data: CrdtUpdatePayload) => void;
+  "crdt-awareness": (data: CrdtUpdatePayload) => void;
   "cursor-update": (data: CursorUpdatePayload) => void;
   "typing-start": (data: TypingPayload) => void;
   "typing-stop": (data: TypingPayload) => void;
@@ -121,6 +281,14 @@ export interface ServerToClientEvents {
   "file-created": (data: any) => void;
   "file-updated": (data: any) => void;
   "file-renamed": (data: any) => void;
+  "execution-started": (data: ExecutionStartedPayload) => void;
+  "execution-output": (data: ExecutionOutputPayload) => void;
+  "execution-finished": (data: ExecutionFinishedPayload) => void;
+  "file-restored": (data: FileRestoredPayload) => void;
+  "ai-thread-message": (data: AIThreadMessagePayload) => void;
+  "ai-thread-chunk": (data: AIThreadChunkPayload) => void;
+  "ai-thread-settings": (data: AIThreadSettingsPayload) => void;
+  "ai-thread-cleared": (data: { roomId: string; userId: string; userName?: string }) => void;
   "error": (data: ErrorPayload) => void;
   "ping": () => void;
 }
@@ -131,6 +299,11 @@ export interface ClientToServerEvents {
   "leave-room": (roomId: string) => void;
   "message": (data: MessagePayload) => void;
   "collaborative-change": (data: CollaborativeChangePayload) => void;
+  "request-catch-up": (data: CatchUpRequestPayload) => void;
+  "crdt-join": (data: CrdtJoinPayload) => void;
+  "crdt-update": (data: CrdtUpdatePayload) => void;
+  "crdt-awareness": (data: CrdtUpdatePayload) => void;
+  "crdt-leave": (data: { fileId: string }) => void;
   "cursor-update": (data: CursorUpdatePayload) => void;
   "typing-start": (roomId: string) => void;
   "typing-stop": (roomId: string) => void;
@@ -151,10 +324,40 @@ export interface ClientToServerEvents {
   "file-created": (data: any) => void;
   "file-updated": (data: any) => void;
   "file-renamed": (data: any) => void;
+  "execution-start": (data: ExecutionStartPayload, ack: (response: ExecutionStartAck) => void) => void;
+  "execution-cancel": (data: { executionId: string }) => void;
+  "execution-input": (data: ExecutionInputPayload) => void;
+  "execution-input-end": (data: { executionId: string }) => void;
+  "ai-thread-ask": (data: AIThreadAskPayload, ack: (response: AIThreadAskAck) => void) => void;
+  "ai-thread-cancel": (data: { questionId: string }) => void;
   "pong": () => void;
 }
 
+// A call for a live document, run by the instance that owns it (see clusterService)
+export interface DocumentCall {
+  ownerId: string;
+  kind: string;
+  roomId: string;
+  fileId: string;
+  args: unknown; // JSON only; binary goes as base64
+}
+
+export interface DocumentCallReply {
+  instanceId: string;
+  handled: boolean; // Only the owner handles a call
+  result?: unknown;
+  error?: string;
+}
+
+// A call every instance runs, e.g. to drop a disconnected socket from the documents it had open
+export interface InstanceCall {
+  kind: string;
+  args: unknown;
+}
+
 // Inter-server events (for scaling)
 export interface InterServerEvents {
   ping: () => void;
+  "document-call": (call: DocumentCall, callback: (reply: DocumentCallReply) => void) => void;
+  "instance-call": (call: InstanceCall, callback: (instanceId: string) => void) => void;
 }
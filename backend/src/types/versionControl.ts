@@ -0,0 +1,91 @@
+// Room source control types
+
+export type VcsChangeType = "modified" | "added" | "deleted" | "renamed" | "untracked";
+
+// One file in a committed or staged snapshot
+export interface VcsTreeEntry {
+  path: string;
+  blobHash: string; // git blob SHA-1 of the content
+  size: number;
+  mode?: string; // git file mode when not a regular file (100755, 120000)
+}
+
+export interface VcsSignature {
+  userId?: string;
+  name: string;
+  email: string;
+}
+
+export interface VcsFileChange {
+  id: string;
+  path: string;
+  type: VcsChangeType;
+  staged: boolean;
+  additions?: number;
+  deletions?: number;
+  oldPath?: string;
+}
+
+// A text file changed since HEAD, staged or not, with both versions
+export interface VcsTextChange {
+  path: string;
+  fileId: string | null; // null when the file was deleted
+  before: string | null; // Content at HEAD; null when the file is new
+  after: string | null; // Content in the room; null when deleted
+}
+
+export interface VcsMergeState {
+  branch: string;
+  conflicts: string[]; // Paths still waiting to be resolved
+}
+
+export interface VcsStatus {
+  branch: string;
+  head: string | null; // null until the first commit
+  changes: VcsFileChange[];
+  merge: VcsMergeState | null;
+}
+
+export interface VcsBranch {
+  name: string;
+  commitHash: string | null;
+  current: boolean;
+}
+
+export interface VcsMergeResult {
+  status: "up-to-date" | "fast-forward" | "merged" | "conflicts";
+  commit?: VcsCommitSummary;
+  conflicts: string[];
+}
+
+// The three sides of a conflicted path; null where that side has no file
+export interface VcsConflict {
+  path: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  working: string | null; // Current content, with conflict markers until resolved
+}
+
+export interface VcsCommitSummary {
+  hash: string;
+  shortHash: string;
+  message: string;
+  author: string;
+  authorEmail: string;
+  date: string;
+  parents: string[];
+}
+
+export interface VcsCommitDetail extends VcsCommitSummary {
+  changes: VcsFileChange[];
+}
+
+export type VcsExportFormat = "bundle" | "tar";
+
+export interface VcsImportResult {
+  history: boolean; // false when the upload was a plain project archive
+  files: number;
+  commits: number;
+  branches: VcsBranch[];
+}
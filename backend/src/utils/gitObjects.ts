@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import { VcsTreeEntry, VcsSignature } from "../types/versionControl";
+
+// Files default to regular, non-executable blobs; imported entries keep their own mode
+export const FILE_MODE = "100644";
+export const TREE_MODE = "40000";
+export const GITLINK_MODE = "160000";
+
+export interface GitObject {
+  hash: string;
+  type: "blob" | "tree" | "commit" | "tag";
+  data: Buffer; // Object body without the "<type> <size>\0" header
+}
+
+/**
+ * Hash an object the way git does, so stored hashes can be written straight
+ * into a real repository on export.
+ */
+export function hashObject(type: GitObject["type"], data: Buffer): GitObject {
+  const header = Buffer.from(`${type} ${data.length}\0`);
+  const hash = crypto.createHash("sha1").update(header).update(data).digest("hex");
+  return { hash, type, data };
+}
+
+export function hashBlob(content: Buffer): string {
+  return hashObject("blob", content).hash;
+}
+
+/**
+ * Build the nested git tree objects for a flat manifest of paths. Returns
+ * every tree object, root last.
+ */
+export function buildTrees(entries: VcsTreeEntry[]): GitObject[] {
+  const objects: GitObject[] = [];
+
+  const build = (prefix: string, items: VcsTreeEntry[]): GitObject => {
+    const files: { name: string; hash: string; mode: string }[] = [];
+    const dirs = new Map<string, VcsTreeEntry[]>();
+
+    for (const item of items) {
+      const rest = item.path.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash === -1) {
+        files.push({ name: rest, hash: item.blobHash, mode: item.mode || FILE_MODE });
+      } else {
+        const dir = rest.slice(0, slash);
+        if (!dirs.has(dir)) dirs.set(dir, []);
+        dirs.get(dir)!.push(item);
+      }
+    }
+
+    const rows: { name: string; sortKey: string; mode: string; hash: string }[] = files.map(file => ({
+      name: file.name,
+      sortKey: file.name,
+      mode: file.mode,
+      hash: file.hash,
+    }));
+    dirs.forEach((children, dir) => {
+      const subtree = build(`${prefix}${dir}/`, children);
+      // Git orders directories as if their name ended with "/"
+      rows.push({ name: dir, sortKey: `${dir}/`, mode: TREE_MODE, hash: subtree.hash });
+    });
+    rows.sort((a, b) => Buffer.compare(Buffer.from(a.sortKey), Buffer.from(b.sortKey)));
+
+    const body = Buffer.concat(
+      rows.map(row => Buffer.concat([Buffer.from(`${row.mode} ${row.name}\0`), Buffer.from(row.hash, "hex")]))
+    );
+    const tree = hashObject("tree", body);
+    objects.push(tree);
+    return tree;
+  };
+
+  build("", entries);
+  return objects;
+}
+
+const formatSignature = (signature: VcsSignature, date: Date): string => {
+  const seconds = Math.floor(date.getTime() / 1000);
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? "+" : "-";
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  // Angle brackets and newlines would corrupt the header line
+  const clean = (value: string) => value.replace(/[<>\n]/g, "").trim();
+  return `${clean(signature.name)} <${clean(signature.email)}> ${seconds} ${sign}${hours}${minutes}`;
+};
+
+export function buildCommit(commit: {
+  treeHash: string;
+  parents: string[];
+  author: VcsSignature;
+  message: string;
+  timestamp: Date;
+}): GitObject {
+  const signature = formatSignature(commit.author, commit.timestamp);
+  const lines = [
+    `tree ${commit.treeHash}`,
+    ...commit.parents.map(parent => `parent ${parent}`),
+    `author ${signature}`,
+    `committer ${signature}`,
+    "",
+    commit.message.endsWith("\n") ? commit.message : `${commit.message}\n`,
+  ];
+  return hashObject("commit", Buffer.from(lines.join("\n")));
+}
+
+export interface ParsedTreeEntry {
+  mode: string;
+  name: string;
+  hash: string;
+}
+
+export function parseTree(data: Buffer): ParsedTreeEntry[] {
+  const entries: ParsedTreeEntry[] = [];
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    const nul = data.indexOf(0, space);
+    if (space === -1 || nul === -1 || nul + 21 > data.length) {
+      throw new Error("Malformed tree object");
+    }
+    entries.push({
+      mode: data.toString("utf8", position, space),
+      name: data.toString("utf8", space + 1, nul),
+      hash: data.toString("hex", nul + 1, nul + 21),
+    });
+    position = nul + 21;
+  }
+  return entries;
+}
+
+export interface ParsedCommit {
+  treeHash: string;
+  parents: string[];
+  author: VcsSignature;
+  timestamp: Date;
+  message: string;
+}
+
+/**
+ * Read the fields HiveCodex keeps from a commit object. Unknown headers
+ * (committer, gpgsig, encoding, ...) stay in the raw object.
+ */
+export function parseCommit(data: Buffer): ParsedCommit {
+  const text = data.toString("utf8");
+  const split = text.indexOf("\n\n");
+  const headers = (split === -1 ? text : text.slice(0, split)).split("\n");
+  const message = split === -1 ? "" : text.slice(split + 2);
+
+  let treeHash = "";
+  const parents: string[] = [];
+  let author: VcsSignature = { name: "", email: "" };
+  let timestamp = new Date(0);
+  for (const line of headers) {
+    const space = line.indexOf(" ");
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === "tree") treeHash = value;
+    else if (key === "parent") parents.push(value);
+    else if (key === "author") {
+      const match = /^(.*?) ?<([^>]*)> (\d+)/.exec(value);
+      if (match) {
+        author = { name: match[1], email: match[2] };
+        timestamp = new Date(Number(match[3]) * 1000);
+      }
+    }
+  }
+  if (!/^[0-9a-f]{40}$/.test(treeHash)) {
+    throw new Error("Malformed commit object");
+  }
+  return { treeHash, parents, author, timestamp, message };
+}
+
+/**
+ * Point a commit at a new tree and parents, keeping its other headers and
+ * message. Signatures no longer match the rewritten object, so they go.
+ */
+export function rewriteCommit(data: Buffer, treeHash: string, parents: string[]): Buffer {
+  const text = data.toString("utf8");
+  const split = text.indexOf("\n\n");
+  const headers = (split === -1 ? text : text.slice(0, split)).split("\n");
+  const kept: string[] = [];
+  let dropping = false;
+  for (const line of headers) {
+    if (line.startsWith(" ")) {
+      if (!dropping) kept.push(line);
+      continue;
+    }
+    const key = line.slice(0, line.indexOf(" "));
+    dropping = key === "tree" || key === "parent" || key === "gpgsig" || key === "gpgsig-sha256";
+    if (!dropping) kept.push(line);
+  }
+  const rewritten = [`tree ${treeHash}`, ...parents.map(parent => `parent ${parent}`), ...kept].join("\n");
+  return Buffer.from(split === -1 ? `${rewritten}\n` : rewritten + text.slice(split));
+}
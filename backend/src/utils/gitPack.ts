@@ -0,0 +1,305 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { GitObject, hashObject } from "./gitObjects";
+
+// Pack object type numbers
+const OBJECT_TYPES: GitObject["type"][] = ["commit", "tree", "blob", "tag"];
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const BUNDLE_SIGNATURES = ["# v2 git bundle\n", "# v3 git bundle\n"];
+
+export interface GitRef {
+  name: string; // Full ref name, e.g. refs/heads/main
+  hash: string;
+}
+
+// Objects and branch heads read out of an uploaded repository
+export interface GitRepositoryData {
+  objects: Map<string, GitObject>;
+  refs: GitRef[];
+  head: string | null; // Ref HEAD points at, when it is symbolic
+}
+
+const sha1 = (data: Buffer): Buffer => crypto.createHash("sha1").update(data).digest();
+
+/**
+ * Encode objects as a version 2 packfile. Objects are stored whole, without
+ * deltas; size matters less here than keeping the writer simple.
+ */
+export function writePack(objects: GitObject[]): Buffer {
+  const header = Buffer.alloc(12);
+  header.write("PACK", 0);
+  header.writeUInt32BE(2, 4);
+  header.writeUInt32BE(objects.length, 8);
+
+  const parts: Buffer[] = [header];
+  for (const object of objects) {
+    const bytes: number[] = [];
+    let size = object.data.length;
+    let byte = ((OBJECT_TYPES.indexOf(object.type) + 1) << 4) | (size & 0x0f);
+    size >>>= 4;
+    while (size) {
+      bytes.push(byte | 0x80);
+      byte = size & 0x7f;
+      size >>>= 7;
+    }
+    bytes.push(byte);
+    parts.push(Buffer.from(bytes), zlib.deflateSync(object.data));
+  }
+
+  const body = Buffer.concat(parts);
+  return Buffer.concat([body, sha1(body)]);
+}
+
+// Rebuild an object from its base and a git delta
+const applyDelta = (base: Buffer, delta: Buffer): Buffer => {
+  let position = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[position++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return size;
+  };
+
+  if (readSize() !== base.length) {
+    throw new Error("Delta does not match its base object");
+  }
+  const result = Buffer.alloc(readSize());
+  let written = 0;
+  while (position < delta.length) {
+    const op = delta[position++];
+    if (op & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) if (op & (1 << i)) offset += delta[position++] * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (op & (1 << (4 + i))) size += delta[position++] * 2 ** (8 * i);
+      if (size === 0) size = 0x10000;
+      if (offset + size > base.length || written + size > result.length) {
+        throw new Error("Delta copies outside its base object");
+      }
+      base.copy(result, written, offset, offset + size);
+      written += size;
+    } else if (op) {
+      if (written + op > result.length || position + op > delta.length) {
+        throw new Error("Delta inserts past its target size");
+      }
+      delta.copy(result, written, position, position + op);
+      position += op;
+      written += op;
+    } else {
+      throw new Error("Invalid delta instruction");
+    }
+  }
+  if (written !== result.length) {
+    throw new Error("Delta does not match its target size");
+  }
+  return result;
+};
+
+interface PackEntry {
+  type: number;
+  data: Buffer; // Whole object, or the delta against its base
+  baseOffset?: number;
+  baseHash?: string;
+}
+
+/**
+ * Read every object in a packfile into `objects`, resolving offset and ref
+ * deltas. Ref delta bases may come from `objects` already (loose objects in
+ * the same repository). Throws once the inflated size passes `maxBytes`;
+ * returns the inflated size otherwise.
+ */
+export function readPack(pack: Buffer, objects: Map<string, GitObject>, maxBytes: number): number {
+  if (pack.length < 32 || pack.toString("latin1", 0, 4) !== "PACK") {
+    throw new Error("Not a git packfile");
+  }
+  const version = pack.readUInt32BE(4);
+  if (version !== 2 && version !== 3) {
+    throw new Error(`Unsupported pack version ${version}`);
+  }
+  if (!sha1(pack.subarray(0, pack.length - 20)).equals(pack.subarray(pack.length - 20))) {
+    throw new Error("Packfile checksum mismatch");
+  }
+
+  const count = pack.readUInt32BE(8);
+  const entries = new Map<number, PackEntry>();
+  let position = 12;
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    const offset = position;
+    let byte = pack[position++];
+    const type = (byte >> 4) & 0x07;
+    let size = byte & 0x0f;
+    let shift = 4;
+    while (byte & 0x80) {
+      byte = pack[position++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    }
+
+    const entry: PackEntry = { type, data: Buffer.alloc(0) };
+    if (type === OFS_DELTA) {
+      byte = pack[position++];
+      let distance = byte & 0x7f;
+      while (byte & 0x80) {
+        byte = pack[position++];
+        distance = (distance + 1) * 128 + (byte & 0x7f);
+      }
+      entry.baseOffset = offset - distance;
+    } else if (type === REF_DELTA) {
+      entry.baseHash = pack.toString("hex", position, position + 20);
+      position += 20;
+    } else if (!OBJECT_TYPES[type - 1]) {
+      throw new Error(`Unknown pack object type ${type}`);
+    }
+
+    total += size;
+    if (total > maxBytes) {
+      throw new Error("Repository is too large to import");
+    }
+    const inflated = zlib.inflateSync(pack.subarray(position, pack.length - 20), { info: true }) as unknown as {
+      buffer: Buffer;
+      engine: { bytesWritten: number };
+    };
+    entry.data = inflated.buffer;
+    position += inflated.engine.bytesWritten;
+    entries.set(offset, entry);
+  }
+
+  const resolved = new Map<number, GitObject>();
+  const resolve = (offset: number): GitObject | null => {
+    const done = resolved.get(offset);
+    if (done) return done;
+    const entry = entries.get(offset);
+    if (!entry) throw new Error("Delta base missing from packfile");
+
+    let object: GitObject;
+    if (entry.type !== OFS_DELTA && entry.type !== REF_DELTA) {
+      object = hashObject(OBJECT_TYPES[entry.type - 1], entry.data);
+    } else {
+      const base = entry.baseOffset !== undefined ? resolve(entry.baseOffset) : objects.get(entry.baseHash!);
+      if (!base) return null;
+      object = hashObject(base.type, applyDelta(base.data, entry.data));
+    }
+    resolved.set(offset, object);
+    objects.set(object.hash, object);
+    return object;
+  };
+
+  // Ref deltas can point at objects later in the pack, so repeat until nothing changes
+  let pending = [...entries.keys()];
+  while (pending.length) {
+    const remaining = pending.filter(offset => !resolve(offset));
+    if (remaining.length === pending.length) {
+      throw new Error("Packfile depends on objects it does not contain");
+    }
+    pending = remaining;
+  }
+  return total;
+}
+
+export function isBundle(buffer: Buffer): boolean {
+  return BUNDLE_SIGNATURES.some(signature => buffer.toString("latin1", 0, signature.length) === signature);
+}
+
+/**
+ * Write a git bundle (`git clone repo.bundle`) holding `refs` and all of
+ * `objects`. A HEAD line makes clones check out `head`.
+ */
+export function writeBundle(refs: GitRef[], head: string | null, objects: GitObject[]): Buffer {
+  const lines = [BUNDLE_SIGNATURES[0].trimEnd()];
+  const headRef = refs.find(ref => ref.name === head);
+  if (headRef) lines.push(`${headRef.hash} HEAD`);
+  refs.forEach(ref => lines.push(`${ref.hash} ${ref.name}`));
+  return Buffer.concat([Buffer.from(`${lines.join("\n")}\n\n`), writePack(objects)]);
+}
+
+/**
+ * Parse a bundle made by `git bundle create`. Bundles with prerequisites
+ * only hold part of a history and are rejected.
+ */
+export function readBundle(bundle: Buffer, maxBytes: number): GitRepositoryData {
+  const end = bundle.indexOf("\n\n");
+  if (!isBundle(bundle) || end === -1) {
+    throw new Error("Not a git bundle");
+  }
+
+  const refs: GitRef[] = [];
+  let headHash: string | null = null;
+  for (const line of bundle.toString("utf8", 0, end).split("\n").slice(1)) {
+    if (line.startsWith("@")) continue; // v3 capabilities
+    if (line.startsWith("-")) {
+      throw new Error("Bundle is incremental; create it with --all or a full branch history");
+    }
+    const [hash, name] = line.split(" ");
+    if (name === "HEAD") headHash = hash;
+    else if (name) refs.push({ name, hash });
+  }
+
+  const objects = new Map<string, GitObject>();
+  readPack(bundle.subarray(end + 2), objects, maxBytes);
+  const head = refs.find(ref => ref.hash === headHash && ref.name.startsWith("refs/heads/"))?.name || null;
+  return { objects, refs, head };
+}
+
+/**
+ * Encode an object the way git stores it under objects/xx/ on disk.
+ */
+export function writeLooseObject(object: GitObject): Buffer {
+  return zlib.deflateSync(Buffer.concat([Buffer.from(`${object.type} ${object.data.length}\0`), object.data]));
+}
+
+const readLooseObject = (content: Buffer): GitObject => {
+  const raw = zlib.inflateSync(content);
+  const nul = raw.indexOf(0);
+  const [type] = raw.toString("latin1", 0, nul).split(" ");
+  if (!OBJECT_TYPES.includes(type as GitObject["type"])) {
+    throw new Error(`Unknown loose object type ${type}`);
+  }
+  return hashObject(type as GitObject["type"], raw.subarray(nul + 1));
+};
+
+/**
+ * Read a git directory from an unpacked archive: loose objects, packs,
+ * loose and packed refs, and HEAD. `files` is keyed by path relative to
+ * the git directory.
+ */
+export function readGitDirectory(files: Map<string, Buffer>, maxBytes: number): GitRepositoryData {
+  const objects = new Map<string, GitObject>();
+  let total = 0;
+
+  files.forEach((content, path) => {
+    const match = /^objects\/([0-9a-f]{2})\/([0-9a-f]{38})$/.exec(path);
+    if (!match) return;
+    const object = readLooseObject(content);
+    total += object.data.length;
+    if (total > maxBytes) {
+      throw new Error("Repository is too large to import");
+    }
+    objects.set(object.hash, object);
+  });
+  files.forEach((content, path) => {
+    if (/^objects\/pack\/[^/]+\.pack$/.test(path)) total += readPack(content, objects, maxBytes - total);
+  });
+
+  const refs = new Map<string, string>();
+  files.get("packed-refs")?.toString("utf8").split("\n").forEach(line => {
+    const [hash, name] = line.trim().split(" ");
+    if (/^[0-9a-f]{40}$/.test(hash) && name) refs.set(name, hash);
+  });
+  files.forEach((content, path) => {
+    const hash = content.toString("utf8").trim();
+    if (path.startsWith("refs/") && /^[0-9a-f]{40}$/.test(hash)) refs.set(path, hash);
+  });
+
+  const headContent = files.get("HEAD")?.toString("utf8").trim() || "";
+  const head = headContent.startsWith("ref: ") ? headContent.slice(5) : null;
+  return { objects, refs: [...refs].map(([name, hash]) => ({ name, hash })), head };
+}
@@ -0,0 +1,105 @@
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+// A [...] class as a RegExp class; one that can't compile, like [z-a], matches itself literally
+const bracketClass = (body: string): string => {
+  const negated = body.startsWith("!");
+  const members = (negated ? body.slice(1) : body).replace(/[\\\]^[]/g, "\\$&");
+  const source = `[${negated ? "^" : ""}${members}]`;
+  try {
+    new RegExp(source);
+    return source;
+  } catch {
+    return escapeRegExp(`[${body}]`);
+  }
+};
+
+/**
+ * Compile a glob to a RegExp over forward-slash paths. Supports `*`, `**`,
+ * `?`, `{a,b}` and `[...]`. Like editor search filters, a pattern without a
+ * slash matches at any depth, and a pattern naming a folder matches
+ * everything inside it.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/^\.\//, "").replace(/\/+$/, "");
+  const anchored = glob.startsWith("/");
+  glob = glob.replace(/^\/+/, "");
+  if (!anchored && !glob.includes("/") && !glob.startsWith("**")) {
+    glob = `**/${glob}`;
+  }
+
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slashAfter = glob[i + 2] === "/";
+      source += slashAfter ? "(?:.*/)?" : ".*";
+      i += slashAfter ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      source += bracketClass(glob.slice(i + 1, end));
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  source += ")".repeat(braceDepth);
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+// Split on commas outside braces, so "*.{ts,tsx}, docs" stays two patterns
+const splitPatterns = (value: string): string[] => {
+  const patterns: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "{") depth++;
+    else if (value[i] === "}" && depth > 0) depth--;
+    else if (value[i] === "," && depth === 0) {
+      patterns.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  patterns.push(value.slice(start));
+  return patterns;
+};
+
+/**
+ * Split a comma separated filter ("src/**, *.ts") into glob patterns.
+ */
+export function parseGlobList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? splitPatterns(value) : [];
+  return items
+    .filter((item): item is string => typeof item === "string")
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build a path predicate from include and exclude globs. With no includes
+ * every path is included.
+ */
+export function createPathFilter(include: string[] = [], exclude: string[] = []): (path: string) => boolean {
+  const includes = include.map(globToRegExp);
+  const excludes = exclude.map(globToRegExp);
+  return path =>
+    (includes.length === 0 || includes.some(pattern => pattern.test(path))) &&
+    !excludes.some(pattern => pattern.test(path));
+}
@@ -0,0 +1,239 @@
+export interface DiffOp {
+  type: "equal" | "insert" | "delete";
+  lines: string[];
+}
+
+// Beyond this many edits the diff degrades to "replace everything"
+const MAX_EDIT_DISTANCE = 4000;
+
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff using Myers' O(ND) algorithm. Runs of the same operation are
+ * merged, so the result alternates between equal and changed blocks.
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Common prefix and suffix are cheap to strip and keep D small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOp["type"], lines: string[]) => {
+    if (!lines.length) return;
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.lines.push(...lines);
+    else ops.push({ type, lines: [...lines] });
+  };
+
+  push("equal", a.slice(0, start));
+  middleDiff(a.slice(start, endA), b.slice(start, endB)).forEach(op => push(op.type, op.lines));
+  push("equal", a.slice(endA));
+  return ops;
+}
+
+function middleDiff(a: string[], b: string[]): DiffOp[] {
+  if (!a.length) return b.length ? [{ type: "insert", lines: b }] : [];
+  if (!b.length) return [{ type: "delete", lines: a }];
+
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [{ type: "delete", lines: a }, { type: "insert", lines: b }];
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const reversed: DiffOp[] = [];
+  const add = (type: DiffOp["type"], line: string) => {
+    const last = reversed[reversed.length - 1];
+    if (last && last.type === type) last.lines.unshift(line);
+    else reversed.push({ type, lines: [line] });
+  };
+
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = prev[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      add("equal", a[--x]);
+      y--;
+    }
+    if (x === prevX) add("insert", b[--y]);
+    else add("delete", a[--x]);
+  }
+  while (x > 0 && y > 0) {
+    add("equal", a[--x]);
+    y--;
+  }
+
+  return reversed.reverse();
+}
+
+/**
+ * Count added and removed lines between two texts, as shown next to a file
+ * in a change list.
+ */
+export function countLineChanges(before: string, after: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const op of diffLines(splitLines(before), splitLines(after))) {
+    if (op.type === "insert") additions += op.lines.length;
+    else if (op.type === "delete") deletions += op.lines.length;
+  }
+  return { additions, deletions };
+}
+
+// A base range [start, end) replaced by lines on one side of a merge
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function toHunks(ops: DiffOp[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+  for (const op of ops) {
+    if (op.type === "equal") {
+      current = null;
+      position += op.lines.length;
+      continue;
+    }
+    if (!current) {
+      current = { start: position, end: position, lines: [] };
+      hunks.push(current);
+    }
+    if (op.type === "delete") {
+      position += op.lines.length;
+      current.end = position;
+    } else {
+      current.lines.push(...op.lines);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Three-way line merge (diff3). Changes from both sides are applied to base;
+ * where they overlap or touch and disagree, the region is emitted between
+ * git-style conflict markers.
+ */
+export function mergeLines(
+  base: string[],
+  ours: string[],
+  theirs: string[],
+  labels: { ours: string; theirs: string }
+): { lines: string[]; conflicts: number } {
+  const oursHunks = toHunks(diffLines(base, ours));
+  const theirsHunks = toHunks(diffLines(base, theirs));
+  const lines: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  const applyHunks = (hunks: Hunk[], start: number, end: number): string[] => {
+    const out: string[] = [];
+    let cursor = start;
+    for (const hunk of hunks) {
+      out.push(...base.slice(cursor, hunk.start), ...hunk.lines);
+      cursor = hunk.end;
+    }
+    out.push(...base.slice(cursor, end));
+    return out;
+  };
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    const fromOurs = j >= theirsHunks.length || (i < oursHunks.length && oursHunks[i].start <= theirsHunks[j].start);
+    const first = fromOurs ? oursHunks[i++] : theirsHunks[j++];
+    const groupOurs = fromOurs ? [first] : [];
+    const groupTheirs = fromOurs ? [] : [first];
+    const start = first.start;
+    let end = first.end;
+
+    // Pull in every hunk from either side that overlaps or touches the region
+    for (;;) {
+      if (i < oursHunks.length && oursHunks[i].start <= end) {
+        end = Math.max(end, oursHunks[i].end);
+        groupOurs.push(oursHunks[i++]);
+      } else if (j < theirsHunks.length && theirsHunks[j].start <= end) {
+        end = Math.max(end, theirsHunks[j].end);
+        groupTheirs.push(theirsHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    lines.push(...base.slice(position, start));
+    const oursRegion = applyHunks(groupOurs, start, end);
+    const theirsRegion = applyHunks(groupTheirs, start, end);
+    if (!groupTheirs.length || oursRegion.join("\n") === theirsRegion.join("\n")) {
+      lines.push(...oursRegion);
+    } else if (!groupOurs.length) {
+      lines.push(...theirsRegion);
+    } else {
+      conflicts++;
+      lines.push(`<<<<<<< ${labels.ours}`, ...oursRegion, "=======", ...theirsRegion, `>>>>>>> ${labels.theirs}`);
+    }
+    position = end;
+  }
+
+  lines.push(...base.slice(position));
+  return { lines, conflicts };
+}
+
+/**
+ * mergeLines over whole texts. The trailing newline follows whichever side
+ * changed it from base.
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string }
+): { text: string; conflicts: number } {
+  const { lines, conflicts } = mergeLines(splitLines(base), splitLines(ours), splitLines(theirs), labels);
+  const trailingNewline = ours.endsWith("\n") !== base.endsWith("\n") ? ours.endsWith("\n") : theirs.endsWith("\n");
+  const text = lines.join("\n") + (lines.length && trailingNewline ? "\n" : "");
+  return { text, conflicts };
+}
@@ -0,0 +1,117 @@
+export interface TarEntry {
+  path: string;
+  content?: Buffer; // Omitted for directories
+  mode?: number;
+}
+
+const BLOCK_SIZE = 512;
+
+const writeString = (header: Buffer, value: string, offset: number, length: number) => {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf8");
+};
+
+const writeOctal = (header: Buffer, value: number, offset: number, length: number) => {
+  writeString(header, value.toString(8).padStart(length - 1, "0"), offset, length - 1);
+};
+
+// ustar keeps names up to 100 bytes, plus a 155 byte prefix split at a "/"
+const splitName = (path: string): { name: string; prefix: string } => {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: "" };
+  const slash = path.lastIndexOf("/", path.length - 2);
+  const prefix = path.slice(0, slash);
+  const name = path.slice(slash + 1);
+  if (slash === -1 || Buffer.byteLength(prefix) > 155 || Buffer.byteLength(name) > 100) {
+    throw new Error(`Path too long for tar archive: ${path}`);
+  }
+  return { name, prefix };
+};
+
+/**
+ * Write an uncompressed ustar archive. Directory entries should come before
+ * the files inside them.
+ */
+export function createTar(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+  const seconds = Math.floor(mtime.getTime() / 1000);
+
+  for (const entry of entries) {
+    const directory = !entry.content;
+    const { name, prefix } = splitName(directory && !entry.path.endsWith("/") ? `${entry.path}/` : entry.path);
+    const size = entry.content?.length ?? 0;
+
+    const header = Buffer.alloc(BLOCK_SIZE);
+    writeString(header, name, 0, 100);
+    writeOctal(header, entry.mode ?? (directory ? 0o755 : 0o644), 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, seconds, 136, 12);
+    header.fill(0x20, 148, 156); // Checksum is computed with its own field as spaces
+    header.write(directory ? "5" : "0", 156);
+    header.write("ustar\0", 257);
+    header.write("00", 263);
+    writeString(header, prefix, 345, 155);
+
+    let checksum = 0;
+    for (const byte of header) checksum += byte;
+    writeString(header, `${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8);
+
+    blocks.push(header);
+    if (entry.content) {
+      blocks.push(entry.content);
+      const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+      if (padding) blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+const readString = (buffer: Buffer, offset: number, length: number): string => {
+  const end = buffer.indexOf(0, offset);
+  return buffer.toString("utf8", offset, end === -1 || end > offset + length ? offset + length : end);
+};
+
+/**
+ * Read the regular files of a tar archive (ustar, with GNU long names and
+ * pax path records). Links, devices and directories are skipped.
+ */
+export function readTar(buffer: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let position = 0;
+  let longName: string | null = null;
+
+  while (position + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(position, position + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = position + BLOCK_SIZE;
+    if (Number.isNaN(size) || dataStart + size > buffer.length) {
+      throw new Error("Truncated tar archive");
+    }
+    const data = buffer.subarray(dataStart, dataStart + size);
+    position = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === "L") {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === "x") {
+      const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString("utf8"));
+      if (match) longName = match[1];
+      continue;
+    }
+
+    const prefix = header.toString("utf8", 257, 262) === "ustar" ? readString(header, 345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    longName = null;
+    if (type === "0" || type === "7") {
+      files.set(name.replace(/^\.\//, ""), Buffer.from(data));
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,112 @@
+import { TextOperationPayload } from "../types/socket";
+
+/**
+ * Apply a collaborative edit to `content`. Text past the last operation is
+ * kept as if retained.
+ */
+export function applyOperations(content: string, operations: TextOperationPayload[]): string {
+  let index = 0;
+  let result = "";
+  for (const op of operations) {
+    if (op.type === 'retain') {
+      const len = op.length || 0;
+      result += content.slice(index, index + len);
+      index += len;
+    } else if (op.type === 'insert') {
+      result += op.text || "";
+    } else if (op.type === 'delete') {
+      index += op.length || 0;
+    }
+  }
+  if (index < content.length) {
+    result += content.slice(index);
+  }
+  return result;
+}
+
+// An edit that replaces the whole of `content`, for changes that don't come from an editor
+export function replaceAllOperations(content: string, replacement: string): TextOperationPayload[] {
+  return [
+    { type: 'delete', length: content.length },
+    { type: 'insert', text: replacement },
+  ];
+}
+
+// The smallest single edit turning `content` into `replacement`: everything around it is retained
+export function diffOperations(content: string, replacement: string): TextOperationPayload[] {
+  let start = 0;
+  while (start < content.length && start < replacement.length && content[start] === replacement[start]) start++;
+  let tail = 0;
+  while (
+    tail < content.length - start &&
+    tail < replacement.length - start &&
+    content[content.length - 1 - tail] === replacement[replacement.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  const operations: TextOperationPayload[] = [];
+  if (start > 0) operations.push({ type: 'retain', length: start });
+  if (content.length - tail > start) operations.push({ type: 'delete', length: content.length - tail - start });
+  if (replacement.length - tail > start) operations.push({ type: 'insert', text: replacement.slice(start, replacement.length - tail) });
+  if (tail > 0) operations.push({ type: 'retain', length: tail });
+  return operations;
+}
+
+/**
+ * Rewrite `operations` to apply after `against`, where both were made on the
+ * same content. Text `against` deleted is no longer deleted or kept, and text
+ * it inserted is kept. Where both insert at the same place, `against` goes
+ * first unless `insertFirst` is set; the two sides of a pair must disagree on
+ * it so every replica orders the inserts alike.
+ */
+export function transformOperations(
+  operations: TextOperationPayload[],
+  against: TextOperationPayload[],
+  insertFirst = false
+): TextOperationPayload[] {
+  const result: TextOperationPayload[] = [];
+  const push = (op: TextOperationPayload) => {
+    const size = op.type === 'insert' ? (op.text || "").length : op.length || 0;
+    if (size <= 0) return;
+    const prev = result[result.length - 1];
+    if (prev?.type === op.type) {
+      if (op.type === 'insert') prev.text = (prev.text || "") + op.text;
+      else prev.length = (prev.length || 0) + size;
+    } else {
+      result.push({ ...op });
+    }
+  };
+
+  // Walk both edits over the content they share, splitting retains and deletes where they overlap
+  let i = 0, j = 0;
+  let aUsed = 0, bUsed = 0;
+  const spanLength = (op: TextOperationPayload | undefined, used: number) =>
+    op && op.type !== 'insert' ? (op.length || 0) - used : Infinity;
+  while (i < operations.length || j < against.length) {
+    const a = operations[i];
+    const b = against[j];
+    if (a?.type === 'insert' && (insertFirst || b?.type !== 'insert')) {
+      push(a);
+      i++;
+      continue;
+    }
+    if (b?.type === 'insert') {
+      push({ type: 'retain', length: (b.text || "").length });
+      j++;
+      continue;
+    }
+    // Past the end of an edit, its text is kept as if retained
+    const length = Math.min(spanLength(a, aUsed), spanLength(b, bUsed));
+    if (length === Infinity) break;
+    if (b?.type !== 'delete') push({ type: a?.type === 'delete' ? 'delete' : 'retain', length });
+    if (a) {
+      aUsed += length;
+      if (aUsed >= (a.length || 0)) { i++; aUsed = 0; }
+    }
+    if (b) {
+      bUsed += length;
+      if (bUsed >= (b.length || 0)) { j++; bUsed = 0; }
+    }
+  }
+  return result;
+}
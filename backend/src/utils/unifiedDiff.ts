@@ -0,0 +1,169 @@
+import { diffLines, splitLines } from "./lineDiff";
+
+export interface PatchHunk {
+  oldStart: number; // 1-based line in the original, as given in the hunk header
+  lines: string[]; // Each prefixed with " ", "-" or "+"
+}
+
+// A hunk of a diff we produced, so its place in the new text is known too
+export interface DiffHunk extends PatchHunk {
+  newStart: number; // 1-based line in the new text
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null when the patch creates the file
+  newPath: string | null; // null when the patch deletes the file
+  hunks: PatchHunk[];
+}
+
+// Line numbers are optional; models often write a bare "@@ ... @@"
+const HUNK_HEADER = /^@@\s*(?:-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?)?[^@]*@@/;
+
+const parsePath = (line: string): string | null => {
+  const value = line.slice(4).split("\t")[0].trim();
+  if (value === "/dev/null") return null;
+  return value.replace(/^[ab]\//, "").replace(/^\.?\/+/, "");
+};
+
+const isFileHeader = (lines: string[], i: number) =>
+  lines[i].startsWith("--- ") && !!lines[i + 1]?.startsWith("+++ ");
+
+/**
+ * Parse the file patches of a unified diff. Text around the diff (prose,
+ * code fences, "diff --git" and index lines) is ignored, and hunk lengths
+ * are taken from the hunk lines rather than trusted from the header.
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const patches: FilePatch[] = [];
+  let patch: FilePatch | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (isFileHeader(lines, i)) {
+      patch = { oldPath: parsePath(lines[i]), newPath: parsePath(lines[i + 1]), hunks: [] };
+      patches.push(patch);
+      i++;
+      continue;
+    }
+    const header = patch ? lines[i].match(HUNK_HEADER) : null;
+    if (!patch || !header) continue;
+
+    const hunk: PatchHunk = { oldStart: header[1] === undefined ? 1 : Number(header[1]), lines: [] };
+    while (i + 1 < lines.length && !isFileHeader(lines, i + 1) && !HUNK_HEADER.test(lines[i + 1])) {
+      const line = lines[i + 1];
+      if (line.startsWith("\\")) {
+        i++; // "\ No newline at end of file"
+        continue;
+      }
+      // Blank lines are context whose leading space was trimmed away
+      if (line !== "" && !" -+".includes(line[0])) break;
+      hunk.lines.push(line === "" ? " " : line);
+      i++;
+    }
+    // Blank lines after a hunk separate it from what follows
+    while (hunk.lines.length && hunk.lines[hunk.lines.length - 1] === " ") hunk.lines.pop();
+    if (hunk.lines.some(line => line[0] !== " ")) patch.hunks.push(hunk);
+  }
+
+  return patches.filter(candidate => candidate.hunks.length > 0);
+}
+
+// Where a block of lines sits in the file, closest to `expected` first; -1 when missing
+const findBlock = (lines: string[], block: string[], expected: number, from: number): number => {
+  const last = lines.length - block.length;
+  if (block.length === 0) return Math.min(Math.max(expected, from), lines.length);
+  if (last < from) return -1;
+
+  const start = Math.min(Math.max(expected, from), last);
+  const candidates: number[] = [];
+  for (let distance = 0; start - distance >= from || start + distance <= last; distance++) {
+    if (start + distance <= last) candidates.push(start + distance);
+    if (distance > 0 && start - distance >= from) candidates.push(start - distance);
+  }
+  // Exact apart from trailing whitespace, then ignoring indentation too
+  for (const normalize of [(line: string) => line.trimEnd(), (line: string) => line.trim()]) {
+    const wanted = block.map(normalize);
+    const found = candidates.find(at => wanted.every((line, offset) => normalize(lines[at + offset]) === line));
+    if (found !== undefined) return found;
+  }
+  return -1;
+};
+
+/**
+ * Apply hunks to a file, in order. Each hunk is located by its context and
+ * removed lines, searching outward from where its header says it starts, so
+ * hunks still apply after nearby edits or when earlier hunks were skipped.
+ * Returns the new content and the indexes of hunks that could not be placed.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): { content: string; failed: number[] } {
+  const lines = content === "" ? [] : content.split("\n");
+  const trailingNewline = content === "" || content.endsWith("\n");
+  if (content.endsWith("\n")) lines.pop();
+
+  const failed: number[] = [];
+  let drift = 0; // Lines added minus removed by the hunks applied so far
+  let from = 0;
+  hunks.forEach((hunk, index) => {
+    const before = hunk.lines.filter(line => line[0] !== "+").map(line => line.slice(1));
+    const after = hunk.lines.filter(line => line[0] !== "-").map(line => line.slice(1));
+    // A hunk with nothing to remove inserts after its start line rather than at it
+    const expected = (before.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+    const at = findBlock(lines, before, expected, from);
+    if (at === -1) {
+      failed.push(index);
+      return;
+    }
+    lines.splice(at, before.length, ...after);
+    drift += after.length - before.length;
+    from = at + after.length;
+  });
+
+  const result = lines.join("\n");
+  return { content: result && trailingNewline ? `${result}\n` : result, failed };
+}
+
+/**
+ * The hunks turning `before` into `after`, each with up to `context`
+ * unchanged lines around its changes. Changes closer than twice that share
+ * a hunk, as in git's output.
+ */
+export function createHunks(before: string, after: string, context = 3): DiffHunk[] {
+  const lines: string[] = [];
+  const oldLines: number[] = []; // Line numbers at each diff line, in either text
+  const newLines: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of diffLines(splitLines(before), splitLines(after))) {
+    for (const line of op.lines) {
+      oldLines.push(oldLine);
+      newLines.push(newLine);
+      if (op.type === "equal") {
+        lines.push(` ${line}`);
+        oldLine++;
+        newLine++;
+      } else if (op.type === "delete") {
+        lines.push(`-${line}`);
+        oldLine++;
+      } else {
+        lines.push(`+${line}`);
+        newLine++;
+      }
+    }
+  }
+
+  const ranges: { start: number; end: number }[] = [];
+  lines.forEach((line, index) => {
+    if (line[0] === " ") return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) last.end = end;
+    else ranges.push({ start, end });
+  });
+
+  return ranges.map(({ start, end }) => ({
+    oldStart: oldLines[start],
+    newStart: newLines[start],
+    lines: lines.slice(start, end + 1),
+  }));
+}
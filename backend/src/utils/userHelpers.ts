@@ -2,8 +2,9 @@ import { Socket } from "socket.io";
 import { User, UserInRoom, UserSession, TypingUser, UserStatus } from "../types/user";
 import { SocketId } from "../types/socket";
 import mongoose from "mongoose";
+import { clusterService } from "../services/clusterService";
 
-// In-memory storage for active users (consider Redis for production scaling)
+// In-memory storage for this instance's users; room presence is mirrored to the cluster's state store
 let activeUsers: Map<SocketId, User> = new Map();
 let userSessions: Map<string, UserSession> = new Map(); // userId -> session
 let typingUsers: Map<string, TypingUser[]> = new Map(); // roomId -> typing users
@@ -26,6 +27,7 @@ export function addUser(user: User): void {
   };
   
   userSessions.set(user.userId.toString(), session);
+  publishPresence(user);
 }
 
 /**
@@ -36,6 +38,9 @@ export function removeUser(socketId: SocketId): User | undefined {
   if (user) {
     activeUsers.delete(socketId);
     userSessions.delete(user.userId.toString());
+    clusterService.getStore().hashDelete(presenceKey(user.roomId), socketId).catch(error => {
+      console.error(`Failed to remove socket ${socketId} from room presence:`, error);
+    });
     
     // Remove from typing users if present
     removeUserFromTyping(user.roomId, user.userId.toString());
@@ -59,22 +64,70 @@ export function getUserByUserId(userId: string): User | undefined {
   );
 }
 
+function toUserInRoom(user: User): UserInRoom {
+  return {
+    userId: user.userId,
+    userName: user.username,
+    profilePicId: user.profilePicId,
+    status: user.activityStatus,
+    isTyping: user.typing,
+    currentFile: user.currentFile || undefined,
+    cursorPosition: user.cursorPosition,
+    socketId: user.socketId
+  };
+}
+
 /**
  * Get all users in a specific room
  */
 export function getUsersInRoom(roomId: string): UserInRoom[] {
   return Array.from(activeUsers.values())
     .filter(user => user.roomId === roomId)
-    .map(user => ({
-      userId: user.userId,
-      userName: user.username,
-      profilePicId: user.profilePicId,
-      status: user.activityStatus,
-      isTyping: user.typing,
-      currentFile: user.currentFile || undefined,
-      cursorPosition: user.cursorPosition,
-      socketId: user.socketId
-    }));
+    .map(toUserInRoom);
+}
+
+// A room's presence in the state store: one field per socket, on whichever instance it is connected to
+const presenceKey = (roomId: string) => `room-presence:${roomId}`;
+
+interface PresenceEntry {
+  instanceId: string;
+  user: Omit<UserInRoom, "userId" | "profilePicId"> & { userId: string; profilePicId?: string };
+}
+
+function publishPresence(user: User): void {
+  const entry: PresenceEntry = {
+    instanceId: clusterService.instanceId,
+    user: { ...toUserInRoom(user), userId: user.userId.toString(), profilePicId: user.profilePicId?.toString() },
+  };
+  clusterService.getStore().hashSet(presenceKey(user.roomId), user.socketId, JSON.stringify(entry)).catch(error => {
+    console.error(`Failed to publish presence for socket ${user.socketId}:`, error);
+  });
+}
+
+/**
+ * Get all users in a room across every instance, as they were when they
+ * joined. Entries left behind by an instance that stopped are dropped.
+ */
+export async function getRoomParticipants(roomId: string): Promise<UserInRoom[]> {
+  const store = clusterService.getStore();
+  const entries = await store.hashGetAll(presenceKey(roomId));
+  const alive = new Map<string, boolean>();
+  const participants: UserInRoom[] = [];
+
+  for (const [socketId, value] of Object.entries(entries)) {
+    const { instanceId, user } = JSON.parse(value) as PresenceEntry;
+    if (!alive.has(instanceId)) alive.set(instanceId, await clusterService.isAlive(instanceId));
+    if (!alive.get(instanceId)) {
+      await store.hashDelete(presenceKey(roomId), socketId);
+      continue;
+    }
+    participants.push({
+      ...user,
+      userId: new mongoose.Types.ObjectId(user.userId),
+      profilePicId: user.profilePicId ? new mongoose.Types.ObjectId(user.profilePicId) : undefined,
+    });
+  }
+  return participants;
 }
 
 /**
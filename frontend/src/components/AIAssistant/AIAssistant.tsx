@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -22,7 +22,15 @@ import {
   Brain,
   Terminal,
   ChevronDown,
+  Pencil,
+  Trash2,
+  Square,
+  FilePen,
+  Users,
+  BarChart3,
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
@@ -38,7 +46,10 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { aiService } from '@/services/aiService';
+import { aiService, type AIConversationSummary, type AIEditProposal, type AIModel, type AISource } from '@/services/aiService';
+import { EditProposalCard } from './EditProposalCard';
+import { SharedAIThread } from './SharedAIThread';
+import { AIUsageDialog } from './AIUsageDialog';
 
 // --- INTERFACES (UNCHANGED) ---
 interface FileAttachment {
@@ -74,6 +85,8 @@ interface ChatMessage {
   type?: 'chat' | 'code_review' | 'suggestion' | 'error_fix' | 'optimization';
   tokens?: number;
   model?: string;
+  sources?: AISource[];
+  edits?: AIEditProposal; // Proposed file changes to review
 }
 
 interface AIAssistantProps {
@@ -83,11 +96,13 @@ interface AIAssistantProps {
     position?: { line: number; column: number }
   ) => void;
   onRunCode?: (code: string, language: string) => void;
+  activeFileId?: string; // GridFS id, so the server can find the file's imports
   activeFileName?: string;
   activeFileContent?: string;
   activeFileLanguage?: string;
   cursorPosition?: { line: number; column: number };
   theme?: 'dark' | 'light';
+  roomId?: string; // Scopes stored conversations to the room
 }
 
 
@@ -322,30 +337,233 @@ const HiveAIWelcomeScreen = () => (
 );
 
 
+const SOURCE_REASONS: Record<AISource['reason'], string> = {
+  open: 'Open in the editor',
+  import: 'Imported by the open file',
+  match: 'Matches the question',
+};
+
+// Room files the reply was given, with the ones it mentions highlighted
+const SourceList: React.FC<{ sources: AISource[] }> = ({ sources }) => (
+  <div className="mt-3 pt-2 border-t border-zinc-700/60 flex flex-wrap items-center gap-1">
+    <span className="text-[11px] text-zinc-500 mr-1">Sources:</span>
+    {sources.map(source => (
+      <Tooltip key={source.fileId}>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className={cn(
+              'text-[11px] font-mono px-1.5 py-0 gap-1',
+              source.cited ? 'border-blue-500/60 text-blue-300' : 'border-zinc-700 text-zinc-500'
+            )}
+          >
+            <FileText className="h-3 w-3" />
+            {source.path.split('/').pop()}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {source.path} · {SOURCE_REASONS[source.reason]}{source.cited && ' · cited'}
+        </TooltipContent>
+      </Tooltip>
+    ))}
+  </div>
+);
+
+const ConversationList: React.FC<{
+  conversations: AIConversationSummary[];
+  activeId: string | null;
+  onOpen: (conversationId: string) => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}> = ({ conversations, activeId, onOpen, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+
+  if (conversations.length === 0) {
+    return <div className="p-6 text-center text-sm text-zinc-500">No past conversations</div>;
+  }
+
+  const submitRename = (conversationId: string) => {
+    if (title.trim()) onRename(conversationId, title.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="p-2 space-y-1">
+      {conversations.map(conversation => (
+        <div
+          key={conversation.id}
+          className={cn(
+            'group rounded-md px-3 py-2 cursor-pointer hover:bg-zinc-800/80',
+            conversation.id === activeId && 'bg-zinc-800'
+          )}
+          onClick={() => editingId !== conversation.id && onOpen(conversation.id)}
+        >
+          {editingId === conversation.id ? (
+            <Input
+              autoFocus
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={() => submitRename(conversation.id)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitRename(conversation.id);
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              maxLength={100}
+              className="h-7 bg-zinc-900 border-zinc-700 text-sm"
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <MessageSquare className="h-3.5 w-3.5 text-zinc-500 shrink-0" />
+              <span className="text-sm text-zinc-100 truncate flex-1">{conversation.title}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-zinc-400 hover:text-zinc-100 opacity-0 group-hover:opacity-100"
+                title="Rename"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setTitle(conversation.title);
+                  setEditingId(conversation.id);
+                }}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-zinc-400 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                title="Delete"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(conversation.id);
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          {conversation.lastMessage && editingId !== conversation.id && (
+            <div className="mt-0.5 pl-5 text-xs text-zinc-500 truncate">{conversation.lastMessage}</div>
+          )}
+          <div className="pl-5 text-[11px] text-zinc-600">
+            {conversation.messageCount} messages · {formatDistanceToNow(new Date(conversation.updatedAt), { addSuffix: true })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+
 // --- MAIN AI ASSISTANT COMPONENT (REDESIGNED) ---
 export const AIAssistant: React.FC<AIAssistantProps> = ({
   onInsertCode,
   onRunCode,
+  activeFileId,
   activeFileName,
   activeFileContent,
   activeFileLanguage,
   cursorPosition,
   theme = 'dark',
+  roomId,
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
   const [isAIOnline, setIsAIOnline] = useState(true);
-  const [selectedModel, setSelectedModel] = useState('Gemini 2.5 Pro');
+  const [models, setModels] = useState<AIModel[]>([]);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null); // Model id; null uses the server default
+  const [conversationId, setConversationId] = useState<string | null>(null); // Stored conversation being continued
+  const [conversations, setConversations] = useState<AIConversationSummary[]>([]);
+  const [showConversations, setShowConversations] = useState(false);
+  const [editMode, setEditMode] = useState(false); // Messages ask for file changes instead of a chat reply
+  const [showSharedThread, setShowSharedThread] = useState(false); // The room's thread instead of our own chat
+  const [showUsage, setShowUsage] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null); // Cancels the reply being streamed
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  useEffect(() => {
+    aiService.getModels()
+      .then(response => {
+        if (!response.success || !response.data) return;
+        setModels(response.data.models);
+        setSelectedModel(current => current ?? response.data!.currentModel);
+      })
+      .catch(() => setModels([]));
+  }, []);
+
+  // Conversations are only stored for signed-in users; the list stays empty otherwise
+  const loadConversations = useCallback(async () => {
+    try {
+      const response = await aiService.listConversations(roomId);
+      if (response.success && response.data) setConversations(response.data);
+    } catch {
+      setConversations([]);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // Stop streaming when the panel goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleNewConversation = () => {
+    abortControllerRef.current?.abort();
+    setMessages([]);
+    setConversationId(null);
+    setShowConversations(false);
+  };
+
+  const handleOpenConversation = async (id: string) => {
+    abortControllerRef.current?.abort();
+    try {
+      const response = await aiService.getConversation(id);
+      if (!response.success || !response.data) return;
+      setMessages(response.data.messages.map((message, index) => ({
+        role: message.role,
+        content: message.content,
+        id: `${id}-${index}`,
+        timestamp: new Date(message.timestamp),
+        type: 'chat',
+        model: message.model,
+      })));
+      setConversationId(id);
+      setShowConversations(false);
+    } catch (error) {
+      console.error('Failed to open conversation:', error);
+    }
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    try {
+      await aiService.renameConversation(id, title);
+      await loadConversations();
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await aiService.deleteConversation(id);
+      if (id === conversationId) handleNewConversation();
+      await loadConversations();
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
   // --- LOGIC (UNCHANGED) ---
   const addFileAttachment = (fileName: string, content: string, language?: string) => {
     const newAttachment: FileAttachment = {
@@ -383,6 +601,38 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
     return [];
   };
 
+  // Ask for changes to the room's files; the reply carries them for review
+  const requestEdits = async (message: string, editRoomId: string) => {
+    const replyId = `${Date.now()}-reply`;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const response = await aiService.proposeEdits({
+        message,
+        roomId: editRoomId,
+        activeFileId,
+        activeFileContent,
+        cursorLine: cursorPosition?.line || undefined,
+        model: selectedModel ?? undefined,
+      }, controller.signal);
+      const proposal = response.data!;
+      const fallback = proposal.files.length > 0 ? 'Here are the proposed changes.' : 'No file changes were proposed.';
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: proposal.summary || fallback,
+        timestamp: new Date(),
+        id: replyId,
+        type: 'suggestion',
+        model: proposal.model,
+        edits: proposal,
+      }]);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const reason = error instanceof Error ? error.message : 'Sorry, an error occurred.';
+      setMessages(prev => [...prev, { role: 'assistant', content: reason, timestamp: new Date(), id: replyId, type: 'chat' }]);
+    }
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading || !isAIOnline) return;
@@ -401,6 +651,11 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
     setIsLoading(true);
 
     try {
+      if (editMode && roomId) {
+        await requestEdits(input.trim(), roomId);
+        return;
+      }
+
       let contextualMessage = input.trim();
       if (attachments.length > 0) {
         contextualMessage += '\n\nAttached files:\n';
@@ -409,57 +664,70 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
         });
       }
 
-      const response = await aiService.chat({
-        message: contextualMessage,
-        context: `Room coding session. Active file: ${activeFileName || 'none'}`,
-        attachments: attachments.map(file => ({
-          fileId: file.id,
-          content: file.content,
-          language: file.language,
-        })),
-      });
-
-      if (response.success && response.data) {
+      // The reply is added with the first chunk and grows as the rest stream in
+      const replyId = `${Date.now()}-reply`;
+      let replyText = '';
+      const updateReply = (update: Partial<ChatMessage>) => {
+        setMessages(prev => prev.some(msg => msg.id === replyId)
+          ? prev.map(msg => (msg.id === replyId ? { ...msg, ...update } : msg))
+          : [...prev, { role: 'assistant', content: '', timestamp: new Date(), id: replyId, type: 'chat', ...update }]);
+      };
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      try {
+        const response = await aiService.streamChat({
+          message: contextualMessage,
+          context: `Room coding session. Active file: ${activeFileName || 'none'}`,
+          conversationId: conversationId ?? undefined,
+          roomId,
+          activeFileId,
+          activeFileContent,
+          cursorLine: cursorPosition?.line || undefined,
+          model: selectedModel ?? undefined,
+          attachments: attachments.map(file => ({
+            fileId: file.id,
+            content: file.content,
+            language: file.language,
+          })),
+        }, chunk => {
+          replyText += chunk;
+          updateReply({ content: replyText });
+        }, controller.signal);
+
+        // A title means the exchange was stored
+        if (response.title) {
+          setConversationId(response.conversationId);
+          loadConversations();
+        }
         const suggestions = generateCodeSuggestions(input.trim());
-        setMessages(prev => [
-          ...prev,
-          {
-            role: 'assistant',
-            content: response.data.response,
-            timestamp: new Date(),
-            suggestions: suggestions.length > 0 ? suggestions : undefined,
-            id: Date.now().toString(),
-            type: 'chat',
-            model: response.data.model || 'HiveAI Assistant',
-          },
-        ]);
-      } else {
-        setMessages(prev => [
-          ...prev,
-          {
-            role: 'assistant',
-            content: response.error || 'Sorry, an error occurred.',
-            timestamp: new Date(),
-            id: Date.now().toString(),
-          },
-        ]);
+        updateReply({
+          content: response.response,
+          suggestions: suggestions.length > 0 ? suggestions : undefined,
+          model: response.model || 'HiveAI Assistant',
+          tokens: response.usage?.totalTokens,
+          sources: response.sources,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          // Marks the partial reply; nothing to mark if the conversation was switched away
+          setMessages(prev => prev.map(msg => (msg.id === replyId ? { ...msg, content: `${replyText}\n\n_Stopped._` } : msg)));
+        } else {
+          const reason = error instanceof Error ? error.message : 'Sorry, an error occurred.';
+          updateReply({ content: replyText ? `${replyText}\n\n_${reason}_` : reason });
+        }
       }
-    } catch (error) {
-      setMessages(prev => [
-        ...prev,
-        {
-          role: 'assistant',
-          content: "I'm having trouble connecting. Please try again.",
-          timestamp: new Date(),
-          id: Date.now().toString(),
-        },
-      ]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setAttachments([]);
     }
   };
 
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleInsertCode = (
     code: string,
     fileName?: string,
@@ -486,9 +754,32 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
         <div className="flex items-center justify-between p-2 border-b border-zinc-800">
             <span className="font-medium text-sm pl-2">CHAT</span>
             <div className="flex items-center gap-1">
-                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100">
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100" title="New conversation" onClick={handleNewConversation}>
                     <Plus className="h-4 w-4" />
                 </Button>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn('h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100', showConversations && 'bg-zinc-800 text-zinc-100')}
+                    title="Past conversations"
+                    onClick={() => setShowConversations(prev => !prev)}
+                >
+                    <MessageSquare className="h-4 w-4" />
+                </Button>
+                {roomId && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn('h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100', showSharedThread && 'bg-zinc-800 text-zinc-100')}
+                        title="Room AI thread"
+                        onClick={() => setShowSharedThread(prev => !prev)}
+                    >
+                        <Users className="h-4 w-4" />
+                    </Button>
+                )}
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100" title="AI usage" onClick={() => setShowUsage(true)}>
+                    <BarChart3 className="h-4 w-4" />
+                </Button>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-zinc-400 hover:text-zinc-100">
                     <RefreshCw className="h-4 w-4" />
                 </Button>
@@ -498,9 +789,27 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             </div>
         </div>
 
+        {showSharedThread && roomId ? (
+          <SharedAIThread
+            roomId={roomId}
+            activeFileId={activeFileId}
+            activeFileContent={activeFileContent}
+            cursorPosition={cursorPosition}
+            model={selectedModel ?? undefined}
+          />
+        ) : (
+        <>
         {/* --- MESSAGES OR WELCOME SCREEN --- */}
         <div className="flex-1 overflow-y-auto">
-          {messages.length === 0 ? (
+          {showConversations ? (
+            <ConversationList
+              conversations={conversations}
+              activeId={conversationId}
+              onOpen={handleOpenConversation}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+            />
+          ) : messages.length === 0 ? (
             <HiveAIWelcomeScreen />
           ) : (
             <div className="p-4 space-y-4">
@@ -525,6 +834,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                           {msg.content}
                         </ReactMarkdown>
                       </div>
+                      {msg.sources && msg.sources.length > 0 && <SourceList sources={msg.sources} />}
                     </div>
                     {msg.role === 'user' && (
                       <Avatar className="h-8 w-8 border border-zinc-700 bg-zinc-800 shrink-0">
@@ -535,6 +845,10 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                     )}
                   </div>
 
+                  {msg.role === 'assistant' && msg.edits && roomId && (
+                      <EditProposalCard proposal={msg.edits} roomId={roomId} />
+                  )}
+
                   {msg.role === 'assistant' && msg.suggestions && msg.suggestions.length > 0 && (
                       <div className="ml-12 space-y-2">
                           <div className="text-sm font-medium text-zinc-300 flex items-center gap-2">
@@ -548,7 +862,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                   )}
                 </div>
               ))}
-                {isLoading && (
+                {isLoading && messages[messages.length - 1]?.role === 'user' && (
                     <div className="flex items-start gap-4 justify-start">
                         <div className="bg-zinc-800/80 p-4 rounded-lg flex items-center gap-3">
                             <Loader2 className="h-4 w-4 animate-spin text-blue-400" />
@@ -566,7 +880,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
             <div className="relative ">
           <Textarea
               ref={inputRef}
-              placeholder="Provide instructions..."
+              placeholder={editMode ? 'Describe the change to make...' : 'Provide instructions...'}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => {
@@ -581,34 +895,72 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({
                 />
                 {/* CONTROLS MOVED AND REALIGNED HERE */}
                 <div className="absolute transform bottom-0.5 flex items-center justify-between w-full">
+                    <div className="flex items-center">
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                             <Button variant="ghost" size="sm" className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-100 px-2">
                                 <Brain className="h-3 w-3" />
-                                {selectedModel}
+                                {models.find(model => model.id === selectedModel)?.name || 'Default model'}
                                 <ChevronDown className="h-3 w-3" />
                             </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                            <DropdownMenuItem onSelect={() => setSelectedModel('Gemini 2.5 Pro')}>
-                                Gemini 2.5 Pro
-                            </DropdownMenuItem>
-                            <DropdownMenuItem disabled className='line-through'>Claude 3 Sonnet</DropdownMenuItem>
-                            <DropdownMenuItem disabled className='line-through'>GPT-4o</DropdownMenuItem>
+                            {models.length === 0 && (
+                                <DropdownMenuItem disabled>No models available</DropdownMenuItem>
+                            )}
+                            {models.map(model => (
+                                <DropdownMenuItem
+                                    key={model.id}
+                                    disabled={!model.available}
+                                    onSelect={() => setSelectedModel(model.id)}
+                                    className={cn('flex items-center justify-between gap-4', !model.available && 'line-through')}
+                                >
+                                    <span>{model.name}</span>
+                                    <span className="text-xs text-zinc-500">{model.provider}</span>
+                                </DropdownMenuItem>
+                            ))}
                         </DropdownMenuContent>
                     </DropdownMenu>
-                    <Button
-                        type="submit"
-                        onClick={handleSendMessage}
-                        disabled={!input.trim() || isLoading || !isAIOnline}
-                        className="h-7 w-7 p-0 hover:bg-blue-700 disabled:opacity-50"
-                    >
-                        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-                    </Button>
+                    {roomId && (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            title={editMode ? 'Edit mode: messages propose file changes' : 'Chat mode: switch to proposing file changes'}
+                            onClick={() => setEditMode(prev => !prev)}
+                            className={cn('flex items-center gap-1 text-xs px-2', editMode ? 'text-blue-400 hover:text-blue-300' : 'text-zinc-400 hover:text-zinc-100')}
+                        >
+                            <FilePen className="h-3 w-3" />
+                            Edit
+                        </Button>
+                    )}
+                    </div>
+                    {isLoading ? (
+                        <Button
+                            type="button"
+                            onClick={handleStopGenerating}
+                            title="Stop generating"
+                            className="h-7 w-7 p-0 hover:bg-blue-700"
+                        >
+                            <Square className="h-3 w-3 fill-current" />
+                        </Button>
+                    ) : (
+                        <Button
+                            type="submit"
+                            onClick={handleSendMessage}
+                            disabled={!input.trim() || !isAIOnline}
+                            className="h-7 w-7 p-0 hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            <Send className="h-4 w-4" />
+                        </Button>
+                    )}
                 </div>
             </div>
         </div>
+        </>
+        )}
 
+        <AIUsageDialog open={showUsage} onOpenChange={setShowUsage} roomId={roomId} />
       </div>
     </TooltipProvider>
   );
@@ -0,0 +1,270 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getErrorMessage } from '@/utils';
+import {
+  aiService,
+  type AIQuotaPeriod,
+  type AIRoomUsage,
+  type AIUsageTotals,
+  type AIUserUsage,
+  type RoomAIQuota,
+} from '@/services/aiService';
+
+interface AIUsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomId?: string; // Adds the room's usage and quota
+}
+
+type QuotaLimit = Exclude<keyof RoomAIQuota, 'period'>;
+
+const QUOTA_FIELDS: { key: QuotaLimit; label: string }[] = [
+  { key: 'roomRequests', label: 'Room requests' },
+  { key: 'roomTokens', label: 'Room tokens' },
+  { key: 'memberRequests', label: 'Requests per member' },
+  { key: 'memberTokens', label: 'Tokens per member' },
+];
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+// Used against an optional limit, as "1,200 / 5,000 tokens" with a bar when limited
+const UsageMeter: React.FC<{ label: string; used: number; limit: number | null; unit: string }> = ({
+  label,
+  used,
+  limit,
+  unit,
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs">
+      <span className="text-zinc-400">{label}</span>
+      <span className="text-zinc-200">
+        {formatNumber(used)}
+        {limit !== null ? ` / ${formatNumber(limit)}` : ''} {unit}
+      </span>
+    </div>
+    {limit !== null && <Progress value={Math.min(100, (used / limit) * 100)} className="h-1.5" />}
+  </div>
+);
+
+const TotalsRow: React.FC<{ label: string; totals: AIUsageTotals; detail?: string }> = ({ label, totals, detail }) => (
+  <div className="flex items-center justify-between text-xs py-1 border-b border-zinc-800 last:border-b-0">
+    <span className="truncate text-zinc-200">
+      {label}
+      {detail && <span className="text-zinc-500 ml-1">{detail}</span>}
+    </span>
+    <span className="text-zinc-400 shrink-0 ml-2">
+      {formatNumber(totals.requests)} req · {formatNumber(totals.tokens)} tokens
+    </span>
+  </div>
+);
+
+// Tokens per day as bars, scaled to the busiest day
+const DailyChart: React.FC<{ days: AIUserUsage['days'] }> = ({ days }) => {
+  const max = Math.max(1, ...days.map(day => day.tokens));
+  return (
+    <div className="flex items-end gap-px h-16">
+      {days.map(day => (
+        <div
+          key={day.date}
+          className="flex-1 bg-blue-500/70 rounded-sm min-h-px"
+          style={{ height: `${(day.tokens / max) * 100}%` }}
+          title={`${day.date}: ${formatNumber(day.requests)} requests, ${formatNumber(day.tokens)} tokens`}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * The user's AI usage, and the room's usage against its quota. Room owners
+ * and admins can change the quota here.
+ */
+export const AIUsageDialog: React.FC<AIUsageDialogProps> = ({ open, onOpenChange, roomId }) => {
+  const [usage, setUsage] = useState<AIUserUsage | null>(null);
+  const [roomUsage, setRoomUsage] = useState<AIRoomUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [period, setPeriod] = useState<AIQuotaPeriod>('month');
+  const [limits, setLimits] = useState<Record<QuotaLimit, string>>({
+    roomRequests: '',
+    roomTokens: '',
+    memberRequests: '',
+    memberTokens: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showRoomQuota = useCallback((quota: RoomAIQuota) => {
+    setPeriod(quota.period);
+    setLimits({
+      roomRequests: quota.roomRequests?.toString() ?? '',
+      roomTokens: quota.roomTokens?.toString() ?? '',
+      memberRequests: quota.memberRequests?.toString() ?? '',
+      memberTokens: quota.memberTokens?.toString() ?? '',
+    });
+  }, []);
+
+  const loadUsage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [userResponse, roomResponse] = await Promise.all([
+        aiService.getUsage(),
+        roomId ? aiService.getRoomUsage(roomId) : Promise.resolve(null),
+      ]);
+      setUsage(userResponse.data ?? null);
+      setRoomUsage(roomResponse?.data ?? null);
+      if (roomResponse?.data) showRoomQuota(roomResponse.data.quota);
+    } catch (error) {
+      toast.error(`Could not load AI usage: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId, showRoomQuota]);
+
+  useEffect(() => {
+    if (open) loadUsage();
+  }, [open, loadUsage]);
+
+  const handleSaveQuota = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!roomId) return;
+    const update: Partial<RoomAIQuota> = { period };
+    for (const { key, label } of QUOTA_FIELDS) {
+      const value = limits[key].trim();
+      if (value && !/^[1-9]\d*$/.test(value)) {
+        toast.error(`${label} must be a whole number above zero, or empty for no limit`);
+        return;
+      }
+      update[key] = value ? Number(value) : null;
+    }
+
+    setIsSaving(true);
+    try {
+      await aiService.updateRoomQuota(roomId, update);
+      toast.success('AI quota updated');
+      await loadUsage();
+    } catch (error) {
+      toast.error(`Could not update the AI quota: ${getErrorMessage(error)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const quota = roomUsage?.quota;
+  const periodLabel = quota?.period === 'day' ? 'today' : 'this month';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>AI usage</DialogTitle>
+          <DialogDescription>
+            Requests and estimated tokens. Days and months follow UTC.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !usage ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {usage && (
+              <section className="space-y-3">
+                <h3 className="text-sm font-medium">You</h3>
+                <UsageMeter label="Requests today" used={usage.today.requests} limit={usage.dailyLimit.requests} unit="requests" />
+                <UsageMeter label="Tokens today" used={usage.today.tokens} limit={usage.dailyLimit.tokens} unit="tokens" />
+                <TotalsRow label="This month" totals={usage.month} />
+                <div>
+                  <div className="text-xs text-zinc-400 mb-1">Tokens over the last 30 days</div>
+                  <DailyChart days={usage.days} />
+                </div>
+                {usage.rooms.length > 0 && (
+                  <div>
+                    <div className="text-xs text-zinc-400 mb-1">By room, this month</div>
+                    {usage.rooms.map(room => (
+                      <TotalsRow key={room.roomId} label={room.name} totals={room} />
+                    ))}
+                  </div>
+                )}
+                {usage.models.length > 0 && (
+                  <div>
+                    <div className="text-xs text-zinc-400 mb-1">By model, this month</div>
+                    {usage.models.map(model => (
+                      <TotalsRow key={`${model.provider}:${model.model}`} label={model.model} detail={model.provider} totals={model} />
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+
+            {roomUsage && quota && (
+              <section className="space-y-3">
+                <h3 className="text-sm font-medium">This room, {periodLabel}</h3>
+                <UsageMeter label="Requests" used={roomUsage.total.requests} limit={quota.roomRequests} unit="requests" />
+                <UsageMeter label="Tokens" used={roomUsage.total.tokens} limit={quota.roomTokens} unit="tokens" />
+                {roomUsage.members.length > 0 && (
+                  <div>
+                    <div className="text-xs text-zinc-400 mb-1">By member</div>
+                    {roomUsage.members.map(member => (
+                      <TotalsRow key={member.userId} label={member.name} totals={member} />
+                    ))}
+                  </div>
+                )}
+
+                {roomUsage.canManage && (
+                  <form onSubmit={handleSaveQuota} className="space-y-2 pt-2 border-t border-zinc-800">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-zinc-400">Quota (empty for no limit)</span>
+                      <Select value={period} onValueChange={value => setPeriod(value as AIQuotaPeriod)}>
+                        <SelectTrigger className="h-7 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="day">Daily</SelectItem>
+                          <SelectItem value="month">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {QUOTA_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="space-y-1 text-xs text-zinc-400">
+                          <span>{label}</span>
+                          <Input
+                            inputMode="numeric"
+                            value={limits[key]}
+                            onChange={e => setLimits(prev => ({ ...prev, [key]: e.target.value }))}
+                            placeholder="No limit"
+                            className="h-8 text-xs"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                    <div className="flex justify-end">
+                      <Button type="submit" size="sm" disabled={isSaving}>
+                        {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        Save quota
+                      </Button>
+                    </div>
+                  </form>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AIUsageDialog;
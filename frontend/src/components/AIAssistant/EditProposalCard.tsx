@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { Check, FileCode, FilePlus, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { getErrorMessage } from '@/utils';
+import { aiService, type AIEditApplyFile, type AIEditProposal } from '@/services/aiService';
+
+interface EditProposalCardProps {
+  proposal: AIEditProposal;
+  roomId: string;
+}
+
+const hunkKey = (path: string, index: number) => `${path}:${index}`;
+
+/**
+ * Files changed by an AI edit, shown as unified diff hunks. Each hunk can be
+ * accepted or rejected; the accepted ones are applied for the whole room.
+ */
+export const EditProposalCard: React.FC<EditProposalCardProps> = ({ proposal, roomId }) => {
+  // Hunks that still fit their file start out accepted
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(
+    proposal.files.flatMap(file =>
+      file.hunks.flatMap((hunk, index) => (hunk.applies ? [hunkKey(file.path, index)] : []))
+    )
+  ));
+  const [isApplying, setIsApplying] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  const selection = useMemo<AIEditApplyFile[]>(() =>
+    proposal.files
+      .map(file => ({
+        path: file.path,
+        create: file.fileId === null,
+        hunks: file.hunks
+          .filter((_, index) => accepted.has(hunkKey(file.path, index)))
+          .map(({ oldStart, lines }) => ({ oldStart, lines })),
+      }))
+      .filter(file => file.hunks.length > 0),
+    [proposal.files, accepted]
+  );
+  const acceptedCount = selection.reduce((sum, file) => sum + file.hunks.length, 0);
+
+  const toggleHunk = (key: string, accept: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await aiService.applyEdits(roomId, selection, proposal.summary.split('\n')[0]);
+      const files = response.data?.files || [];
+      toast.success(`Applied ${acceptedCount} ${acceptedCount === 1 ? 'change' : 'changes'} to ${files.length} ${files.length === 1 ? 'file' : 'files'}`);
+      setApplied(true);
+    } catch (error) {
+      toast.error(`Could not apply the changes: ${getErrorMessage(error)}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (proposal.files.length === 0 && proposal.skipped.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="ml-12 space-y-2">
+      {proposal.files.map(file => (
+        <div key={file.path} className="rounded-md border border-zinc-800 bg-zinc-900/60 overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-1.5 border-b border-zinc-800 text-xs">
+            {file.fileId === null
+              ? <FilePlus className="h-3.5 w-3.5 text-green-400" />
+              : <FileCode className="h-3.5 w-3.5 text-blue-400" />}
+            <span className="font-mono text-zinc-200 truncate">{file.path}</span>
+            {file.fileId === null && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-green-500/50 text-green-400">new</Badge>
+            )}
+          </div>
+          {file.hunks.map((hunk, index) => {
+            const key = hunkKey(file.path, index);
+            const isAccepted = accepted.has(key);
+            return (
+              <div key={key} className={cn('border-b border-zinc-800 last:border-b-0', !isAccepted && 'opacity-50')}>
+                <div className="flex items-center justify-between px-3 py-1 bg-zinc-900 text-[11px] text-zinc-500">
+                  <span className="font-mono">
+                    {hunk.applies ? `@@ line ${Math.max(hunk.oldStart, 1)}` : 'No longer matches the file'}
+                  </span>
+                  {hunk.applies && !applied && (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn('h-5 px-1.5 text-[11px] gap-1', isAccepted ? 'text-green-400' : 'text-zinc-400 hover:text-zinc-100')}
+                        onClick={() => toggleHunk(key, true)}
+                      >
+                        <Check className="h-3 w-3" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn('h-5 px-1.5 text-[11px] gap-1', !isAccepted ? 'text-red-400' : 'text-zinc-400 hover:text-zinc-100')}
+                        onClick={() => toggleHunk(key, false)}
+                      >
+                        <X className="h-3 w-3" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <pre className="text-[11px] leading-4 font-mono overflow-x-auto py-1">
+                  {hunk.lines.map((line, lineIndex) => (
+                    <div
+                      key={lineIndex}
+                      className={cn(
+                        'px-3 whitespace-pre',
+                        line[0] === '+' && 'bg-green-500/10 text-green-300',
+                        line[0] === '-' && 'bg-red-500/10 text-red-300',
+                        line[0] === ' ' && 'text-zinc-400'
+                      )}
+                    >
+                      {line}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      {proposal.skipped.map(skipped => (
+        <div key={`${skipped.path}:${skipped.reason}`} className="text-[11px] text-zinc-500">
+          Skipped <span className="font-mono">{skipped.path}</span>: {skipped.reason}
+        </div>
+      ))}
+
+      {proposal.files.length > 0 && (
+        <div className="flex items-center justify-end gap-2">
+          {applied ? (
+            <span className="text-xs text-green-400 flex items-center gap-1">
+              <Check className="h-3 w-3" />
+              Applied
+            </span>
+          ) : (
+            <Button
+              size="sm"
+              className="h-7 text-xs bg-blue-600 hover:bg-blue-700"
+              disabled={acceptedCount === 0 || isApplying}
+              onClick={handleApply}
+            >
+              {isApplying && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Apply {acceptedCount} {acceptedCount === 1 ? 'change' : 'changes'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EditProposalCard;
@@ -0,0 +1,317 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Bot, Loader2, Send, Square, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getErrorMessage } from '@/utils';
+import {
+  aiThreadAPI,
+  type RoomAIAskPolicy,
+  type RoomAISettings,
+  type RoomAIThread,
+  type RoomAIThreadMessage,
+} from '@/lib/api';
+import socketService, {
+  type AIThreadChunkEvent,
+  type AIThreadClearedEvent,
+  type AIThreadMessageEvent,
+  type AIThreadSettingsEvent,
+} from '@/lib/socket';
+
+interface SharedAIThreadProps {
+  roomId: string;
+  activeFileId?: string;
+  activeFileContent?: string;
+  cursorPosition?: { line: number; column: number };
+  model?: string;
+}
+
+const ASK_POLICY_LABELS: Record<RoomAIAskPolicy, string> = {
+  everyone: 'Everyone can ask',
+  admins: 'Owners and admins can ask',
+  owner: 'Only the owner can ask',
+};
+
+const ThreadMessage: React.FC<{ message: RoomAIThreadMessage; content?: string; streaming?: boolean }> = ({
+  message,
+  content = message.content,
+  streaming = false,
+}) => {
+  const isQuestion = message.role === 'user';
+  return (
+    <div className={cn('rounded-lg p-3 text-sm', isQuestion ? 'bg-blue-600/20 border border-blue-600/30' : 'bg-zinc-800/80')}>
+      <div className="flex items-center gap-2 mb-1 text-xs text-zinc-400">
+        {isQuestion ? <Users className="h-3 w-3" /> : <Bot className="h-3 w-3 text-blue-400" />}
+        <span className="font-medium text-zinc-300">
+          {isQuestion ? message.userName : `AI, answering ${message.userName}`}
+        </span>
+        {message.model && <span className="text-zinc-500">{message.model}</span>}
+        {streaming && <Loader2 className="h-3 w-3 animate-spin" />}
+        {message.status === 'cancelled' && <span className="text-amber-400">stopped</span>}
+        {message.status === 'failed' && <span className="text-red-400">failed</span>}
+      </div>
+      {content ? (
+        <div className="prose prose-invert prose-xs max-w-none">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
+        </div>
+      ) : (
+        <span className="text-xs text-zinc-500">{streaming ? 'Thinking...' : 'No reply'}</span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The room's shared AI thread: questions from any allowed participant and
+ * the replies to them, streamed to everyone in the room as they arrive.
+ */
+export const SharedAIThread: React.FC<SharedAIThreadProps> = ({
+  roomId,
+  activeFileId,
+  activeFileContent,
+  cursorPosition,
+  model,
+}) => {
+  const [thread, setThread] = useState<RoomAIThread | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [replies, setReplies] = useState<Record<string, string>>({}); // Streamed text by question id
+  const [input, setInput] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [myQuestionId, setMyQuestionId] = useState<string | null>(null); // Question of ours being answered
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const loadThread = useCallback(async () => {
+    try {
+      setThread(await aiThreadAPI.get(roomId));
+    } catch (error) {
+      toast.error(`Could not load the room AI thread: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  useEffect(() => {
+    const handleMessage = ({ roomId: eventRoomId, message }: AIThreadMessageEvent) => {
+      if (eventRoomId !== roomId) return;
+      setThread(prev => prev && !prev.messages.some(entry => entry.id === message.id)
+        ? { ...prev, messages: [...prev.messages, message] }
+        : prev);
+      if (message.replyTo) {
+        const questionId = message.replyTo;
+        setReplies(prev => {
+          const next = { ...prev };
+          delete next[questionId];
+          return next;
+        });
+        setMyQuestionId(current => (current === questionId ? null : current));
+      }
+    };
+    const handleChunk = ({ roomId: eventRoomId, questionId, text }: AIThreadChunkEvent) => {
+      if (eventRoomId !== roomId) return;
+      setReplies(prev => ({ ...prev, [questionId]: (prev[questionId] || '') + text }));
+    };
+    // Whether we may ask depends on our role, so the server works it out again
+    const handleSettings = ({ roomId: eventRoomId }: AIThreadSettingsEvent) => {
+      if (eventRoomId === roomId) loadThread();
+    };
+    const handleCleared = ({ roomId: eventRoomId, userName }: AIThreadClearedEvent) => {
+      if (eventRoomId !== roomId) return;
+      setThread(prev => (prev ? { ...prev, messages: [] } : prev));
+      setReplies({});
+      if (userName) toast.info(`${userName} cleared the room AI thread`);
+    };
+
+    socketService.onAIThreadMessage(handleMessage);
+    socketService.onAIThreadChunk(handleChunk);
+    socketService.onAIThreadSettings(handleSettings);
+    socketService.onAIThreadCleared(handleCleared);
+    return () => {
+      socketService.socket?.off('ai-thread-message', handleMessage);
+      socketService.socket?.off('ai-thread-chunk', handleChunk);
+      socketService.socket?.off('ai-thread-settings', handleSettings);
+      socketService.socket?.off('ai-thread-cleared', handleCleared);
+    };
+  }, [roomId, loadThread]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [thread?.messages, replies]);
+
+  const messages = thread?.messages || [];
+  const answered = new Set(messages.flatMap(message => (message.replyTo ? [message.replyTo] : [])));
+  // Replies come one at a time, so only the latest question can be waiting
+  const pending = messages.length > 0 && messages[messages.length - 1].role === 'user' && !answered.has(messages[messages.length - 1].id)
+    ? messages[messages.length - 1]
+    : null;
+
+  const handleAsk = async () => {
+    const message = input.trim();
+    if (!message || isAsking) return;
+    setIsAsking(true);
+    try {
+      const questionId = await socketService.askRoomAI({
+        message,
+        model,
+        activeFileId,
+        activeFileContent,
+        cursorLine: cursorPosition?.line || undefined,
+      });
+      setMyQuestionId(questionId);
+      setInput('');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleUpdateSettings = async (update: Partial<RoomAISettings>) => {
+    try {
+      const settings = await aiThreadAPI.updateSettings(roomId, update);
+      setThread(prev => (prev ? { ...prev, settings } : prev));
+    } catch (error) {
+      toast.error(`Could not update AI settings: ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every message in the room AI thread?')) return;
+    try {
+      await aiThreadAPI.clear(roomId);
+    } catch (error) {
+      toast.error(`Could not clear the AI thread: ${getErrorMessage(error)}`);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+  if (!thread) {
+    return <div className="flex-1 p-4 text-sm text-zinc-500">The room AI thread is unavailable.</div>;
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {thread.canManage && (
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800 text-xs">
+          <Switch
+            checked={thread.settings.sharedThread}
+            onCheckedChange={checked => handleUpdateSettings({ sharedThread: checked })}
+          />
+          <span className="text-zinc-400">Shared thread</span>
+          <Select
+            value={thread.settings.askPolicy}
+            onValueChange={value => handleUpdateSettings({ askPolicy: value as RoomAIAskPolicy })}
+          >
+            <SelectTrigger className="h-7 w-auto ml-auto text-xs bg-zinc-900 border-zinc-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ASK_POLICY_LABELS) as RoomAIAskPolicy[]).map(policy => (
+                <SelectItem key={policy} value={policy} className="text-xs">
+                  {ASK_POLICY_LABELS[policy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-zinc-400 hover:text-red-400"
+            title="Clear the thread"
+            disabled={messages.length === 0}
+            onClick={handleClear}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {!thread.settings.sharedThread ? (
+          <p className="text-sm text-zinc-500 text-center mt-8">
+            The shared AI thread is turned off.{thread.canManage ? ' Turn it on to let the room ask together.' : ''}
+          </p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center mt-8">
+            Questions asked here, and the AI's replies, are seen by everyone in the room.
+          </p>
+        ) : null}
+        {messages.map(message => (
+          <ThreadMessage key={message.id} message={message} />
+        ))}
+        {pending && (
+          <ThreadMessage
+            message={{ ...pending, id: `${pending.id}-reply`, role: 'assistant', content: '', model: undefined }}
+            content={replies[pending.id]}
+            streaming
+          />
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {thread.settings.sharedThread && (
+        <div className="p-3 border-t border-zinc-800">
+          <div className="relative">
+            <Textarea
+              placeholder={thread.canAsk ? 'Ask the AI for the whole room...' : ASK_POLICY_LABELS[thread.settings.askPolicy]}
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleAsk();
+                }
+              }}
+              disabled={!thread.canAsk || isAsking}
+              className="bg-zinc-900 border-zinc-700/50 rounded-lg text-zinc-100 placeholder:text-zinc-500 pr-10 resize-none"
+              rows={1}
+            />
+            <div className="absolute right-1 bottom-1">
+              {myQuestionId ? (
+                <Button
+                  type="button"
+                  onClick={() => socketService.cancelRoomAI(myQuestionId)}
+                  title="Stop the reply"
+                  className="h-7 w-7 p-0 hover:bg-blue-700"
+                >
+                  <Square className="h-3 w-3 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  onClick={handleAsk}
+                  disabled={!thread.canAsk || !input.trim() || isAsking || pending !== null}
+                  className="h-7 w-7 p-0 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedAIThread;
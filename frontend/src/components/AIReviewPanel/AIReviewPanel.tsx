@@ -0,0 +1,189 @@
+import React from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  Info,
+  Loader2,
+  ScanSearch,
+  Square,
+  Wand2,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAIReview } from '@/contexts/AIReviewContext';
+import { useEditor } from '@/contexts/EditorContext';
+import type { AIReviewFinding, AIReviewSeverity } from '@/services/aiService';
+
+interface AIReviewPanelProps {
+  roomId: string;
+  onOpenFile: (file: { fileId: string; path: string }) => void;
+}
+
+const SEVERITY_ICONS: Record<AIReviewSeverity, React.FC<{ className?: string }>> = {
+  error: AlertCircle,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+const SEVERITY_COLORS: Record<AIReviewSeverity, string> = {
+  error: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-blue-400',
+};
+
+const SEVERITY_ORDER: AIReviewSeverity[] = ['error', 'warning', 'info'];
+
+const lineLabel = (finding: AIReviewFinding) =>
+  finding.startLine === finding.endLine ? `${finding.startLine}` : `${finding.startLine}-${finding.endLine}`;
+
+/**
+ * Findings of the room's latest AI review. Selecting one opens its file at
+ * the lines; fixes are applied through the editor so collaborators get them.
+ */
+export const AIReviewPanel: React.FC<AIReviewPanelProps> = ({ roomId, onOpenFile }) => {
+  const { review, isReviewing, startReview, cancelReview, clearReview, requestReveal, resolveFinding } = useAIReview();
+  const { state: { tabs }, setActiveTab } = useEditor();
+
+  const handleReveal = (finding: AIReviewFinding, applyFix = false) => {
+    // An open tab may still know the file by an id from before its last save
+    const index = tabs.findIndex(tab => tab.path === finding.path || tab.fileId === finding.fileId);
+    if (index >= 0) setActiveTab(index);
+    else onOpenFile({ fileId: finding.fileId, path: finding.path });
+    requestReveal(finding, applyFix);
+  };
+
+  const findings = review
+    ? [...review.findings].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    : [];
+
+  return (
+    <div className="h-full bg-discord-sidebar flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between p-2 border-b border-discord-border">
+        <span className="text-xs font-medium text-discord-text uppercase tracking-wide">
+          AI Review
+        </span>
+        {review && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 hover:bg-discord-sidebar-hover"
+            onClick={clearReview}
+            title="Clear Review"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <div className="p-2 space-y-2 border-b border-discord-border">
+        {isReviewing ? (
+          <Button size="sm" variant="secondary" className="w-full h-7 text-xs" onClick={cancelReview}>
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Reviewing...
+            <Square className="h-3 w-3 ml-auto fill-current" />
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            className="w-full h-7 text-xs"
+            onClick={() => startReview({ roomId, scope: 'changes' })}
+          >
+            <ScanSearch className="h-3 w-3 mr-1" />
+            Review Uncommitted Changes
+          </Button>
+        )}
+        <p className="text-xs text-discord-muted">
+          To review part of a file, select it and choose "AI: Review Selection" from the editor's context menu.
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {!review ? (
+          <div className="p-4 text-xs text-discord-muted text-center">No review yet</div>
+        ) : (
+          <div className="p-2 space-y-3">
+            {review.summary && (
+              <p className="text-xs text-discord-text whitespace-pre-wrap">{review.summary}</p>
+            )}
+            <div className="flex items-center gap-2 text-xs text-discord-muted">
+              <span>
+                {review.files.length} file{review.files.length === 1 ? '' : 's'} reviewed
+              </span>
+              <Badge variant="secondary" className="h-4 text-xs bg-discord-primary/20 text-discord-primary border-none">
+                {findings.length}
+              </Badge>
+              <span className="ml-auto truncate">{review.model}</span>
+            </div>
+
+            {findings.map(finding => {
+              const Icon = SEVERITY_ICONS[finding.severity];
+              return (
+                <div
+                  key={finding.id}
+                  className="group rounded border border-discord-border bg-discord-editor/40 p-2 space-y-1 cursor-pointer hover:bg-discord-sidebar-hover"
+                  onClick={() => handleReveal(finding)}
+                >
+                  <div className="flex items-center gap-1 text-xs">
+                    <Icon className={cn('h-3 w-3 shrink-0', SEVERITY_COLORS[finding.severity])} />
+                    <span className="truncate text-white" title={finding.path}>
+                      {finding.path.split('/').pop()}
+                    </span>
+                    <span className="text-discord-muted shrink-0">:{lineLabel(finding)}</span>
+                    <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100">
+                      {finding.fix !== undefined && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 hover:bg-discord-sidebar-hover"
+                          onClick={e => {
+                            e.stopPropagation();
+                            handleReveal(finding, true);
+                          }}
+                          title="Apply Fix"
+                        >
+                          <Wand2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 hover:bg-discord-sidebar-hover"
+                        onClick={e => {
+                          e.stopPropagation();
+                          resolveFinding(finding.id);
+                        }}
+                        title="Dismiss"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-discord-text whitespace-pre-wrap">{finding.message}</p>
+                  {finding.fix !== undefined && (
+                    <pre className="text-xs bg-discord-editor rounded p-1 overflow-x-auto text-green-300">{finding.fix || '(remove the lines)'}</pre>
+                  )}
+                </div>
+              );
+            })}
+
+            {review.skipped.length > 0 && (
+              <div className="space-y-1 pt-2 border-t border-discord-border">
+                <div className="text-xs text-discord-muted">Not reviewed</div>
+                {review.skipped.map(entry => (
+                  <div key={entry.path} className="text-xs text-discord-muted truncate" title={entry.reason}>
+                    {entry.path}: {entry.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AIReviewPanel;
@@ -4,6 +4,7 @@ import {
   Search, 
   GitBranch, 
   Play, 
+  ScanSearch,
   Settings,
   User
 } from 'lucide-react';
@@ -14,6 +15,7 @@ export type ActivityBarPanel =
   | 'search' 
   | 'sourceControl' 
   | 'run' 
+  | 'review'
   | 'settings';
 
 interface ActivityBarProps {
@@ -52,6 +54,12 @@ export const ActivityBar: React.FC<ActivityBarProps> = ({
       label: 'Run and Debug',
       shortcut: 'Ctrl+Shift+D',
     },
+    {
+      id: 'review' as ActivityBarPanel,
+      icon: ScanSearch,
+      label: 'AI Review',
+      shortcut: 'Ctrl+Alt+R',
+    },
   ];
 
   const bottomItems = [
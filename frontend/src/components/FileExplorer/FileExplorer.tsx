@@ -25,6 +25,7 @@ import {
   ContextMenuTrigger,
 } from '@/components/ui/context-menu';
 import { fileAPI } from '@/lib/api';
+import socketService, { type SyncFileStructureEvent } from '@/lib/socket';
 import { toast } from 'sonner';
 
 export interface FileTreeItem {
@@ -290,6 +291,17 @@ export const FileExplorer: React.FC<FileExplorerProps> = ({
     }
   }, [roomId, loadFiles]);
 
+  // Reload when the server rewrites the tree, e.g. after a branch checkout
+  useEffect(() => {
+    const handleSync = (data: SyncFileStructureEvent) => {
+      if (data.roomId === roomId) loadFiles();
+    };
+    socketService.onSyncFileStructure(handleSync);
+    return () => {
+      socketService.socket?.off('sync-file-structure', handleSync);
+    };
+  }, [roomId, loadFiles]);
+
   useEffect(() => {
     if (isCreating && inputRef.current) {
       inputRef.current.focus();
@@ -1,15 +1,38 @@
-import React, { useRef, useEffect, useCallback, useState, useContext } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState, useContext } from 'react';
 import Editor, { type Monaco } from '@monaco-editor/react';
 import { configureMonaco, defaultEditorOptions, getEditorLanguage } from '@/lib/editor-config';
 import { FileTabBar } from '@/components/FileTabBar/FileTabBar';
 import { EditorContext, useEditor } from '@/contexts/EditorContext';
 import { collaborationService } from '@/lib/collaboration';
-import socketService from '@/lib/socket';
-import { fileAPI } from '@/lib/api';
+import { crdtCollaborationService } from '@/lib/crdtCollaboration';
+import socketService, { type CollaborationModeEvent, type FileRestoredEvent } from '@/lib/socket';
+import { collaborationAPI, fileAPI, fileVersionAPI, type CollaborationModeState } from '@/lib/api';
 import { toast } from 'sonner';
+import { History, Users } from 'lucide-react';
 import type { SelectedFile } from '@/types';
+import type { FileVersioning, FileVersionSummary } from '@/types/filesystem';
+import { VersionTimeline } from '@/components/VersionHistory/VersionTimeline';
+import { VersionDiffView } from '@/components/VersionHistory/VersionDiffView';
+import { getErrorMessage } from '@/utils';
 import './MonacoEditor.css';
 import { useAuth } from '@/contexts/AuthContext';
+import { useAIReview } from '@/contexts/AIReviewContext';
+import type { AIReviewFinding } from '@/services/aiService';
+import type { editor as MonacoEditorTypes } from 'monaco-editor';
+
+// Where a finding's lines are now: where the review saw them, or wherever they moved; null when edited since
+const locateFinding = (model: MonacoEditorTypes.ITextModel, monaco: Monaco, finding: AIReviewFinding) => {
+  const lineCount = model.getLineCount();
+  if (finding.endLine <= lineCount) {
+    const range = new monaco.Range(finding.startLine, 1, finding.endLine, model.getLineMaxColumn(finding.endLine));
+    if (model.getValueInRange(range, monaco.editor.EndOfLinePreference.LF) === finding.original) return range;
+  }
+  if (!finding.original.trim()) return null;
+  const [match] = model.findMatches(finding.original, false, false, true, null, false);
+  if (!match) return null;
+  const { startLineNumber, endLineNumber } = match.range;
+  return new monaco.Range(startLineNumber, 1, endLineNumber, model.getLineMaxColumn(endLineNumber));
+};
 
 interface MonacoEditorProps {
   roomId: string;
@@ -28,10 +51,27 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
   const editorContext = useEditor();
   const { user } = useAuth();
   const lastProcessedSelectedFileId = useRef<string | null>(null);
+  const [editorMountCount, setEditorMountCount] = useState(0); // Effects on the editor run again after a remount
+  const { review, revealRequest, startReview, completeReveal, resolveFinding } = useAIReview();
+
+  // Version history
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [diffVersion, setDiffVersion] = useState<FileVersioning | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // How the room edits together: operational transforms, or CRDT documents
+  const [collaboration, setCollaboration] = useState<CollaborationModeState | null>(null);
+  const [isSwitchingMode, setIsSwitchingMode] = useState(false);
+  const isCrdt = collaboration?.mode === 'crdt';
+  const wasCrdt = useRef(false);
 
   // Determine which state to use
   const { state: { tabs, activeTabIndex }, addTab, closeTab, setActiveTab, updateTabContent } = editorContext;
   const activeTab = tabs[activeTabIndex];
+  // The open tabs for effects that run on other changes, such as the mode switching back to OT
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
 
   const closeTabByFileId = useCallback((fileId: string) => {
     const index = tabs.findIndex(tab => tab.fileId === fileId);
@@ -136,12 +176,80 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
       editorContext.setTabModified(tabIndex, false);
 
       toast.success(`${tab.name} saved successfully`);
+      setHistoryRefreshKey(key => key + 1);
     } catch (error) {
       console.error('Error saving file:', error);
       toast.error(`Failed to save ${tab.name}`);
     }
   }, [tabs, editorContext]);
 
+  // The diff always compares against the active tab
+  useEffect(() => {
+    setDiffVersion(null);
+  }, [activeTab?.fileId]);
+
+  const handleSelectVersion = useCallback(async (summary: FileVersionSummary) => {
+    if (!activeTab) return;
+    try {
+      setDiffVersion(await fileVersionAPI.getVersion(activeTab.fileId, summary.version));
+    } catch (error) {
+      toast.error(`Failed to load version ${summary.version}: ${getErrorMessage(error)}`);
+    }
+  }, [activeTab]);
+
+  const handleRestoreVersion = useCallback(async () => {
+    if (!activeTab || !diffVersion) return;
+    setIsRestoring(true);
+    try {
+      // Open tabs, ours included, pick the content up from the file-restored broadcast
+      await fileVersionAPI.restoreVersion(activeTab.fileId, diffVersion.version);
+      toast.success(`${activeTab.name} restored to version ${diffVersion.version}`);
+      setDiffVersion(null);
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      toast.error(`Failed to restore version ${diffVersion.version}: ${getErrorMessage(error)}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [activeTab, diffVersion]);
+
+  // Put one hunk back through the live editor so collaborators get it as an edit, then save
+  const handleRestoreHunk = useCallback(async (content: string) => {
+    if (!activeTab || !diffVersion) return;
+    const model = editorRef.current?.getModel();
+    if (model) {
+      const current: string = model.getValue();
+      let start = 0;
+      while (start < current.length && start < content.length && current[start] === content[start]) start++;
+      let end = 0;
+      while (
+        end < current.length - start &&
+        end < content.length - start &&
+        current[current.length - 1 - end] === content[content.length - 1 - end]
+      ) end++;
+      const from = model.getPositionAt(start);
+      const to = model.getPositionAt(current.length - end);
+      editorRef.current.executeEdits('version-history', [{
+        range: { startLineNumber: from.lineNumber, startColumn: from.column, endLineNumber: to.lineNumber, endColumn: to.column },
+        text: content.slice(start, content.length - end),
+      }]);
+      editorRef.current.pushUndoStop();
+    } else {
+      updateTabContent(activeTabIndex, content);
+    }
+
+    setIsRestoring(true);
+    try {
+      await fileAPI.updateFileContent(activeTab.fileId, content, `Restored a change from version ${diffVersion.version}`);
+      editorContext.setTabModified(activeTabIndex, false);
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      toast.error(`Failed to save ${activeTab.name}: ${getErrorMessage(error)}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [activeTab, activeTabIndex, diffVersion, editorContext, updateTabContent]);
+
   // Handle editor mount
   const handleEditorMount = useCallback((editor: any, monaco: Monaco) => {
     editorRef.current = editor;
@@ -153,10 +261,12 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
     // Set up collaboration
     collaborationService.setEditor(editor);
     collaborationService.setRoomId(roomId);
+    crdtCollaborationService.setEditor(editor);
     if (user?.id) {
       collaborationService.setUser({ id: user.id, name: user.name || 'User' });
     }
 
+    setEditorMountCount(count => count + 1);
     console.log('Monaco editor mounted successfully');
   }, [roomId, user?.id, user?.name]);
 
@@ -177,6 +287,230 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
     };
   }, [handleSaveFile, activeTabIndex]);
 
+  // AI review findings in the open file, as markers and gutter highlights
+  const activeFileId = activeTab?.fileId;
+  const activePath = activeTab?.path;
+  const activeFindings = useMemo(
+    () => (review?.findings || []).filter(finding => finding.path === activePath || finding.fileId === activeFileId),
+    [review, activePath, activeFileId]
+  );
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!editor || !monaco || !model) return;
+    const severities = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    const lineCount = model.getLineCount();
+    const lines = activeFindings.map(finding => ({
+      finding,
+      start: Math.min(finding.startLine, lineCount),
+      end: Math.min(finding.endLine, lineCount),
+    }));
+    monaco.editor.setModelMarkers(model, 'ai-review', lines.map(({ finding, start, end }) => ({
+      severity: severities[finding.severity],
+      message: finding.fix !== undefined ? `${finding.message}\n\nA fix is available in the AI Review panel.` : finding.message,
+      source: 'AI review',
+      startLineNumber: start,
+      startColumn: 1,
+      endLineNumber: end,
+      endColumn: model.getLineMaxColumn(end),
+    })));
+    const decorations = editor.createDecorationsCollection(lines.map(({ finding, start, end }) => ({
+      range: new monaco.Range(start, 1, end, 1),
+      options: { isWholeLine: true, linesDecorationsClassName: `ai-review-line ai-review-line-${finding.severity}` },
+    })));
+    return () => {
+      decorations.clear();
+      if (!model.isDisposed()) monaco.editor.setModelMarkers(model, 'ai-review', []);
+    };
+  }, [activeFindings, editorMountCount]);
+
+  // Review commands in the editor's context menu and command palette
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !activeFileId) return;
+    const selectionAction = editor.addAction({
+      id: 'ai-review-selection',
+      label: 'AI: Review Selection',
+      precondition: 'editorHasSelection',
+      contextMenuGroupId: 'ai',
+      contextMenuOrder: 1,
+      run: (current: MonacoEditorTypes.ICodeEditor) => {
+        const selection = current.getSelection();
+        if (!selection || selection.isEmpty()) return;
+        // A selection ending at the start of a line leaves that line out
+        const endLine = selection.endColumn === 1 && selection.endLineNumber > selection.startLineNumber
+          ? selection.endLineNumber - 1
+          : selection.endLineNumber;
+        startReview({
+          roomId,
+          scope: 'selection',
+          selection: { fileId: activeFileId, startLine: selection.startLineNumber, endLine, content: current.getModel()?.getValue() },
+        });
+      },
+    });
+    const changesAction = editor.addAction({
+      id: 'ai-review-changes',
+      label: 'AI: Review Uncommitted Changes',
+      contextMenuGroupId: 'ai',
+      contextMenuOrder: 2,
+      run: () => {
+        startReview({ roomId, scope: 'changes' });
+      },
+    });
+    return () => {
+      selectionAction.dispose();
+      changesAction.dispose();
+    };
+  }, [activeFileId, roomId, startReview, editorMountCount]);
+
+  // Show a finding picked in the review panel once its tab is open, applying its fix if asked
+  useEffect(() => {
+    if (!revealRequest) return;
+    const { finding, applyFix } = revealRequest;
+    if (finding.path !== activePath && finding.fileId !== activeFileId) return;
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!editor || !monaco || !model) return;
+    completeReveal();
+
+    const range = locateFinding(model, monaco, finding);
+    if (applyFix && finding.fix !== undefined) {
+      if (!range) {
+        toast.error('These lines changed since the review; review them again to get a fix');
+        return;
+      }
+      // An empty fix removes the lines rather than leaving them blank
+      const lineCount = model.getLineCount();
+      const editRange = finding.fix === '' && range.endLineNumber < lineCount
+        ? new monaco.Range(range.startLineNumber, 1, range.endLineNumber + 1, 1)
+        : range;
+      // Through the editor, so the fix reaches collaborators and can be undone
+      editor.executeEdits('ai-review', [{ range: editRange, text: finding.fix }]);
+      editor.pushUndoStop();
+      resolveFinding(finding.id);
+    }
+
+    const line = Math.min(range?.startLineNumber ?? finding.startLine, model.getLineCount());
+    const endLine = Math.min(range?.endLineNumber ?? finding.endLine, model.getLineCount());
+    editor.revealLinesInCenter(line, endLine);
+    editor.setPosition({ lineNumber: line, column: 1 });
+    editor.focus();
+  }, [revealRequest, activePath, activeFileId, editorMountCount, completeReveal, resolveFinding]);
+
+  // Someone restored an older version of a file that may be open here
+  useEffect(() => {
+    const handleRestored = (data: FileRestoredEvent) => {
+      tabs.forEach((tab, index) => {
+        if (!data.fileIds.includes(tab.fileId)) return;
+        // CRDT documents get the restored content as an update of their own
+        if (!isCrdt) {
+          collaborationService.resetFile(tab.fileId, data.content, data.version);
+          updateTabContent(index, data.content);
+        }
+        editorContext.setTabModified(index, false);
+        if (data.userId !== user?.id) {
+          toast.info(`${data.userName || 'Someone'} restored ${tab.name} to version ${data.restoredVersion}`);
+        }
+      });
+    };
+    socketService.onFileRestored(handleRestored);
+    return () => {
+      socketService.socket?.off('file-restored', handleRestored);
+    };
+  }, [tabs, updateTabContent, editorContext, user?.id, isCrdt]);
+
+  // Edits to open tabs that are not in the editor, e.g. from replace in files
+  useEffect(() => {
+    collaborationService.onBackgroundFileChange((fileId, content) => {
+      const index = tabs.findIndex(tab => tab.fileId === fileId);
+      if (index >= 0) updateTabContent(index, content);
+    });
+    return () => collaborationService.onBackgroundFileChange(null);
+  }, [tabs, updateTabContent]);
+
+  // The room's mode, and switches made by its owners and admins
+  useEffect(() => {
+    let isCancelled = false;
+    collaborationAPI.get(roomId)
+      .then(state => {
+        if (!isCancelled) setCollaboration(state);
+      })
+      .catch(error => console.error('Failed to load the collaboration mode:', error));
+
+    const handleModeChange = (data: CollaborationModeEvent) => {
+      if (data.roomId !== roomId) return;
+      setCollaboration(current => ({ mode: data.mode, canManage: current?.canManage ?? false }));
+      if (data.userId !== user?.id) {
+        toast.info(`${data.userName || 'Someone'} switched the room to ${data.mode === 'crdt' ? 'CRDT' : 'OT'} editing`);
+      }
+    };
+    socketService.onCollaborationMode(handleModeChange);
+    return () => {
+      isCancelled = true;
+      socketService.socket?.off('collaboration-mode', handleModeChange);
+    };
+  }, [roomId, user?.id]);
+
+  const handleToggleMode = useCallback(async () => {
+    if (!collaboration) return;
+    setIsSwitchingMode(true);
+    try {
+      const mode = isCrdt ? 'ot' : 'crdt';
+      await collaborationAPI.setMode(roomId, mode);
+      setCollaboration({ ...collaboration, mode });
+    } catch (error) {
+      toast.error(`Failed to switch the editing mode: ${getErrorMessage(error)}`);
+    } finally {
+      setIsSwitchingMode(false);
+    }
+  }, [collaboration, isCrdt, roomId]);
+
+  // Only one of the two keeps the editor in sync; coming back to OT picks every open file up again
+  useEffect(() => {
+    collaborationService.setEnabled(!isCrdt);
+    if (!isCrdt && wasCrdt.current) {
+      tabsRef.current.forEach(tab => {
+        collaborationService.initializeFile(tab.fileId, tab.content, 0);
+        socketService.requestFileSync(tab.fileId);
+      });
+    }
+    wasCrdt.current = isCrdt;
+  }, [isCrdt]);
+
+  useEffect(() => {
+    if (!isCrdt) return;
+    crdtCollaborationService.listen();
+    return () => crdtCollaborationService.cleanup();
+  }, [isCrdt]);
+
+  useEffect(() => {
+    if (isCrdt && user?.id) {
+      crdtCollaborationService.setUser({ id: user.id, name: user.name || 'User' });
+    }
+  }, [isCrdt, user?.id, user?.name]);
+
+  // Every open tab has a document, so changes to the others show when switching to them
+  useEffect(() => {
+    if (!isCrdt) return;
+    crdtCollaborationService.syncOpenFiles(tabs.map(tab => tab.fileId));
+    crdtCollaborationService.onBackgroundFileChange((fileId, content) => {
+      const index = tabs.findIndex(tab => tab.fileId === fileId);
+      if (index >= 0) updateTabContent(index, content);
+    });
+    return () => crdtCollaborationService.onBackgroundFileChange(null);
+  }, [isCrdt, tabs, updateTabContent]);
+
+  useEffect(() => {
+    if (isCrdt) crdtCollaborationService.bindEditor(activeTab?.fileId || null);
+  }, [isCrdt, activeTab?.fileId, editorMountCount]);
+
   // Update collaboration current file when active tab changes
   useEffect(() => {
     if (activeTab?.fileId) {
@@ -208,8 +542,30 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
       {/* Editor */}
       <div className="flex-1 relative">
         {/* Editor actions */}
-        <div className="absolute top-2 right-2 z-10 flex gap-2">
-          {activeTab && (
+        <div className={`absolute top-2 ${isHistoryOpen ? 'right-[16.5rem]' : 'right-2'} z-10 flex gap-2`}>
+          {activeTab && !isHistoryOpen && (
+            <button
+              className="px-2 py-1 text-xs bg-grey-100 opacity-75 text-white rounded hover:bg-blue-500"
+              onClick={() => setIsHistoryOpen(true)}
+              title="Version History"
+            >
+              <History className="w-3 h-3" />
+            </button>
+          )}
+          {collaboration?.canManage && (
+            <button
+              className={`px-2 py-1 text-xs opacity-75 text-white rounded hover:bg-blue-500 disabled:opacity-50 ${isCrdt ? 'bg-blue-600' : 'bg-grey-100'}`}
+              onClick={handleToggleMode}
+              disabled={isSwitchingMode}
+              title={isCrdt
+                ? 'Editing with CRDT documents: offline edits merge on reconnect. Click to switch the room back to OT'
+                : 'Editing with operational transforms. Click to switch the room to CRDT documents'}
+            >
+              <Users className="w-3 h-3 inline mr-1" />
+              {isCrdt ? 'CRDT' : 'OT'}
+            </button>
+          )}
+          {activeTab && !diffVersion && (
             <button
               className="px-2 py-1 text-xs bg-grey-100 opacity-75 text-white rounded hover:bg-blue-500"
               onClick={() => handleSaveFile(activeTabIndex)}
@@ -224,29 +580,62 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
           </div>
         ) : activeTab ? (
-          <Editor
-            height="100%"
-            value={activeTab.content}
-            language={activeTab.language}
-            path={activeTab.fileId}
-            onChange={handleEditorChange}
-            onMount={handleEditorMount}
-            theme="hivecodex-dark"
-            options={{
-              ...defaultEditorOptions,
-              fontSize: 14,
-              fontFamily: 'JetBrains Mono, Consolas, "Courier New", monospace',
-              wordWrap: 'on',
-              automaticLayout: true,
-              scrollBeyondLastLine: false,
-              minimap: { enabled: true },
-              bracketPairColorization: { enabled: true },
-              guides: {
-                bracketPairs: true,
-                indentation: true,
-              },
-            }}
-          />
+          <div className="flex h-full">
+            <div className="flex-1 min-w-0">
+              {diffVersion && (
+                <VersionDiffView
+                  version={diffVersion}
+                  currentContent={activeTab.content}
+                  language={activeTab.language}
+                  isRestoring={isRestoring}
+                  onRestoreVersion={handleRestoreVersion}
+                  onRestoreHunk={handleRestoreHunk}
+                  onClose={() => setDiffVersion(null)}
+                />
+              )}
+              {/* Stays mounted under the diff so restored hunks go through collaboration */}
+              <div className={diffVersion ? 'hidden' : 'h-full'}>
+                <Editor
+                  height="100%"
+                  value={activeTab.content}
+                  language={activeTab.language}
+                  path={activeTab.fileId}
+                  onChange={handleEditorChange}
+                  onMount={handleEditorMount}
+                  theme="hivecodex-dark"
+                  options={{
+                    ...defaultEditorOptions,
+                    fontSize: 14,
+                    fontFamily: 'JetBrains Mono, Consolas, "Courier New", monospace',
+                    wordWrap: 'on',
+                    automaticLayout: true,
+                    scrollBeyondLastLine: false,
+                    minimap: { enabled: true },
+                    bracketPairColorization: { enabled: true },
+                    guides: {
+                      bracketPairs: true,
+                      indentation: true,
+                    },
+                  }}
+                />
+              </div>
+            </div>
+            {isHistoryOpen && (
+              <div className="w-64 flex-shrink-0">
+                <VersionTimeline
+                  fileId={activeTab.fileId}
+                  fileName={activeTab.name}
+                  selectedVersion={diffVersion?.version ?? null}
+                  refreshKey={historyRefreshKey}
+                  onSelect={handleSelectVersion}
+                  onClose={() => {
+                    setIsHistoryOpen(false);
+                    setDiffVersion(null);
+                  }}
+                />
+              </div>
+            )}
+          </div>
         ) : (
           <div className="flex items-center justify-center h-full text-center bg-gray-900">
             <div className="text-gray-400">
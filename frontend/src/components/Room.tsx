@@ -20,6 +20,7 @@ import { ActivityBar } from '@/components/ActivityBar/ActivityBar';
 import { FileExplorer } from '@/components/FileExplorer/FileExplorer';
 import { SearchPanel } from '@/components/SearchPanel/SearchPanel';
 import { SourceControlPanel } from '@/components/SourceControlPanel/SourceControlPanel';
+import { AIReviewPanel } from '@/components/AIReviewPanel/AIReviewPanel';
 import { RunPanel } from '@/components/RunPanel/RunPanel';
 import { UsersPanel } from '@/components/UsersPanel/UsersPanel';
 import { SettingsPanel } from '@/components/SettingsPanel/SettingsPanel';
@@ -53,12 +54,15 @@ interface FileTreeItem {
 import { User, Participant as APIParticipant } from '@/lib/api';
 
 import { EditorProvider } from '@/contexts/EditorContext';
+import { AIReviewProvider, useAIReview } from '@/contexts/AIReviewContext';
 
 const Room = () => {
   // ... existing code
   return (
     <EditorProvider>
-      <RoomContent />
+      <AIReviewProvider>
+        <RoomContent />
+      </AIReviewProvider>
     </EditorProvider>
   );
 };
@@ -81,6 +85,7 @@ const RoomContent = () => {
   const [isRightPanelOpen, setIsRightPanelOpen] = useState(true);
   const [isRightPanelMinimized, setIsRightPanelMinimized] = useState(false);
   const [activeView, setActiveView] = useState('explorer');
+  const { isReviewing } = useAIReview();
 
   // Voice state
   const [isVoiceConnected, setIsVoiceConnected] = useState(false);
@@ -110,6 +115,13 @@ const RoomContent = () => {
       currentRoomId: p.currentRoomId,
     }));
 
+  // Reviews can start from the editor, so show their findings as they come in
+  useEffect(() => {
+    if (!isReviewing) return;
+    setActiveView('review');
+    setIsExplorerOpen(true);
+  }, [isReviewing]);
+
   // Fetch room data
   useEffect(() => {
     if (!roomId) return;
@@ -476,6 +488,22 @@ const RoomContent = () => {
                     }}
                   />
                 )}
+                {activeView === 'review' && (
+                  <AIReviewPanel
+                    roomId={roomId || ''}
+                    onOpenFile={({ fileId, path }) => {
+                      const name = path.split('/').pop() || path;
+                      handleFileSelect({
+                        id: fileId,
+                        name,
+                        type: 'file',
+                        path,
+                        extension: name.includes('.') ? name.split('.').pop() : undefined,
+                        fileId,
+                      });
+                    }}
+                  />
+                )}
                 {activeView === 'run' && (
                   <RunPanel
                     roomId={roomId || ''}
@@ -602,6 +630,8 @@ const RoomContent = () => {
                       className="flex-1 m-0 p-0 overflow-hidden"
                     >
                       <AIAssistant
+                        roomId={roomId}
+                        activeFileId={selectedFile?.fileId}
                         activeFileName={selectedFile?.name}
                         activeFileContent={selectedFile?.content}
                         activeFileLanguage={selectedFile?.language}
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { RunConfiguration, RunConfigurationInput } from '@/lib/api';
+
+interface RunConfigurationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  configuration?: RunConfiguration | null;
+  languages: { value: string; label: string }[];
+  onSave: (config: RunConfigurationInput) => Promise<void>;
+}
+
+// Splits a command line into args, honouring single and double quotes
+const parseArgs = (value: string): string[] => {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+};
+
+const formatArgs = (args: string[]): string =>
+  args.map(arg => (/\s/.test(arg) || arg === '' ? `"${arg}"` : arg)).join(' ');
+
+// One KEY=VALUE pair per line; blank lines and # comments are ignored
+const parseEnv = (value: string): { name: string; value: string }[] =>
+  value
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const index = line.indexOf('=');
+      return index === -1
+        ? { name: line, value: '' }
+        : { name: line.slice(0, index).trim(), value: line.slice(index + 1) };
+    });
+
+const formatEnv = (env: { name: string; value: string }[]): string =>
+  env.map(variable => `${variable.name}=${variable.value}`).join('\n');
+
+export const RunConfigurationDialog: React.FC<RunConfigurationDialogProps> = ({
+  open,
+  onOpenChange,
+  configuration,
+  languages,
+  onSave,
+}) => {
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState('javascript');
+  const [command, setCommand] = useState('');
+  const [args, setArgs] = useState('');
+  const [workingDirectory, setWorkingDirectory] = useState('');
+  const [env, setEnv] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the dialog is opened
+  useEffect(() => {
+    if (!open) return;
+    setName(configuration?.name ?? '');
+    setLanguage(configuration?.language ?? 'javascript');
+    setCommand(configuration?.command ?? '');
+    setArgs(formatArgs(configuration?.args ?? []));
+    setWorkingDirectory(configuration?.workingDirectory ?? '');
+    setEnv(formatEnv(configuration?.env ?? []));
+  }, [open, configuration]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        language,
+        command: command.trim(),
+        args: parseArgs(args),
+        env: parseEnv(env),
+        workingDirectory: workingDirectory.trim(),
+      });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the failure; keep the form open so it can be fixed
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {configuration ? 'Edit Run Configuration' : 'New Run Configuration'}
+          </DialogTitle>
+          <DialogDescription>
+            Runs against the room's whole file tree. Paths are relative to the
+            project root.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Name</label>
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Node.js App"
+              required
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Language</label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languages.map(lang => (
+                  <SelectItem key={lang.value} value={lang.value}>
+                    {lang.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Command</label>
+              <Input
+                value={command}
+                onChange={e => setCommand(e.target.value)}
+                placeholder="node"
+                required
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <label className="text-sm font-medium">Arguments</label>
+              <Input
+                value={args}
+                onChange={e => setArgs(e.target.value)}
+                placeholder="index.js --verbose"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Working directory</label>
+            <Input
+              value={workingDirectory}
+              onChange={e => setWorkingDirectory(e.target.value)}
+              placeholder="(project root)"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium">Environment</label>
+            <Textarea
+              value={env}
+              onChange={e => setEnv(e.target.value)}
+              placeholder="NODE_ENV=development"
+              className="font-mono text-xs"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim() || !command.trim()}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
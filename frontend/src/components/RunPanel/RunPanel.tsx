@@ -13,7 +13,9 @@ import {
   Clock,
   MoreHorizontal,
   Trash2,
-  Download
+  Download,
+  Plus,
+  Pencil
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -22,7 +24,21 @@ import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
+import { executionAPI, runConfigurationAPI } from '@/lib/api';
+import type { ExecutionResponse, RunConfiguration, RunConfigurationInput } from '@/lib/api';
+import socketService from '@/lib/socket';
+import type {
+  ExecutionStartParams,
+  ExecutionStartedEvent,
+  ExecutionOutputEvent,
+  ExecutionFinishedEvent,
+} from '@/lib/socket';
+import { getErrorMessage } from '@/utils';
+import { RunConfigurationDialog } from './RunConfigurationDialog';
+import { TerminalConsole } from './TerminalConsole';
+import type { TerminalEntry } from './TerminalConsole';
 
 type ExecutionStatus = 'idle' | 'running' | 'completed' | 'error' | 'timeout';
 
@@ -36,15 +52,10 @@ interface ExecutionResult {
   executionTime?: number;
   timestamp: Date;
   exitCode?: number;
-}
-
-interface RunConfiguration {
-  id: string;
-  name: string;
-  language: string;
-  command: string;
-  args?: string[];
-  workingDirectory?: string;
+  startedBy?: string; // Set for runs started by other people in the room
+  interactive?: boolean;
+  canInput?: boolean; // Own interactive runs, or ones shared with the room
+  transcript?: TerminalEntry[];
 }
 
 interface RunPanelProps {
@@ -63,7 +74,6 @@ const SUPPORTED_LANGUAGES = [
   { value: 'java', label: 'Java', ext: 'java' },
   { value: 'cpp', label: 'C++', ext: 'cpp' },
   { value: 'c', label: 'C', ext: 'c' },
-  { value: 'csharp', label: 'C#', ext: 'cs' },
   { value: 'php', label: 'PHP', ext: 'php' },
   { value: 'ruby', label: 'Ruby', ext: 'rb' },
   { value: 'go', label: 'Go', ext: 'go' },
@@ -100,12 +110,50 @@ const getStatusColor = (status: ExecutionStatus) => {
   }
 };
 
+const notifyExecutionStatus = (status: ExecutionStatus) => {
+  if (status === 'completed') {
+    toast.success('Code executed successfully');
+  } else if (status === 'timeout') {
+    toast.error('Execution timed out');
+  } else {
+    toast.error('Code execution failed');
+  }
+};
+
+const LIMIT_MESSAGES: Record<NonNullable<ExecutionResponse['limitExceeded']>, string> = {
+  timeout: 'Time limit exceeded',
+  cpu: 'CPU time limit exceeded',
+  memory: 'Memory limit exceeded',
+  output: 'Output limit exceeded',
+};
+
+// Closing line for an interactive transcript, since its stderr was already streamed
+const getTerminalNotice = (result: ExecutionResponse): string | null => {
+  if (result.limitExceeded) return LIMIT_MESSAGES[result.limitExceeded];
+  if (result.stderr.endsWith('Execution cancelled')) return 'Execution cancelled';
+  return null;
+};
+
+const appendTranscript = (
+  transcript: TerminalEntry[],
+  entry: TerminalEntry
+): TerminalEntry[] => {
+  const last = transcript[transcript.length - 1];
+  if (last && last.stream === entry.stream && last.userName === entry.userName) {
+    return [...transcript.slice(0, -1), { ...last, text: last.text + entry.text }];
+  }
+  return [...transcript, entry];
+};
+
 const ExecutionResultItem: React.FC<{
   result: ExecutionResult;
   onClear: (id: string) => void;
   isExpanded: boolean;
   onToggleExpand: (id: string) => void;
-}> = ({ result, onClear, isExpanded, onToggleExpand }) => {
+  onInput: (id: string, data: string) => void;
+  onEndOfInput: (id: string) => void;
+  onInterrupt: (id: string) => void;
+}> = ({ result, onClear, isExpanded, onToggleExpand, onInput, onEndOfInput, onInterrupt }) => {
   return (
     <div className="border-b border-discord-border last:border-b-0">
       <div
@@ -125,6 +173,11 @@ const ExecutionResultItem: React.FC<{
             <span className="text-sm text-discord-text truncate">
               {result.fileName}
             </span>
+            {result.startedBy && (
+              <span className="text-xs text-discord-muted truncate">
+                by {result.startedBy}
+              </span>
+            )}
             <Badge 
               variant="secondary" 
               className={cn(
@@ -160,7 +213,19 @@ const ExecutionResultItem: React.FC<{
       
       {isExpanded && (
         <div className="px-3 pb-3">
-          {result.output && (
+          {result.interactive && (
+            <div className="mb-2">
+              <TerminalConsole
+                transcript={result.transcript || []}
+                canInput={result.status === 'running' && !!result.canInput}
+                onInput={data => onInput(result.id, data)}
+                onEndOfInput={() => onEndOfInput(result.id)}
+                onInterrupt={result.startedBy ? undefined : () => onInterrupt(result.id)}
+              />
+            </div>
+          )}
+
+          {!result.interactive && result.output && (
             <div className="mb-2">
               <div className="text-xs text-discord-muted mb-1">Output:</div>
               <ScrollArea className="h-32 bg-discord-editor rounded border border-discord-border">
@@ -171,7 +236,7 @@ const ExecutionResultItem: React.FC<{
             </div>
           )}
           
-          {result.error && (
+          {!result.interactive && result.error && (
             <div className="mb-2">
               <div className="text-xs text-discord-muted mb-1">Error:</div>
               <ScrollArea className="h-32 bg-discord-editor rounded border border-discord-border">
@@ -209,24 +274,153 @@ export const RunPanel: React.FC<RunPanelProps> = ({
     configurations: false,
     results: true,
   });
-  const [runConfigurations] = useState<RunConfiguration[]>([
-    {
-      id: '1',
-      name: 'Node.js App',
-      language: 'javascript',
-      command: 'node',
-      args: ['index.js'],
-    },
-    {
-      id: '2',
-      name: 'Python Script',
-      language: 'python',
-      command: 'python',
-      args: ['main.py'],
-    },
-  ]);
+  const [runConfigurations, setRunConfigurations] = useState<RunConfiguration[]>([]);
+  const [configDialogOpen, setConfigDialogOpen] = useState(false);
+  const [editingConfiguration, setEditingConfiguration] = useState<RunConfiguration | null>(null);
+
+  const [unavailableLanguages, setUnavailableLanguages] = useState<Set<string>>(new Set());
+  const [interactiveMode, setInteractiveMode] = useState(false);
+  const [shareTerminal, setShareTerminal] = useState(false);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Socket executions started from this panel, as opposed to ones a collaborator started
+  const ownExecutionsRef = useRef<Set<string>>(new Set());
+
+  // Ask the server which runtimes are actually installed
+  useEffect(() => {
+    executionAPI
+      .getRuntimes()
+      .then(runtimes => {
+        setUnavailableLanguages(
+          new Set(runtimes.filter(r => !r.available).map(r => r.language))
+        );
+      })
+      .catch(error => {
+        console.warn('Failed to load execution runtimes:', error);
+      });
+  }, []);
+
+  // Run configurations are shared by everyone in the room
+  useEffect(() => {
+    if (!roomId) return;
+    runConfigurationAPI
+      .list(roomId)
+      .then(setRunConfigurations)
+      .catch(error => {
+        console.warn('Failed to load run configurations:', error);
+      });
+  }, [roomId]);
+
+  // Runs started by anyone in the room stream into the same console
+  useEffect(() => {
+    const socket = socketService.socket;
+    if (!socket) return;
+
+    const handleStarted = (data: ExecutionStartedEvent) => {
+      const isOwn = ownExecutionsRef.current.has(data.executionId);
+      setExecutionResults(prev =>
+        prev.some(r => r.id === data.executionId)
+          ? prev
+          : [
+              {
+                id: data.executionId,
+                fileName: data.fileName,
+                language: data.language,
+                status: 'running',
+                timestamp: new Date(data.timestamp),
+                startedBy: isOwn ? undefined : data.userName,
+                interactive: data.interactive,
+                canInput: data.interactive && (isOwn || data.shared),
+                transcript: data.interactive ? [] : undefined,
+              },
+              ...prev,
+            ]
+      );
+      setExpandedResults(prev => new Set([...prev, data.executionId]));
+    };
+
+    const handleOutput = (data: ExecutionOutputEvent) => {
+      setExecutionResults(prev =>
+        prev.map(r =>
+          r.id !== data.executionId
+            ? r
+            : r.interactive
+              ? {
+                  ...r,
+                  transcript: appendTranscript(r.transcript || [], {
+                    stream: data.stream,
+                    text: data.chunk,
+                    userName: data.userName,
+                  }),
+                }
+              : data.stream === 'stdout'
+                ? { ...r, output: (r.output || '') + data.chunk }
+                : data.stream === 'stderr'
+                  ? { ...r, error: (r.error || '') + data.chunk }
+                  : r
+        )
+      );
+    };
+
+    const handleFinished = (data: ExecutionFinishedEvent) => {
+      const { executionId, result, error } = data;
+      setExecutionResults(prev =>
+        prev.map(r =>
+          r.id === executionId
+            ? result
+              ? {
+                  ...r,
+                  status: result.status,
+                  output: result.stdout || undefined,
+                  error: result.stderr || undefined,
+                  executionTime: result.executionTime,
+                  exitCode: result.exitCode ?? undefined,
+                  transcript:
+                    r.transcript && getTerminalNotice(result)
+                      ? appendTranscript(r.transcript, {
+                          stream: 'stderr',
+                          text: `\n${getTerminalNotice(result)}\n`,
+                        })
+                      : r.transcript,
+                }
+              : {
+                  ...r,
+                  status: 'error',
+                  error: error || 'Execution failed',
+                  transcript: r.transcript
+                    ? appendTranscript(r.transcript, {
+                        stream: 'stderr',
+                        text: `\n${error || 'Execution failed'}\n`,
+                      })
+                    : undefined,
+                }
+            : r
+        )
+      );
+
+      if (!ownExecutionsRef.current.delete(executionId)) return;
+
+      if (abortControllerRef.current?.signal.aborted) {
+        toast.info('Execution cancelled');
+      } else if (result) {
+        notifyExecutionStatus(result.status);
+      } else {
+        toast.error('Execution failed');
+      }
+      setIsExecuting(false);
+      abortControllerRef.current = null;
+    };
+
+    socketService.onExecutionStarted(handleStarted);
+    socketService.onExecutionOutput(handleOutput);
+    socketService.onExecutionFinished(handleFinished);
+
+    return () => {
+      socket.off('execution-started', handleStarted);
+      socket.off('execution-output', handleOutput);
+      socket.off('execution-finished', handleFinished);
+    };
+  }, []);
 
   // Auto-detect language from current file
   useEffect(() => {
@@ -240,12 +434,11 @@ export const RunPanel: React.FC<RunPanelProps> = ({
     }
   }, [currentFile, selectedLanguage]);
 
-  const executeCode = useCallback(async (code: string, language: string, fileName: string) => {
-    if (!code.trim()) {
-      toast.error('No code to execute');
-      return;
-    }
-
+  const runExecution = useCallback(async (
+    fileName: string,
+    language: string,
+    run: (signal: AbortSignal) => Promise<ExecutionResponse>
+  ) => {
     const executionId = Date.now().toString();
     const startTime = Date.now();
 
@@ -263,46 +456,11 @@ export const RunPanel: React.FC<RunPanelProps> = ({
     setIsExecuting(true);
 
     // Create abort controller for this execution
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      // TODO: Replace with actual Judge0 CE API integration
-      // For now, simulate code execution
-      const response = await fetch('/api/execute', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          source_code: code,
-          language_id: getLanguageId(language),
-          stdin: '',
-        }),
-        signal: abortControllerRef.current.signal,
-      }).catch(() => {
-        // Simulate execution for demo purposes
-        return new Promise<Response>((resolve) => {
-          setTimeout(() => {
-            const mockResponse = {
-              ok: true,
-              json: () => Promise.resolve({
-                stdout: `Hello from ${language}!\nExecution completed successfully.`,
-                stderr: null,
-                exit_code: 0,
-                time: Math.random() * 1000 + 100,
-              }),
-            } as Response;
-            resolve(mockResponse);
-          }, 1000 + Math.random() * 2000);
-        });
-      });
-
-      if (!response.ok) {
-        throw new Error('Execution failed');
-      }
-
-      const result = await response.json();
-      const executionTime = Date.now() - startTime;
+      const result = await run(controller.signal);
 
       // Update result with execution output
       setExecutionResults(prev =>
@@ -310,24 +468,20 @@ export const RunPanel: React.FC<RunPanelProps> = ({
           r.id === executionId
             ? {
                 ...r,
-                status: result.exit_code === 0 ? 'completed' : 'error',
+                status: result.status,
                 output: result.stdout || undefined,
                 error: result.stderr || undefined,
-                executionTime,
-                exitCode: result.exit_code,
+                executionTime: result.executionTime,
+                exitCode: result.exitCode ?? undefined,
               }
             : r
         )
       );
 
-      if (result.exit_code === 0) {
-        toast.success('Code executed successfully');
-      } else {
-        toast.error('Code execution failed');
-      }
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        // Execution was cancelled
+      notifyExecutionStatus(result.status);
+    } catch (error: unknown) {
+      if (controller.signal.aborted) {
+        // Execution was cancelled; the server kills the process when the request is dropped
         setExecutionResults(prev =>
           prev.map(r =>
             r.id === executionId
@@ -349,7 +503,7 @@ export const RunPanel: React.FC<RunPanelProps> = ({
               ? {
                   ...r,
                   status: 'error',
-                  error: error.message || 'Unknown execution error',
+                  error: getErrorMessage(error),
                   executionTime: Date.now() - startTime,
                 }
               : r
@@ -363,22 +517,90 @@ export const RunPanel: React.FC<RunPanelProps> = ({
     }
   }, []);
 
-  const getLanguageId = (language: string): number => {
-    // Judge0 CE language IDs
-    const languageMap: { [key: string]: number } = {
-      javascript: 63, // Node.js
-      typescript: 74, // TypeScript
-      python: 71, // Python 3
-      java: 62, // Java
-      cpp: 54, // C++
-      c: 50, // C
-      csharp: 51, // C#
-      php: 68, // PHP
-      ruby: 72, // Ruby
-      go: 60, // Go
-      rust: 73, // Rust
-    };
-    return languageMap[language] || 63; // Default to Node.js
+  // Streams over the socket when connected; falls back to a plain HTTP run otherwise
+  const startExecution = useCallback(async (
+    params: ExecutionStartParams,
+    fileName: string,
+    language: string,
+    httpRun: (signal: AbortSignal) => Promise<ExecutionResponse>
+  ) => {
+    if (!socketService.isConnected()) {
+      if (params.interactive) {
+        toast.error('Interactive runs need a live connection to the room');
+        return;
+      }
+      return runExecution(fileName, language, httpRun);
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExecuting(true);
+
+    try {
+      const executionId = await socketService.startExecution(params);
+      ownExecutionsRef.current.add(executionId);
+
+      // Stop sends a cancel event; the result still arrives via execution-finished
+      const cancel = () => socketService.cancelExecution(executionId);
+      if (controller.signal.aborted) cancel();
+      else controller.signal.addEventListener('abort', cancel, { once: true });
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error));
+      setIsExecuting(false);
+      abortControllerRef.current = null;
+    }
+  }, [runExecution]);
+
+  const executeCode = useCallback((code: string, language: string, fileName: string) => {
+    if (!code.trim()) {
+      toast.error('No code to execute');
+      return;
+    }
+
+    const terminal = { interactive: interactiveMode, shared: interactiveMode && shareTerminal };
+    return startExecution({ language, code, fileName, ...terminal }, fileName, language, signal =>
+      executionAPI.execute({ language, code, fileName, roomId }, signal)
+    );
+  }, [roomId, startExecution, interactiveMode, shareTerminal]);
+
+  const handleRunConfiguration = (config: RunConfiguration) => {
+    if (isExecuting) return;
+
+    const terminal = { interactive: interactiveMode, shared: interactiveMode && shareTerminal };
+    startExecution({ configurationId: config.id, ...terminal }, config.name, config.language, signal =>
+      executionAPI.executeProject({ roomId, configurationId: config.id }, signal)
+    );
+  };
+
+  const handleSaveConfiguration = async (input: RunConfigurationInput) => {
+    try {
+      if (editingConfiguration) {
+        const updated = await runConfigurationAPI.update(roomId, editingConfiguration.id, input);
+        setRunConfigurations(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+        toast.success('Run configuration updated');
+      } else {
+        const created = await runConfigurationAPI.create(roomId, input);
+        setRunConfigurations(prev => [...prev, created]);
+        toast.success('Run configuration created');
+      }
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error));
+      throw error;
+    }
+  };
+
+  const handleDeleteConfiguration = async (config: RunConfiguration) => {
+    try {
+      await runConfigurationAPI.delete(roomId, config.id);
+      setRunConfigurations(prev => prev.filter(c => c.id !== config.id));
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const openConfigurationDialog = (config: RunConfiguration | null) => {
+    setEditingConfiguration(config);
+    setConfigDialogOpen(true);
   };
 
   const handleQuickRun = () => {
@@ -401,6 +623,20 @@ export const RunPanel: React.FC<RunPanelProps> = ({
     }
   };
 
+  const handleExecutionInput = (id: string, data: string) => {
+    socketService.sendExecutionInput(id, data);
+  };
+
+  const handleEndOfInput = (id: string) => {
+    socketService.endExecutionInput(id);
+  };
+
+  const handleInterrupt = (id: string) => {
+    if (ownExecutionsRef.current.has(id)) {
+      handleStopExecution();
+    }
+  };
+
   const handleClearResult = (id: string) => {
     setExecutionResults(prev => prev.filter(result => result.id !== id));
     setExpandedResults(prev => {
@@ -490,8 +726,14 @@ export const RunPanel: React.FC<RunPanelProps> = ({
                   </SelectTrigger>
                   <SelectContent className="bg-discord-sidebar border-discord-border">
                     {SUPPORTED_LANGUAGES.map((lang) => (
-                      <SelectItem key={lang.value} value={lang.value} className="text-xs">
+                      <SelectItem
+                        key={lang.value}
+                        value={lang.value}
+                        disabled={unavailableLanguages.has(lang.value)}
+                        className="text-xs"
+                      >
                         {lang.label}
+                        {unavailableLanguages.has(lang.value) && ' (not installed)'}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -531,6 +773,25 @@ export const RunPanel: React.FC<RunPanelProps> = ({
                 )}
               </div>
 
+              <div className="space-y-2">
+                <label className="flex items-center justify-between text-xs text-discord-muted">
+                  Interactive terminal
+                  <Switch
+                    checked={interactiveMode}
+                    onCheckedChange={setInteractiveMode}
+                    disabled={isExecuting}
+                  />
+                </label>
+                <label className="flex items-center justify-between text-xs text-discord-muted">
+                  Share terminal with room
+                  <Switch
+                    checked={interactiveMode && shareTerminal}
+                    onCheckedChange={setShareTerminal}
+                    disabled={!interactiveMode || isExecuting}
+                  />
+                </label>
+              </div>
+
               {currentFile && (
                 <div className="text-xs text-discord-muted">
                   Current file: {currentFile.name}
@@ -567,15 +828,48 @@ export const RunPanel: React.FC<RunPanelProps> = ({
             {runConfigurations.map((config) => (
               <div
                 key={config.id}
-                className="flex items-center gap-2 px-6 py-1 hover:bg-discord-sidebar-hover cursor-pointer"
+                className="group flex items-center gap-2 px-6 py-1 hover:bg-discord-sidebar-hover cursor-pointer"
+                onClick={() => handleRunConfiguration(config)}
+                title={[config.command, ...config.args].join(' ')}
               >
                 <Play className="w-3 h-3 text-discord-text" />
-                <span className="text-sm text-discord-text flex-1">{config.name}</span>
+                <span className="text-sm text-discord-text flex-1 truncate">{config.name}</span>
                 <Badge variant="outline" className="h-4 text-xs">
                   {config.language}
                 </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:bg-discord-sidebar-hover"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openConfigurationDialog(config);
+                  }}
+                  title="Edit Configuration"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:bg-red-500/20"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteConfiguration(config);
+                  }}
+                  title="Delete Configuration"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
               </div>
             ))}
+            <div
+              className="flex items-center gap-2 px-6 py-1 text-discord-muted hover:bg-discord-sidebar-hover hover:text-discord-text cursor-pointer"
+              onClick={() => openConfigurationDialog(null)}
+            >
+              <Plus className="w-3 h-3" />
+              <span className="text-sm">Add Configuration...</span>
+            </div>
           </CollapsibleContent>
         </Collapsible>
 
@@ -629,6 +923,9 @@ export const RunPanel: React.FC<RunPanelProps> = ({
                     onClear={handleClearResult}
                     isExpanded={expandedResults.has(result.id)}
                     onToggleExpand={handleToggleResultExpand}
+                    onInput={handleExecutionInput}
+                    onEndOfInput={handleEndOfInput}
+                    onInterrupt={handleInterrupt}
                   />
                 ))}
               </div>
@@ -641,6 +938,14 @@ export const RunPanel: React.FC<RunPanelProps> = ({
           </CollapsibleContent>
         </Collapsible>
       </div>
+
+      <RunConfigurationDialog
+        open={configDialogOpen}
+        onOpenChange={setConfigDialogOpen}
+        configuration={editingConfiguration}
+        languages={SUPPORTED_LANGUAGES}
+        onSave={handleSaveConfiguration}
+      />
     </div>
   );
 };
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+export interface TerminalEntry {
+  stream: 'stdout' | 'stderr' | 'stdin';
+  text: string;
+  userName?: string;
+}
+
+interface TerminalConsoleProps {
+  transcript: TerminalEntry[];
+  canInput: boolean;
+  onInput: (data: string) => void;
+  onEndOfInput: () => void;
+  onInterrupt?: () => void;
+}
+
+/**
+ * Console pane for interactive runs. Input is sent a line at a time, like a
+ * terminal in cooked mode; what was typed comes back from the server as stdin
+ * entries so every watcher sees the same transcript.
+ */
+export const TerminalConsole: React.FC<TerminalConsoleProps> = ({
+  transcript,
+  canInput,
+  onInput,
+  onEndOfInput,
+  onInterrupt,
+}) => {
+  const [line, setLine] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest output in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [transcript]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onInput(line + '\n');
+      setLine('');
+    } else if (e.ctrlKey && e.key === 'd') {
+      e.preventDefault();
+      if (line) onInput(line);
+      setLine('');
+      onEndOfInput();
+    } else if (e.ctrlKey && e.key === 'c' && onInterrupt) {
+      e.preventDefault();
+      onInterrupt();
+    }
+  };
+
+  return (
+    <div
+      className="bg-discord-editor rounded border border-discord-border font-mono text-xs"
+      onClick={() => inputRef.current?.focus()}
+    >
+      <div ref={scrollRef} className="h-40 overflow-auto p-2 whitespace-pre-wrap break-all">
+        {transcript.map((entry, index) => (
+          <span
+            key={index}
+            className={cn(
+              entry.stream === 'stdout' && 'text-green-400',
+              entry.stream === 'stderr' && 'text-red-400',
+              entry.stream === 'stdin' && 'text-sky-300'
+            )}
+            title={entry.stream === 'stdin' && entry.userName ? `Typed by ${entry.userName}` : undefined}
+          >
+            {entry.text}
+          </span>
+        ))}
+      </div>
+      {canInput && (
+        <div className="flex items-center gap-1 border-t border-discord-border px-2 py-1">
+          <span className="text-discord-muted">&gt;</span>
+          <input
+            ref={inputRef}
+            value={line}
+            onChange={e => setLine(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 bg-transparent text-discord-text outline-none"
+            placeholder="stdin (Enter to send, Ctrl+D for EOF)"
+            spellCheck={false}
+            autoFocus
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -18,8 +18,16 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Separator } from '@/components/ui/separator';
-import { fileAPI } from '@/lib/api';
+import { Checkbox } from '@/components/ui/checkbox';
+import { searchAPI } from '@/lib/api';
+import type {
+  FileReplaceMatch,
+  FileReplacePreviewResponse,
+  FileSearchMatch,
+  FileSearchResponse,
+} from '@/types/filesystem';
 import { toast } from 'sonner';
+import { getErrorMessage } from '@/utils';
 
 interface SearchResult {
   fileId: string;
@@ -31,6 +39,8 @@ interface SearchResult {
   preview: string;
   matchStart: number;
   matchEnd: number;
+  index?: number; // Offset in the file, when previewing a replace
+  replacement?: string;
 }
 
 interface FileSearchResults {
@@ -41,6 +51,11 @@ interface FileSearchResults {
   isExpanded: boolean;
 }
 
+// Only the first few files open expanded so large result sets stay scannable
+const AUTO_EXPAND_FILES = 10;
+
+const matchKey = (result: SearchResult) => `${result.fileId}:${result.index}`;
+
 interface SearchPanelProps {
   roomId: string;
   onResultSelect?: (result: SearchResult) => void;
@@ -50,13 +65,26 @@ const SearchResultItem: React.FC<{
   result: SearchResult;
   searchTerm: string;
   onSelect: (result: SearchResult) => void;
-}> = ({ result, searchTerm, onSelect }) => {
+  isIncluded?: boolean; // Set while previewing a replace
+  onToggleIncluded?: (result: SearchResult) => void;
+}> = ({ result, searchTerm, onSelect, isIncluded, onToggleIncluded }) => {
   const highlightText = (text: string, term: string, start: number, end: number) => {
     if (!term) return text;
     
     const before = text.slice(0, start);
     const match = text.slice(start, end);
     const after = text.slice(end);
+
+    if (result.replacement !== undefined) {
+      return (
+        <>
+          {before}
+          <span className="bg-red-500/40 line-through px-0.5 rounded">{match}</span>
+          <span className="bg-green-500/40 px-0.5 rounded">{result.replacement}</span>
+          {after}
+        </>
+      );
+    }
     
     return (
       <>
@@ -69,9 +97,21 @@ const SearchResultItem: React.FC<{
 
   return (
     <div
-      className="flex items-start gap-2 px-4 py-1 hover:bg-discord-sidebar-hover cursor-pointer text-xs group"
+      className={cn(
+        'flex items-start gap-2 px-4 py-1 hover:bg-discord-sidebar-hover cursor-pointer text-xs group',
+        isIncluded === false && 'opacity-50'
+      )}
       onClick={() => onSelect(result)}
     >
+      {onToggleIncluded && (
+        <Checkbox
+          checked={isIncluded}
+          onCheckedChange={() => onToggleIncluded(result)}
+          onClick={(e) => e.stopPropagation()}
+          className="mt-0.5 h-3 w-3"
+          title="Include in replace"
+        />
+      )}
       <div className="text-discord-muted mt-0.5 min-w-0 flex-shrink-0">
         {result.line}:
       </div>
@@ -89,7 +129,13 @@ const FileResultGroup: React.FC<{
   searchTerm: string;
   onToggleExpand: (fileId: string) => void;
   onResultSelect: (result: SearchResult) => void;
-}> = ({ fileResult, searchTerm, onToggleExpand, onResultSelect }) => {
+  replaceSelection?: {
+    isFileIncluded: boolean;
+    isMatchIncluded: (result: SearchResult) => boolean;
+    onToggleFile: (fileId: string) => void;
+    onToggleMatch: (result: SearchResult) => void;
+  };
+}> = ({ fileResult, searchTerm, onToggleExpand, onResultSelect, replaceSelection }) => {
   return (
     <Collapsible
       open={fileResult.isExpanded}
@@ -102,8 +148,23 @@ const FileResultGroup: React.FC<{
           ) : (
             <ChevronRight className="w-3 h-3 text-discord-text" />
           )}
+          {replaceSelection && (
+            <Checkbox
+              checked={replaceSelection.isFileIncluded}
+              onCheckedChange={() => replaceSelection.onToggleFile(fileResult.fileId)}
+              onClick={(e) => e.stopPropagation()}
+              className="h-3 w-3"
+              title="Include file in replace"
+            />
+          )}
           <File className="w-4 h-4 text-discord-text" />
-          <span className="text-sm text-discord-text truncate flex-1">
+          <span
+            className={cn(
+              'text-sm text-discord-text truncate flex-1',
+              replaceSelection && !replaceSelection.isFileIncluded && 'opacity-50'
+            )}
+            title={fileResult.filePath}
+          >
             {fileResult.fileName}
           </span>
           <Badge variant="secondary" className="h-4 text-xs bg-discord-primary/20 text-discord-primary border-none">
@@ -120,6 +181,10 @@ const FileResultGroup: React.FC<{
               result={result}
               searchTerm={searchTerm}
               onSelect={onResultSelect}
+              isIncluded={
+                replaceSelection && replaceSelection.isFileIncluded && replaceSelection.isMatchIncluded(result)
+              }
+              onToggleIncluded={replaceSelection?.onToggleMatch}
             />
           ))}
         </div>
@@ -138,6 +203,11 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<FileSearchResults[]>([]);
   const [totalMatches, setTotalMatches] = useState(0);
+  const [isTruncated, setIsTruncated] = useState(false);
+  const [isReplacing, setIsReplacing] = useState(false);
+  // Left out of the next replace; matches are keyed by file and offset
+  const [excludedFiles, setExcludedFiles] = useState<Set<string>>(new Set());
+  const [excludedMatches, setExcludedMatches] = useState<Set<string>>(new Set());
   const [searchOptions, setSearchOptions] = useState({
     caseSensitive: false,
     wholeWord: false,
@@ -149,86 +219,65 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
   
   const searchInputRef = useRef<HTMLInputElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
+  const searchRequestRef = useRef(0);
 
   const performSearch = useCallback(async (term: string) => {
     if (!term.trim() || !roomId) {
+      searchRequestRef.current++;
       setSearchResults([]);
       setTotalMatches(0);
+      setIsTruncated(false);
       return;
     }
 
     setIsSearching(true);
-    
+    const requestId = ++searchRequestRef.current;
+
     try {
-      // TODO: Implement actual search API call
-      // For now, we'll simulate search results
-      await new Promise(resolve => setTimeout(resolve, 300));
-      
-      const mockResults: FileSearchResults[] = [
-        {
-          fileId: '1',
-          fileName: 'App.tsx',
-          filePath: 'src/App.tsx',
-          isExpanded: true,
-          matches: [
-            {
-              fileId: '1',
-              fileName: 'App.tsx',
-              filePath: 'src/App.tsx',
-              line: 15,
-              column: 10,
-              text: `const ${term} = useState();`,
-              preview: `  const ${term} = useState();`,
-              matchStart: 8,
-              matchEnd: 8 + term.length,
-            },
-            {
-              fileId: '1',
-              fileName: 'App.tsx',
-              filePath: 'src/App.tsx',
-              line: 23,
-              column: 5,
-              text: `return <div>{${term}}</div>`,
-              preview: `    return <div>{${term}}</div>`,
-              matchStart: 17,
-              matchEnd: 17 + term.length,
-            },
-          ],
-        },
-        {
-          fileId: '2',
-          fileName: 'utils.ts',
-          filePath: 'src/utils.ts',
-          isExpanded: false,
-          matches: [
-            {
-              fileId: '2',
-              fileName: 'utils.ts',
-              filePath: 'src/utils.ts',
-              line: 8,
-              column: 15,
-              text: `export const ${term}Helper = () => {}`,
-              preview: `export const ${term}Helper = () => {}`,
-              matchStart: 13,
-              matchEnd: 13 + term.length,
-            },
-          ],
-        },
-      ];
-
-      // Filter results based on search term
-      const filteredResults = term.trim() ? mockResults : [];
-      const total = filteredResults.reduce((sum, file) => sum + file.matches.length, 0);
-      
-      setSearchResults(filteredResults);
-      setTotalMatches(total);
+      const options = {
+        caseSensitive: searchOptions.caseSensitive,
+        wholeWord: searchOptions.wholeWord,
+        useRegex: searchOptions.useRegex,
+        include: searchOptions.includeFiles.trim() === '*' ? '' : searchOptions.includeFiles,
+        exclude: searchOptions.excludeFiles,
+      };
+      // In replace mode every match comes back with its replacement for the preview
+      const response: FileSearchResponse | FileReplacePreviewResponse = isReplaceMode
+        ? await searchAPI.previewReplace(roomId, term, replaceTerm, options)
+        : await searchAPI.search(roomId, term, options);
+      // A newer search started while this one was running
+      if (requestId !== searchRequestRef.current) return;
+
+      const results: FileSearchResults[] = response.results.map((file, index) => ({
+        fileId: file.fileId,
+        fileName: file.fileName,
+        filePath: file.filePath,
+        isExpanded: index < AUTO_EXPAND_FILES,
+        matches: (file.matches as (FileSearchMatch | FileReplaceMatch)[]).map(match => ({
+          fileId: file.fileId,
+          fileName: file.fileName,
+          filePath: file.filePath,
+          line: match.line,
+          column: match.column,
+          text: match.text,
+          preview: match.context,
+          matchStart: match.contextOffset,
+          matchEnd: match.contextOffset + match.length,
+          ...('replacement' in match && { index: match.index, replacement: match.replacement }),
+        })),
+      }));
+
+      setSearchResults(results);
+      setTotalMatches(response.totalMatches);
+      setIsTruncated(response.truncated);
     } catch (error) {
+      if (requestId !== searchRequestRef.current) return;
       console.error('Search failed:', error);
-      toast.error('Search failed');
+      toast.error(`Search failed: ${getErrorMessage(error)}`);
     } finally {
-      setIsSearching(false);
+      if (requestId === searchRequestRef.current) setIsSearching(false);
     }
-  }, [roomId]);
+  }, [roomId, searchOptions, isReplaceMode, replaceTerm]);
 
   const debouncedSearch = useCallback((term: string) => {
     if (searchTimeoutRef.current) {
@@ -268,18 +317,51 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
     setSearchTerm('');
     setSearchResults([]);
     setTotalMatches(0);
+    setExcludedFiles(new Set());
+    setExcludedMatches(new Set());
     searchInputRef.current?.focus();
   };
 
+  const toggleSetEntry = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, key: string) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  // Files and offsets of the previewed matches still selected for replacing
+  const replaceSelections = searchResults
+    .filter(file => !excludedFiles.has(file.fileId))
+    .map(file => ({
+      fileId: file.fileId,
+      matches: file.matches
+        .filter(match => match.index !== undefined && !excludedMatches.has(matchKey(match)))
+        .map(match => match.index!),
+    }))
+    .filter(selection => selection.matches.length > 0);
+  const selectedMatchCount = replaceSelections.reduce((sum, selection) => sum + selection.matches.length, 0);
+
   const handleReplaceAll = async () => {
-    if (!replaceTerm.trim() || !searchTerm.trim()) return;
-    
+    if (!searchTerm.trim() || replaceSelections.length === 0) return;
+
+    setIsReplacing(true);
     try {
-      // TODO: Implement actual replace functionality
-      toast.success(`Replaced all occurrences of "${searchTerm}" with "${replaceTerm}"`);
+      const response = await searchAPI.replace(roomId, searchTerm, replaceTerm, replaceSelections, {
+        caseSensitive: searchOptions.caseSensitive,
+        wholeWord: searchOptions.wholeWord,
+        useRegex: searchOptions.useRegex,
+      });
+      toast.success(`Replaced ${response.totalReplaced} occurrences in ${response.files.length} files`);
+      setExcludedFiles(new Set());
+      setExcludedMatches(new Set());
+      performSearch(searchTerm);
     } catch (error) {
       console.error('Replace failed:', error);
-      toast.error('Replace failed');
+      toast.error(`Replace failed: ${getErrorMessage(error)}`);
+    } finally {
+      setIsReplacing(false);
     }
   };
 
@@ -405,9 +487,9 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
               size="sm"
               className="h-6 px-2 text-xs"
               onClick={handleReplaceAll}
-              disabled={!replaceTerm.trim()}
+              disabled={isSearching || isReplacing || selectedMatchCount === 0}
             >
-              Replace All
+              {selectedMatchCount === totalMatches ? 'Replace All' : `Replace ${selectedMatchCount} Selected`}
             </Button>
           </div>
         )}
@@ -421,7 +503,7 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
               {isSearching ? (
                 'Searching...'
               ) : (
-                `${totalMatches} results in ${searchResults.length} files`
+                `${totalMatches} results in ${searchResults.length} files${isTruncated ? ' (showing first results only)' : ''}`
               )}
             </span>
             {isSearching && (
@@ -442,6 +524,12 @@ export const SearchPanel: React.FC<SearchPanelProps> = ({
                 searchTerm={searchTerm}
                 onToggleExpand={handleToggleExpand}
                 onResultSelect={handleResultSelect}
+                replaceSelection={isReplaceMode ? {
+                  isFileIncluded: !excludedFiles.has(fileResult.fileId),
+                  isMatchIncluded: match => !excludedMatches.has(matchKey(match)),
+                  onToggleFile: fileId => toggleSetEntry(setExcludedFiles, fileId),
+                  onToggleMatch: match => toggleSetEntry(setExcludedMatches, matchKey(match)),
+                } : undefined}
               />
             ))}
           </div>
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
   GitBranch,
   GitCommit,
@@ -15,7 +15,12 @@ import {
   ChevronRight,
   ChevronDown,
   Circle,
-  Dot
+  Dot,
+  GitMerge,
+  Trash2,
+  Archive,
+  FileArchive,
+  FolderInput
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -24,28 +29,63 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
-
-type ChangeType = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked';
-
-interface FileChange {
-  id: string;
-  path: string;
-  type: ChangeType;
-  staged: boolean;
-  additions?: number;
-  deletions?: number;
-  oldPath?: string; // for renamed files
-}
-
-interface Commit {
-  hash: string;
-  message: string;
-  author: string;
+import { FileConflictUI } from '@/components/ui/FileSync/FileConflictUI';
+import {
+  fileAPI,
+  versionControlAPI,
+  type VcsChangeType,
+  type VcsFileChange,
+  type VcsCommit,
+  type VcsStatus,
+  type VcsBranch,
+  type VcsConflict,
+  type VcsExportFormat,
+} from '@/lib/api';
+import socketService, { type SyncFileStructureEvent } from '@/lib/socket';
+import type { FileConflict, ConflictResolution } from '@/types/filesystem';
+import { getErrorMessage } from '@/utils';
+
+type ChangeType = VcsChangeType;
+type FileChange = VcsFileChange;
+
+interface Commit extends Omit<VcsCommit, 'date'> {
   date: Date;
-  shortHash: string;
 }
 
+const toCommit = (commit: VcsCommit): Commit => ({ ...commit, date: new Date(commit.date) });
+
+// Shapes a merge conflict for FileConflictUI: current is our branch, incoming theirs
+const toFileConflict = (conflict: VcsConflict, current: string, incoming: string): FileConflict => ({
+  id: conflict.path,
+  conflictId: conflict.path,
+  fileName: conflict.path.split('/').pop() || conflict.path,
+  filePath: conflict.path,
+  path: conflict.path,
+  type: 'file_conflict',
+  conflictType: conflict.ours === null || conflict.theirs === null ? 'delete' : 'content',
+  severity: 'medium',
+  currentVersion: { content: conflict.ours ?? '', lastModified: new Date(), modifiedBy: current },
+  incomingVersion: { content: conflict.theirs ?? '', lastModified: new Date(), modifiedBy: incoming },
+  mergedContent: conflict.working ?? undefined,
+  autoResolvable: false,
+  users: [
+    { id: current, username: current, timestamp: Date.now(), operation: conflict.ours === null ? 'deleted' : 'modified' },
+    { id: incoming, username: incoming, timestamp: Date.now(), operation: conflict.theirs === null ? 'deleted' : 'modified' },
+  ],
+});
+
+// Paths to send when (un)staging a change; a staged rename covers both sides
+const changePaths = (change: FileChange): string[] =>
+  change.oldPath ? [change.path, change.oldPath] : [change.path];
+
 interface SourceControlPanelProps {
   roomId: string;
   onFileSelect?: (filePath: string) => void;
@@ -134,13 +174,41 @@ const FileChangeItem: React.FC<{
           ← {change.oldPath.split('/').pop()}
         </span>
       )}
+
+      {(change.additions !== undefined || change.deletions !== undefined) && (
+        <span className="text-xs font-mono flex-shrink-0">
+          <span className="text-green-400">+{change.additions ?? 0}</span>{' '}
+          <span className="text-red-400">-{change.deletions ?? 0}</span>
+        </span>
+      )}
     </div>
   );
 };
 
-const CommitItem: React.FC<{ commit: Commit }> = ({ commit }) => {
+const CommitItem: React.FC<{
+  commit: Commit;
+  roomId: string;
+  onSelect: (path: string) => void;
+}> = ({ commit, roomId, onSelect }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [files, setFiles] = useState<FileChange[] | null>(null);
+
+  // The changed files are fetched the first time a commit is expanded
+  const handleToggle = async () => {
+    const expand = !isExpanded;
+    setIsExpanded(expand);
+    if (!expand || files) return;
+    try {
+      const detail = await versionControlAPI.getCommit(roomId, commit.hash);
+      setFiles(detail.changes);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+      setIsExpanded(false);
+    }
+  };
+
   return (
-    <div className="px-3 py-2 hover:bg-discord-sidebar-hover cursor-pointer">
+    <div className="px-3 py-2 hover:bg-discord-sidebar-hover cursor-pointer" onClick={handleToggle}>
       <div className="flex items-start gap-2">
         <GitCommit className="w-4 h-4 text-discord-muted mt-0.5 flex-shrink-0" />
         <div className="flex-1 min-w-0">
@@ -152,10 +220,37 @@ const CommitItem: React.FC<{ commit: Commit }> = ({ commit }) => {
             <span>•</span>
             <span>{commit.author}</span>
             <span>•</span>
-            <span>{commit.date.toLocaleDateString()}</span>
+            <span title={commit.date.toLocaleString()}>{commit.date.toLocaleDateString()}</span>
           </div>
         </div>
       </div>
+      {isExpanded && (
+        <div className="mt-1 ml-6">
+          {files === null ? (
+            <span className="text-xs text-discord-muted">Loading...</span>
+          ) : (
+            files.map(file => (
+              <div
+                key={file.id}
+                className="flex items-center gap-2 py-0.5 text-xs hover:text-discord-text"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (file.type !== 'deleted') onSelect(file.path);
+                }}
+              >
+                {getChangeIcon(file.type)}
+                <span className="text-discord-text truncate flex-1 min-w-0">{file.path}</span>
+                {file.additions !== undefined && (
+                  <span className="font-mono">
+                    <span className="text-green-400">+{file.additions}</span>{' '}
+                    <span className="text-red-400">-{file.deletions ?? 0}</span>
+                  </span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -170,92 +265,48 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [currentBranch, setCurrentBranch] = useState('main');
   const [isCommitting, setIsCommitting] = useState(false);
+  const [branches, setBranches] = useState<VcsBranch[]>([]);
+  const [newBranchName, setNewBranchName] = useState('');
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [mergeState, setMergeState] = useState<VcsStatus['merge']>(null);
+  const [conflicts, setConflicts] = useState<VcsConflict[]>([]);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [expandedSections, setExpandedSections] = useState({
     staged: true,
     changes: true,
+    branches: false,
     commits: false,
   });
 
+  const applyStatus = useCallback((status: VcsStatus) => {
+    setChanges(status.changes);
+    setCurrentBranch(status.branch);
+    setMergeState(status.merge);
+    if (!status.merge) setConflicts([]);
+  }, []);
+
   const loadGitStatus = useCallback(async () => {
     try {
       setIsLoading(true);
-      
-      // TODO: Implement actual git status API call
-      // Mock data for now
-      const mockChanges: FileChange[] = [
-        {
-          id: '1',
-          path: 'src/components/App.tsx',
-          type: 'modified',
-          staged: false,
-          additions: 5,
-          deletions: 2,
-        },
-        {
-          id: '2',
-          path: 'src/utils/helpers.ts',
-          type: 'added',
-          staged: true,
-          additions: 15,
-          deletions: 0,
-        },
-        {
-          id: '3',
-          path: 'README.md',
-          type: 'modified',
-          staged: true,
-          additions: 3,
-          deletions: 1,
-        },
-        {
-          id: '4',
-          path: 'package.json',
-          type: 'modified',
-          staged: false,
-          additions: 1,
-          deletions: 0,
-        },
-        {
-          id: '5',
-          path: 'src/temp.js',
-          type: 'untracked',
-          staged: false,
-        },
-      ];
-
-      const mockCommits: Commit[] = [
-        {
-          hash: 'a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0',
-          shortHash: 'a1b2c3d',
-          message: 'Add new component functionality',
-          author: 'John Doe',
-          date: new Date(Date.now() - 86400000), // 1 day ago
-        },
-        {
-          hash: 'b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0a1',
-          shortHash: 'b2c3d4e',
-          message: 'Fix bug in user authentication',
-          author: 'Jane Smith',
-          date: new Date(Date.now() - 172800000), // 2 days ago
-        },
-        {
-          hash: 'c3d4e5f6g7h8i9j0k1l2m3n4o5p6q7r8s9t0a1b2',
-          shortHash: 'c3d4e5f',
-          message: 'Update dependencies and improve performance',
-          author: 'Bob Johnson',
-          date: new Date(Date.now() - 259200000), // 3 days ago
-        },
-      ];
-
-      setChanges(mockChanges);
-      setCommits(mockCommits);
+      const [status, log, branchList] = await Promise.all([
+        versionControlAPI.getStatus(roomId),
+        versionControlAPI.getLog(roomId),
+        versionControlAPI.listBranches(roomId),
+      ]);
+      applyStatus(status);
+      setCommits(log.map(toCommit));
+      setBranches(branchList);
+      if (status.merge?.conflicts.length) {
+        setConflicts(await versionControlAPI.getConflicts(roomId));
+      }
     } catch (error) {
       console.error('Failed to load git status:', error);
-      toast.error('Failed to load git status');
+      toast.error(getErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [roomId, applyStatus]);
 
   useEffect(() => {
     if (roomId) {
@@ -263,32 +314,44 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
     }
   }, [roomId, loadGitStatus]);
 
+  // Someone else switched or merged branches
+  useEffect(() => {
+    const handleSync = (data: SyncFileStructureEvent) => {
+      if (data.roomId === roomId) loadGitStatus();
+    };
+    socketService.onSyncFileStructure(handleSync);
+    return () => {
+      socketService.socket?.off('sync-file-structure', handleSync);
+    };
+  }, [roomId, loadGitStatus]);
+
+  // Stage or unstage a set of paths; the server answers with the new status
+  const updateIndex = async (action: 'stage' | 'unstage', paths: string[]) => {
+    if (paths.length === 0) return;
+    try {
+      applyStatus(await versionControlAPI[action](roomId, paths));
+    } catch (error) {
+      console.error(`Failed to ${action} files:`, error);
+      toast.error(getErrorMessage(error));
+    }
+  };
+
   const handleStageChange = (id: string) => {
-    setChanges(prev => 
-      prev.map(change => 
-        change.id === id ? { ...change, staged: true } : change
-      )
-    );
+    const change = changes.find(c => c.id === id);
+    if (change) updateIndex('stage', [change.path]);
   };
 
   const handleUnstageChange = (id: string) => {
-    setChanges(prev => 
-      prev.map(change => 
-        change.id === id ? { ...change, staged: false } : change
-      )
-    );
+    const change = changes.find(c => c.id === id);
+    if (change) updateIndex('unstage', changePaths(change));
   };
 
   const handleStageAll = () => {
-    setChanges(prev => 
-      prev.map(change => ({ ...change, staged: true }))
-    );
+    updateIndex('stage', changes.filter(change => !change.staged).map(change => change.path));
   };
 
   const handleUnstageAll = () => {
-    setChanges(prev => 
-      prev.map(change => ({ ...change, staged: false }))
-    );
+    updateIndex('unstage', changes.filter(change => change.staged).flatMap(changePaths));
   };
 
   const handleCommit = async () => {
@@ -298,39 +361,160 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
     }
 
     const stagedChanges = changes.filter(change => change.staged);
-    if (stagedChanges.length === 0) {
+    if (stagedChanges.length === 0 && !mergeState) {
       toast.error('No staged changes to commit');
       return;
     }
 
     try {
       setIsCommitting(true);
-      
-      // TODO: Implement actual git commit API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Simulate successful commit
-      const newCommit: Commit = {
-        hash: Date.now().toString(),
-        shortHash: Date.now().toString().slice(-7),
-        message: commitMessage,
-        author: 'Current User',
-        date: new Date(),
-      };
-
-      setCommits(prev => [newCommit, ...prev]);
-      setChanges(prev => prev.filter(change => !change.staged));
+      const commit = await versionControlAPI.commit(roomId, commitMessage.trim());
       setCommitMessage('');
-      
-      toast.success('Changes committed successfully');
+      toast.success(`Committed ${commit.shortHash}`);
+      await loadGitStatus();
     } catch (error) {
       console.error('Commit failed:', error);
-      toast.error('Failed to commit changes');
+      toast.error(getErrorMessage(error));
     } finally {
       setIsCommitting(false);
     }
   };
 
+  const handleCreateBranch = async () => {
+    const name = newBranchName.trim();
+    if (!name) return;
+    try {
+      await versionControlAPI.createBranch(roomId, name);
+      setNewBranchName('');
+      setBranches(await versionControlAPI.listBranches(roomId));
+      toast.success(`Created branch ${name}`);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleCheckout = async (name: string) => {
+    try {
+      setIsSwitching(true);
+      await versionControlAPI.checkout(roomId, name);
+      toast.success(`Switched to ${name}`);
+      await loadGitStatus();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleDeleteBranch = async (name: string) => {
+    if (!window.confirm(`Delete branch ${name}?`)) return;
+    try {
+      await versionControlAPI.deleteBranch(roomId, name);
+      setBranches(prev => prev.filter(branch => branch.name !== name));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleMerge = async (name: string) => {
+    try {
+      setIsSwitching(true);
+      const result = await versionControlAPI.merge(roomId, name);
+      if (result.status === 'up-to-date') toast.info('Already up to date');
+      else if (result.status === 'fast-forward') toast.success(`Fast-forwarded to ${name}`);
+      else if (result.status === 'merged') toast.success(`Merged ${name} (${result.commit?.shortHash})`);
+      else {
+        toast.warning(`${result.conflicts.length} conflict(s) merging ${name}`);
+        setCommitMessage(`Merge branch '${name}' into ${currentBranch}`);
+      }
+      await loadGitStatus();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const handleAbortMerge = async () => {
+    try {
+      applyStatus(await versionControlAPI.abortMerge(roomId));
+      setCommitMessage('');
+      toast.info('Merge aborted');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleExport = async (format: VcsExportFormat) => {
+    setIsTransferring(true);
+    try {
+      const archive = await versionControlAPI.exportRepository(roomId, format);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = format === 'bundle' ? `${roomId}.bundle` : `${roomId}.git.tar.gz`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = event.target.files?.[0];
+    event.target.value = '';
+    if (!archive) return;
+
+    setIsTransferring(true);
+    const toastId = toast.loading(`Uploading ${archive.name}...`);
+    try {
+      const result = await fileAPI.uploadProject(roomId, archive, progress => {
+        toast.loading(`Uploading ${archive.name}... ${progress}%`, { id: toastId });
+      });
+      toast.success(
+        result.history
+          ? `Imported ${result.commits} commit(s) on ${result.branches.length} branch(es)`
+          : `Imported ${result.files} file(s)`,
+        { id: toastId }
+      );
+      await loadGitStatus();
+    } catch (error) {
+      toast.error(getErrorMessage(error), { id: toastId });
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleResolveConflict = async (
+    conflict: FileConflict,
+    resolution: ConflictResolution,
+    content?: string
+  ) => {
+    const source = conflicts.find(c => c.path === conflict.filePath);
+    if (!source) return;
+    // A null side means that branch deleted the file, so taking it deletes it too
+    const value = resolution === 'accept-current'
+      ? source.ours
+      : resolution === 'accept-incoming'
+        ? source.theirs
+        : content ?? source.working;
+    try {
+      applyStatus(await versionControlAPI.resolveConflict(roomId, source.path, value));
+      setConflicts(prev => prev.filter(c => c.path !== source.path));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const fileConflicts = useMemo(
+    () => conflicts
+      .filter(conflict => mergeState?.conflicts.includes(conflict.path))
+      .map(conflict => toFileConflict(conflict, currentBranch, mergeState?.branch ?? 'incoming')),
+    [conflicts, currentBranch, mergeState]
+  );
+
   const handleFileSelect = (path: string) => {
     onFileSelect?.(path);
   };
@@ -362,14 +546,41 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-6 w-6 p-0 hover:bg-discord-sidebar-hover"
-            title="More Actions..."
-          >
-            <MoreHorizontal className="h-3 w-3" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 hover:bg-discord-sidebar-hover"
+                title="More Actions..."
+                disabled={isTransferring}
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => importInputRef.current?.click()}>
+                <FolderInput className="w-4 h-4 mr-2" />
+                Import Project or Repository...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => handleExport('bundle')} disabled={commits.length === 0}>
+                <FileArchive className="w-4 h-4 mr-2" />
+                Export as Git Bundle
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('tar')} disabled={commits.length === 0}>
+                <Archive className="w-4 h-4 mr-2" />
+                Export as Bare Repository (.tar.gz)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,.tar,.tgz,.tar.gz,.bundle"
+            className="hidden"
+            onChange={handleImport}
+          />
         </div>
       </div>
 
@@ -399,6 +610,30 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
         </div>
       </div>
 
+      {/* Merge in progress */}
+      {mergeState && (
+        <div className="flex items-center gap-2 p-2 border-b border-discord-border bg-yellow-500/10">
+          <GitMerge className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+          <span className="text-xs text-discord-text flex-1 min-w-0">
+            Merging <span className="font-medium">{mergeState.branch}</span> into{' '}
+            <span className="font-medium">{currentBranch}</span>
+            {mergeState.conflicts.length > 0
+              ? ` · ${mergeState.conflicts.length} conflict(s) left`
+              : ' · commit to finish'}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs hover:bg-discord-sidebar-hover"
+            onClick={handleAbortMerge}
+            title="Abort merge"
+          >
+            <X className="h-3 w-3 mr-1" />
+            Abort
+          </Button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-auto">
         {isLoading ? (
           <div className="flex items-center justify-center h-20">
@@ -407,7 +642,7 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
         ) : (
           <>
             {/* Commit Message */}
-            {(stagedChanges.length > 0 || unstagedChanges.length > 0) && (
+            {(stagedChanges.length > 0 || unstagedChanges.length > 0 || mergeState) && (
               <div className="p-3 border-b border-discord-border">
                 <Textarea
                   placeholder="Message (press Ctrl+Enter to commit)"
@@ -427,7 +662,12 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
                   <Button
                     size="sm"
                     onClick={handleCommit}
-                    disabled={!commitMessage.trim() || stagedChanges.length === 0 || isCommitting}
+                    disabled={
+                      !commitMessage.trim() ||
+                      (stagedChanges.length === 0 && !mergeState) ||
+                      Boolean(mergeState?.conflicts.length) ||
+                      isCommitting
+                    }
                     className="h-6 px-3 text-xs"
                   >
                     {isCommitting ? (
@@ -446,6 +686,16 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
               </div>
             )}
 
+            {/* Merge Conflicts */}
+            {fileConflicts.length > 0 && (
+              <FileConflictUI
+                className="p-2 border-b border-discord-border"
+                conflicts={fileConflicts}
+                onResolve={handleResolveConflict}
+                showNotifications={false}
+              />
+            )}
+
             {/* Staged Changes */}
             {stagedChanges.length > 0 && (
               <Collapsible
@@ -554,6 +804,103 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
 
             <Separator className="bg-discord-border" />
 
+            {/* Branches */}
+            <Collapsible
+              open={expandedSections.branches}
+              onOpenChange={() => toggleSection('branches')}
+            >
+              <CollapsibleTrigger asChild>
+                <div className="flex items-center gap-2 px-3 py-2 hover:bg-discord-sidebar-hover cursor-pointer">
+                  {expandedSections.branches ? (
+                    <ChevronDown className="w-3 h-3 text-discord-text" />
+                  ) : (
+                    <ChevronRight className="w-3 h-3 text-discord-text" />
+                  )}
+                  <span className="text-xs font-medium text-discord-text uppercase tracking-wide">
+                    Branches
+                  </span>
+                  <Badge variant="secondary" className="h-4 text-xs bg-discord-primary/20 text-discord-primary">
+                    {branches.length}
+                  </Badge>
+                </div>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                {branches.map((branch) => (
+                  <div
+                    key={branch.name}
+                    className="flex items-center gap-2 px-3 py-1 hover:bg-discord-sidebar-hover group"
+                  >
+                    <GitBranch
+                      className={cn('w-3 h-3 flex-shrink-0', branch.current ? 'text-discord-primary' : 'text-discord-muted')}
+                    />
+                    <span
+                      className={cn('text-sm truncate flex-1 min-w-0', branch.current ? 'text-discord-text font-medium' : 'text-discord-muted')}
+                    >
+                      {branch.name}
+                    </span>
+                    {branch.current ? (
+                      <Check className="h-3 w-3 text-discord-primary" />
+                    ) : (
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 px-1 text-xs hover:bg-discord-primary/20"
+                          onClick={() => handleCheckout(branch.name)}
+                          disabled={isSwitching || Boolean(mergeState)}
+                          title="Switch to this branch"
+                        >
+                          Checkout
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 hover:bg-discord-primary/20"
+                          onClick={() => handleMerge(branch.name)}
+                          disabled={isSwitching || Boolean(mergeState) || !branch.commitHash}
+                          title={`Merge into ${currentBranch}`}
+                        >
+                          <GitMerge className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 hover:bg-discord-primary/20"
+                          onClick={() => handleDeleteBranch(branch.name)}
+                          title="Delete branch"
+                        >
+                          <Trash2 className="h-3 w-3 text-red-400" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center gap-1 px-3 py-2">
+                  <Input
+                    value={newBranchName}
+                    onChange={(e) => setNewBranchName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleCreateBranch();
+                    }}
+                    placeholder="New branch from HEAD"
+                    className="h-6 text-xs bg-discord-editor border-discord-border"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 hover:bg-discord-sidebar-hover"
+                    onClick={handleCreateBranch}
+                    disabled={!newBranchName.trim()}
+                    title="Create branch"
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
+            <Separator className="bg-discord-border" />
+
             {/* Recent Commits */}
             <Collapsible
               open={expandedSections.commits}
@@ -576,7 +923,12 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
               </CollapsibleTrigger>
               <CollapsibleContent>
                 {commits.map((commit) => (
-                  <CommitItem key={commit.hash} commit={commit} />
+                  <CommitItem
+                    key={commit.hash}
+                    commit={commit}
+                    roomId={roomId}
+                    onSelect={handleFileSelect}
+                  />
                 ))}
               </CollapsibleContent>
             </Collapsible>
@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DiffEditor, type MonacoDiffEditor } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { ChevronDown, ChevronUp, RotateCcw, Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { defaultEditorOptions } from '@/lib/editor-config';
+import type { FileVersioning } from '@/types/filesystem';
+
+interface VersionDiffViewProps {
+  version: FileVersioning;
+  currentContent: string;
+  language: string;
+  isRestoring: boolean;
+  onRestoreVersion: () => void;
+  onRestoreHunk: (content: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * The current content with one hunk put back the way it was in `original`.
+ * Monaco reports an end line of 0 for a side that has no lines in the hunk;
+ * the start line is then the line the hunk sits after.
+ */
+const revertLineChange = (
+  original: string,
+  current: string,
+  change: editor.ILineChange
+): string => {
+  const originalLines = original.split('\n');
+  const currentLines = current.split('\n');
+  const restored = change.originalEndLineNumber === 0
+    ? []
+    : originalLines.slice(change.originalStartLineNumber - 1, change.originalEndLineNumber);
+
+  if (change.modifiedEndLineNumber === 0) {
+    currentLines.splice(change.modifiedStartLineNumber, 0, ...restored);
+  } else {
+    currentLines.splice(
+      change.modifiedStartLineNumber - 1,
+      change.modifiedEndLineNumber - change.modifiedStartLineNumber + 1,
+      ...restored
+    );
+  }
+  return currentLines.join('\n');
+};
+
+/**
+ * Side-by-side diff of an older version (left) against the live content
+ * (right). Hunks can be restored one at a time or the whole version at once.
+ */
+export const VersionDiffView: React.FC<VersionDiffViewProps> = ({
+  version,
+  currentContent,
+  language,
+  isRestoring,
+  onRestoreVersion,
+  onRestoreHunk,
+  onClose,
+}) => {
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null);
+  const [lineChanges, setLineChanges] = useState<editor.ILineChange[]>([]);
+  const [hunkIndex, setHunkIndex] = useState(0);
+
+  const handleMount = useCallback((diffEditor: MonacoDiffEditor) => {
+    diffEditorRef.current = diffEditor;
+    diffEditor.onDidUpdateDiff(() => {
+      setLineChanges(diffEditor.getLineChanges() || []);
+    });
+  }, []);
+
+  // Keep the selected hunk in range as hunks get restored
+  useEffect(() => {
+    setHunkIndex(index => Math.min(index, Math.max(lineChanges.length - 1, 0)));
+  }, [lineChanges.length]);
+
+  const revealHunk = useCallback((index: number) => {
+    const change = lineChanges[index];
+    if (!change) return;
+    setHunkIndex(index);
+    diffEditorRef.current
+      ?.getModifiedEditor()
+      .revealLineInCenter(Math.max(change.modifiedStartLineNumber, 1));
+  }, [lineChanges]);
+
+  const handleRestoreHunk = () => {
+    const change = lineChanges[hunkIndex];
+    if (change) onRestoreHunk(revertLineChange(version.content, currentContent, change));
+  };
+
+  const change = lineChanges[hunkIndex];
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-2 px-3 py-1 border-b border-discord-border bg-discord-sidebar text-xs">
+        <span className="text-discord-text truncate">
+          Version {version.version} ↔ Current
+          {change && (
+            <span className="text-discord-muted">
+              {' '}· change {hunkIndex + 1} of {lineChanges.length}
+            </span>
+          )}
+          {!change && <span className="text-discord-muted"> · no differences</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => revealHunk(hunkIndex - 1)}
+            disabled={hunkIndex === 0}
+            title="Previous Change"
+          >
+            <ChevronUp className="w-3 h-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => revealHunk(hunkIndex + 1)}
+            disabled={hunkIndex >= lineChanges.length - 1}
+            title="Next Change"
+          >
+            <ChevronDown className="w-3 h-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2"
+            onClick={handleRestoreHunk}
+            disabled={!change || isRestoring}
+            title="Put this change back the way it was in the selected version"
+          >
+            <Undo2 className="w-3 h-3 mr-1" />
+            Restore Change
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2"
+            onClick={onRestoreVersion}
+            disabled={isRestoring}
+            title="Make the selected version the current content"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Restore Version
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Close Diff">
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+      <div className="flex-1">
+        <DiffEditor
+          height="100%"
+          original={version.content}
+          modified={currentContent}
+          language={language}
+          theme="hivecodex-dark"
+          onMount={handleMount}
+          options={{
+            ...defaultEditorOptions,
+            readOnly: true,
+            originalEditable: false,
+            renderSideBySide: true,
+            automaticLayout: true,
+            scrollBeyondLastLine: false,
+            minimap: { enabled: false },
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default VersionDiffView;
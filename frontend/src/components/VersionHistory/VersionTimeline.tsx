@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, RefreshCw, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { fileVersionAPI } from '@/lib/api';
+import socketService from '@/lib/socket';
+import type { FileVersionSummary } from '@/types/filesystem';
+import { getErrorMessage } from '@/utils';
+
+interface VersionTimelineProps {
+  fileId: string;
+  fileName: string;
+  selectedVersion: number | null;
+  refreshKey?: number; // Bump to reload after a save or restore
+  onSelect: (version: FileVersionSummary) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+/**
+ * Retained versions of one file, newest first. Picking an older version opens
+ * it in the diff view against what the editor holds now.
+ */
+export const VersionTimeline: React.FC<VersionTimelineProps> = ({
+  fileId,
+  fileName,
+  selectedVersion,
+  refreshKey,
+  onSelect,
+  onClose,
+}) => {
+  const [versions, setVersions] = useState<FileVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setVersions(await fileVersionAPI.listVersions(fileId));
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, refreshKey]);
+
+  // Restores by others add a version too
+  useEffect(() => {
+    const handleRestored = (data: { fileIds: string[] }) => {
+      if (data.fileIds.includes(fileId)) loadVersions();
+    };
+    socketService.onFileRestored(handleRestored);
+    return () => {
+      socketService.socket?.off('file-restored', handleRestored);
+    };
+  }, [fileId, loadVersions]);
+
+  return (
+    <div className="h-full bg-discord-sidebar flex flex-col border-l border-discord-border">
+      <div className="flex items-center justify-between p-2 border-b border-discord-border">
+        <div className="flex items-center gap-2 min-w-0">
+          <History className="w-4 h-4 text-discord-text flex-shrink-0" />
+          <span className="text-sm font-medium text-discord-text truncate" title={fileName}>
+            {fileName}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={loadVersions}
+            disabled={isLoading}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('w-3 h-3', isLoading && 'animate-spin')} />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Close History">
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {error ? (
+          <div className="p-3 text-xs text-red-400">{error}</div>
+        ) : versions.length === 0 && !isLoading ? (
+          <div className="p-3 text-xs text-discord-muted">No versions yet</div>
+        ) : (
+          <ol className="relative py-2">
+            {versions.map(version => (
+              <li key={version.version}>
+                <button
+                  className={cn(
+                    'w-full text-left px-3 py-2 flex gap-3 hover:bg-discord-sidebar-hover',
+                    selectedVersion === version.version && 'bg-discord-primary/20'
+                  )}
+                  onClick={() => onSelect(version)}
+                  disabled={version.current}
+                  title={version.current ? 'Current content' : 'Compare with current content'}
+                >
+                  <span
+                    className={cn(
+                      'mt-1 w-2 h-2 rounded-full flex-shrink-0',
+                      version.current ? 'bg-green-400' : 'bg-discord-muted'
+                    )}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="flex items-center gap-2">
+                      <span className="text-sm text-discord-text">v{version.version}</span>
+                      {version.current && (
+                        <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                          Current
+                        </Badge>
+                      )}
+                    </span>
+                    <span className="block text-xs text-discord-muted truncate">
+                      {version.modifiedByName || 'Unknown'} ·{' '}
+                      {formatDistanceToNow(new Date(version.modifiedAt), { addSuffix: true })}
+                    </span>
+                    {version.changeDescription && (
+                      <span className="block text-xs text-discord-text truncate" title={version.changeDescription}>
+                        {version.changeDescription}
+                      </span>
+                    )}
+                    <span className="block text-[10px] text-discord-muted">{formatSize(version.size)}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default VersionTimeline;
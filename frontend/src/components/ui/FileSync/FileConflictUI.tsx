@@ -47,6 +47,7 @@ import {
   TabsTrigger,
 } from '../tabs';
 import { Progress } from '../progress';
+import { Textarea } from '../textarea';
 import { cn } from '../../../lib/utils';
 import { fileSyncService } from '../../../services/fileSynchronization';
 import type { FileConflict, ConflictResolution } from '../../../types/filesystem';
@@ -55,6 +56,10 @@ export interface FileConflictUIProps {
   className?: string;
   onConflictResolved?: (conflictId: string, resolution: ConflictResolution) => void;
   showNotifications?: boolean;
+  // Controlled mode: show these conflicts instead of the sync service's, and
+  // hand each resolution (with the chosen content for manual ones) to onResolve
+  conflicts?: FileConflict[];
+  onResolve?: (conflict: FileConflict, resolution: ConflictResolution, content?: string) => Promise<void> | void;
 }
 
 interface ConflictWithMetadata extends FileConflict {
@@ -77,6 +82,34 @@ interface ResolutionOption {
   automated: boolean;
 }
 
+// Offered for conflicts passed in by the caller, e.g. from a branch merge
+const CONTROLLED_RESOLUTION_OPTIONS: ResolutionOption[] = [
+  {
+    id: 'accept-current',
+    label: 'Keep Current',
+    description: 'Keep the version on the current side and drop the incoming changes',
+    icon: Check,
+    risk: 'medium',
+    automated: true
+  },
+  {
+    id: 'accept-incoming',
+    label: 'Take Incoming',
+    description: 'Replace the file with the incoming version',
+    icon: RotateCcw,
+    risk: 'medium',
+    automated: true
+  },
+  {
+    id: 'manual',
+    label: 'Use Edited Result',
+    description: 'Save the result below, after removing the conflict markers by hand',
+    icon: User,
+    risk: 'low',
+    automated: false
+  }
+];
+
 const RESOLUTION_OPTIONS: ResolutionOption[] = [
   {
     id: 'auto',
@@ -131,16 +164,22 @@ const RESOLUTION_OPTIONS: ResolutionOption[] = [
 export const FileConflictUI: React.FC<FileConflictUIProps> = ({
   className = '',
   onConflictResolved,
-  showNotifications = true
+  showNotifications = true,
+  conflicts: providedConflicts,
+  onResolve
 }) => {
-  const [conflicts, setConflicts] = useState<ConflictWithMetadata[]>([]);
+  const isControlled = providedConflicts !== undefined;
+  const [serviceConflicts, setConflicts] = useState<ConflictWithMetadata[]>([]);
   const [selectedConflict, setSelectedConflict] = useState<ConflictWithMetadata | null>(null);
   const [resolutionInProgress, setResolutionInProgress] = useState<Set<string>>(new Set());
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [autoResolveEnabled, setAutoResolveEnabled] = useState(true);
+  const [editedContent, setEditedContent] = useState('');
 
   // Load conflicts from service
   useEffect(() => {
+    if (isControlled) return;
+
     const loadConflicts = () => {
       const rawConflicts = fileSyncService.getConflicts();
       const enrichedConflicts: ConflictWithMetadata[] = rawConflicts.map(conflict => ({
@@ -191,7 +230,11 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
       fileSyncService.off('conflict_detected', handleConflictDetected);
       fileSyncService.off('conflict_resolved', handleConflictResolved);
     };
-  }, [autoResolveEnabled]);
+  }, [autoResolveEnabled, isControlled]);
+
+  const conflicts: ConflictWithMetadata[] = isControlled
+    ? providedConflicts!.map(conflict => ({ ...conflict, autoResolvable: false }))
+    : serviceConflicts;
 
   const determineSeverity = (conflict: FileConflict): 'low' | 'medium' | 'high' | 'critical' => {
     if (conflict.users.length > 3) return 'critical';
@@ -228,7 +271,7 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
     return 'manual';
   };
 
-  const resolveConflict = async (conflictId: string, resolution: ConflictResolution) => {
+  const resolveConflict = async (conflictId: string, resolution: ConflictResolution, content?: string) => {
     setResolutionInProgress(prev => new Set(prev.add(conflictId)));
 
     try {
@@ -236,6 +279,17 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
       const conflict = conflicts.find(c => c.conflictId === conflictId);
       if (!conflict) return;
 
+      if (isControlled) {
+        await onResolve?.(conflict, resolution, content);
+        onConflictResolved?.(conflictId, resolution);
+        setResolutionInProgress(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(conflictId);
+          return newSet;
+        });
+        return;
+      }
+
       // Determine winner for automated resolutions
       let winner;
       if (resolution === 'last_write_wins') {
@@ -295,9 +349,12 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
 
   const openConflictDetails = (conflict: ConflictWithMetadata) => {
     setSelectedConflict(conflict);
+    setEditedContent(conflict.mergedContent ?? conflict.currentVersion?.content ?? '');
     setShowConflictDialog(true);
   };
 
+  const resolutionOptions = isControlled ? CONTROLLED_RESOLUTION_OPTIONS : RESOLUTION_OPTIONS;
+
   if (conflicts.length === 0 && showNotifications) {
     return (
       <div className={cn('p-4', className)}>
@@ -485,6 +542,35 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
                 </CardContent>
               </Card>
 
+              {/* Both versions, and the editable result */}
+              {isControlled && (
+                <Tabs defaultValue="result">
+                  <TabsList>
+                    <TabsTrigger value="result">Result</TabsTrigger>
+                    <TabsTrigger value="current">{selectedConflict.currentVersion.modifiedBy || 'Current'}</TabsTrigger>
+                    <TabsTrigger value="incoming">{selectedConflict.incomingVersion.modifiedBy || 'Incoming'}</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="result">
+                    <Textarea
+                      value={editedContent}
+                      onChange={(e) => setEditedContent(e.target.value)}
+                      className="h-64 font-mono text-xs"
+                      spellCheck={false}
+                    />
+                  </TabsContent>
+                  <TabsContent value="current">
+                    <pre className="h-64 overflow-auto rounded border bg-muted p-2 text-xs">
+                      {selectedConflict.currentVersion.content || '(deleted)'}
+                    </pre>
+                  </TabsContent>
+                  <TabsContent value="incoming">
+                    <pre className="h-64 overflow-auto rounded border bg-muted p-2 text-xs">
+                      {selectedConflict.incomingVersion.content || '(deleted)'}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              )}
+
               {/* Resolution Options */}
               <Card>
                 <CardHeader className="pb-3">
@@ -492,14 +578,18 @@ export const FileConflictUI: React.FC<FileConflictUIProps> = ({
                 </CardHeader>
                 <CardContent>
                   <div className="grid gap-3 md:grid-cols-2">
-                    {RESOLUTION_OPTIONS.map((option) => {
+                    {resolutionOptions.map((option) => {
                       const Icon = option.icon;
                       return (
                         <Card
                           key={option.id}
                           className="cursor-pointer hover:bg-muted/50 transition-colors"
                           onClick={() => {
-                            resolveConflict(selectedConflict.conflictId, option.id);
+                            resolveConflict(
+                              selectedConflict.conflictId,
+                              option.id,
+                              option.id === 'manual' ? editedContent : undefined
+                            );
                             setShowConflictDialog(false);
                           }}
                         >
@@ -0,0 +1,112 @@
+import React, { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { aiService, type AIReviewFinding, type AIReviewRequest, type AIReviewResult } from '@/services/aiService';
+import { getErrorMessage } from '@/utils';
+
+// A finding the editor should show, and fix if asked, once its file is open
+export interface AIReviewRevealRequest {
+  finding: AIReviewFinding;
+  applyFix: boolean;
+  nonce: number; // Tells repeated requests for the same finding apart
+}
+
+export interface AIReviewContextType {
+  review: AIReviewResult | null;
+  isReviewing: boolean;
+  revealRequest: AIReviewRevealRequest | null;
+  startReview: (request: AIReviewRequest) => Promise<void>;
+  cancelReview: () => void;
+  clearReview: () => void;
+  requestReveal: (finding: AIReviewFinding, applyFix?: boolean) => void;
+  completeReveal: () => void;
+  resolveFinding: (findingId: string) => void;
+}
+
+const AIReviewContext = createContext<AIReviewContextType | undefined>(undefined);
+
+interface AIReviewProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * The room's latest AI review, shared by the panel listing its findings and
+ * the editor marking them in files.
+ */
+export const AIReviewProvider: React.FC<AIReviewProviderProps> = ({ children }) => {
+  const [review, setReview] = useState<AIReviewResult | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [revealRequest, setRevealRequest] = useState<AIReviewRevealRequest | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const startReview = useCallback(async (request: AIReviewRequest) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsReviewing(true);
+    try {
+      const response = await aiService.reviewCode(request, controller.signal);
+      const result = response.data!;
+      setReview(result);
+      setRevealRequest(null);
+      const count = result.findings.length;
+      toast.success(count > 0 ? `AI review found ${count} issue${count === 1 ? '' : 's'}` : 'AI review found no issues');
+    } catch (error) {
+      if (!controller.signal.aborted) toast.error(`AI review failed: ${getErrorMessage(error)}`);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsReviewing(false);
+      }
+    }
+  }, []);
+
+  const cancelReview = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsReviewing(false);
+  }, []);
+
+  const clearReview = useCallback(() => {
+    setReview(null);
+    setRevealRequest(null);
+  }, []);
+
+  const requestReveal = useCallback((finding: AIReviewFinding, applyFix = false) => {
+    setRevealRequest(prev => ({ finding, applyFix, nonce: (prev?.nonce ?? 0) + 1 }));
+  }, []);
+
+  const completeReveal = useCallback(() => {
+    setRevealRequest(null);
+  }, []);
+
+  // Fixed or dismissed findings leave the list and the editor
+  const resolveFinding = useCallback((findingId: string) => {
+    setReview(prev => (prev ? { ...prev, findings: prev.findings.filter(finding => finding.id !== findingId) } : prev));
+  }, []);
+
+  const value: AIReviewContextType = {
+    review,
+    isReviewing,
+    revealRequest,
+    startReview,
+    cancelReview,
+    clearReview,
+    requestReveal,
+    completeReveal,
+    resolveFinding,
+  };
+
+  return (
+    <AIReviewContext.Provider value={value}>
+      {children}
+    </AIReviewContext.Provider>
+  );
+};
+
+export const useAIReview = (): AIReviewContextType => {
+  const context = useContext(AIReviewContext);
+  if (context === undefined) {
+    throw new Error('useAIReview must be used within an AIReviewProvider');
+  }
+  return context;
+};
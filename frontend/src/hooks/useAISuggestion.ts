@@ -87,7 +87,7 @@ export const useAISuggestion = (options: AISuggestionOptions = {}) => {
         fileContent,
       };
 
-      const response = await aiService.generateSuggestions(request);
+      const response = await aiService.generateSuggestions(request, abortControllerRef.current.signal);
       
       if (!response.success || !response.data) {
         throw new Error(response.error || 'Failed to generate suggestions');
@@ -1,4 +1,13 @@
 import axios from 'axios';
+import type {
+  FileReplacePreviewResponse,
+  FileReplaceResponse,
+  FileReplaceSelection,
+  FileSearchOptions,
+  FileSearchResponse,
+  FileVersioning,
+  FileVersionSummary,
+} from '@/types/filesystem';
 
 // Use '/api' for all API calls
 export const API_BASE_URL = '/api';
@@ -365,16 +374,18 @@ export const fileAPI = {
     return response.data;
   },
 
+  // Accepts a zip or tar of the project; a git bundle, bare repository or
+  // archive with a .git folder also brings its branches and history
   uploadProject: async (
     roomId: string,
-    zipFile: File,
+    archive: File,
     onProgress?: (progress: number) => void
-  ) => {
+  ): Promise<VcsImportResult> => {
     const formData = new FormData();
-    formData.append('zipFile', zipFile);
+    formData.append('archive', archive);
 
     const response = await api.post(
-      `/rooms/${roomId}/upload-project`,
+      `/rooms/${roomId}/vcs/import`,
       formData,
       {
         headers: {
@@ -391,7 +402,7 @@ export const fileAPI = {
       }
     );
 
-    return response.data;
+    return response.data.data;
   },
 
   bulkOperations: async (
@@ -418,8 +429,8 @@ export const fileAPI = {
     return response.data;
   },
 
-  updateFileContent: async (fileId: string, content: string) => {
-    const response = await api.put(`/files/${fileId}/content`, { content });
+  updateFileContent: async (fileId: string, content: string, changeDescription?: string) => {
+    const response = await api.put(`/files/${fileId}/content`, { content, changeDescription });
     return response.data;
   },
 
@@ -458,6 +469,75 @@ export const fileAPI = {
   },
 };
 
+// File version history API
+export const fileVersionAPI = {
+  listVersions: async (fileId: string): Promise<FileVersionSummary[]> => {
+    const response = await api.get(`/files/${fileId}/versions`);
+    return response.data.data;
+  },
+
+  getVersion: async (fileId: string, version: number): Promise<FileVersioning & FileVersionSummary> => {
+    const response = await api.get(`/files/${fileId}/versions/${version}`);
+    return response.data.data;
+  },
+
+  restoreVersion: async (fileId: string, version: number): Promise<{ fileId: string; version: number }> => {
+    const response = await api.post(`/files/${fileId}/versions/${version}/restore`);
+    return response.data.data;
+  },
+};
+
+const toSearchParams = (query: string, options: FileSearchOptions) => ({
+  q: query,
+  caseSensitive: options.caseSensitive,
+  wholeWord: options.wholeWord,
+  regex: options.useRegex,
+  include: options.include || undefined,
+  exclude: options.exclude || undefined,
+});
+
+// Room-wide search API
+export const searchAPI = {
+  search: async (
+    roomId: string,
+    query: string,
+    options: FileSearchOptions = {}
+  ): Promise<FileSearchResponse> => {
+    const response = await api.get(`/rooms/${roomId}/search`, {
+      params: toSearchParams(query, options),
+    });
+    return response.data.data;
+  },
+
+  previewReplace: async (
+    roomId: string,
+    query: string,
+    replace: string,
+    options: FileSearchOptions = {}
+  ): Promise<FileReplacePreviewResponse> => {
+    const response = await api.post(`/rooms/${roomId}/search/replace/preview`, {
+      ...toSearchParams(query, options),
+      replace,
+    });
+    return response.data.data;
+  },
+
+  replace: async (
+    roomId: string,
+    query: string,
+    replace: string,
+    files: FileReplaceSelection[],
+    options: FileSearchOptions = {}
+  ): Promise<FileReplaceResponse> => {
+    const response = await api.post(`/rooms/${roomId}/search/replace`, {
+      ...toSearchParams(query, options),
+      replace,
+      files,
+    });
+    return response.data.data;
+  },
+};
+
 // Chat API
 export const chatAPI = {
   getRoomMessages: async (roomId: string) => {
@@ -485,4 +565,316 @@ export const chatAPI = {
   },
 };
 
+// Code execution API
+export type ExecutionStatus = 'running' | 'completed' | 'error' | 'timeout';
+
+export interface ExecutionResponse {
+  id: string;
+  language: string;
+  status: ExecutionStatus;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  executionTime: number;
+  truncated: boolean;
+  limitExceeded?: 'timeout' | 'cpu' | 'memory' | 'output';
+  timestamp: string;
+}
+
+export interface ExecutionRuntime {
+  language: string;
+  label: string;
+  extension: string;
+  available: boolean;
+}
+
+export interface RunConfiguration {
+  id: string;
+  name: string;
+  language: string;
+  command: string;
+  args: string[];
+  env: { name: string; value: string }[];
+  workingDirectory?: string;
+}
+
+export type RunConfigurationInput = Omit<RunConfiguration, 'id'>;
+
+export const executionAPI = {
+  getRuntimes: async (): Promise<ExecutionRuntime[]> => {
+    const response = await api.get('/execute/runtimes');
+    return response.data.data.runtimes;
+  },
+
+  execute: async (
+    params: {
+      language: string;
+      code: string;
+      fileName?: string;
+      stdin?: string;
+      roomId?: string;
+    },
+    signal?: AbortSignal
+  ): Promise<ExecutionResponse> => {
+    const response = await api.post('/execute', params, { signal });
+    return response.data.data;
+  },
+
+  executeProject: async (
+    params: { roomId: string; configurationId: string; stdin?: string },
+    signal?: AbortSignal
+  ): Promise<ExecutionResponse> => {
+    const response = await api.post('/execute/project', params, { signal });
+    return response.data.data;
+  },
+};
+
+export const runConfigurationAPI = {
+  list: async (roomId: string): Promise<RunConfiguration[]> => {
+    const response = await api.get(`/rooms/${roomId}/run-configurations`);
+    return response.data.data;
+  },
+
+  create: async (
+    roomId: string,
+    config: RunConfigurationInput
+  ): Promise<RunConfiguration> => {
+    const response = await api.post(`/rooms/${roomId}/run-configurations`, config);
+    return response.data.data;
+  },
+
+  update: async (
+    roomId: string,
+    configId: string,
+    config: RunConfigurationInput
+  ): Promise<RunConfiguration> => {
+    const response = await api.put(
+      `/rooms/${roomId}/run-configurations/${configId}`,
+      config
+    );
+    return response.data.data;
+  },
+
+  delete: async (roomId: string, configId: string): Promise<void> => {
+    await api.delete(`/rooms/${roomId}/run-configurations/${configId}`);
+  },
+};
+
+// Room source control
+export type VcsChangeType = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked';
+
+export interface VcsFileChange {
+  id: string;
+  path: string;
+  type: VcsChangeType;
+  staged: boolean;
+  additions?: number;
+  deletions?: number;
+  oldPath?: string;
+}
+
+export interface VcsStatus {
+  branch: string;
+  head: string | null;
+  changes: VcsFileChange[];
+  merge: { branch: string; conflicts: string[] } | null;
+}
+
+export interface VcsBranch {
+  name: string;
+  commitHash: string | null;
+  current: boolean;
+}
+
+export interface VcsMergeResult {
+  status: 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+  commit?: VcsCommit;
+  conflicts: string[];
+}
+
+export interface VcsConflict {
+  path: string;
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  working: string | null;
+}
+
+export interface VcsCommit {
+  hash: string;
+  shortHash: string;
+  message: string;
+  author: string;
+  authorEmail: string;
+  date: string;
+  parents: string[];
+}
+
+export interface VcsCommitDetail extends VcsCommit {
+  changes: VcsFileChange[];
+}
+
+export type VcsExportFormat = 'bundle' | 'tar';
+
+export interface VcsImportResult {
+  history: boolean;
+  files: number;
+  commits: number;
+  branches: VcsBranch[];
+}
+
+export const versionControlAPI = {
+  getStatus: async (roomId: string): Promise<VcsStatus> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/status`);
+    return response.data.data;
+  },
+
+  stage: async (roomId: string, paths: string[]): Promise<VcsStatus> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/stage`, { paths });
+    return response.data.data;
+  },
+
+  unstage: async (roomId: string, paths: string[]): Promise<VcsStatus> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/unstage`, { paths });
+    return response.data.data;
+  },
+
+  commit: async (roomId: string, message: string): Promise<VcsCommit> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/commit`, { message });
+    return response.data.data;
+  },
+
+  getLog: async (
+    roomId: string,
+    params: { limit?: number; skip?: number } = {}
+  ): Promise<VcsCommit[]> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/log`, { params });
+    return response.data.data;
+  },
+
+  getCommit: async (roomId: string, hash: string): Promise<VcsCommitDetail> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/commits/${hash}`);
+    return response.data.data;
+  },
+
+  listBranches: async (roomId: string): Promise<VcsBranch[]> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/branches`);
+    return response.data.data;
+  },
+
+  createBranch: async (roomId: string, name: string): Promise<VcsBranch> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/branches`, { name });
+    return response.data.data;
+  },
+
+  deleteBranch: async (roomId: string, name: string): Promise<void> => {
+    await api.delete(`/rooms/${roomId}/vcs/branches/${name.split('/').map(encodeURIComponent).join('/')}`);
+  },
+
+  checkout: async (roomId: string, branch: string): Promise<VcsStatus> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/checkout`, { branch });
+    return response.data.data;
+  },
+
+  merge: async (roomId: string, branch: string): Promise<VcsMergeResult> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/merge`, { branch });
+    return response.data.data;
+  },
+
+  getConflicts: async (roomId: string): Promise<VcsConflict[]> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/merge/conflicts`);
+    return response.data.data;
+  },
+
+  resolveConflict: async (
+    roomId: string,
+    path: string,
+    content: string | null
+  ): Promise<VcsStatus> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/merge/resolve`, { path, content });
+    return response.data.data;
+  },
+
+  abortMerge: async (roomId: string): Promise<VcsStatus> => {
+    const response = await api.post(`/rooms/${roomId}/vcs/merge/abort`);
+    return response.data.data;
+  },
+
+  exportRepository: async (roomId: string, format: VcsExportFormat): Promise<Blob> => {
+    const response = await api.get(`/rooms/${roomId}/vcs/export`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+};
+
+// Room shared AI thread; questions are asked over the socket
+export type RoomAIAskPolicy = 'everyone' | 'admins' | 'owner';
+
+export interface RoomAISettings {
+  sharedThread: boolean;
+  askPolicy: RoomAIAskPolicy;
+}
+
+export interface RoomAIThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  userId: string;
+  userName: string; // Who asked; on a reply, who it answers
+  content: string;
+  model?: string;
+  provider?: string;
+  status: 'complete' | 'cancelled' | 'failed';
+  replyTo?: string;
+  timestamp: string;
+}
+
+export interface RoomAIThread {
+  settings: RoomAISettings;
+  messages: RoomAIThreadMessage[];
+  canAsk: boolean;
+  canManage: boolean;
+}
+
+export const aiThreadAPI = {
+  get: async (roomId: string): Promise<RoomAIThread> => {
+    const response = await api.get(`/rooms/${roomId}/ai-thread`);
+    return response.data.data;
+  },
+
+  updateSettings: async (
+    roomId: string,
+    settings: Partial<RoomAISettings>
+  ): Promise<RoomAISettings> => {
+    const response = await api.patch(`/rooms/${roomId}/ai-thread/settings`, settings);
+    return response.data.data;
+  },
+
+  clear: async (roomId: string): Promise<void> => {
+    await api.delete(`/rooms/${roomId}/ai-thread`);
+  },
+};
+
+// How a room's editors stay in sync: operational transforms, or Yjs (CRDT) documents
+export type CollaborationMode = 'ot' | 'crdt';
+
+export interface CollaborationModeState {
+  mode: CollaborationMode;
+  canManage: boolean;
+}
+
+export const collaborationAPI = {
+  get: async (roomId: string): Promise<CollaborationModeState> => {
+    const response = await api.get(`/rooms/${roomId}/collaboration`);
+    return response.data.data;
+  },
+
+  setMode: async (roomId: string, mode: CollaborationMode): Promise<CollaborationMode> => {
+    const response = await api.patch(`/rooms/${roomId}/collaboration`, { mode });
+    return response.data.data.mode;
+  },
+};
+
 export default api;
@@ -1,6 +1,6 @@
 import { editor } from 'monaco-editor';
 import * as monaco from 'monaco-editor';
-import socketService from './socket';
+import socketService, { type CatchUpEvent } from './socket';
 
 export interface TextOperation {
   type: 'retain' | 'insert' | 'delete';
@@ -16,6 +16,8 @@ export interface CollaborativeChange {
   operations: TextOperation[];
   baseVersion: number;
   timestamp: number;
+  serverApplied?: boolean; // Made on the server for userId, e.g. replace in files
+  appliedVersion?: number; // The file's version on the server once it was applied
 }
 
 export interface UserCursor {
@@ -48,6 +50,10 @@ class CollaborationService {
   private editor: editor.IStandaloneCodeEditor | null = null;
   private fileVersions: Map<string, FileVersion> = new Map();
   private pendingOperations: Map<string, CollaborativeChange[]> = new Map();
+  // Each file as the server last confirmed it, without our pending changes; catching up starts here
+  private serverStates: Map<string, { content: string; version: number }> = new Map();
+  // Server changes that arrived ahead of an earlier one, by the version they landed at
+  private heldChanges: Map<string, Map<number, () => void>> = new Map();
   private userCursors: Map<string, UserCursor> = new Map();
   private currentUser: { id: string; name: string } | null = null;
   private roomId: string | null = null;
@@ -58,6 +64,8 @@ class CollaborationService {
   private cursorUpdateTimeout: NodeJS.Timeout | null = null;
   private typingIndicators: Map<string, NodeJS.Timeout> = new Map();
   private currentFileId: string | null = null;
+  private backgroundFileListener: ((fileId: string, content: string) => void) | null = null;
+  private enabled = true;
 
   // User colors for cursors/selections
   private userColors = [
@@ -86,11 +94,29 @@ class CollaborationService {
     this.roomId = roomId;
     // Install listeners once a room is set
     socketService.onCollaborativeChange((change) => this.receiveRemoteChange(change));
-    socketService.onCollaborativeAck(({ fileId, ackVersion }) => this.handleAck(fileId, ackVersion));
+    socketService.onCollaborativeAck(({ fileId, ackVersion, operations }) => this.handleAck(fileId, ackVersion, operations));
     socketService.onFileSync(({ fileId, content, version }) => this.applyFileSync(fileId, content, version));
+    socketService.onCatchUp(data => this.applyCatchUp(data));
+    socketService.onReconnect(() => this.resync());
+  }
+
+  // Off while the room edits through CRDT documents, which then own the editor's content
+  setEnabled(enabled: boolean) {
+    if (this.enabled === enabled) return;
+    this.enabled = enabled;
+    if (!enabled) this.cleanup();
+  }
+
+  // Fetch whatever was missed while offline for every open file
+  resync() {
+    if (!this.enabled) return;
+    for (const [fileId, server] of this.serverStates) {
+      socketService.requestCatchUp(fileId, server.version);
+    }
   }
 
   initializeFile(fileId: string, content: string, version: number = 0) {
+    if (!this.enabled) return;
     console.log('📂 Initializing file:', fileId, 'with version:', version);
     this.fileVersions.set(fileId, {
       fileId,
@@ -98,11 +124,29 @@ class CollaborationService {
       content,
       lastModified: new Date(),
     });
+    this.serverStates.set(fileId, { content, version });
     if (!this.pendingOperations.has(fileId)) {
       this.pendingOperations.set(fileId, []);
     }
   }
 
+  // Replace a file's state wholesale, e.g. after a version was restored on the server
+  resetFile(fileId: string, content: string, version: number) {
+    if (!this.enabled) return;
+    this.initializeFile(fileId, content, version);
+    this.pendingOperations.set(fileId, []);
+    this.drainHeldChanges(fileId);
+    const model = this.editor?.getModel();
+    if (model && fileId === this.currentFileId && model.getValue() !== content) {
+      this.isApplyingRemoteChange = true;
+      try {
+        model.setValue(content);
+      } finally {
+        this.isApplyingRemoteChange = false;
+      }
+    }
+  }
+
   setCurrentFile(fileId: string) {
     this.currentFileId = fileId;
   }
@@ -119,12 +163,12 @@ class CollaborationService {
     }
 
     // Listen for content changes
-    this.editor.onDidChangeModelContent(event => {
+    this.editor.onDidChangeModelContent(() => {
       console.log(
         '📝 Content changed, applying remote change:',
         this.isApplyingRemoteChange
       );
-      if (this.isApplyingRemoteChange) return;
+      if (this.isApplyingRemoteChange || !this.enabled) return;
 
       const model = this.editor?.getModel();
       if (!model) return;
@@ -135,27 +179,28 @@ class CollaborationService {
       }
 
       this.changeTimeout = setTimeout(() => {
-        this.handleLocalChange(event);
+        this.changeTimeout = null;
+        this.handleLocalChange();
       }, 20);
     });
 
     // Listen for cursor position changes
     this.editor.onDidChangeCursorPosition(event => {
-      if (this.isApplyingRemoteChange) return;
+      if (this.isApplyingRemoteChange || !this.enabled) return;
       this.handleCursorChange(event);
     });
 
     // Listen for selection changes
     this.editor.onDidChangeCursorSelection(event => {
-      if (this.isApplyingRemoteChange) return;
+      if (this.isApplyingRemoteChange || !this.enabled) return;
       this.handleSelectionChange(event);
     });
 
     console.log('✅ Editor listeners setup complete');
   }
 
-  private handleLocalChange(event: editor.IModelContentChangedEvent) {
-    console.log('🔥 Local change detected:', event.changes);
+  // Everything typed since the last change was taken goes out as one change, by diffing against it
+  private handleLocalChange() {
     const model = this.editor?.getModel();
     if (!model || !this.currentUser || !this.roomId) {
       console.log('❌ Missing requirements:', {
@@ -178,49 +223,38 @@ class CollaborationService {
       return;
     }
 
-    // Send typing indicator immediately
-    this.sendTypingIndicator(true);
-
-    const operations = this.convertMonacoChangesToOperations(
-      event.changes,
-      model,
-      fileVersion.content.length
-    );
-    // If the net effect is only whitespace/selection changes, skip
-    if (operations.length === 1 && operations[0].type === 'retain') {
-      return;
-    }
+    const operations = this.diffOperations(fileVersion.content, model.getValue());
     if (operations.length === 0) {
       console.log('❌ No operations generated');
       return;
     }
 
+    // Send typing indicator immediately
+    this.sendTypingIndicator(true);
+
     const change: CollaborativeChange = {
       id: this.generateId(),
       userId: this.currentUser.id,
       userName: this.currentUser.name,
       fileId,
       operations,
-      baseVersion: fileVersion.version,
+      baseVersion: this.serverStates.get(fileId)?.version ?? fileVersion.version,
       timestamp: Date.now(),
     };
 
-    console.log('✅ Sending collaborative change:', change);
-
-    // Optimistically update local version and queue pending op
-    const optimisticContent = this.applyOperationsToContent(fileVersion.content, operations);
     this.fileVersions.set(fileId, {
       ...fileVersion,
-      version: fileVersion.version + 1,
-      content: optimisticContent,
+      content: this.applyOperationsToContent(fileVersion.content, operations),
       lastModified: new Date(),
     });
 
+    // One change is in flight at a time; the rest wait for it to be acknowledged
     const queue = this.pendingOperations.get(fileId)!;
     queue.push(change);
-
-    // Send to server
-    socketService.sendCollaborativeChange(change);
+    if (queue.length === 1) {
+      console.log('✅ Sending collaborative change:', change);
+      socketService.sendCollaborativeChange(change);
+    }
 
     // Stop typing indicator after 1 second of no activity
     setTimeout(() => {
@@ -342,65 +376,102 @@ class CollaborationService {
     }, 16); // ~60fps update rate
   }
 
+  // Called with the new content when a change lands in an open file that is not in the editor
+  onBackgroundFileChange(listener: ((fileId: string, content: string) => void) | null) {
+    this.backgroundFileListener = listener;
+  }
+
   applyRemoteChange(change: CollaborativeChange) {
     console.log('📥 Received remote change:', change);
-    if (!this.editor || change.userId === this.currentUser?.id) {
-      console.log('❌ Ignoring change:', {
-        noEditor: !this.editor,
-        ownChange: change.userId === this.currentUser?.id,
-      });
+    // Our own changes come back as acknowledgements, never as these
+    if (!this.enabled || !this.editor) return;
+
+    const server = this.serverStates.get(change.fileId);
+    if (!server || !this.fileVersions.has(change.fileId)) {
+      if (change.fileId === this.getCurrentFileId()) {
+        console.log('❌ No file version, requesting sync');
+        socketService.requestFileSync(change.fileId);
+      }
       return;
     }
 
-    const model = this.editor.getModel();
-    const fileId = this.getCurrentFileId();
-    if (!model || !fileId || fileId !== change.fileId) {
-      console.log('❌ Model/file mismatch:', {
-        model: !!model,
-        fileId,
-        changeFileId: change.fileId,
-      });
-      return;
+    const version = change.appliedVersion || server.version + 1;
+    this.sequence(change.fileId, version, () => this.integrateRemoteChange(change.fileId, change.operations, version));
+  }
+
+  /**
+   * Run `apply` for a change the server made at `version` once every earlier
+   * one has been applied here. Changes can arrive out of order (or twice, when
+   * catching up overlaps the live stream), and transforming them in any other
+   * order than the server's makes the replicas drift apart.
+   */
+  private sequence(fileId: string, version: number, apply: () => void) {
+    const server = this.serverStates.get(fileId);
+    if (!server || version <= server.version) return;
+    let held = this.heldChanges.get(fileId);
+    if (!held) {
+      held = new Map();
+      this.heldChanges.set(fileId, held);
     }
+    held.set(version, apply);
+    this.drainHeldChanges(fileId);
+  }
 
-    const fileVersion = this.fileVersions.get(change.fileId);
-    if (!fileVersion) {
-      console.log('❌ No file version, requesting sync');
-      socketService.requestFileSync(change.fileId);
-      return;
+  // Apply held changes for as long as the next version is among them
+  private drainHeldChanges(fileId: string) {
+    const held = this.heldChanges.get(fileId);
+    let server = this.serverStates.get(fileId);
+    while (held?.size && server) {
+      for (const version of [...held.keys()]) {
+        if (version <= server.version) held.delete(version);
+      }
+      const next = held.get(server.version + 1);
+      if (!next) break;
+      held.delete(server.version + 1);
+      next();
+      server = this.serverStates.get(fileId);
     }
+  }
 
-    this.isApplyingRemoteChange = true;
+  // Someone else's change: carried past our pending ones, which are carried past it in turn
+  private integrateRemoteChange(fileId: string, operations: TextOperation[], version: number) {
+    // Typing the debounce hasn't picked up yet is in the model but not in our state; take it first
+    if (fileId === this.currentFileId && this.changeTimeout) {
+      clearTimeout(this.changeTimeout);
+      this.changeTimeout = null;
+      this.handleLocalChange();
+    }
 
-    try {
-      // Transform incoming op against our pending local ops for this file
-      const queue = this.pendingOperations.get(change.fileId) || [];
-      let transformed = change.operations;
-      for (const local of queue) {
-        transformed = this.transformOperations(transformed, local.operations);
-      }
+    this.advanceServerState(fileId, operations, version);
+    let transformed = operations;
+    for (const local of this.pendingOperations.get(fileId) || []) {
+      const remote = transformed;
+      transformed = this.transformOperations(remote, local.operations, true);
+      local.operations = this.transformOperations(local.operations, remote);
+      local.baseVersion = version;
+    }
 
+    const fileVersion = this.fileVersions.get(fileId)!;
+    const content = this.applyOperationsToContent(fileVersion.content, transformed);
+    this.fileVersions.set(fileId, {
+      ...fileVersion,
+      version,
+      content,
+      lastModified: new Date(),
+    });
+
+    const model = this.editor?.getModel();
+    if (fileId === this.getCurrentFileId() && model) {
       console.log('✅ Applying transformed operations:', transformed);
-      const currentContent = fileVersion.content;
-      const newContent = this.applyOperationsToContent(currentContent, transformed);
       this.isApplyingRemoteChange = true;
       try {
-        model.setValue(newContent);
+        model.setValue(content);
       } finally {
         this.isApplyingRemoteChange = false;
       }
-
-      // Update file version
-      this.fileVersions.set(fileId, {
-        ...fileVersion,
-        version: (change as any).appliedVersion || fileVersion.version + 1,
-        content: newContent,
-        lastModified: new Date(),
-      });
-
-      console.log('✅ Remote change applied successfully');
-    } finally {
-      this.isApplyingRemoteChange = false;
+    } else {
+      // Keep an open but inactive file current, so switching back to it shows the change
+      this.backgroundFileListener?.(fileId, content);
     }
   }
 
@@ -408,35 +479,190 @@ class CollaborationService {
     this.applyRemoteChange(change as CollaborativeChange);
   }
 
-  private handleAck(fileId: string, ackVersion: number) {
-    const queue = this.pendingOperations.get(fileId);
-    if (!queue || queue.length === 0) return;
-    // Drop the first pending operation (assumes FIFO)
-    queue.shift();
-    const file = this.fileVersions.get(fileId);
-    if (file) {
-      this.fileVersions.set(fileId, { ...file, version: ackVersion, lastModified: new Date() });
-    }
+  // A change as the server applied it, carried over to its confirmed state
+  private advanceServerState(fileId: string, operations: TextOperation[], version: number) {
+    const server = this.serverStates.get(fileId);
+    if (!server) return;
+    this.serverStates.set(fileId, {
+      content: this.applyOperationsToContent(server.content, operations),
+      version,
+    });
+  }
+
+  private handleAck(fileId: string, ackVersion: number, operations: TextOperation[]) {
+    if (!this.enabled) return;
+    this.sequence(fileId, ackVersion, () => {
+      const queue = this.pendingOperations.get(fileId);
+      if (!queue?.length) {
+        // Nothing of ours was in flight, so our state is off; start over from the server's
+        socketService.requestFileSync(fileId);
+        return;
+      }
+      // Changes are sent one at a time, so this acknowledges the oldest
+      queue.shift();
+      this.advanceServerState(fileId, operations, ackVersion);
+      const file = this.fileVersions.get(fileId);
+      if (file) {
+        this.fileVersions.set(fileId, { ...file, version: ackVersion, lastModified: new Date() });
+      }
+      if (queue.length) {
+        queue[0].baseVersion = ackVersion;
+        socketService.sendCollaborativeChange(queue[0]);
+      }
+    });
   }
 
   private applyFileSync(fileId: string, content: string, version: number) {
+    if (!this.enabled) return;
+    const server = this.serverStates.get(fileId);
+    if (server && (version < server.version || (version === server.version && content === server.content))) return;
+    if (server && this.pendingOperations.get(fileId)?.length) {
+      // Our unacknowledged edits go on top of it rather than being dropped
+      this.rebaseOnSnapshot(fileId, { content, version });
+      return;
+    }
+
     this.fileVersions.set(fileId, {
       fileId,
       version,
       content,
       lastModified: new Date(),
     });
-    if (this.editor) {
-      const model = this.editor.getModel();
-      if (model) {
+    this.serverStates.set(fileId, { content, version });
+    if (!this.pendingOperations.has(fileId)) {
+      this.pendingOperations.set(fileId, []);
+    }
+    const model = this.editor?.getModel();
+    if (model && fileId === this.getCurrentFileId()) {
+      this.isApplyingRemoteChange = true;
+      try {
+        model.setValue(content);
+      } finally {
+        this.isApplyingRemoteChange = false;
+      }
+    } else {
+      this.backgroundFileListener?.(fileId, content);
+    }
+    this.drainHeldChanges(fileId);
+  }
+
+  private applyCatchUp({ fileId, changes, snapshot }: CatchUpEvent) {
+    if (!this.serverStates.has(fileId) || !this.fileVersions.has(fileId)) return;
+    if (snapshot) {
+      this.rebaseOnSnapshot(fileId, snapshot);
+      return;
+    }
+
+    const queue = this.pendingOperations.get(fileId) || [];
+    for (const entry of changes || []) {
+      if (entry.id && queue[0]?.id === entry.id) {
+        // Ours, applied before the connection dropped but never acknowledged
+        this.handleAck(fileId, entry.version, entry.operations);
+        continue;
+      }
+      this.sequence(fileId, entry.version, () => this.integrateRemoteChange(fileId, entry.operations, entry.version));
+    }
+    // The change in flight may have been lost with the connection; the server skips it if it already has it
+    if (queue.length) {
+      socketService.sendCollaborativeChange(queue[0]);
+    }
+  }
+
+  /**
+   * Start over from the server's content when the changes since our last
+   * confirmed state are gone. Local edits are merged into it and sent again
+   * as a single change; where they overlap the server's, ours win.
+   */
+  private rebaseOnSnapshot(fileId: string, snapshot: { content: string; version: number }) {
+    const server = this.serverStates.get(fileId)!;
+    const model = this.editor?.getModel();
+    const isCurrent = fileId === this.currentFileId && !!model;
+    if (isCurrent && this.changeTimeout) {
+      // The edit it was waiting to send is in the model, so it gets merged below
+      clearTimeout(this.changeTimeout);
+      this.changeTimeout = null;
+    }
+    const local = isCurrent ? model!.getValue() : this.fileVersions.get(fileId)!.content;
+    const merged = this.mergeText(server.content, local, snapshot.content);
+
+    this.serverStates.set(fileId, { ...snapshot });
+    const queue: CollaborativeChange[] = [];
+    const operations = this.diffOperations(snapshot.content, merged);
+    if (operations.length && this.currentUser) {
+      queue.push({
+        id: this.generateId(),
+        userId: this.currentUser.id,
+        userName: this.currentUser.name,
+        fileId,
+        operations,
+        baseVersion: snapshot.version,
+        timestamp: Date.now(),
+      });
+    }
+    this.pendingOperations.set(fileId, queue);
+    this.fileVersions.set(fileId, {
+      fileId,
+      version: snapshot.version,
+      content: merged,
+      lastModified: new Date(),
+    });
+
+    if (isCurrent) {
+      if (model!.getValue() !== merged) {
         this.isApplyingRemoteChange = true;
         try {
-          model.setValue(content);
+          model!.setValue(merged);
         } finally {
           this.isApplyingRemoteChange = false;
         }
       }
+    } else {
+      this.backgroundFileListener?.(fileId, merged);
+    }
+    queue.forEach(change => socketService.sendCollaborativeChange(change));
+    this.drainHeldChanges(fileId);
+  }
+
+  // The span of `from` that differs from `to`, and what `to` has there instead
+  private changedRegion(from: string, to: string): { start: number; end: number; text: string } {
+    let start = 0;
+    while (start < from.length && start < to.length && from[start] === to[start]) start++;
+    let tail = 0;
+    while (
+      tail < from.length - start &&
+      tail < to.length - start &&
+      from[from.length - 1 - tail] === to[to.length - 1 - tail]
+    ) {
+      tail++;
+    }
+    return { start, end: from.length - tail, text: to.slice(start, to.length - tail) };
+  }
+
+  // Three-way merge of two edits to base; each side is taken as one changed region
+  private mergeText(base: string, local: string, remote: string): string {
+    if (local === base) return remote;
+    if (remote === base) return local;
+    const ours = this.changedRegion(base, local);
+    const theirs = this.changedRegion(base, remote);
+    if (ours.end <= theirs.start) {
+      return base.slice(0, ours.start) + ours.text + base.slice(ours.end, theirs.start) + theirs.text + base.slice(theirs.end);
     }
+    if (theirs.end <= ours.start) {
+      return base.slice(0, theirs.start) + theirs.text + base.slice(theirs.end, ours.start) + ours.text + base.slice(ours.end);
+    }
+    // Outside the two overlapping regions all three agree, so this keeps everything but their edit
+    return local;
+  }
+
+  private diffOperations(from: string, to: string): TextOperation[] {
+    if (from === to) return [];
+    const { start, end, text } = this.changedRegion(from, to);
+    const operations: TextOperation[] = [];
+    if (start > 0) operations.push({ type: 'retain', length: start });
+    if (end > start) operations.push({ type: 'delete', length: end - start });
+    if (text) operations.push({ type: 'insert', text });
+    if (from.length > end) operations.push({ type: 'retain', length: from.length - end });
+    return operations;
   }
 
   updateRemoteCursor(cursor: UserCursor) {
@@ -490,45 +716,6 @@ class CollaborationService {
     }
   }
 
-  private convertMonacoChangesToOperations(
-    changes: editor.IModelContentChange[],
-    model: editor.ITextModel,
-    oldContentLength: number
-  ): TextOperation[] {
-    const operations: TextOperation[] = [];
-    let lastOffset = 0;
-
-    // Sort changes by offset to process them in order
-    const sortedChanges = [...changes].sort(
-      (a, b) => a.rangeOffset - b.rangeOffset
-    );
-
-    for (const change of sortedChanges) {
-      const retainLength = change.rangeOffset - lastOffset;
-      if (retainLength > 0) {
-        operations.push({ type: 'retain', length: retainLength });
-      }
-
-      if (change.rangeLength > 0) {
-        operations.push({ type: 'delete', length: change.rangeLength });
-      }
-
-      if (change.text) {
-        operations.push({ type: 'insert', text: change.text });
-      }
-
-      lastOffset = change.rangeOffset + change.rangeLength;
-    }
-
-    // Use OLD document length here; Monaco changes are relative to previous content
-    const finalRetain = oldContentLength - lastOffset;
-    if (finalRetain > 0) {
-      operations.push({ type: 'retain', length: finalRetain });
-    }
-
-    return operations;
-  }
-
   private applyOperationsToContent(content: string, operations: TextOperation[]): string {
     let index = 0;
     let result = '';
@@ -549,63 +736,53 @@ class CollaborationService {
     return result;
   }
 
-  private transformOperations(incoming: TextOperation[], against: TextOperation[]): TextOperation[] {
-    // Transform incoming operation against another operation
-    const a = [...incoming];
-    const b = [...against];
+  /**
+   * Rewrite `operations` to apply after `against`, both made on the same
+   * content; the server transforms the same way. Where both insert at the
+   * same place, `against` goes first unless `insertFirst` is set.
+   */
+  private transformOperations(operations: TextOperation[], against: TextOperation[], insertFirst = false): TextOperation[] {
     const result: TextOperation[] = [];
-    let i = 0, j = 0;
-    let aOffset = 0, bOffset = 0;
-
-    const pushRetain = (len: number) => {
-      if (len <= 0) return;
-      const prev = result[result.length - 1];
-      if (prev && prev.type === 'retain') prev.length = (prev.length || 0) + len;
-      else result.push({ type: 'retain', length: len });
-    };
-    const pushInsert = (text: string) => {
-      if (!text) return;
-      const prev = result[result.length - 1];
-      if (prev && prev.type === 'insert') prev.text = (prev.text || '') + text;
-      else result.push({ type: 'insert', text });
-    };
-    const pushDelete = (len: number) => {
-      if (len <= 0) return;
+    const push = (op: TextOperation) => {
+      const size = op.type === 'insert' ? (op.text || '').length : op.length || 0;
+      if (size <= 0) return;
       const prev = result[result.length - 1];
-      if (prev && prev.type === 'delete') prev.length = (prev.length || 0) + len;
-      else result.push({ type: 'delete', length: len });
+      if (prev?.type === op.type) {
+        if (op.type === 'insert') prev.text = (prev.text || '') + op.text;
+        else prev.length = (prev.length || 0) + size;
+      } else {
+        result.push({ ...op });
+      }
     };
 
-    let aOp = a[i];
-    let bOp = b[j];
-    while (aOp || bOp) {
-      if (bOp && bOp.type === 'insert') {
-        pushRetain((bOp.text || '').length - bOffset);
-        j++; bOp = b[j]; bOffset = 0;
+    let i = 0, j = 0;
+    let aUsed = 0, bUsed = 0;
+    const spanLength = (op: TextOperation | undefined, used: number) =>
+      op && op.type !== 'insert' ? (op.length || 0) - used : Infinity;
+    while (i < operations.length || j < against.length) {
+      const a = operations[i];
+      const b = against[j];
+      if (a?.type === 'insert' && (insertFirst || b?.type !== 'insert')) {
+        push(a);
+        i++;
         continue;
       }
-      if (aOp && aOp.type === 'insert') {
-        pushInsert((aOp.text || '').slice(aOffset));
-        i++; aOp = a[i]; aOffset = 0;
+      if (b?.type === 'insert') {
+        push({ type: 'retain', length: (b.text || '').length });
+        j++;
         continue;
       }
-      const aLen = aOp ? (aOp.type !== 'insert' ? (aOp.length || 0) - aOffset : 0) : 0;
-      const bLen = bOp ? (bOp.type !== 'insert' ? (bOp.length || 0) - bOffset : 0) : 0;
-      if (!bOp || bOp.type === 'retain') {
-        if (aOp && aOp.type === 'retain') { pushRetain(aLen); i++; aOp = a[i]; aOffset = 0; }
-        else if (aOp && aOp.type === 'delete') { pushDelete(aLen); i++; aOp = a[i]; aOffset = 0; }
-        else { j++; bOp = b[j]; bOffset = 0; }
-      } else if (bOp.type === 'delete') {
-        const consume = Math.min(aLen, bLen);
-        if (aOp && aOp.type === 'retain') {
-          // Skip retain over deleted text
-          aOffset += consume;
-        } else if (aOp && aOp.type === 'delete') {
-          // Deleting same region: shrink our delete
-          aOffset += consume;
-        }
-        if (aOffset === (aOp?.length || 0)) { i++; aOp = a[i]; aOffset = 0; }
-        if (consume === bLen) { j++; bOp = b[j]; bOffset = 0; } else { bOffset += consume; }
+      // Past the end of an edit, its text is kept as if retained
+      const length = Math.min(spanLength(a, aUsed), spanLength(b, bUsed));
+      if (length === Infinity) break;
+      if (b?.type !== 'delete') push({ type: a?.type === 'delete' ? 'delete' : 'retain', length });
+      if (a) {
+        aUsed += length;
+        if (aUsed >= (a.length || 0)) { i++; aUsed = 0; }
+      }
+      if (b) {
+        bUsed += length;
+        if (bUsed >= (b.length || 0)) { j++; bUsed = 0; }
       }
     }
     return result;
@@ -798,7 +975,7 @@ class CollaborationService {
     }
   }
 
-  private getUserColor(userId: string): string {
+  getUserColor(userId: string): string {
     const hash = userId
       .split('')
       .reduce((acc, char) => acc + char.charCodeAt(0), 0);
@@ -846,6 +1023,8 @@ class CollaborationService {
     
     this.userCursors.clear();
     this.fileVersions.clear();
+    this.serverStates.clear();
+    this.heldChanges.clear();
     this.pendingOperations.clear();
   }
 }
@@ -0,0 +1,193 @@
+import * as Y from 'yjs';
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate } from 'y-protocols/awareness';
+import { MonacoBinding } from 'y-monaco';
+import type { editor } from 'monaco-editor';
+import type { Socket } from 'socket.io-client';
+import socketService, { type CrdtSyncEvent } from './socket';
+import { collaborationService } from './collaboration';
+
+// Updates that came from the server, which must not be sent back to it
+const REMOTE_ORIGIN = 'remote';
+const TEXT_NAME = 'content';
+
+interface CrdtFile {
+  doc: Y.Doc;
+  text: Y.Text;
+  awareness: Awareness;
+  docId: string | null; // The server's id for the document, once synced
+  synced: boolean;
+}
+
+interface AwarenessChange {
+  added: number[];
+  updated: number[];
+  removed: number[];
+}
+
+/**
+ * Editing for rooms in CRDT mode: every open file is a Yjs document kept in
+ * sync with the server's copy, and the active one is bound to the editor
+ * along with everyone's cursors. Edits made offline stay in the document
+ * and merge when the connection comes back.
+ */
+class CrdtCollaborationService {
+  private editor: editor.IStandaloneCodeEditor | null = null;
+  private files: Map<string, CrdtFile> = new Map();
+  private binding: { fileId: string; binding: MonacoBinding } | null = null;
+  private pendingBindFileId: string | null = null; // Waiting for its document to sync
+  private currentUser: { id: string; name: string } | null = null;
+  private listeningSocket: Socket | null = null;
+  private backgroundFileListener: ((fileId: string, content: string) => void) | null = null;
+  private cursorStyles: HTMLStyleElement | null = null;
+
+  setEditor(editorInstance: editor.IStandaloneCodeEditor) {
+    this.editor = editorInstance;
+  }
+
+  setUser(user: { id: string; name: string }) {
+    this.currentUser = user;
+    this.files.forEach(file => this.setLocalUser(file));
+  }
+
+  // Install the socket listeners, once per connection
+  listen() {
+    const socket = socketService.socket;
+    if (!socket || this.listeningSocket === socket) return;
+    this.listeningSocket = socket;
+    socketService.onCrdtSync(data => this.applySync(data));
+    socketService.onCrdtUpdate(({ fileId, update }) => {
+      const file = this.files.get(fileId);
+      if (file) Y.applyUpdate(file.doc, new Uint8Array(update), REMOTE_ORIGIN);
+    });
+    socketService.onCrdtAwareness(({ fileId, update }) => {
+      const file = this.files.get(fileId);
+      if (file) applyAwarenessUpdate(file.awareness, new Uint8Array(update), REMOTE_ORIGIN);
+    });
+    // The server forgot our documents with the old connection
+    socketService.onReconnect(() => {
+      this.files.forEach((file, fileId) => socketService.joinCrdtDocument(fileId, Y.encodeStateVector(file.doc)));
+    });
+  }
+
+  // Called with the new content when a change lands in an open file that is not in the editor
+  onBackgroundFileChange(listener: ((fileId: string, content: string) => void) | null) {
+    this.backgroundFileListener = listener;
+  }
+
+  // Open documents for exactly these files
+  syncOpenFiles(fileIds: string[]) {
+    for (const fileId of [...this.files.keys()]) {
+      if (!fileIds.includes(fileId)) this.closeFile(fileId);
+    }
+    fileIds.forEach(fileId => {
+      if (!this.files.has(fileId)) this.openFile(fileId);
+    });
+  }
+
+  // Show a file's document in the editor, as soon as it has synced
+  bindEditor(fileId: string | null) {
+    this.binding?.binding.destroy();
+    this.binding = null;
+    this.pendingBindFileId = fileId;
+    if (fileId && this.files.get(fileId)?.synced) this.bind(fileId);
+  }
+
+  cleanup() {
+    this.bindEditor(null);
+    [...this.files.keys()].forEach(fileId => this.closeFile(fileId));
+    this.cursorStyles?.remove();
+    this.cursorStyles = null;
+  }
+
+  private openFile(fileId: string) {
+    const doc = new Y.Doc();
+    const file: CrdtFile = { doc, text: doc.getText(TEXT_NAME), awareness: new Awareness(doc), docId: null, synced: false };
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE_ORIGIN) socketService.sendCrdtUpdate(fileId, update);
+      if (this.binding?.fileId !== fileId) this.backgroundFileListener?.(fileId, file.text.toString());
+    });
+    file.awareness.on('update', ({ added, updated, removed }: AwarenessChange, origin: unknown) => {
+      if (origin === 'local') {
+        socketService.sendCrdtAwareness(fileId, encodeAwarenessUpdate(file.awareness, [...added, ...updated, ...removed]));
+      }
+      this.renderCursorStyles();
+    });
+    this.setLocalUser(file);
+    this.files.set(fileId, file);
+    socketService.joinCrdtDocument(fileId, Y.encodeStateVector(doc));
+  }
+
+  private closeFile(fileId: string) {
+    const file = this.files.get(fileId);
+    if (!file) return;
+    if (this.binding?.fileId === fileId) this.bindEditor(null);
+    this.files.delete(fileId);
+    file.awareness.destroy();
+    file.doc.destroy();
+    socketService.leaveCrdtDocument(fileId);
+  }
+
+  private applySync({ fileId, docId, update, stateVector, awareness }: CrdtSyncEvent) {
+    const file = this.files.get(fileId);
+    if (!file) return;
+    if (file.docId && file.docId !== docId) {
+      // The server started the document over; merging our old copy into it would duplicate its text
+      const wasBound = this.binding?.fileId === fileId || this.pendingBindFileId === fileId;
+      this.closeFile(fileId);
+      this.openFile(fileId);
+      if (wasBound) this.pendingBindFileId = fileId;
+      return;
+    }
+
+    file.docId = docId;
+    Y.applyUpdate(file.doc, new Uint8Array(update), REMOTE_ORIGIN);
+    if (awareness) applyAwarenessUpdate(file.awareness, new Uint8Array(awareness), REMOTE_ORIGIN);
+    // Whatever we edited while offline, deletions included
+    socketService.sendCrdtUpdate(fileId, Y.encodeStateAsUpdate(file.doc, new Uint8Array(stateVector)));
+    socketService.sendCrdtAwareness(fileId, encodeAwarenessUpdate(file.awareness, [file.doc.clientID]));
+    file.synced = true;
+
+    if (this.pendingBindFileId === fileId) this.bind(fileId);
+    else if (this.binding?.fileId !== fileId) this.backgroundFileListener?.(fileId, file.text.toString());
+  }
+
+  private bind(fileId: string) {
+    const file = this.files.get(fileId);
+    const model = this.editor?.getModel();
+    if (!this.editor || !model || !file) return;
+    this.pendingBindFileId = null;
+    this.binding = { fileId, binding: new MonacoBinding(file.text, model, new Set([this.editor]), file.awareness) };
+  }
+
+  private setLocalUser(file: CrdtFile) {
+    if (!this.currentUser) return;
+    file.awareness.setLocalStateField('user', {
+      id: this.currentUser.id,
+      name: this.currentUser.name,
+      color: collaborationService.getUserColor(this.currentUser.id),
+    });
+  }
+
+  // The binding marks remote selections with per-client classes; give each its user's color and name
+  private renderCursorStyles() {
+    const rules: string[] = [];
+    this.files.forEach(file => {
+      file.awareness.getStates().forEach((state, clientId) => {
+        const user = state.user;
+        if (clientId === file.doc.clientID || !user) return;
+        const name = JSON.stringify(String(user.name || 'User').replace(/[\n\r]/g, ' '));
+        rules.push(
+          `.yRemoteSelection-${clientId}, .yRemoteSelectionHead-${clientId} {` +
+            ` --cursor-color: ${user.color}; --selection-color: ${user.color}33; --cursor-name: ${name}; }`
+        );
+      });
+    });
+    if (!this.cursorStyles) {
+      this.cursorStyles = document.createElement('style');
+      document.head.appendChild(this.cursorStyles);
+    }
+    this.cursorStyles.textContent = rules.join('\n');
+  }
+}
+
+export const crdtCollaborationService = new CrdtCollaborationService();
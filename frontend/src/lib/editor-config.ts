@@ -283,8 +283,8 @@ export const configureMonaco = (monaco: Monaco) => {
     }
   });
 
-  // TODO: Re-enable AI completion provider after basic editor is working
-  // registerAICompletionProvider(monaco);
+  // AI ghost text completions
+  registerAICompletionProvider(monaco);
 };
 
 export const defaultEditorOptions: editor.IStandaloneEditorConstructionOptions = {
@@ -346,6 +346,9 @@ export const defaultEditorOptions: editor.IStandaloneEditorConstructionOptions =
     comments: "off",
     strings: "off"
   },
+  inlineSuggest: {
+    enabled: true
+  },
   
   // Formatting
   formatOnPaste: true,
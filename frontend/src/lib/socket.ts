@@ -1,11 +1,132 @@
 import io, { Socket } from 'socket.io-client';
-import { Message, Participant, FileItem, User } from './api';
-import { CollaborativeChange, UserCursor } from './collaboration';
+import { Message, Participant, FileItem, User, ExecutionResponse, RoomAISettings, RoomAIThreadMessage, CollaborationMode } from './api';
+import { CollaborativeChange, TextOperation, UserCursor } from './collaboration';
 import { SOCKET_EVENTS } from '@/constants';
 
 // Use localhost for development - change to LAN IP if needed for cross-device testing
 const SOCKET_URL = 'http://localhost:5000';
 
+export interface ExecutionStartParams {
+  language?: string;
+  code?: string;
+  fileName?: string;
+  configurationId?: string;
+  stdin?: string;
+  interactive?: boolean;
+  shared?: boolean;
+}
+
+export interface ExecutionStartedEvent {
+  executionId: string;
+  roomId?: string;
+  userId: string;
+  userName: string;
+  fileName: string;
+  language: string;
+  interactive: boolean;
+  shared: boolean;
+  timestamp: string;
+}
+
+export interface ExecutionOutputEvent {
+  executionId: string;
+  stream: 'stdout' | 'stderr' | 'stdin';
+  chunk: string;
+  userName?: string;
+}
+
+export interface ExecutionFinishedEvent {
+  executionId: string;
+  result?: ExecutionResponse;
+  error?: string;
+}
+
+// Sent when the server rewrites a room's file tree (branch checkout, merge)
+export interface SyncFileStructureEvent {
+  roomId: string;
+  reason: string;
+  branch?: string;
+  userId?: string;
+  userName?: string;
+  timestamp: string;
+}
+
+export interface FileRestoredEvent {
+  roomId: string;
+  fileId: string;
+  fileIds: string[]; // Every id the file has had; open tabs may hold any of them
+  content: string;
+  version: number;
+  restoredVersion: number;
+  userId: string;
+  userName?: string;
+  timestamp: string;
+}
+
+// What a client missed since baseVersion: the changes in order, or the whole
+// file when the server no longer has them all
+export interface CatchUpEvent {
+  fileId: string;
+  baseVersion: number;
+  version: number;
+  changes?: { id?: string; operations: TextOperation[]; version: number }[];
+  snapshot?: { content: string; version: number };
+}
+
+export interface CollaborationModeEvent {
+  roomId: string;
+  mode: CollaborationMode;
+  userId: string;
+  userName?: string;
+}
+
+// Binary fields arrive as ArrayBuffers in the browser
+export interface CrdtSyncEvent {
+  fileId: string;
+  docId: string; // A different id than before means the server started the document over
+  update: ArrayBuffer;
+  stateVector: ArrayBuffer;
+  awareness: ArrayBuffer | null;
+}
+
+export interface CrdtUpdateEvent {
+  fileId: string;
+  update: ArrayBuffer;
+}
+
+export interface AIThreadAskParams {
+  message: string;
+  model?: string;
+  activeFileId?: string;
+  activeFileContent?: string;
+  cursorLine?: number;
+}
+
+export interface AIThreadMessageEvent {
+  roomId: string;
+  message: RoomAIThreadMessage;
+}
+
+// Part of the reply to a question, streamed to the whole room
+export interface AIThreadChunkEvent {
+  roomId: string;
+  questionId: string;
+  text: string;
+}
+
+export interface AIThreadSettingsEvent {
+  roomId: string;
+  settings: RoomAISettings;
+  userId: string;
+  userName?: string;
+}
+
+export interface AIThreadClearedEvent {
+  roomId: string;
+  userId: string;
+  userName?: string;
+}
+
 class SocketService {
   socket: Socket | null = null;
   private roomId: string | null = null;
@@ -84,22 +205,21 @@ class SocketService {
       console.error(`🔗 Attempted URL: ${SOCKET_URL}`);
     });
 
-    this.socket.on('reconnect', (attemptNumber) => {
+    // Reconnection events come from the manager, not the socket
+    this.socket.io.on('reconnect', (attemptNumber) => {
       console.log(`Socket reconnected after ${attemptNumber} attempts`);
-      // Rejoin room if we were in one
+      // Rejoin room if we were in one; the server forgot it with the old connection
       if (this.roomId) {
-        const currentUser = JSON.parse(localStorage.getItem('user') || '{}');
-        if (currentUser._id) {
-          this.joinRoom(this.roomId, currentUser);
-        }
+        this.lastJoinAttempt = null;
+        this.joinRoom(this.roomId);
       }
     });
 
-    this.socket.on('reconnect_error', (error) => {
+    this.socket.io.on('reconnect_error', (error) => {
       console.error('Socket reconnection error:', error);
     });
 
-    this.socket.on('reconnect_failed', () => {
+    this.socket.io.on('reconnect_failed', () => {
       console.error('Socket reconnection failed');
     });
 
@@ -388,12 +508,34 @@ class SocketService {
     }
   }
 
-  onCollaborativeAck(callback: (data: { fileId: string; ackVersion: number }) => void) {
+  // The operations are the change as the server applied it, after transforming it
+  onCollaborativeAck(
+    callback: (data: { fileId: string; ackVersion: number; operations: TextOperation[] }) => void
+  ) {
     if (this.socket) {
       this.socket.on('collaborative-change-ack', callback);
     }
   }
 
+  requestCatchUp(fileId: string, baseVersion: number) {
+    if (this.socket && this.roomId) {
+      this.socket.emit('request-catch-up', { fileId, baseVersion });
+    }
+  }
+
+  onCatchUp(callback: (data: CatchUpEvent) => void) {
+    if (this.socket) {
+      this.socket.on('collaborative-catch-up', callback);
+    }
+  }
+
+  // After the room has been rejoined
+  onReconnect(callback: () => void) {
+    if (this.socket) {
+      this.socket.io.on('reconnect', callback);
+    }
+  }
+
   sendCursorUpdate(cursor: UserCursor) {
     if (this.socket && this.roomId) {
       this.socket.emit('cursor-update', { ...cursor, roomId: this.roomId });
@@ -410,6 +552,56 @@ class SocketService {
     }
   }
 
+  // CRDT documents, for rooms in CRDT mode
+  joinCrdtDocument(fileId: string, stateVector: Uint8Array) {
+    if (this.socket && this.roomId) {
+      this.socket.emit('crdt-join', { fileId, stateVector });
+    }
+  }
+
+  // Dropped while offline; rejoining sends whatever the server is missing
+  sendCrdtUpdate(fileId: string, update: Uint8Array) {
+    if (this.socket?.connected && this.roomId) {
+      this.socket.emit('crdt-update', { fileId, update });
+    }
+  }
+
+  sendCrdtAwareness(fileId: string, update: Uint8Array) {
+    if (this.socket?.connected && this.roomId) {
+      this.socket.emit('crdt-awareness', { fileId, update });
+    }
+  }
+
+  leaveCrdtDocument(fileId: string) {
+    if (this.socket && this.roomId) {
+      this.socket.emit('crdt-leave', { fileId });
+    }
+  }
+
+  onCrdtSync(callback: (data: CrdtSyncEvent) => void) {
+    if (this.socket) {
+      this.socket.on('crdt-sync', callback);
+    }
+  }
+
+  onCrdtUpdate(callback: (data: CrdtUpdateEvent) => void) {
+    if (this.socket) {
+      this.socket.on('crdt-update', callback);
+    }
+  }
+
+  onCrdtAwareness(callback: (data: CrdtUpdateEvent) => void) {
+    if (this.socket) {
+      this.socket.on('crdt-awareness', callback);
+    }
+  }
+
+  onCollaborationMode(callback: (data: CollaborationModeEvent) => void) {
+    if (this.socket) {
+      this.socket.on('collaboration-mode', callback);
+    }
+  }
+
   requestFileSync(fileId: string) {
     if (this.socket && this.roomId) {
       this.socket.emit('request-file-sync', { fileId });
@@ -446,6 +638,125 @@ class SocketService {
       this.socket.emit('file-sync', data);
     }
   }
+
+  // Code execution
+  startExecution(params: ExecutionStartParams): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+      this.socket.emit(
+        'execution-start',
+        params,
+        (response: { success: boolean; executionId?: string; error?: string }) => {
+          if (response.success && response.executionId) {
+            resolve(response.executionId);
+          } else {
+            reject(new Error(response.error || 'Failed to start execution'));
+          }
+        }
+      );
+    });
+  }
+
+  cancelExecution(executionId: string) {
+    if (this.socket) {
+      this.socket.emit('execution-cancel', { executionId });
+    }
+  }
+
+  sendExecutionInput(executionId: string, data: string) {
+    if (this.socket) {
+      this.socket.emit('execution-input', { executionId, data });
+    }
+  }
+
+  endExecutionInput(executionId: string) {
+    if (this.socket) {
+      this.socket.emit('execution-input-end', { executionId });
+    }
+  }
+
+  onExecutionStarted(callback: (data: ExecutionStartedEvent) => void) {
+    if (this.socket) {
+      this.socket.on('execution-started', callback);
+    }
+  }
+
+  onExecutionOutput(callback: (data: ExecutionOutputEvent) => void) {
+    if (this.socket) {
+      this.socket.on('execution-output', callback);
+    }
+  }
+
+  onExecutionFinished(callback: (data: ExecutionFinishedEvent) => void) {
+    if (this.socket) {
+      this.socket.on('execution-finished', callback);
+    }
+  }
+
+  onSyncFileStructure(callback: (data: SyncFileStructureEvent) => void) {
+    if (this.socket) {
+      this.socket.on('sync-file-structure', callback);
+    }
+  }
+
+  onFileRestored(callback: (data: FileRestoredEvent) => void) {
+    if (this.socket) {
+      this.socket.on('file-restored', callback);
+    }
+  }
+  // Room shared AI thread
+  askRoomAI(params: AIThreadAskParams): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+      this.socket.emit(
+        'ai-thread-ask',
+        params,
+        (response: { success: boolean; questionId?: string; error?: string }) => {
+          if (response.success && response.questionId) {
+            resolve(response.questionId);
+          } else {
+            reject(new Error(response.error || 'Failed to ask the AI'));
+          }
+        }
+      );
+    });
+  }
+
+  cancelRoomAI(questionId: string) {
+    if (this.socket) {
+      this.socket.emit('ai-thread-cancel', { questionId });
+    }
+  }
+
+  onAIThreadMessage(callback: (data: AIThreadMessageEvent) => void) {
+    if (this.socket) {
+      this.socket.on('ai-thread-message', callback);
+    }
+  }
+
+  onAIThreadChunk(callback: (data: AIThreadChunkEvent) => void) {
+    if (this.socket) {
+      this.socket.on('ai-thread-chunk', callback);
+    }
+  }
+
+  onAIThreadSettings(callback: (data: AIThreadSettingsEvent) => void) {
+    if (this.socket) {
+      this.socket.on('ai-thread-settings', callback);
+    }
+  }
+
+  onAIThreadCleared(callback: (data: AIThreadClearedEvent) => void) {
+    if (this.socket) {
+      this.socket.on('ai-thread-cleared', callback);
+    }
+  }
 }
 
 const socketService = SocketService.getInstance();
@@ -1,23 +1,40 @@
 // AI Service for Frontend
 export interface AICompletionRequest {
   content: string;
+  // Fill in the middle: the text before and after the cursor, used instead of content
+  prefix?: string;
+  suffix?: string;
+  path?: string;
   language?: string;
   context?: string;
   cursorPosition?: number;
   fileContent?: string;
+  provider?: string;
+  model?: string; // A model id from getModels(); defaults to the server's model
 }
 
 export interface AICompletionResponse {
   suggestions: string[];
   confidence: number;
   model: string;
+  provider: string;
+  usage: AIUsage;
   timestamp: string;
+  cached?: boolean; // Served from the server's completion cache
 }
 
 export interface AIChatRequest {
   message: string;
   context?: string;
-  conversationId?: string;
+  conversationId?: string; // Continues a stored conversation
+  roomId?: string;
+  // Room files are added as context when signed in and chatting from a room
+  activeFileId?: string;
+  activeFileContent?: string;
+  cursorLine?: number;
+  projectContext?: boolean; // false leaves room files out
+  provider?: string;
+  model?: string;
   attachments?: {
     fileId: string;
     content: string;
@@ -28,14 +45,179 @@ export interface AIChatRequest {
 export interface AIChatResponse {
   response: string;
   conversationId: string;
+  title?: string; // Set when the conversation is stored
   model: string;
+  provider: string;
+  usage: AIUsage;
+  timestamp: string;
+  sources?: AISource[]; // Room files given to the model
+}
+
+// Estimated tokens a request used
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type AIQuotaPeriod = 'day' | 'month';
+
+// Limits on a room's AI usage per period; null is unlimited
+export interface RoomAIQuota {
+  period: AIQuotaPeriod;
+  roomRequests: number | null;
+  roomTokens: number | null;
+  memberRequests: number | null; // Each participant's share
+  memberTokens: number | null;
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  tokens: number;
+}
+
+export interface AIUserUsage {
+  today: AIUsageTotals;
+  month: AIUsageTotals;
+  dailyLimit: { requests: number | null; tokens: number | null };
+  days: ({ date: string } & AIUsageTotals)[]; // Last 30 UTC days, oldest first
+  rooms: ({ roomId: string; name: string } & AIUsageTotals)[];
+  models: ({ provider: string; model: string } & AIUsageTotals)[];
+}
+
+export interface AIRoomUsage {
+  roomId: string;
+  quota: RoomAIQuota;
+  periodStart: string;
+  total: AIUsageTotals;
+  members: ({ userId: string; name: string } & AIUsageTotals)[];
+  canManage: boolean;
+}
+
+export interface AISource {
+  fileId: string;
+  path: string;
+  reason: 'open' | 'import' | 'match';
+  cited: boolean; // The reply mentions the file
+}
+
+export interface AIEditRequest {
+  message: string;
+  roomId: string;
+  activeFileId?: string;
+  activeFileContent?: string;
+  cursorLine?: number;
+  provider?: string;
+  model?: string;
+}
+
+export interface AIEditHunk {
+  oldStart: number;
+  lines: string[]; // Each prefixed with " ", "-" or "+"
+}
+
+export interface AIProposedHunk extends AIEditHunk {
+  applies: boolean; // Whether the hunk fits the file as it is now
+}
+
+export interface AIProposedFileEdit {
+  path: string;
+  fileId: string | null; // null when the edit creates the file
+  hunks: AIProposedHunk[];
+}
+
+export interface AIEditProposal {
+  summary: string;
+  files: AIProposedFileEdit[];
+  skipped: { path: string; reason: string }[];
+  model: string;
+  provider: string;
+  timestamp: string;
+}
+
+export interface AIEditApplyFile {
+  path: string;
+  create: boolean;
+  hunks: AIEditHunk[];
+}
+
+export interface AIEditApplyResponse {
+  files: { path: string; fileId: string | null; created: boolean; hunks: number; version?: number }[];
+}
+
+export type AIReviewScope = 'changes' | 'selection';
+
+export type AIReviewSeverity = 'error' | 'warning' | 'info';
+
+export interface AIReviewRequest {
+  roomId: string;
+  scope: AIReviewScope;
+  selection?: {
+    fileId: string;
+    startLine: number; // 1-based, inclusive
+    endLine: number;
+    content?: string; // The file as shown in the editor
+  };
+  provider?: string;
+  model?: string;
+}
+
+export interface AIReviewFinding {
+  id: string;
+  path: string;
+  fileId: string;
+  startLine: number;
+  endLine: number;
+  severity: AIReviewSeverity;
+  message: string;
+  original: string; // The lines as reviewed; a fix applies only while they are unchanged
+  fix?: string; // Replacement for lines startLine to endLine
+}
+
+export interface AIReviewResult {
+  scope: AIReviewScope;
+  summary: string;
+  findings: AIReviewFinding[];
+  files: string[];
+  skipped: { path: string; reason: string }[];
+  model: string;
+  provider: string;
   timestamp: string;
 }
 
 export interface AIModel {
+  id: string; // "<provider>:<model>"
+  provider: string;
+  name: string;
+  available: boolean;
+}
+
+export interface AIProviderStatus {
   name: string;
-  size?: string;
-  modified?: string;
+  label: string;
+  connected: boolean;
+}
+
+export interface AIConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  model?: string;
+  provider?: string;
+  timestamp: string;
+}
+
+export interface AIConversationSummary {
+  id: string;
+  title: string;
+  roomId: string | null;
+  messageCount: number;
+  lastMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIConversationDetail extends Omit<AIConversationSummary, 'lastMessage'> {
+  messages: AIConversationMessage[];
 }
 
 export interface APIResponse<T> {
@@ -52,6 +234,15 @@ class AIService {
     this.baseURL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
   }
 
+  // AI routes need a signed-in user, who is accounted for the usage
+  private getHeaders(): Record<string, string> {
+    const token = localStorage.getItem('token');
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+    };
+  }
+
   private async makeRequest<T>(
     endpoint: string, 
     options: RequestInit = {}
@@ -59,19 +250,21 @@ class AIService {
     try {
       const response = await fetch(`${this.baseURL}/api/ai${endpoint}`, {
         headers: {
-          'Content-Type': 'application/json',
+          ...this.getHeaders(),
           ...options.headers,
         },
         ...options,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
       return await response.json();
     } catch (error) {
-      console.error('AI Service request failed:', error);
+      // Cancelled requests were superseded, not failed
+      if (!options.signal?.aborted) console.error('AI Service request failed:', error);
       throw error;
     }
   }
@@ -90,19 +283,20 @@ class AIService {
 
   async getModels() {
     return this.makeRequest<{
-      models: string[];
-      currentModel: string;
+      models: AIModel[];
+      currentModel: string | null;
+      providers: AIProviderStatus[];
       config: {
-        host: string;
-        port: number;
+        provider: string | null;
       };
     }>('/models');
   }
 
-  async generateSuggestions(request: AICompletionRequest): Promise<APIResponse<AICompletionResponse>> {
+  async generateSuggestions(request: AICompletionRequest, signal?: AbortSignal): Promise<APIResponse<AICompletionResponse>> {
     return this.makeRequest<AICompletionResponse>('/suggestions', {
       method: 'POST',
       body: JSON.stringify(request),
+      signal,
     });
   }
 
@@ -113,6 +307,115 @@ class AIService {
     });
   }
 
+  /**
+   * Chat with the reply streamed: onChunk receives text as it is generated
+   * and the full response resolves at the end. Aborting the signal cancels
+   * generation on the server.
+   */
+  async streamChat(
+    request: AIChatRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<AIChatResponse> {
+    const response = await fetch(`${this.baseURL}/api/ai/chat/stream`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(request),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Server-sent events separated by blank lines: "chunk", then "done" or "error"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const event = /^event: (.*)$/m.exec(block)?.[1];
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        if (!event || data === undefined) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'chunk') onChunk(payload.text);
+        else if (event === 'done') return payload as AIChatResponse;
+        else if (event === 'error') throw new Error(payload.error);
+      }
+    }
+    throw new Error('The AI response ended unexpectedly');
+  }
+
+  // Changes to room files proposed by the model, to review hunk by hunk
+  async proposeEdits(request: AIEditRequest, signal?: AbortSignal) {
+    return this.makeRequest<AIEditProposal>('/edits', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  // Findings on the room's uncommitted changes, or on a selection
+  async reviewCode(request: AIReviewRequest, signal?: AbortSignal) {
+    return this.makeRequest<AIReviewResult>('/review', {
+      method: 'POST',
+      body: JSON.stringify(request),
+      signal,
+    });
+  }
+
+  // Apply the accepted hunks for everyone in the room
+  async applyEdits(roomId: string, files: AIEditApplyFile[], summary?: string) {
+    return this.makeRequest<AIEditApplyResponse>('/edits/apply', {
+      method: 'POST',
+      body: JSON.stringify({ roomId, files, summary }),
+    });
+  }
+
+  async listConversations(roomId?: string) {
+    const query = roomId ? `?roomId=${encodeURIComponent(roomId)}` : '';
+    return this.makeRequest<AIConversationSummary[]>(`/conversations${query}`);
+  }
+
+  async getConversation(conversationId: string) {
+    return this.makeRequest<AIConversationDetail>(`/conversations/${conversationId}`);
+  }
+
+  async renameConversation(conversationId: string, title: string) {
+    return this.makeRequest<AIConversationSummary>(`/conversations/${conversationId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  async deleteConversation(conversationId: string) {
+    return this.makeRequest<null>(`/conversations/${conversationId}`, { method: 'DELETE' });
+  }
+
+  async getUsage() {
+    return this.makeRequest<AIUserUsage>('/usage');
+  }
+
+  async getRoomUsage(roomId: string) {
+    return this.makeRequest<AIRoomUsage>(`/usage/rooms/${roomId}`);
+  }
+
+  // Owners and admins only; fields left out keep their value
+  async updateRoomQuota(roomId: string, quota: Partial<RoomAIQuota>) {
+    return this.makeRequest<RoomAIQuota>(`/usage/rooms/${roomId}/quota`, {
+      method: 'PATCH',
+      body: JSON.stringify(quota),
+    });
+  }
+
   async testConnection(): Promise<APIResponse<AICompletionResponse & { message: string }>> {
     return this.makeRequest<AICompletionResponse & { message: string }>('/test', {
       method: 'POST',
@@ -57,6 +57,7 @@ export interface FileConflict {
   };
   autoResolvable: boolean;
   suggestedResolution?: ConflictResolution;
+  mergedContent?: string; // Both versions combined, with conflict markers
   type?: string;
   path?: string;
   conflictId?: string;
@@ -100,6 +101,79 @@ export interface FileTreeNode {
   };
 }
 
+export interface FileVersioning {
+  fileId: string;
+  version: number;
+  content: string;
+  modifiedBy: string | null;
+  modifiedAt: string;
+  changeDescription?: string;
+}
+
+// A retained version as listed in a file's timeline, without its content
+export interface FileVersionSummary extends Omit<FileVersioning, 'content'> {
+  modifiedByName?: string;
+  size: number;
+  current: boolean;
+}
+
+export interface FileSearchMatch {
+  line: number; // 1-based
+  column: number; // 1-based
+  length: number;
+  text: string;
+  context: string; // The line around the match, clipped when long
+  contextOffset: number; // Where the match starts within context
+}
+
+export interface FileSearchResult {
+  fileId: string;
+  fileName: string;
+  filePath: string;
+  matches: FileSearchMatch[];
+  roomId: string;
+  lastModified: string;
+}
+
+export interface FileSearchOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  useRegex?: boolean;
+  include?: string; // Comma separated globs
+  exclude?: string;
+}
+
+export interface FileSearchResponse {
+  results: FileSearchResult[];
+  totalMatches: number;
+  filesSearched: number;
+  truncated: boolean;
+}
+
+export interface FileReplaceMatch extends FileSearchMatch {
+  index: number; // Offset in the file; identifies the match when replacing
+  replacement: string; // With regex groups expanded
+}
+
+export interface FileReplacePreview extends Omit<FileSearchResult, 'matches'> {
+  matches: FileReplaceMatch[];
+}
+
+export interface FileReplacePreviewResponse extends Omit<FileSearchResponse, 'results'> {
+  results: FileReplacePreview[];
+}
+
+// A file to replace in; only the listed match offsets when given
+export interface FileReplaceSelection {
+  fileId: string;
+  matches?: number[];
+}
+
+export interface FileReplaceResponse {
+  files: { fileId: string; filePath: string; replaced: number; version: number }[];
+  totalReplaced: number;
+}
+
 export interface FileSyncStatus {
   fileId: string;
   status: 'synced' | 'syncing' | 'conflict' | 'error' | 'offline';
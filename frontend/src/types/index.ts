@@ -71,6 +71,7 @@ export interface APIError {
   response?: {
     data?: {
       message?: string;
+      error?: string;
     };
     status?: number;
   };
@@ -59,6 +59,10 @@ export const getErrorMessage = (error: unknown): string => {
     return apiError.response.data.message;
   }
 
+  if (apiError?.response?.data?.error) {
+    return apiError.response.data.error;
+  }
+
   if (apiError?.message) {
     return apiError.message;
   }